@@ -1,4 +1,5 @@
 import { logger } from '~/shared/logger/logger.server.ts';
+import { isPrivateStorageKey } from '~/shared/storage/storage-utils.ts';
 import { StorageService } from '~/shared/storage/storage.server.ts';
 import type { Route } from './+types/storage.ts';
 
@@ -18,7 +19,7 @@ function buildResponseHeaders(contentType: string, contentLength?: number | null
 
 export const loader = async ({ params }: Route.LoaderArgs) => {
   const key = params['*'];
-  if (!key) throw new Response('File not found', { status: 404 });
+  if (!key || isPrivateStorageKey(key)) throw new Response('File not found', { status: 404 });
 
   try {
     const storage = StorageService.create();
@@ -0,0 +1,19 @@
+import type { HighlightedText as HighlightedTextType } from '~/shared/types/search.types.ts';
+
+type HighlightedTextProps = { text: HighlightedTextType };
+
+export function HighlightedText({ text }: HighlightedTextProps) {
+  return (
+    <>
+      {text.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-yellow-100 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
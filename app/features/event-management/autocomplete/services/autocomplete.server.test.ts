@@ -6,6 +6,7 @@ import { teamFactory } from 'tests/factories/team.ts';
 import { userFactory } from 'tests/factories/users.ts';
 import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
 import { EventNotFoundError, ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
 import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
 import { parseUrlFilters } from '../types/autocomplete.types.ts';
 import { Autocomplete } from './autocomplete.server.ts';
@@ -268,6 +269,29 @@ describe('Autocomplete for event management', () => {
         });
       });
 
+      describe('view search (kind = "views")', () => {
+        it('returns matching views of the user and shared views with their proposals count', async () => {
+          await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+          await db.proposalListView.createMany({
+            data: [
+              { name: 'My pending', eventId: event.id, userId: owner.id, filters: { status: 'pending' } },
+              { name: 'Team pending', eventId: event.id, userId: member.id, shared: true, filters: {} },
+              { name: 'Private pending', eventId: event.id, userId: member.id, filters: {} },
+            ],
+          });
+
+          const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+          const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+          const results = await Autocomplete.for(authorizedEvent).search({ query: 'pending', kind: ['views'] });
+
+          expect(results).toEqual([
+            { kind: 'views', id: expect.any(String), name: 'My pending', search: 'status=pending', count: 1 },
+            { kind: 'views', id: expect.any(String), name: 'Team pending', search: '', count: 1 },
+          ]);
+        });
+      });
+
       describe('combined search', () => {
         it('returns both proposals and speakers when both kinds are specified', async () => {
           const talk = await talkFactory({ speakers: [speaker] });
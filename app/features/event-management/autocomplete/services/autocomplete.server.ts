@@ -3,12 +3,14 @@ import { Pagination } from '~/shared/pagination/pagination.ts';
 import { sortBy } from '~/shared/utils/arrays-sort-by.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import type { Event } from '../../../../../prisma/generated/client.ts';
+import { ProposalListViews } from '../../proposals/services/proposal-list-views.server.ts';
 import { ProposalSearchBuilder } from '../../proposals/services/proposal-search-builder.server.ts';
 import type {
   AutocompleteFilters,
   AutocompleteResult,
   ProposalResult,
   SpeakerResult,
+  ViewResult,
 } from '../types/autocomplete.types.ts';
 
 const pagination = new Pagination({ page: 1, pageSize: 3, total: 3 });
@@ -26,12 +28,13 @@ export class Autocomplete {
     const { query, kind } = filters;
     if (!query) return [];
 
-    const [proposals, speakers] = await Promise.all([
+    const [proposals, speakers, views] = await Promise.all([
       kind.includes('proposals') ? this.#searchProposals(event, query) : [],
       kind.includes('speakers') ? this.#searchSpeakers(event, query) : [],
+      kind.includes('views') ? this.#searchViews(query) : [],
     ]);
 
-    return [...proposals, ...speakers];
+    return [...proposals, ...speakers, ...views];
   }
 
   async #searchProposals(event: Event, query: string): Promise<ProposalResult[]> {
@@ -76,4 +79,16 @@ export class Autocomplete {
       picture: speaker.picture,
     }));
   }
+
+  async #searchViews(query: string): Promise<ViewResult[]> {
+    const views = await ProposalListViews.for(this.authorizedEvent).list({ query, take: pagination.pageSize });
+
+    return views.map((view) => ({
+      kind: 'views',
+      id: view.id,
+      name: view.name,
+      search: view.search,
+      count: view.count,
+    }));
+  }
 }
@@ -1,7 +1,7 @@
 import { parseWithZod } from '@conform-to/zod/v4';
 import { z } from 'zod';
 
-const AutocompleteKindSchema = z.enum(['proposals', 'speakers']);
+const AutocompleteKindSchema = z.enum(['proposals', 'speakers', 'views']);
 
 const AutocompleteFilterSchema = z.object({
   query: z.string().optional(),
@@ -26,7 +26,15 @@ export type SpeakerResult = {
   picture: string | null;
 };
 
-export type AutocompleteResult = ProposalResult | SpeakerResult;
+export type ViewResult = {
+  kind: 'views';
+  id: string;
+  name: string;
+  search: string; // proposals list search params of the saved view
+  count: number;
+};
+
+export type AutocompleteResult = ProposalResult | SpeakerResult | ViewResult;
 
 export function parseUrlFilters(url: URL) {
   const params = url.searchParams;
@@ -0,0 +1,92 @@
+import { ArrowLeftIcon } from '@heroicons/react/16/solid';
+import { useTranslation } from 'react-i18next';
+import { href } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { Link } from '~/design-system/links.tsx';
+import { List } from '~/design-system/list/list.tsx';
+import { Markdown } from '~/design-system/markdown.tsx';
+import { H2, Subtitle, Text } from '~/design-system/typography.tsx';
+import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { formatDatetime } from '~/shared/datetimes/datetimes.ts';
+import type { Route } from './+types/campaign.ts';
+import { EmailCampaigns } from './services/email-campaigns.server.ts';
+
+export const loader = async ({ params, context }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  return EmailCampaigns.for(authorizedEvent).get(params.campaign);
+};
+
+export default function CampaignRoute({ params, loaderData: campaign }: Route.ComponentProps) {
+  const { t, i18n } = useTranslation();
+
+  return (
+    <Page className="space-y-4 lg:space-y-6">
+      <Card as="section">
+        <Card.Title className="flex items-center gap-4">
+          <Button
+            label={t('common.go-back')}
+            icon={ArrowLeftIcon}
+            to={href('/team/:team/:event/campaigns', { team: params.team, event: params.event })}
+            variant="tertiary"
+          />
+          <div className="min-w-0">
+            <H2 truncate>{campaign.subject}</H2>
+            <Subtitle>
+              {t('event-management.campaigns.sent-by', {
+                name: campaign.sender ?? t('common.unknown'),
+                date: formatDatetime(campaign.createdAt, { format: 'medium', locale: i18n.language }),
+              })}
+            </Subtitle>
+          </div>
+        </Card.Title>
+
+        <Card.Content>
+          <Markdown>{campaign.content}</Markdown>
+        </Card.Content>
+      </Card>
+
+      <List>
+        <List.Header>
+          <Text>{t('event-management.campaigns.recipients', { count: campaign.recipients.length })}</Text>
+        </List.Header>
+
+        <List.Content aria-label={t('event-management.campaigns.recipients-list')}>
+          {campaign.recipients.map((recipient) => (
+            <List.Row key={recipient.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="min-w-0">
+                {recipient.speakerId ? (
+                  <Link
+                    to={href('/team/:team/:event/speakers/:speaker', { ...params, speaker: recipient.speakerId })}
+                    weight="medium"
+                  >
+                    {recipient.name}
+                  </Link>
+                ) : (
+                  <Text weight="medium">{recipient.name}</Text>
+                )}
+                <Text size="xs" variant="secondary" truncate>
+                  {recipient.email}
+                </Text>
+              </div>
+
+              {recipient.proposal ? (
+                <Link
+                  to={href('/team/:team/:event/proposals/:proposal', {
+                    ...params,
+                    proposal: recipient.proposal.routeId,
+                  })}
+                  size="s"
+                  truncate
+                >
+                  {recipient.proposal.title}
+                </Link>
+              ) : null}
+            </List.Row>
+          ))}
+        </List.Content>
+      </List>
+    </Page>
+  );
+}
@@ -0,0 +1,97 @@
+import { parseWithZod } from '@conform-to/zod/v4';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { href, redirect } from 'react-router';
+import { EmptyState } from '~/design-system/layouts/empty-state.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { List } from '~/design-system/list/list.tsx';
+import { Subtitle, Text } from '~/design-system/typography.tsx';
+import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { formatDatetime } from '~/shared/datetimes/datetimes.ts';
+import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
+import { toast, toastHeaders } from '~/shared/toasts/toast.server.ts';
+import type { Route } from './+types/campaigns.ts';
+import { EmailCampaignSchema, parseCampaignTarget } from './services/email-campaigns.schema.server.ts';
+import { EmailCampaigns } from './services/email-campaigns.server.ts';
+
+export const loader = async ({ context }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  return EmailCampaigns.for(authorizedEvent).list();
+};
+
+// Campaigns are composed from the proposals or speakers lists, which post here with their filters in the URL
+export const action = async ({ request, params, context, url }: Route.ActionArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const i18n = getI18n(context);
+  const form = await request.formData();
+  const intent = form.get('intent');
+
+  const result = parseWithZod(form, { schema: EmailCampaignSchema });
+  if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+
+  const campaigns = EmailCampaigns.for(authorizedEvent);
+  const target = parseCampaignTarget(result.value, url);
+  const message = { subject: result.value.subject, content: result.value.content };
+
+  switch (intent) {
+    case 'preview': {
+      return campaigns.preview(target, message);
+    }
+    case 'send': {
+      const campaign = await campaigns.send(target, message);
+      if (!campaign) return toast('error', i18n.t('event-management.campaigns.feedbacks.no-recipients'));
+
+      const headers = await toastHeaders('success', i18n.t('event-management.campaigns.feedbacks.sent'));
+      return redirect(href('/team/:team/:event/campaigns/:campaign', { ...params, campaign: campaign.id }), {
+        headers,
+      });
+    }
+  }
+  return null;
+};
+
+export default function CampaignsRoute({ loaderData: campaigns }: Route.ComponentProps) {
+  const { t, i18n } = useTranslation();
+
+  return (
+    <Page>
+      <Page.Heading
+        title={t('event-management.campaigns.heading')}
+        subtitle={t('event-management.campaigns.description')}
+      />
+
+      {campaigns.length === 0 ? (
+        <EmptyState icon={EnvelopeIcon} label={t('event-management.campaigns.empty.title')}>
+          <Subtitle>{t('event-management.campaigns.empty.description')}</Subtitle>
+        </EmptyState>
+      ) : (
+        <List>
+          <List.Header>
+            <Text>{t('event-management.campaigns.list.items', { count: campaigns.length })}</Text>
+          </List.Header>
+
+          <List.Content aria-label={t('event-management.campaigns.heading')}>
+            {campaigns.map((campaign) => (
+              <List.RowLink key={campaign.id} to={campaign.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="min-w-0">
+                  <Text weight="medium" truncate>
+                    {campaign.subject}
+                  </Text>
+                  <Text size="xs" variant="secondary">
+                    {t('event-management.campaigns.sent-by', {
+                      name: campaign.sender ?? t('common.unknown'),
+                      date: formatDatetime(campaign.createdAt, { format: 'medium', locale: i18n.language }),
+                    })}
+                  </Text>
+                </div>
+                <Text size="s" variant="secondary" className="shrink-0">
+                  {t('event-management.campaigns.recipients', { count: campaign.recipientsCount })}
+                </Text>
+              </List.RowLink>
+            ))}
+          </List.Content>
+        </List>
+      )}
+    </Page>
+  );
+}
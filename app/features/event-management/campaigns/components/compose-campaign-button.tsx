@@ -0,0 +1,99 @@
+import { EnvelopeIcon } from '@heroicons/react/16/solid';
+import { useId, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, href, useFetcher, useSearchParams } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Callout } from '~/design-system/callout.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import { MarkdownTextArea } from '~/design-system/forms/markdown-textarea.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+import { EmailPreview } from '~/features/event-management/settings/components/email-preview.tsx';
+
+type PreviewData = {
+  recipientsCount: number;
+  email: { from: string; subject: string; html: string } | null;
+};
+
+type Props =
+  | { source: 'proposals'; selection: Array<string>; isAllPagesSelected: boolean }
+  | { source: 'speakers'; selection?: never; isAllPagesSelected?: never };
+
+export function ComposeCampaignButton({ source, selection = [], isAllPagesSelected = false }: Props) {
+  const { t } = useTranslation();
+  const { team, event } = useCurrentEventTeam();
+  const [searchParams] = useSearchParams();
+  const [open, setOpen] = useState(false);
+  const formId = useId();
+  const formRef = useRef<HTMLFormElement>(null);
+  const fetcher = useFetcher<PreviewData>();
+
+  // Filters of the current list are forwarded to resolve recipients when all pages are selected
+  const action = `${href('/team/:team/:event/campaigns', { team: team.slug, event: event.slug })}?${searchParams}`;
+
+  const handlePreview = () => {
+    if (!formRef.current?.reportValidity()) return;
+    const formData = new FormData(formRef.current);
+    formData.set('intent', 'preview');
+    fetcher.submit(formData, { method: 'POST', action });
+  };
+
+  const preview = fetcher.data;
+
+  return (
+    <>
+      <Button variant="secondary" size="sm" iconLeft={EnvelopeIcon} onClick={() => setOpen(true)}>
+        {t('event-management.campaigns.compose.button')}
+      </Button>
+
+      <Modal title={t('event-management.campaigns.compose.title')} size="l" open={open} onClose={() => setOpen(false)}>
+        <Modal.Content className="space-y-4">
+          <Form ref={formRef} id={formId} method="POST" action={action} className="space-y-4">
+            <input type="hidden" name="source" value={source} />
+            <input type="hidden" name="allPagesSelected" value={String(isAllPagesSelected)} />
+            {selection.map((id) => (
+              <input key={id} type="hidden" name="selection" value={id} />
+            ))}
+
+            <Input name="subject" label={t('event-management.campaigns.compose.subject')} maxLength={200} required />
+
+            <MarkdownTextArea
+              name="content"
+              label={t('event-management.campaigns.compose.content')}
+              description={t(`event-management.campaigns.compose.variables.${source}`)}
+              rows={10}
+              preview={false}
+              required
+            />
+          </Form>
+
+          {preview ? (
+            preview.email ? (
+              <div className="space-y-2">
+                <Text variant="secondary">
+                  {t('event-management.campaigns.compose.recipients', { count: preview.recipientsCount })}
+                </Text>
+                <EmailPreview from={preview.email.from} subject={preview.email.subject} preview={preview.email.html} />
+              </div>
+            ) : (
+              <Callout variant="warning">{t('event-management.campaigns.compose.no-recipients')}</Callout>
+            )
+          ) : null}
+        </Modal.Content>
+
+        <Modal.Actions>
+          <Button variant="secondary" onClick={() => setOpen(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button variant="secondary" onClick={handlePreview} loading={fetcher.state !== 'idle'}>
+            {t('event-management.campaigns.compose.preview')}
+          </Button>
+          <Button type="submit" name="intent" value="send" form={formId} disabled={!preview?.email}>
+            {t('event-management.campaigns.compose.send')}
+          </Button>
+        </Modal.Actions>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import type { ProposalsFilters } from '~/features/event-management/proposals/services/proposal-search-builder.schema.server.ts';
+import { parseUrlFilters as parseProposalsFilters } from '~/features/event-management/proposals/services/proposal-search-builder.schema.server.ts';
+import type { SpeakerSearchFilters } from '~/features/event-management/speakers/services/event-speakers.server.ts';
+import { parseUrlFilters as parseSpeakersFilters } from '~/features/event-management/speakers/services/event-speakers.server.ts';
+
+export const EmailCampaignSchema = z.object({
+  source: z.enum(['proposals', 'speakers']),
+  selection: z.array(z.string()).default([]),
+  allPagesSelected: z.stringbool().default(false),
+  subject: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(10000),
+});
+
+export type EmailCampaignData = z.infer<typeof EmailCampaignSchema>;
+
+export type EmailCampaignMessage = Pick<EmailCampaignData, 'subject' | 'content'>;
+
+export type EmailCampaignTarget =
+  | { source: 'proposals'; selection: Array<string>; allPagesSelected: boolean; filters: ProposalsFilters }
+  | { source: 'speakers'; filters: SpeakerSearchFilters };
+
+// Recipients come from the proposals or speakers list the campaign is composed from, with its URL filters
+export function parseCampaignTarget(data: EmailCampaignData, url: URL): EmailCampaignTarget {
+  if (data.source === 'speakers') {
+    return { source: 'speakers', filters: parseSpeakersFilters(url) };
+  }
+  const { selection, allPagesSelected } = data;
+  return { source: 'proposals', selection, allPagesSelected, filters: parseProposalsFilters(url) };
+}
@@ -0,0 +1,294 @@
+import { eventSpeakerFactory } from 'tests/factories/event-speakers.ts';
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { sendEmail } from '~/shared/emails/send-email.job.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { EmailCampaigns } from './email-campaigns.server.ts';
+
+describe('EmailCampaigns', () => {
+  let owner: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+
+  const message = {
+    subject: 'Slides for {{event}}',
+    content: 'Hello {{speaker}}, please send the slides of {{proposal}}.',
+  };
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team, attributes: { name: 'Devfest' } });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#send', () => {
+    it('sends one email per speaker of the selected proposals and records the recipients', async () => {
+      const speaker1 = await eventSpeakerFactory({ event, attributes: { name: 'Ada', email: 'ada@example.com' } });
+      const speaker2 = await eventSpeakerFactory({ event, attributes: { name: 'Bob', email: 'bob@example.com' } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner], attributes: { title: 'Proposal 1' } }),
+        speakers: [speaker1, speaker2],
+      });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }), speakers: [speaker1] });
+
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const campaign = await campaigns.send(
+        { source: 'proposals', selection: [proposal.id], allPagesSelected: false, filters: {} },
+        message,
+      );
+
+      const recipients = await db.emailCampaignRecipient.findMany({
+        where: { campaignId: campaign?.id },
+        orderBy: { name: 'asc' },
+      });
+      expect(recipients).toEqual([
+        expect.objectContaining({ speakerId: speaker1.id, proposalId: proposal.id, email: 'ada@example.com' }),
+        expect.objectContaining({ speakerId: speaker2.id, proposalId: proposal.id, email: 'bob@example.com' }),
+      ]);
+      expect(campaign).toEqual(expect.objectContaining({ senderId: owner.id, subject: message.subject }));
+
+      expect(sendEmail.trigger).toHaveBeenCalledTimes(2);
+      expect(sendEmail.trigger).toHaveBeenCalledWith(
+        expect.objectContaining({
+          template: 'speakers-campaign',
+          to: ['ada@example.com'],
+          subject: 'Slides for Devfest',
+          data: expect.objectContaining({
+            speaker: expect.objectContaining({ name: 'Ada' }),
+            proposal: { title: 'Proposal 1' },
+          }),
+        }),
+      );
+    });
+
+    it('sanitizes the content but keeps the plain text subject as written', async () => {
+      const speaker = await eventSpeakerFactory({ event });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }), speakers: [speaker] });
+
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const campaign = await campaigns.send(
+        { source: 'speakers', filters: {} },
+        { subject: 'Q&A <slides>', content: 'Hello<script>alert(1)</script>' },
+      );
+
+      expect(campaign).toEqual(expect.objectContaining({ subject: 'Q&A <slides>' }));
+      expect(campaign?.content).not.toContain('<script>');
+    });
+
+    it('sends emails to the speakers of all proposals matching the filters', async () => {
+      const speaker = await eventSpeakerFactory({ event });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        speakers: [speaker],
+        traits: ['accepted'],
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        speakers: [speaker],
+        traits: ['rejected'],
+      });
+
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      await campaigns.send(
+        { source: 'proposals', selection: [], allPagesSelected: true, filters: { status: 'accepted' } },
+        message,
+      );
+
+      expect(sendEmail.trigger).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends one email per speaker matching the speakers filters', async () => {
+      const confirmed = await eventSpeakerFactory({ event, attributes: { email: 'confirmed@example.com' } });
+      const other = await eventSpeakerFactory({ event });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        speakers: [confirmed],
+        traits: ['confirmed'],
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        speakers: [confirmed],
+        traits: ['confirmed'],
+      });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }), speakers: [other] });
+
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const campaign = await campaigns.send({ source: 'speakers', filters: { proposalStatus: 'confirmed' } }, message);
+
+      const recipients = await db.emailCampaignRecipient.findMany({ where: { campaignId: campaign?.id } });
+      expect(recipients).toEqual([
+        expect.objectContaining({ speakerId: confirmed.id, proposalId: null, email: 'confirmed@example.com' }),
+      ]);
+      expect(sendEmail.trigger).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not create a campaign without recipients', async () => {
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const campaign = await campaigns.send(
+        { source: 'proposals', selection: ['unknown'], allPagesSelected: false, filters: {} },
+        message,
+      );
+
+      expect(campaign).toBeNull();
+      expect(await db.emailCampaign.count()).toBe(0);
+      expect(sendEmail.trigger).not.toHaveBeenCalled();
+    });
+
+    it('throws an error when user cannot send emails', async () => {
+      const campaigns = EmailCampaigns.for(await authorize(reviewer));
+
+      await expect(campaigns.send({ source: 'speakers', filters: {} }, message)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+
+    it('throws an error when speakers are hidden to the team', async () => {
+      await db.event.update({ where: { id: event.id }, data: { displayProposalsSpeakers: false } });
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+
+      await expect(campaigns.send({ source: 'speakers', filters: {} }, message)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#preview', () => {
+    it('renders the email of the first recipient', async () => {
+      const speaker = await eventSpeakerFactory({ event, attributes: { name: 'Ada' } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner], attributes: { title: 'Proposal 1' } }),
+        speakers: [speaker],
+      });
+
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const preview = await campaigns.preview(
+        { source: 'proposals', selection: [proposal.id], allPagesSelected: false, filters: {} },
+        message,
+      );
+
+      expect(preview.recipientsCount).toBe(1);
+      expect(preview.email?.subject).toBe('Slides for Devfest');
+      expect(preview.email?.html).toContain('Hello Ada, please send the slides of Proposal 1.');
+      expect(sendEmail.trigger).not.toHaveBeenCalled();
+    });
+
+    it('sanitizes the content as when sending the campaign', async () => {
+      const speaker = await eventSpeakerFactory({ event });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }), speakers: [speaker] });
+
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const preview = await campaigns.preview(
+        { source: 'speakers', filters: {} },
+        { subject: 'Q&A', content: 'Hello<script>alert(1)</script>' },
+      );
+
+      expect(preview.email?.subject).toBe('Q&A');
+      expect(preview.email?.html).not.toContain('alert(1)</script>');
+    });
+
+    it('returns no email when there is no recipient', async () => {
+      const campaigns = EmailCampaigns.for(await authorize(owner));
+      const preview = await campaigns.preview({ source: 'speakers', filters: {} }, message);
+
+      expect(preview).toEqual({ recipientsCount: 0, email: null });
+    });
+  });
+
+  describe('#list', () => {
+    it('returns the campaigns of the event with their recipients count', async () => {
+      const speaker = await eventSpeakerFactory({ event });
+      await db.emailCampaign.create({
+        data: {
+          eventId: event.id,
+          senderId: owner.id,
+          subject: 'Campaign',
+          content: 'Content',
+          recipients: { create: [{ speakerId: speaker.id, name: speaker.name, email: speaker.email }] },
+        },
+      });
+      const otherEvent = await eventFactory({ team });
+      await db.emailCampaign.create({ data: { eventId: otherEvent.id, subject: 'Other', content: 'Content' } });
+
+      const campaigns = await EmailCampaigns.for(await authorize(owner)).list();
+
+      expect(campaigns).toEqual([
+        {
+          id: expect.any(String),
+          subject: 'Campaign',
+          sender: owner.name,
+          recipientsCount: 1,
+          createdAt: expect.any(Date),
+        },
+      ]);
+    });
+  });
+
+  describe('#get', () => {
+    it('returns the campaign with its recipients', async () => {
+      const speaker = await eventSpeakerFactory({ event });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        speakers: [speaker],
+      });
+      const created = await db.emailCampaign.create({
+        data: {
+          eventId: event.id,
+          senderId: owner.id,
+          subject: 'Campaign',
+          content: 'Content',
+          recipients: {
+            create: [{ speakerId: speaker.id, proposalId: proposal.id, name: speaker.name, email: speaker.email }],
+          },
+        },
+      });
+
+      const campaign = await EmailCampaigns.for(await authorize(owner)).get(created.id);
+
+      expect(campaign).toEqual({
+        id: created.id,
+        subject: 'Campaign',
+        content: 'Content',
+        sender: owner.name,
+        createdAt: created.createdAt,
+        recipients: [
+          {
+            id: expect.any(String),
+            speakerId: speaker.id,
+            name: speaker.name,
+            email: speaker.email,
+            proposal: { routeId: proposal.routeId, title: proposal.title },
+          },
+        ],
+      });
+    });
+
+    it('throws an error when the campaign belongs to another event', async () => {
+      const otherEvent = await eventFactory({ team });
+      const created = await db.emailCampaign.create({
+        data: { eventId: otherEvent.id, subject: 'Other', content: 'Content' },
+      });
+
+      await expect(EmailCampaigns.for(await authorize(owner)).get(created.id)).rejects.toThrowError(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import xss from 'xss';
+import { ProposalSearchBuilder } from '~/features/event-management/proposals/services/proposal-search-builder.server.ts';
+import { EventSpeakers } from '~/features/event-management/speakers/services/event-speakers.server.ts';
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { renderEmail } from '~/shared/emails/email.renderer.tsx';
+import { sendEmail } from '~/shared/emails/send-email.job.ts';
+import SpeakersCampaignEmail, {
+  type TemplateData as CampaignTemplateData,
+} from '~/shared/emails/templates/speakers/campaign.email.tsx';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { EmailCampaignMessage, EmailCampaignTarget } from './email-campaigns.schema.server.ts';
+
+type CampaignRecipient = {
+  speakerId: string;
+  name: string;
+  email: string;
+  locale: string;
+  proposal: { id: string; title: string } | null;
+};
+
+export class EmailCampaigns {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new EmailCampaigns(authorizedEvent);
+  }
+
+  async list() {
+    const { event } = this.checkPermissions();
+
+    const campaigns = await db.emailCampaign.findMany({
+      where: { eventId: event.id },
+      include: { sender: true, _count: { select: { recipients: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return campaigns.map((campaign) => ({
+      id: campaign.id,
+      subject: campaign.subject,
+      sender: campaign.sender?.name ?? null,
+      recipientsCount: campaign._count.recipients,
+      createdAt: campaign.createdAt,
+    }));
+  }
+
+  async get(campaignId: string) {
+    const { event } = this.checkPermissions();
+
+    const campaign = await db.emailCampaign.findFirst({
+      where: { id: campaignId, eventId: event.id },
+      include: { sender: true, recipients: { include: { proposal: true }, orderBy: { name: 'asc' } } },
+    });
+    if (!campaign) throw new NotFoundError('Campaign not found');
+
+    return {
+      id: campaign.id,
+      subject: campaign.subject,
+      content: campaign.content,
+      sender: campaign.sender?.name ?? null,
+      createdAt: campaign.createdAt,
+      recipients: campaign.recipients.map((recipient) => ({
+        id: recipient.id,
+        speakerId: recipient.speakerId,
+        name: recipient.name,
+        email: recipient.email,
+        proposal: recipient.proposal ? { routeId: recipient.proposal.routeId, title: recipient.proposal.title } : null,
+      })),
+    };
+  }
+
+  // Renders the email the first recipient would receive
+  async preview(target: EmailCampaignTarget, message: EmailCampaignMessage) {
+    this.checkPermissions();
+
+    const recipients = await this.resolveRecipients(target);
+    const [recipient] = recipients;
+    if (!recipient) return { recipientsCount: 0, email: null };
+
+    const data = this.buildTemplateData(recipient, sanitizeMessage(message));
+    const { from, subject, locale } = SpeakersCampaignEmail.buildPayload(data);
+    const rendered = await renderEmail('speakers-campaign', data, locale, null);
+
+    return {
+      recipientsCount: recipients.length,
+      email: { from, subject, html: rendered?.html ?? 'Error while rendering email preview' },
+    };
+  }
+
+  async send(target: EmailCampaignTarget, message: EmailCampaignMessage) {
+    const { event, userId } = this.checkPermissions();
+
+    const recipients = await this.resolveRecipients(target);
+    if (recipients.length === 0) return null;
+
+    const safeMessage = sanitizeMessage(message);
+
+    const campaign = await db.emailCampaign.create({
+      data: {
+        eventId: event.id,
+        senderId: userId,
+        ...safeMessage,
+        recipients: {
+          create: recipients.map((recipient) => ({
+            speakerId: recipient.speakerId,
+            proposalId: recipient.proposal?.id,
+            name: recipient.name,
+            email: recipient.email,
+          })),
+        },
+      },
+    });
+
+    await Promise.all(
+      recipients.map((recipient) =>
+        sendEmail.trigger(SpeakersCampaignEmail.buildPayload(this.buildTemplateData(recipient, safeMessage))),
+      ),
+    );
+
+    return campaign;
+  }
+
+  private checkPermissions() {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canPublishEventResults) throw new ForbiddenOperationError();
+    // Recipients are listed on campaigns, so speakers must be visible to the team
+    if (!event.displayProposalsSpeakers) throw new ForbiddenOperationError();
+    return this.authorizedEvent;
+  }
+
+  // Speakers from the proposals list get one email per selected proposal, speakers from the speakers list get one email
+  private async resolveRecipients(target: EmailCampaignTarget): Promise<Array<CampaignRecipient>> {
+    if (target.source === 'speakers') {
+      const speakers = await EventSpeakers.for(this.authorizedEvent).listAll(target.filters);
+      return speakers.map(({ id, name, email, locale }) => ({ speakerId: id, name, email, locale, proposal: null }));
+    }
+
+    const proposalIds = await this.resolveProposalIds(target);
+    const proposals = await db.proposal.findMany({
+      where: { id: { in: proposalIds } },
+      include: { speakers: { orderBy: { name: 'asc' } } },
+      orderBy: { title: 'asc' },
+    });
+
+    return proposals.flatMap((proposal) =>
+      proposal.speakers.map(({ id, name, email, locale }) => ({
+        speakerId: id,
+        name,
+        email,
+        locale,
+        proposal: { id: proposal.id, title: proposal.title },
+      })),
+    );
+  }
+
+  private async resolveProposalIds(target: Extract<EmailCampaignTarget, { source: 'proposals' }>) {
+    const { event, userId } = this.authorizedEvent;
+
+    if (target.allPagesSelected) {
+      const search = new ProposalSearchBuilder(event.id, userId, target.filters, {
+        withSpeakers: true,
+        withReviews: true,
+        hideConflicts: true,
+      });
+      return search.proposalIds();
+    }
+
+    const proposals = await db.proposal.findMany({
+      where: { id: { in: target.selection }, eventId: event.id, isDraft: false },
+      select: { id: true },
+    });
+    return proposals.map(({ id }) => id);
+  }
+
+  private buildTemplateData(recipient: CampaignRecipient, message: EmailCampaignMessage): CampaignTemplateData {
+    const { event } = this.authorizedEvent;
+    return {
+      event: { id: event.id, slug: event.slug, name: event.name, logo: event.logo },
+      subject: message.subject,
+      content: message.content,
+      speaker: { name: recipient.name, email: recipient.email, locale: recipient.locale },
+      proposal: recipient.proposal ? { title: recipient.proposal.title } : null,
+    };
+  }
+}
+
+// Only the content is rendered as HTML, the subject is sent as plain text
+function sanitizeMessage(message: EmailCampaignMessage): EmailCampaignMessage {
+  return { ...message, content: xss(message.content) };
+}
@@ -1,16 +1,17 @@
-import { DocumentTextIcon, EllipsisHorizontalIcon, UserIcon } from '@heroicons/react/24/outline';
+import { DocumentTextIcon, EllipsisHorizontalIcon, QueueListIcon, UserIcon } from '@heroicons/react/24/outline';
 import { useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { href, useFetcher, useNavigate } from 'react-router';
 import { sortBy } from '~/shared/utils/arrays-sort-by.ts';
 import type { loader as AutocompleteLoader } from '../../autocomplete/autocomplete.ts';
-import type { ProposalResult, SpeakerResult } from '../../autocomplete/types/autocomplete.types.ts';
+import type { ProposalResult, SpeakerResult, ViewResult } from '../../autocomplete/types/autocomplete.types.ts';
 import { CommandPalette, type CommandPaletteItemData } from './command-palette/command-palette.tsx';
 
 type Props = { team: string; event: string; closeText: string; onClose: VoidFunction };
 
 const PROPOSALS_KIND = 'proposals';
 const SPEAKERS_KIND = 'speakers';
+const VIEWS_KIND = 'views';
 
 export function EventCommandPalette({ team, event, closeText, onClose }: Props) {
   const { t } = useTranslation();
@@ -64,7 +65,18 @@ export function EventCommandPalette({ team, event, closeText, onClose }: Props)
       });
     }
 
-    return [...proposals, ...speakers];
+    const views: CommandPaletteItemData[] =
+      fetcher.data
+        ?.filter((item): item is ViewResult => item.kind === VIEWS_KIND)
+        .map((item) => ({
+          section: t('event-management.proposals.views.label'),
+          id: item.id,
+          label: item.name,
+          description: t('event-management.command-palette.event.view-count', { count: item.count }),
+          icon: QueueListIcon,
+        })) ?? [];
+
+    return [...views, ...proposals, ...speakers];
   }, [fetcher.data, t]);
 
   const onSearch = (query: string) => {
@@ -72,6 +84,7 @@ export function EventCommandPalette({ team, event, closeText, onClose }: Props)
     searchParams.append('query', query);
     searchParams.append('kind', PROPOSALS_KIND);
     searchParams.append('kind', SPEAKERS_KIND);
+    searchParams.append('kind', VIEWS_KIND);
 
     const autocompleteRoute = href('/team/:team/:event/autocomplete', { team, event });
     return fetcher.load(`${autocompleteRoute}?${searchParams.toString()}`);
@@ -98,6 +111,13 @@ export function EventCommandPalette({ team, event, closeText, onClose }: Props)
         }
         break;
       }
+      case t('event-management.proposals.views.label'): {
+        const view = fetcher.data?.find(
+          (result): result is ViewResult => result.kind === VIEWS_KIND && result.id === item.id,
+        );
+        await navigate(`${href('/team/:team/:event/proposals', { team, event })}?${view?.search ?? ''}`);
+        break;
+      }
     }
   };
 
@@ -131,6 +131,8 @@ describe('EventCreation', () => {
           displayProposalsReviews: true,
           displayProposalsSpeakers: false,
           speakersConversationEnabled: true,
+          attachmentMaxSize: 25,
+          attachmentFileTypes: ['pdf', 'video'],
           formatsRequired: true,
           formatsAllowMultiple: true,
           categoriesRequired: false,
@@ -183,6 +185,8 @@ describe('EventCreation', () => {
       expect(event?.displayProposalsReviews).toBe(true);
       expect(event?.displayProposalsSpeakers).toBe(false);
       expect(event?.speakersConversationEnabled).toBe(true);
+      expect(event?.attachmentMaxSize).toBe(25);
+      expect(event?.attachmentFileTypes).toEqual(['pdf', 'video']);
       expect(event?.formatsRequired).toBe(true);
       expect(event?.formatsAllowMultiple).toBe(true);
       expect(event?.categoriesRequired).toBe(false);
@@ -72,6 +72,8 @@ export class EventCreation {
       displayProposalsReviews: eventTemplate.displayProposalsReviews,
       displayProposalsSpeakers: eventTemplate.displayProposalsSpeakers,
       speakersConversationEnabled: eventTemplate.speakersConversationEnabled,
+      attachmentMaxSize: eventTemplate.attachmentMaxSize,
+      attachmentFileTypes: eventTemplate.attachmentFileTypes,
       formatsRequired: eventTemplate.formatsRequired,
       formatsAllowMultiple: eventTemplate.formatsAllowMultiple,
       categoriesRequired: eventTemplate.categoriesRequired,
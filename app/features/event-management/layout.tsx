@@ -2,6 +2,7 @@ import { ArrowTopRightOnSquareIcon } from '@heroicons/react/20/solid';
 import {
   CalendarIcon,
   Cog6ToothIcon,
+  EnvelopeIcon,
   HomeIcon,
   MegaphoneIcon,
   QueueListIcon,
@@ -109,6 +110,12 @@ function EventTabs() {
           </NavTab>
         ) : null}
 
+        {event.displayProposalsSpeakers && permissions.canPublishEventResults ? (
+          <NavTab to={href('/team/:team/:event/campaigns', { team: team.slug, event: event.slug })} icon={EnvelopeIcon}>
+            {t('event-management.nav.campaigns')}
+          </NavTab>
+        ) : null}
+
         {event.type === 'CONFERENCE' && permissions.canPublishEventResults ? (
           <NavTab
             to={href('/team/:team/:event/publication', { team: team.slug, event: event.slug })}
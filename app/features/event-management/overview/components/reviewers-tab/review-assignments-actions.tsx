@@ -0,0 +1,106 @@
+import { ArrowsRightLeftIcon, TrashIcon } from '@heroicons/react/16/solid';
+import { useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { FieldsetGroup } from '~/design-system/forms/fieldset-group.tsx';
+import { Checkbox } from '~/design-system/forms/input-checkbox.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import { Text } from '~/design-system/typography.tsx';
+
+type Reviewer = { id: string; name: string };
+
+type ReviewAssignmentsActionsProps = { reviewers: Array<Reviewer>; hasAssignments: boolean };
+
+export function ReviewAssignmentsActions({ reviewers, hasAssignments }: ReviewAssignmentsActionsProps) {
+  const { t } = useTranslation();
+  const [isDistributeOpen, setDistributeOpen] = useState(false);
+  const [isClearOpen, setClearOpen] = useState(false);
+
+  return (
+    <div className="flex justify-end gap-2 px-6 pb-6">
+      {hasAssignments ? (
+        <Button variant="secondary" size="sm" iconLeft={TrashIcon} onClick={() => setClearOpen(true)}>
+          {t('event-management.overview.reviewers.assignments.clear')}
+        </Button>
+      ) : null}
+      <Button variant="secondary" size="sm" iconLeft={ArrowsRightLeftIcon} onClick={() => setDistributeOpen(true)}>
+        {t('event-management.overview.reviewers.assignments.distribute')}
+      </Button>
+
+      <DistributeReviewsModal
+        reviewers={reviewers}
+        isOpen={isDistributeOpen}
+        onClose={() => setDistributeOpen(false)}
+      />
+      <ClearAssignmentsModal isOpen={isClearOpen} onClose={() => setClearOpen(false)} />
+    </div>
+  );
+}
+
+type DistributeReviewsModalProps = { reviewers: Array<Reviewer>; isOpen: boolean; onClose: VoidFunction };
+
+function DistributeReviewsModal({ reviewers, isOpen, onClose }: DistributeReviewsModalProps) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  return (
+    <Modal title={t('event-management.overview.reviewers.assignments.distribute')} open={isOpen} onClose={onClose}>
+      <Modal.Content>
+        <Form id={formId} method="POST" onSubmit={onClose} className="space-y-6">
+          <Text>{t('event-management.overview.reviewers.assignments.distribute.description')}</Text>
+          <Input
+            type="number"
+            name="reviewsPerProposal"
+            label={t('event-management.overview.reviewers.assignments.reviews-per-proposal')}
+            defaultValue={3}
+            min={1}
+            max={20}
+            required
+          />
+          <FieldsetGroup legend={t('event-management.overview.reviewers.assignments.reviewers')}>
+            {reviewers.map((reviewer) => (
+              <Checkbox key={reviewer.id} name="reviewers" value={reviewer.id} defaultChecked>
+                {reviewer.name}
+              </Checkbox>
+            ))}
+          </FieldsetGroup>
+        </Form>
+      </Modal.Content>
+      <Modal.Actions>
+        <Button onClick={onClose} type="button" variant="secondary">
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" name="intent" value="distribute-reviews" form={formId}>
+          {t('event-management.overview.reviewers.assignments.distribute.submit')}
+        </Button>
+      </Modal.Actions>
+    </Modal>
+  );
+}
+
+type ClearAssignmentsModalProps = { isOpen: boolean; onClose: VoidFunction };
+
+function ClearAssignmentsModal({ isOpen, onClose }: ClearAssignmentsModalProps) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  return (
+    <Modal title={t('event-management.overview.reviewers.assignments.clear')} open={isOpen} onClose={onClose}>
+      <Modal.Content>
+        <Form id={formId} method="POST" onSubmit={onClose}>
+          <Text>{t('event-management.overview.reviewers.assignments.clear.description')}</Text>
+        </Form>
+      </Modal.Content>
+      <Modal.Actions>
+        <Button onClick={onClose} type="button" variant="secondary">
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" name="intent" value="clear-assignments" variant="important" form={formId}>
+          {t('event-management.overview.reviewers.assignments.clear')}
+        </Button>
+      </Modal.Actions>
+    </Modal>
+  );
+}
@@ -0,0 +1,72 @@
+import { useTranslation } from 'react-i18next';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { H2, Subtitle } from '~/design-system/typography.tsx';
+import { ClientOnly } from '~/design-system/utils/client-only.tsx';
+
+type Props = { comparisonRanking: Array<{ id: string; title: string; rating: number }> };
+
+const BAR_HEIGHT = 28;
+
+export function ComparisonRanking({ comparisonRanking }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <Card className="p-6 lg:col-span-2">
+      <H2>{t('event-management.overview.reviews.comparison-ranking.title')}</H2>
+      <Subtitle>{t('event-management.overview.reviews.comparison-ranking.description')}</Subtitle>
+
+      <div className="mt-6">
+        <ClientOnly fallback={<div className="h-48 animate-pulse rounded bg-gray-200" />}>
+          {() => (
+            <ResponsiveContainer width="100%" height={comparisonRanking.length * BAR_HEIGHT + 32}>
+              <BarChart data={comparisonRanking} layout="vertical" margin={{ left: 16 }}>
+                <XAxis
+                  type="number"
+                  domain={['dataMin - 20', 'dataMax + 20']}
+                  tickLine={false}
+                  fontSize="12"
+                  stroke=""
+                  className="fill-gray-500"
+                  allowDecimals={false}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="title"
+                  width={240}
+                  axisLine={false}
+                  tickLine={false}
+                  fontSize="12"
+                  stroke=""
+                  className="fill-gray-500"
+                  tickFormatter={(title: string) => (title.length > 36 ? `${title.slice(0, 35)}…` : title)}
+                />
+                <CartesianGrid horizontal={false} className="stroke-gray-200 stroke-1" />
+                <Bar dataKey="rating" fill="#6366f1" maxBarSize={20} isAnimationActive={false} />
+                <Tooltip
+                  isAnimationActive={false}
+                  wrapperStyle={{ outline: 'none' }}
+                  cursor={{ fill: '#d1d5db', opacity: '0.15' }}
+                  content={({ payload }) => {
+                    if (!payload || payload.length === 0) return null;
+                    const data = payload[0];
+                    return (
+                      <div className="rounded-md border border-gray-200 bg-white p-3 text-sm shadow-sm">
+                        <div className="font-medium">{data.payload?.title}</div>
+                        <div className="text-gray-600">
+                          {t('event-management.overview.reviews.comparison-ranking.tooltip', {
+                            rating: Number(data.value),
+                          })}
+                        </div>
+                      </div>
+                    );
+                  }}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </ClientOnly>
+      </div>
+    </Card>
+  );
+}
@@ -43,6 +43,26 @@ export default function CFPTabRoute({ loaderData: { metrics } }: Route.Component
             data={metrics.byCategories.map((c) => ({ ...c, to: `../proposals?categories=${c.id}` }))}
           />
         )}
+        {metrics.byLevels && (
+          <BarListCard
+            label={t('event-management.overview.proposals-by-levels')}
+            data={metrics.byLevels.map((l) => ({
+              ...l,
+              name: t(`common.level.${l.id}`),
+              to: `../proposals?levels=${l.id}`,
+            }))}
+          />
+        )}
+        {metrics.byLanguages && (
+          <BarListCard
+            label={t('event-management.overview.proposals-by-languages')}
+            data={metrics.byLanguages.map((l) => ({
+              ...l,
+              name: t(`common.languages.${l.id}.label`),
+              to: `../proposals?languages=${l.id}`,
+            }))}
+          />
+        )}
       </div>
     </div>
   );
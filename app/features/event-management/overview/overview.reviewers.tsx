@@ -1,3 +1,4 @@
+import { parseWithZod } from '@conform-to/zod/v4';
 import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
 import { ArrowUturnLeftIcon, EllipsisHorizontalIcon, XMarkIcon } from '@heroicons/react/16/solid';
 import { EyeSlashIcon } from '@heroicons/react/24/outline';
@@ -14,24 +15,46 @@ import { Tooltip } from '~/design-system/tooltip.tsx';
 import { MenuTransition } from '~/design-system/transitions.tsx';
 import { Text } from '~/design-system/typography.tsx';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
+import { toast } from '~/shared/toasts/toast.server.ts';
 import { ReviewNote } from '../proposals/components/shared/review-note.tsx';
+import { ReviewDistributionSchema } from '../proposals/services/review-assignments.schema.server.ts';
+import { ReviewAssignments } from '../proposals/services/review-assignments.server.ts';
 import type { Route } from './+types/overview.reviewers.ts';
+import { ReviewAssignmentsActions } from './components/reviewers-tab/review-assignments-actions.tsx';
 import { ReviewerActions } from './services/reviewer-actions.server.ts';
 import { ReviewersMetrics } from './services/reviewers-metrics.server.ts';
 
 export const loader = async ({ context }: Route.LoaderArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
-  const metrics = await ReviewersMetrics.for(authorizedEvent).get();
-  return { metrics };
+  const [metrics, reviewers] = await Promise.all([
+    ReviewersMetrics.for(authorizedEvent).get(),
+    ReviewAssignments.for(authorizedEvent).reviewers(),
+  ]);
+  return { metrics, reviewers };
 };
 
 export const action = async ({ request, context }: Route.ActionArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
+  const i18n = getI18n(context);
   const form = await request.formData();
   const intent = form.get('intent') as string;
   const userId = String(form.get('userId'));
 
   switch (intent) {
+    case 'distribute-reviews': {
+      const result = parseWithZod(form, { schema: ReviewDistributionSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      const count = await ReviewAssignments.for(authorizedEvent).distribute(result.value);
+      return toast(
+        'success',
+        i18n.t('event-management.overview.reviewers.assignments.feedbacks.distributed', { count }),
+      );
+    }
+    case 'clear-assignments': {
+      await ReviewAssignments.for(authorizedEvent).clear();
+      return toast('success', i18n.t('event-management.overview.reviewers.assignments.feedbacks.cleared'));
+    }
     case 'dismiss-reviewer-reviews': {
       await ReviewerActions.for(authorizedEvent).dismissReviewsByUser(userId);
       break;
@@ -44,94 +67,123 @@ export const action = async ({ request, context }: Route.ActionArgs) => {
   return null;
 };
 
-export default function ReviewersTabRoute({ loaderData: { metrics } }: Route.ComponentProps) {
+export default function ReviewersTabRoute({ loaderData: { metrics, reviewers } }: Route.ComponentProps) {
   const { t } = useTranslation();
   const permissions = useUserTeamPermissions();
   const { reviewersMetrics, proposalsCount } = metrics;
+  const hasAssignments = reviewersMetrics.some((reviewer) => reviewer.assignments.total > 0);
+
+  const assignmentsActions =
+    permissions.canAssignReviews && proposalsCount > 0 ? (
+      <ReviewAssignmentsActions reviewers={reviewers} hasAssignments={hasAssignments} />
+    ) : null;
 
   if (reviewersMetrics.length === 0) {
-    return <EmptyState label={t('event-management.overview.reviewers.empty')} icon={EyeSlashIcon} noBorder />;
+    return (
+      <>
+        {assignmentsActions}
+        <EmptyState label={t('event-management.overview.reviewers.empty')} icon={EyeSlashIcon} noBorder />
+      </>
+    );
   }
 
   return (
-    <ul
-      className="grid grid-cols-1 gap-8 px-6 md:grid-cols-2"
-      aria-label={t('event-management.overview.reviewers.heading')}
-    >
-      {reviewersMetrics.map((reviewer, index) => {
-        const reviewedReviews = reviewer.reviewsCount - reviewer.dismissedCount;
-        const dismissedReviews = reviewer.dismissedCount;
-        const remainingReviews = proposalsCount - reviewer.reviewsCount;
-
-        return (
-          <Card key={reviewer.id} as="li" aria-label={reviewer.name}>
-            <div className="p-4">
-              <div className="flex items-center justify-between pb-6">
-                <div className="flex items-center gap-2">
-                  <AvatarName name={reviewer.name} picture={reviewer.picture} size="xs" truncate />
-                  <Text weight="medium" variant="secondary">
-                    #{index + 1}
-                  </Text>
+    <>
+      {assignmentsActions}
+      <ul
+        className="grid grid-cols-1 gap-8 px-6 md:grid-cols-2"
+        aria-label={t('event-management.overview.reviewers.heading')}
+      >
+        {reviewersMetrics.map((reviewer, index) => {
+          const reviewedReviews = reviewer.reviewsCount - reviewer.dismissedCount;
+          const dismissedReviews = reviewer.dismissedCount;
+          const remainingReviews = proposalsCount - reviewer.reviewsCount;
+
+          return (
+            <Card key={reviewer.id} as="li" aria-label={reviewer.name}>
+              <div className="p-4">
+                <div className="flex items-center justify-between pb-6">
+                  <div className="flex items-center gap-2">
+                    <AvatarName name={reviewer.name} picture={reviewer.picture} size="xs" truncate />
+                    <Text weight="medium" variant="secondary">
+                      #{index + 1}
+                    </Text>
+                  </div>
+                  <div>
+                    {permissions.canDismissReviews && (
+                      <ReviewerActionMenu
+                        reviewerId={reviewer.id}
+                        hasActive={reviewedReviews > 0}
+                        hasDismissed={reviewer.dismissedCount > 0}
+                      />
+                    )}
+                  </div>
                 </div>
-                <div>
-                  {permissions.canDismissReviews && (
-                    <ReviewerActionMenu
-                      reviewerId={reviewer.id}
-                      hasActive={reviewedReviews > 0}
-                      hasDismissed={reviewer.dismissedCount > 0}
-                    />
-                  )}
+                <div className="pb-2">
+                  <CategoryBar
+                    values={[reviewedReviews, dismissedReviews, remainingReviews]}
+                    colors={['bg-blue-400', 'bg-gray-400', 'bg-gray-400/20']}
+                  />
                 </div>
-              </div>
-              <div className="pb-2">
-                <CategoryBar
-                  values={[reviewedReviews, dismissedReviews, remainingReviews]}
-                  colors={['bg-blue-400', 'bg-gray-400', 'bg-gray-400/20']}
-                />
-              </div>
 
-              <div className="flex items-center justify-between">
-                <div className="flex flex-wrap gap-x-6">
-                  {reviewedReviews > 0 ? (
-                    <div className="flex items-center gap-2">
-                      <div className="size-2.5 rounded-xs bg-blue-400" />
-                      <Text>
-                        {t('event-management.overview.reviewers.reviewed', {
-                          percentage: Math.round((reviewedReviews / proposalsCount) * 100),
-                        })}
-                      </Text>
-                    </div>
-                  ) : null}
-
-                  {dismissedReviews > 0 ? (
-                    <div className="flex items-center gap-2">
-                      <div className="size-2.5 rounded-xs bg-gray-400" />
-                      <Text>
-                        {t('event-management.overview.reviewers.dismissed', {
-                          percentage: Math.round((dismissedReviews / proposalsCount) * 100),
+                <div className="flex items-center justify-between">
+                  <div className="flex flex-wrap gap-x-6">
+                    {reviewedReviews > 0 ? (
+                      <div className="flex items-center gap-2">
+                        <div className="size-2.5 rounded-xs bg-blue-400" />
+                        <Text>
+                          {t('event-management.overview.reviewers.reviewed', {
+                            percentage: Math.round((reviewedReviews / proposalsCount) * 100),
+                          })}
+                        </Text>
+                      </div>
+                    ) : null}
+
+                    {dismissedReviews > 0 ? (
+                      <div className="flex items-center gap-2">
+                        <div className="size-2.5 rounded-xs bg-gray-400" />
+                        <Text>
+                          {t('event-management.overview.reviewers.dismissed', {
+                            percentage: Math.round((dismissedReviews / proposalsCount) * 100),
+                          })}
+                        </Text>
+                      </div>
+                    ) : null}
+
+                    {reviewer.assignments.total > 0 ? (
+                      <Text variant="secondary">
+                        {t('event-management.overview.reviewers.assignments.completion', {
+                          reviewed: reviewer.assignments.reviewed,
+                          total: reviewer.assignments.total,
                         })}
                       </Text>
-                    </div>
-                  ) : null}
-                </div>
+                    ) : null}
 
-                <div className="flex flex-wrap gap-x-6">
-                  <Tooltip text={t('event-management.overview.reviewers.negatives-count')} placement="bottom">
-                    <ReviewNote feeling="NEGATIVE" note={reviewer.negativeCount} raw />
-                  </Tooltip>
-                  <Tooltip text={t('event-management.overview.reviewers.favorites-count')} placement="bottom">
-                    <ReviewNote feeling="POSITIVE" note={reviewer.positiveCount} raw />
-                  </Tooltip>
-                  <Tooltip text={t('event-management.overview.reviewers.average-reviews')} placement="bottom">
-                    <ReviewNote feeling="NEUTRAL" note={reviewer.averageNote} raw />
-                  </Tooltip>
+                    {reviewer.conflictsCount > 0 ? (
+                      <Text variant="secondary">
+                        {t('event-management.overview.reviewers.conflicts', { count: reviewer.conflictsCount })}
+                      </Text>
+                    ) : null}
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-6">
+                    <Tooltip text={t('event-management.overview.reviewers.negatives-count')} placement="bottom">
+                      <ReviewNote feeling="NEGATIVE" note={reviewer.negativeCount} raw />
+                    </Tooltip>
+                    <Tooltip text={t('event-management.overview.reviewers.favorites-count')} placement="bottom">
+                      <ReviewNote feeling="POSITIVE" note={reviewer.positiveCount} raw />
+                    </Tooltip>
+                    <Tooltip text={t('event-management.overview.reviewers.average-reviews')} placement="bottom">
+                      <ReviewNote feeling="NEUTRAL" note={reviewer.averageNote} raw />
+                    </Tooltip>
+                  </div>
                 </div>
               </div>
-            </div>
-          </Card>
-        );
-      })}
-    </ul>
+            </Card>
+          );
+        })}
+      </ul>
+    </>
   );
 }
 
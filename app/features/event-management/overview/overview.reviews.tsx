@@ -4,6 +4,7 @@ import { ProgressCard } from '~/design-system/dashboard/progress-card.tsx';
 import { StatisticCard } from '~/design-system/dashboard/statistic-card.tsx';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
 import type { Route } from './+types/overview.reviews.ts';
+import { ComparisonRanking } from './components/reviews-tab/comparison-ranking.tsx';
 import { ProposalNotesDistribution } from './components/reviews-tab/proposal-notes-distribution.tsx';
 import { ReviewCountDistribution } from './components/reviews-tab/review-count-distribution.tsx';
 import { ReviewsMetrics } from './services/reviews-metrics.server.ts';
@@ -47,6 +48,10 @@ export default function ReviewsTabRoute({ loaderData: { metrics } }: Route.Compo
           totalProposals={metrics.totalProposals}
           reviewCountDistribution={metrics.reviewCountDistribution}
         />
+
+        {metrics.comparisonRanking.length > 0 ? (
+          <ComparisonRanking comparisonRanking={metrics.comparisonRanking} />
+        ) : null}
       </div>
     </div>
   );
@@ -107,9 +107,44 @@ describe('CfpMetrics', () => {
       expect(metrics.reviewsCount).toBe(0);
       expect(metrics.byCategories).toBe(null);
       expect(metrics.byFormats).toBe(null);
+      expect(metrics.byLevels).toBe(null);
+      expect(metrics.byLanguages).toBe(null);
       expect(metrics.byDays).toEqual([]);
     });
 
+    it('returns proposals by levels and languages', async () => {
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        attributes: { level: 'BEGINNER', languages: ['fr', 'en'] },
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        attributes: { level: null, languages: ['fr'] },
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        attributes: { level: 'ADVANCED', languages: ['de'] },
+        traits: ['draft'],
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const metrics = await CfpMetrics.for(authorizedEvent).get();
+
+      expect(metrics.byLevels).toEqual([
+        { id: 'BEGINNER', value: 1 },
+        { id: 'INTERMEDIATE', value: 2 },
+      ]);
+      expect(metrics.byLanguages).toEqual([
+        { id: 'en', value: 3 },
+        { id: 'fr', value: 2 },
+      ]);
+    });
+
     it('does not count draft proposals in formats and categories', async () => {
       const talk = await talkFactory({ speakers: [owner] });
       await proposalFactory({ event, talk, formats: [format], categories: [category], traits: ['draft'] });
@@ -1,5 +1,7 @@
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import type { Language } from '~/shared/types/proposals.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
+import type { TalkLevel } from '../../../../../prisma/generated/client.ts';
 import { Prisma } from '../../../../../prisma/generated/client.ts';
 
 export class CfpMetrics {
@@ -21,6 +23,8 @@ export class CfpMetrics {
         reviewsCount: 0,
         byFormats: null,
         byCategories: null,
+        byLevels: null,
+        byLanguages: null,
         byDays: [],
       };
     }
@@ -31,6 +35,8 @@ export class CfpMetrics {
       reviewsCount: await this.reviewsCount(eventId, userId),
       byFormats: await this.proposalsByFormats(eventId),
       byCategories: await this.proposalsByCategories(eventId),
+      byLevels: await this.proposalsByLevels(eventId),
+      byLanguages: await this.proposalsByLanguages(eventId),
       byDays: await this.proposalsByDays(eventId),
     };
   }
@@ -91,6 +97,45 @@ export class CfpMetrics {
     }));
   }
 
+  private async proposalsByLevels(eventId: string) {
+    const byLevels = await db.$queryRaw<Array<{ level: TalkLevel; value: bigint }>>(
+      Prisma.sql`
+        SELECT p.level, count(p.id) AS value
+        FROM proposals p
+        WHERE p."eventId" = ${eventId} AND p."isDraft" IS FALSE AND p.level IS NOT NULL
+        GROUP BY p.level
+        ORDER BY p.level ASC
+      `,
+    );
+
+    if (byLevels.length === 0) return null;
+
+    return byLevels.map((item) => ({
+      id: item.level,
+      value: Number(item.value),
+    }));
+  }
+
+  private async proposalsByLanguages(eventId: string) {
+    const byLanguages = await db.$queryRaw<Array<{ language: Language; value: bigint }>>(
+      Prisma.sql`
+        SELECT l.language, count(p.id) AS value
+        FROM proposals p
+        CROSS JOIN LATERAL jsonb_array_elements_text(p.languages) AS l(language)
+        WHERE p."eventId" = ${eventId} AND p."isDraft" IS FALSE
+        GROUP BY l.language
+        ORDER BY value DESC, l.language ASC
+      `,
+    );
+
+    if (byLanguages.length === 0) return null;
+
+    return byLanguages.map((item) => ({
+      id: item.language,
+      value: Number(item.value),
+    }));
+  }
+
   private async proposalsByDays(eventId: string) {
     const proposalsByDays = await db.$queryRaw<Array<{ date: Date; count: bigint; cumulative: bigint }>>(
       Prisma.sql`
@@ -38,6 +38,11 @@ describe('ReviewerActions', () => {
 
       const reviews = await db.review.findMany({ where: { userId: member.id, proposal: { eventId: event.id } } });
       expect(reviews.every((r) => r.dismissedAt !== null)).toBe(true);
+
+      const logs = await db.proposalAuditLog.findMany({ orderBy: { proposalId: 'asc' } });
+      expect(logs).toHaveLength(2);
+      expect(logs.every((log) => log.action === 'REVIEW_DISMISSED' && log.userId === owner.id)).toBe(true);
+      expect(logs.map((log) => log.after)).toEqual([member.name, member.name]);
     });
 
     it('throws if user lacks canDismissReviews', async () => {
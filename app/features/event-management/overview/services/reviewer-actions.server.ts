@@ -1,3 +1,4 @@
+import { ProposalAuditLogs } from '~/features/event-management/proposals/services/proposal-audit-logs.server.ts';
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { ForbiddenOperationError } from '~/shared/errors.server.ts';
 import { db } from '../../../../../prisma/db.server.ts';
@@ -13,19 +14,39 @@ export class ReviewerActions {
     const { permissions, event } = this.authorizedEvent;
     if (!permissions.canDismissReviews) throw new ForbiddenOperationError();
 
-    await db.review.updateMany({
-      where: { userId, proposal: { eventId: event.id }, dismissedAt: null },
-      data: { dismissedAt: new Date() },
-    });
+    const where = { userId, proposal: { eventId: event.id }, dismissedAt: null };
+    const reviews = await db.review.findMany({ where, include: { user: true } });
+
+    await db.review.updateMany({ where, data: { dismissedAt: new Date() } });
+
+    await ProposalAuditLogs.record(
+      reviews.map((review) => ({
+        eventId: event.id,
+        proposalId: review.proposalId,
+        userId: this.authorizedEvent.userId,
+        action: 'REVIEW_DISMISSED' as const,
+        after: review.user.name,
+      })),
+    );
   }
 
   async restoreReviewsByUser(userId: string) {
     const { permissions, event } = this.authorizedEvent;
     if (!permissions.canDismissReviews) throw new ForbiddenOperationError();
 
-    await db.review.updateMany({
-      where: { userId, proposal: { eventId: event.id }, dismissedAt: { not: null } },
-      data: { dismissedAt: null },
-    });
+    const where = { userId, proposal: { eventId: event.id }, dismissedAt: { not: null } };
+    const reviews = await db.review.findMany({ where, include: { user: true } });
+
+    await db.review.updateMany({ where, data: { dismissedAt: null } });
+
+    await ProposalAuditLogs.record(
+      reviews.map((review) => ({
+        eventId: event.id,
+        proposalId: review.proposalId,
+        userId: this.authorizedEvent.userId,
+        action: 'REVIEW_RESTORED' as const,
+        after: review.user.name,
+      })),
+    );
   }
 }
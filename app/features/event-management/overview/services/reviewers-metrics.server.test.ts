@@ -5,6 +5,7 @@ import { talkFactory } from 'tests/factories/talks.ts';
 import { teamFactory } from 'tests/factories/team.ts';
 import { userFactory } from 'tests/factories/users.ts';
 import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
 import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
 import { ReviewersMetrics } from './reviewers-metrics.server.ts';
 
@@ -55,6 +56,8 @@ describe('ReviewersMetrics', () => {
             positiveCount: 0,
             negativeCount: 1,
             dismissedCount: 0,
+            assignments: { total: 0, reviewed: 0 },
+            conflictsCount: 0,
           },
           {
             id: speaker.id,
@@ -65,6 +68,8 @@ describe('ReviewersMetrics', () => {
             positiveCount: 1,
             negativeCount: 0,
             dismissedCount: 0,
+            assignments: { total: 0, reviewed: 0 },
+            conflictsCount: 0,
           },
         ],
       });
@@ -97,6 +102,64 @@ describe('ReviewersMetrics', () => {
       expect(speakerMetrics).toEqual(expect.objectContaining({ reviewsCount: 1, dismissedCount: 1 }));
     });
 
+    it('returns assignments completion of reviewers', async () => {
+      const assignedTeam = await teamFactory({ owners: [owner] });
+      const assignedEvent = await eventFactory({ team: assignedTeam });
+      const member = await userFactory({ traits: ['bruce-wayne'] });
+
+      const proposal1 = await proposalFactory({
+        event: assignedEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+      });
+      const proposal2 = await proposalFactory({
+        event: assignedEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+      });
+      await reviewFactory({ user: owner, proposal: proposal1, attributes: { feeling: 'POSITIVE', note: 5 } });
+      await db.reviewAssignment.createMany({
+        data: [
+          { userId: owner.id, proposalId: proposal1.id },
+          { userId: owner.id, proposalId: proposal2.id },
+          { userId: member.id, proposalId: proposal2.id },
+        ],
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, assignedTeam.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, assignedEvent.slug);
+
+      const metrics = await ReviewersMetrics.for(authorizedEvent).get();
+
+      expect(metrics.reviewersMetrics).toEqual([
+        expect.objectContaining({ id: owner.id, reviewsCount: 1, assignments: { total: 2, reviewed: 1 } }),
+        expect.objectContaining({ id: member.id, reviewsCount: 0, assignments: { total: 1, reviewed: 0 } }),
+      ]);
+    });
+
+    it('returns conflicts of interest declared by reviewers', async () => {
+      const conflictTeam = await teamFactory({ owners: [owner] });
+      const conflictEvent = await eventFactory({ team: conflictTeam });
+      const member = await userFactory({ traits: ['bruce-wayne'] });
+
+      const proposal = await proposalFactory({
+        event: conflictEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+      });
+      await reviewFactory({ user: owner, proposal, attributes: { feeling: 'POSITIVE', note: 5 } });
+      await db.reviewConflict.create({
+        data: { userId: member.id, eventId: conflictEvent.id, proposalId: proposal.id },
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, conflictTeam.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, conflictEvent.slug);
+
+      const metrics = await ReviewersMetrics.for(authorizedEvent).get();
+
+      expect(metrics.reviewersMetrics).toEqual([
+        expect.objectContaining({ id: owner.id, reviewsCount: 1, conflictsCount: 0 }),
+        expect.objectContaining({ id: member.id, reviewsCount: 0, conflictsCount: 1 }),
+      ]);
+    });
+
     it('returns reviewers metrics for an event without reviews', async () => {
       const team = await teamFactory({ owners: [owner] });
       const event = await eventFactory({ team });
@@ -5,7 +5,7 @@ import { Prisma } from '../../../../../prisma/generated/client.ts';
 type ReviewerMetricsInfo = {
   id: string;
   name: string;
-  picture: string;
+  picture: string | null;
   reviewsCount: number;
   averageNote: Prisma.Decimal;
   positiveCount: number;
@@ -13,6 +13,14 @@ type ReviewerMetricsInfo = {
   dismissedCount: number;
 };
 
+type ReviewerAssignmentsInfo = {
+  id: string;
+  name: string;
+  picture: string | null;
+  total: bigint;
+  reviewed: bigint;
+};
+
 export class ReviewersMetrics {
   constructor(private authorizedEvent: AuthorizedEvent) {}
 
@@ -34,7 +42,7 @@ export class ReviewersMetrics {
         users."name",
         users."picture",
         COUNT(reviews."id") as "reviewsCount",
-        AVG(reviews."note") as "averageNote",
+        AVG(reviews."note"::numeric) as "averageNote",
         COUNT(reviews."feeling") FILTER (WHERE reviews."feeling" = 'POSITIVE') as "positiveCount",
         COUNT(reviews."feeling") FILTER (WHERE reviews."feeling" = 'NEGATIVE') as "negativeCount",
         COUNT(reviews."id") FILTER (WHERE reviews."dismissedAt" IS NOT NULL) as "dismissedCount"
@@ -46,19 +54,77 @@ export class ReviewersMetrics {
       ORDER BY "reviewsCount" DESC
     `);
 
-    return {
-      proposalsCount,
-      reviewersMetrics: reviewersMetrics.map((reviewer) => ({
+    const [assignments, conflicts] = await Promise.all([this.assignments(event.id), this.conflicts(event.id)]);
+    const assignmentsByReviewer = new Map(assignments.map((assignment) => [assignment.id, assignment]));
+
+    const metrics = reviewersMetrics.map((reviewer) => ({
+      id: reviewer.id,
+      name: reviewer.name,
+      picture: reviewer.picture,
+      reviewsCount: Number(reviewer.reviewsCount ?? 0),
+      averageNote: reviewer.averageNote?.toNumber() ?? 0,
+      positiveCount: Number(reviewer.positiveCount ?? 0),
+      negativeCount: Number(reviewer.negativeCount ?? 0),
+      dismissedCount: Number(reviewer.dismissedCount ?? 0),
+      assignments: this.toAssignmentsCount(assignmentsByReviewer.get(reviewer.id)),
+      conflictsCount: conflicts.get(reviewer.id)?.count ?? 0,
+    }));
+
+    // Reviewers with assignments or declared conflicts but without any review yet
+    const otherReviewers = [...assignments, ...Array.from(conflicts.values()).map(({ user }) => user)];
+    for (const reviewer of otherReviewers) {
+      if (metrics.some(({ id }) => id === reviewer.id)) continue;
+      metrics.push({
         id: reviewer.id,
         name: reviewer.name,
         picture: reviewer.picture,
-        reviewsCount: Number(reviewer.reviewsCount ?? 0),
-        averageNote: reviewer.averageNote?.toNumber() ?? 0,
-        positiveCount: Number(reviewer.positiveCount ?? 0),
-        negativeCount: Number(reviewer.negativeCount ?? 0),
-        dismissedCount: Number(reviewer.dismissedCount ?? 0),
-      })),
-    };
+        reviewsCount: 0,
+        averageNote: 0,
+        positiveCount: 0,
+        negativeCount: 0,
+        dismissedCount: 0,
+        assignments: this.toAssignmentsCount(assignmentsByReviewer.get(reviewer.id)),
+        conflictsCount: conflicts.get(reviewer.id)?.count ?? 0,
+      });
+    }
+
+    return { proposalsCount, reviewersMetrics: metrics };
+  }
+
+  private async assignments(eventId: string) {
+    return db.$queryRaw<Array<ReviewerAssignmentsInfo>>(Prisma.sql`
+      SELECT
+        users."id",
+        users."name",
+        users."picture",
+        COUNT(review_assignments."id") as "total",
+        COUNT(reviews."id") as "reviewed"
+      FROM review_assignments
+      JOIN users ON review_assignments."userId" = users.id
+      JOIN proposals ON review_assignments."proposalId" = proposals.id
+      LEFT JOIN reviews
+        ON reviews."proposalId" = review_assignments."proposalId"
+        AND reviews."userId" = review_assignments."userId"
+        AND reviews."dismissedAt" IS NULL
+      WHERE proposals."eventId" = ${eventId} AND proposals."isDraft" IS FALSE AND proposals."archivedAt" IS NULL
+      GROUP BY 1, 2, 3
+      ORDER BY users."name" ASC
+    `);
+  }
+
+  private async conflicts(eventId: string) {
+    const conflicts = await db.reviewConflict.findMany({ where: { eventId }, include: { user: true } });
+
+    const conflictsByReviewer = new Map<string, { user: (typeof conflicts)[number]['user']; count: number }>();
+    for (const { user } of conflicts) {
+      const current = conflictsByReviewer.get(user.id);
+      conflictsByReviewer.set(user.id, { user, count: (current?.count ?? 0) + 1 });
+    }
+    return conflictsByReviewer;
+  }
+
+  private toAssignmentsCount(assignment?: ReviewerAssignmentsInfo) {
+    return { total: Number(assignment?.total ?? 0), reviewed: Number(assignment?.reviewed ?? 0) };
   }
 
   private async proposalsCount(eventId: string) {
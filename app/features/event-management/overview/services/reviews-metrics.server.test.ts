@@ -68,6 +68,7 @@ describe('ReviewsMetrics', () => {
           adequatelyReviewed: 25,
           wellReviewed: 0,
         },
+        comparisonRanking: [],
       });
     });
 
@@ -90,9 +91,24 @@ describe('ReviewsMetrics', () => {
           adequatelyReviewed: 0,
           wellReviewed: 0,
         },
+        comparisonRanking: [],
       });
     });
 
+    it('uses weighted notes of rubric reviews', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [member] }) });
+      await reviewFactory({ user: owner, proposal, attributes: { note: 3.5, scores: { relevance: 4 } } });
+      await reviewFactory({ user: member, proposal, attributes: { note: 4.25, scores: { relevance: 5 } } });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const metrics = await ReviewsMetrics.for(authorizedEvent).get();
+
+      expect(metrics.averageNote).toBe(3.875);
+      expect(metrics.proposalNotesDistribution).toEqual([{ averageNote: 3.9, count: 1 }]);
+    });
+
     it('returns metrics for event with proposals but no reviews', async () => {
       await proposalFactory({ event, talk: await talkFactory({ speakers: [member] }) });
       await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }) });
@@ -115,6 +131,7 @@ describe('ReviewsMetrics', () => {
           adequatelyReviewed: 0,
           wellReviewed: 0,
         },
+        comparisonRanking: [],
       });
     });
 
@@ -171,6 +188,30 @@ describe('ReviewsMetrics', () => {
       });
     });
 
+    it('ranks proposals on their pairwise comparison rating', async () => {
+      const proposal1 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [member] }),
+        attributes: { comparisonRating: 1484.4 },
+      });
+      const proposal2 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [owner] }),
+        attributes: { comparisonRating: 1515.6 },
+      });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const metrics = await ReviewsMetrics.for(authorizedEvent).get();
+
+      expect(metrics.comparisonRanking).toEqual([
+        { id: proposal2.id, routeId: proposal2.routeId, title: proposal2.title, rating: 1516 },
+        { id: proposal1.id, routeId: proposal1.routeId, title: proposal1.title, rating: 1484 },
+      ]);
+    });
+
     it('excludes draft proposals from metrics', async () => {
       const talk1 = await talkFactory({ speakers: [member] });
       const talk2 = await talkFactory({ speakers: [owner] });
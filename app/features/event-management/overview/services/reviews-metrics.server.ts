@@ -1,6 +1,9 @@
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import { Prisma } from '../../../../../prisma/generated/client.ts';
+import { reviewConflictCondition } from '../../proposals/services/review-conflicts.server.ts';
+
+const COMPARISON_RANKING_SIZE = 20;
 
 type ReviewsMetricsInfo = {
   totalProposals: number;
@@ -40,13 +43,15 @@ export class ReviewsMetrics {
         positiveReviews: 0,
         proposalNotesDistribution: [],
         reviewCountDistribution: { missingReviews: 0, underReviewed: 0, adequatelyReviewed: 0, wellReviewed: 0 },
+        comparisonRanking: [],
       };
     }
 
-    const [overallMetrics, proposalReviewCounts, proposalNotesDistribution] = await Promise.all([
+    const [overallMetrics, proposalReviewCounts, proposalNotesDistribution, comparisonRanking] = await Promise.all([
       this.getOverallMetrics(event.id),
       this.getProposalReviewCounts(event.id),
       this.getProposalAverageNotes(event.id),
+      this.getComparisonRanking(event.id),
     ]);
 
     const reviewedProposals = Number(overallMetrics?.reviewedProposals ?? 0);
@@ -63,6 +68,7 @@ export class ReviewsMetrics {
         count: Number(item.count),
       })),
       reviewCountDistribution: this.calculateReviewCountDistribution(proposalReviewCounts),
+      comparisonRanking,
     };
   }
 
@@ -76,10 +82,11 @@ export class ReviewsMetrics {
         COUNT(DISTINCT proposals.id) as "totalProposals",
         COUNT(reviews.id) as "totalReviews",
         COUNT(DISTINCT CASE WHEN reviews.id IS NOT NULL THEN proposals.id END) as "reviewedProposals",
-        AVG(reviews.note) as "averageNote",
+        AVG(reviews.note::numeric) as "averageNote",
         COUNT(reviews.feeling) FILTER (WHERE reviews.feeling = 'POSITIVE') as "positiveReviews"
       FROM proposals
       LEFT JOIN reviews ON reviews."proposalId" = proposals.id AND reviews."dismissedAt" IS NULL
+        AND NOT ${this.conflictedReview()}
       WHERE proposals."eventId" = ${eventId} AND proposals."isDraft" = false
     `);
 
@@ -93,6 +100,7 @@ export class ReviewsMetrics {
         COUNT(reviews.id) as "reviewCount"
       FROM proposals
       LEFT JOIN reviews ON reviews."proposalId" = proposals.id AND reviews."dismissedAt" IS NULL
+        AND NOT ${this.conflictedReview()}
       WHERE proposals."eventId" = ${eventId} AND proposals."isDraft" = false
       GROUP BY proposals.id
       ORDER BY "reviewCount" DESC
@@ -139,9 +147,10 @@ export class ReviewsMetrics {
       FROM (
         SELECT
           proposals.id,
-          AVG(reviews.note) as proposal_avg
+          AVG(reviews.note::numeric) as proposal_avg
         FROM proposals
         INNER JOIN reviews ON reviews."proposalId" = proposals.id AND reviews.note IS NOT NULL AND reviews."dismissedAt" IS NULL
+          AND NOT ${this.conflictedReview()}
         WHERE proposals."eventId" = ${eventId} AND proposals."isDraft" = false
         GROUP BY proposals.id
         HAVING COUNT(reviews.id) > 0
@@ -150,4 +159,25 @@ export class ReviewsMetrics {
       ORDER BY "averageNote" ASC
     `);
   }
+
+  // Proposals ranked by the rating computed from the pairwise comparisons of reviewers
+  private async getComparisonRanking(eventId: string) {
+    const proposals = await db.proposal.findMany({
+      where: { eventId, isDraft: false, archivedAt: null, comparisonRating: { not: null } },
+      orderBy: { comparisonRating: 'desc' },
+      take: COMPARISON_RANKING_SIZE,
+    });
+
+    return proposals.map((proposal) => ({
+      id: proposal.id,
+      routeId: proposal.routeId,
+      title: proposal.title,
+      rating: Math.round(proposal.comparisonRating ?? 0),
+    }));
+  }
+
+  // Reviews of reviewers who declared a conflict of interest are left out of the metrics
+  private conflictedReview() {
+    return reviewConflictCondition(Prisma.sql`reviews."userId"`, Prisma.sql`proposals.id`);
+  }
 }
@@ -25,6 +25,7 @@ export const loader = async ({ params, context, url }: Route.LoaderArgs) => {
       formats: result.formats.join(','),
       categories: result.categories.join(','),
       speakers: formatObjectArray(result.speakers),
+      attachments: result.attachments.map((attachment) => attachment.url).join(','),
     })),
   );
 
@@ -1,3 +1,4 @@
+import { attachmentFactory } from 'tests/factories/attachments.ts';
 import { eventCategoryFactory } from 'tests/factories/categories.ts';
 import { eventSpeakerFactory } from 'tests/factories/event-speakers.ts';
 import { eventFactory } from 'tests/factories/events.ts';
@@ -19,9 +20,12 @@ import type {
   Team,
   User,
 } from '../../../../../prisma/generated/client.ts';
+import { getSharedServerEnv } from '../../../../../servers/environment.server.ts';
 import { exportToOpenPlanner } from './jobs/export-to-open-planner.job.ts';
 import { ProposalsExport } from './proposals-export.server.ts';
 
+const { APP_URL } = getSharedServerEnv();
+
 describe('ProposalsExport', () => {
   let owner: User;
   let member: User;
@@ -78,6 +82,7 @@ describe('ProposalsExport', () => {
         talk: await talkFactory({ speakers: [speaker] }),
       });
       const review = await reviewFactory({ proposal, user: speaker });
+      const attachment = await attachmentFactory({ proposal, attributes: { name: 'slides.pdf' } });
 
       const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
       const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
@@ -104,7 +109,16 @@ describe('ProposalsExport', () => {
             formats: [format.name],
             categories: [category.name],
             tags: [tag.name],
+            attachments: [
+              {
+                name: 'slides.pdf',
+                contentType: 'application/pdf',
+                size: 1024,
+                url: `${APP_URL}/attachments/${attachment.id}`,
+              },
+            ],
             review: { negatives: 0, positives: 0, average: review.note },
+            normalizedReview: review.note,
             speakers: [
               {
                 id: eventSpeaker.id,
@@ -124,6 +138,16 @@ describe('ProposalsExport', () => {
       });
     });
 
+    it('leaves attachment links out of API exports', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await attachmentFactory({ proposal, attributes: { name: 'slides.pdf' } });
+
+      const result = await ProposalsExport.forApi({ event }).toJson({});
+
+      expect(result.proposals[0].attachments).toEqual([
+        { name: 'slides.pdf', contentType: 'application/pdf', size: 1024 },
+      ]);
+    });
     it('can filters proposals like in the proposals search', async () => {
       const talk = await talkFactory({ speakers: [speaker] });
       const proposal = await proposalFactory({ event, traits: ['accepted'], talk });
@@ -137,6 +161,35 @@ describe('ProposalsExport', () => {
       expect(result.proposals[0].id).toBe(proposal.id);
     });
 
+    it('can filters proposals with search query qualifiers for the API', async () => {
+      const talk = await talkFactory({ speakers: [speaker] });
+      const proposal = await proposalFactory({ event, tags: [tag], talk });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const result = await ProposalsExport.forApi({ event }).toJson({ query: `tag:"${tag.name}" speaker:parker` });
+
+      expect(result.proposals.length).toBe(1);
+      expect(result.proposals[0].id).toBe(proposal.id);
+    });
+
+    it('can filters proposals by levels and languages for the API', async () => {
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { level: 'BEGINNER', languages: ['fr'] },
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { level: 'BEGINNER', languages: ['en'] },
+      });
+
+      const result = await ProposalsExport.forApi({ event }).toJson({ levels: ['BEGINNER'], languages: ['fr'] });
+
+      expect(result.proposals.length).toBe(1);
+      expect(result.proposals[0].id).toBe(proposal.id);
+    });
+
     it('includes speaker survey data when available', async () => {
       const speaker1 = await userFactory();
       const speaker2 = await userFactory();
@@ -3,8 +3,10 @@ import { ProposalSearchBuilder } from '~/features/event-management/proposals/ser
 import { SpeakerSurvey } from '~/features/event-participation/speaker-survey/services/speaker-survey.server.ts';
 import type { AuthorizedApiEvent, AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { resolveAttachmentUrl } from '~/shared/storage/storage-utils.ts';
 import type { Languages } from '~/shared/types/proposals.types.ts';
 import type { SurveyDetailedAnswer } from '~/shared/types/survey.types.ts';
+import { db } from '../../../../../prisma/db.server.ts';
 import type { Event } from '../../../../../prisma/generated/client.ts';
 import { SurveyConfig } from '../../settings/models/survey-config.ts';
 import { exportToOpenPlanner } from './jobs/export-to-open-planner.job.ts';
@@ -13,6 +15,7 @@ export class ProposalsExport {
   private constructor(
     private userId: string,
     private event: Event,
+    private withAttachmentUrls = true,
   ) {}
 
   static forUser(authorizedEvent: AuthorizedEvent) {
@@ -23,17 +26,24 @@ export class ProposalsExport {
 
   static forApi(authorizedApiEvent: AuthorizedApiEvent) {
     const { event } = authorizedApiEvent;
-    return new ProposalsExport('no-user', event);
+    // Attachments are served to signed-in users only, so their links are left out of API exports
+    return new ProposalsExport('no-user', event, false);
   }
 
   async toJson(filters: ProposalsFilters) {
     const search = new ProposalSearchBuilder(this.event.id, this.userId, filters, {
       withSpeakers: true,
       withReviews: true,
+      withNormalizedReviews: true,
     });
 
     const proposals = await search.proposals();
 
+    const attachments = await db.attachment.findMany({
+      where: { proposalId: { in: proposals.map((proposal) => proposal.id) } },
+      orderBy: { createdAt: 'asc' },
+    });
+
     let speakerSurveys: Record<string, Array<SurveyDetailedAnswer>> = {};
     const { isActiveForEvent } = new SurveyConfig(this.event.surveyConfig);
 
@@ -79,7 +89,16 @@ export class ProposalsExport {
           socialLinks: speaker.socialLinks,
           survey: speaker.userId ? this.mapSpeakerSurvey(speaker.userId, speakerSurveys) : [],
         })),
+        attachments: attachments
+          .filter((attachment) => attachment.proposalId === proposal.id)
+          .map((attachment) => ({
+            name: attachment.name,
+            contentType: attachment.contentType,
+            size: attachment.size,
+            ...(this.withAttachmentUrls ? { url: resolveAttachmentUrl(attachment.id) } : {}),
+          })),
         review: proposal.reviews.summary,
+        normalizedReview: proposal.normalizedReview ?? null,
       })),
     };
   }
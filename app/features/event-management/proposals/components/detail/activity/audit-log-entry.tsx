@@ -0,0 +1,33 @@
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { ActivityFeed } from '~/design-system/activity-feed/activity-feed.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { TimeDistance } from '~/design-system/utils/time-distance.tsx';
+import { type AuditLog, AuditLogChange, auditLogSummary } from '../../shared/audit-log-change.tsx';
+
+type Props = { log: AuditLog };
+
+export function AuditLogEntry({ log }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <ActivityFeed.Entry
+      withLine
+      marker={
+        <div className="relative flex h-8 w-8 flex-none items-center justify-center rounded-full border border-gray-200 bg-white">
+          <ClockIcon className="h-4 w-4 text-gray-600" aria-hidden />
+        </div>
+      }
+    >
+      <div className="flex min-h-8 flex-col justify-center gap-1">
+        <div className="flex flex-wrap items-center gap-x-2">
+          <Text size="s" variant="secondary">
+            {auditLogSummary(log, t)}
+          </Text>
+          <TimeDistance date={log.createdAt} className="text-xs text-gray-500" tooltip="left" />
+        </div>
+        <AuditLogChange log={log} />
+      </div>
+    </ActivityFeed.Entry>
+  );
+}
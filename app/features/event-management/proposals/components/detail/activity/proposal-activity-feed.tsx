@@ -5,8 +5,11 @@ import { Avatar } from '~/design-system/avatar.tsx';
 import { MessageBlock } from '~/features/conversations/components/message-block.tsx';
 import { MessageInputForm } from '~/features/conversations/components/message-input-form.tsx';
 import type { Message } from '~/shared/types/conversation.types.ts';
+import type { AuditLog } from '../../shared/audit-log-change.tsx';
+import { AuditLogEntry } from './audit-log-entry.tsx';
 import type { ReviewMember } from './reviews-group-entry.tsx';
 import { ReviewsGroupEntry } from './reviews-group-entry.tsx';
+import { type ProposalRevision, RevisionEntry } from './revision-entry.tsx';
 import { SpeakerConversationEntry } from './speaker-conversation-entry.tsx';
 
 type ReviewSummary = {
@@ -17,6 +20,8 @@ type ReviewSummary = {
 
 type Props = {
   comments: Array<Message>;
+  revisions: Array<ProposalRevision>;
+  auditLogs: Array<AuditLog>;
   reviews: Array<ReviewMember> | null;
   reviewsSummary: ReviewSummary | null;
   speakerConversation: Array<Message>;
@@ -27,6 +32,8 @@ type Props = {
 
 export function ProposalActivityFeed({
   comments,
+  revisions,
+  auditLogs,
   reviews,
   reviewsSummary,
   speakerConversation,
@@ -37,6 +44,12 @@ export function ProposalActivityFeed({
   const user = useUser();
   const { t } = useTranslation();
 
+  const entries = [
+    ...comments.map((message) => ({ type: 'comment' as const, date: message.sentAt, message })),
+    ...revisions.map((revision) => ({ type: 'revision' as const, date: revision.createdAt, revision })),
+    ...auditLogs.map((log) => ({ type: 'audit-log' as const, date: log.createdAt, log })),
+  ].toSorted((a, b) => a.date.getTime() - b.date.getTime());
+
   return (
     <ActivityFeed label={t('event-management.proposal-page.activity-feed')} className="pl-4">
       <ActivityFeed.Entry className="h-6" withLine aria-hidden />
@@ -53,21 +66,25 @@ export function ProposalActivityFeed({
         <ReviewsGroupEntry reviews={reviews} summary={reviewsSummary ?? null} canDismissReviews={canDismissReviews} />
       ) : null}
 
-      {comments.map((message) => (
-        <ActivityFeed.Entry
-          key={message.id}
-          marker={<Avatar picture={message.sender.picture} name={message.sender.name} />}
-          withLine
-        >
-          <MessageBlock
-            channel="comment"
-            message={message}
-            canManageConversations={canManageConversations}
-            showRoleBadge={false}
-            isNew={message.isNew}
-          />
-        </ActivityFeed.Entry>
-      ))}
+      {entries.map((entry) => {
+        if (entry.type === 'revision') return <RevisionEntry key={entry.revision.id} revision={entry.revision} />;
+        if (entry.type === 'audit-log') return <AuditLogEntry key={entry.log.id} log={entry.log} />;
+        return (
+          <ActivityFeed.Entry
+            key={entry.message.id}
+            marker={<Avatar picture={entry.message.sender.picture} name={entry.message.sender.name} />}
+            withLine
+          >
+            <MessageBlock
+              channel="comment"
+              message={entry.message}
+              canManageConversations={canManageConversations}
+              showRoleBadge={false}
+              isNew={entry.message.isNew}
+            />
+          </ActivityFeed.Entry>
+        );
+      })}
 
       <ActivityFeed.Entry marker={<Avatar picture={user?.picture} name={user?.name} />}>
         <MessageInputForm
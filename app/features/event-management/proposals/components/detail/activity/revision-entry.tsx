@@ -0,0 +1,126 @@
+import { Disclosure, DisclosureButton, DisclosurePanel } from '@headlessui/react';
+import { ChevronDownIcon } from '@heroicons/react/20/solid';
+import { PencilSquareIcon } from '@heroicons/react/24/outline';
+import { cx } from 'class-variance-authority';
+import { useTranslation } from 'react-i18next';
+import { ActivityFeed } from '~/design-system/activity-feed/activity-feed.tsx';
+import { Badge } from '~/design-system/badges.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { TimeDistance } from '~/design-system/utils/time-distance.tsx';
+import { diffWords, isListChange, type ProposalRevisionChange } from '../../../models/proposal-revision.ts';
+
+export type ProposalRevision = {
+  id: string;
+  author: { name: string; picture: string | null } | null;
+  changes: Array<ProposalRevisionChange>;
+  createdAt: Date;
+  isNew: boolean;
+};
+
+type Props = { revision: ProposalRevision };
+
+export function RevisionEntry({ revision }: Props) {
+  const { t } = useTranslation();
+
+  const fields = revision.changes.map((change) => t(`event-management.proposal-page.revisions.fields.${change.field}`));
+
+  return (
+    <ActivityFeed.Entry
+      withLine
+      marker={
+        <div className="relative flex h-8 w-8 flex-none items-center justify-center rounded-full border border-gray-200 bg-white">
+          <PencilSquareIcon className="h-4 w-4 text-gray-600" aria-hidden />
+        </div>
+      }
+    >
+      <Disclosure
+        as="div"
+        className={cx('rounded-md bg-white ring-1', revision.isNew ? 'ring-blue-400' : 'ring-gray-200')}
+      >
+        <DisclosureButton className="group flex w-full cursor-pointer items-center justify-between gap-2 rounded-t-md p-3 not-data-open:rounded-b-md hover:bg-gray-50">
+          <div className="flex min-w-0 flex-col sm:flex-row sm:items-center sm:gap-1">
+            <Text size="s" weight="semibold" align="left" truncate>
+              {revision.author
+                ? t('event-management.proposal-page.revisions.title', { name: revision.author.name })
+                : t('event-management.proposal-page.revisions.title.anonymous')}
+              <span className="hidden sm:inline"> ⋅ </span>
+            </Text>
+            <Text size="s" variant="secondary" align="left" truncate>
+              {t('event-management.proposal-page.revisions.fields', { fields })}
+            </Text>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            {revision.isNew ? (
+              <Badge color="blue" pill compact>
+                {t('event-management.proposal-page.revisions.since-your-review')}
+              </Badge>
+            ) : null}
+            <TimeDistance date={revision.createdAt} className="text-xs text-gray-500" tooltip="left" />
+            <ChevronDownIcon className="h-5 w-5 text-gray-500 group-data-open:rotate-180" />
+          </div>
+        </DisclosureButton>
+
+        <DisclosurePanel className="divide-y divide-gray-200 rounded-b-md border-t border-gray-200">
+          {revision.changes.map((change) => (
+            <div key={change.field} className="space-y-1 p-3">
+              <Text size="xs" variant="secondary" weight="semibold">
+                {t(`event-management.proposal-page.revisions.fields.${change.field}`)}
+              </Text>
+              <ChangeDiff change={change} />
+            </div>
+          ))}
+        </DisclosurePanel>
+      </Disclosure>
+    </ActivityFeed.Entry>
+  );
+}
+
+function ChangeDiff({ change }: { change: ProposalRevisionChange }) {
+  if (isListChange(change)) {
+    const removed = change.before.filter((value) => !change.after.includes(value));
+    const added = change.after.filter((value) => !change.before.includes(value));
+    const unchanged = change.after.filter((value) => change.before.includes(value));
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {unchanged.map((value) => (
+          <Badge key={value}>{value}</Badge>
+        ))}
+        {removed.map((value) => (
+          <Badge key={value} color="red">
+            <del>{value}</del>
+          </Badge>
+        ))}
+        {added.map((value) => (
+          <Badge key={value} color="green">
+            <ins className="no-underline">{value}</ins>
+          </Badge>
+        ))}
+      </div>
+    );
+  }
+
+  const parts = diffWords(change.before ?? '', change.after ?? '');
+
+  return (
+    <p className="text-sm break-words whitespace-pre-line text-gray-900">
+      {parts.map((part, index) => {
+        if (part.type === 'added') {
+          return (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">
+              {part.value}
+            </ins>
+          );
+        }
+        if (part.type === 'removed') {
+          return (
+            <del key={index} className="bg-red-100 text-red-900">
+              {part.value}
+            </del>
+          );
+        }
+        return <span key={index}>{part.value}</span>;
+      })}
+    </p>
+  );
+}
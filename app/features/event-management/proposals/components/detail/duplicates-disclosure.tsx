@@ -0,0 +1,55 @@
+import { useTranslation } from 'react-i18next';
+import { href, Link, useFetcher } from 'react-router';
+import { Badge } from '~/design-system/badges.tsx';
+import { Button } from '~/design-system/button.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { Text } from '~/design-system/typography.tsx';
+
+type DuplicatesDisclosureProps = {
+  team: string;
+  event: string;
+  duplicates: Array<{ id: string; routeId: string; title: string; similarity: number }>;
+  canDismiss: boolean;
+};
+
+export function DuplicatesDisclosure({ team, event, duplicates, canDismiss }: DuplicatesDisclosureProps) {
+  const { t } = useTranslation();
+  const fetcher = useFetcher();
+
+  if (duplicates.length === 0) return null;
+
+  return (
+    <Card.Disclosure
+      title={t('event-management.proposal-page.duplicates', { count: duplicates.length })}
+      as="ul"
+      defaultOpen={false}
+    >
+      {duplicates.map((duplicate) => (
+        <li key={duplicate.id} className="flex items-center gap-4">
+          <Link
+            to={href('/team/:team/:event/proposals/:proposal', { team, event, proposal: duplicate.routeId })}
+            target="_blank"
+            relative="path"
+            className="flex grow items-center justify-between gap-4 rounded-md p-2 hover:bg-gray-100"
+          >
+            <Text weight="semibold">{duplicate.title}</Text>
+            <Badge compact>
+              {t('event-management.proposal-page.duplicates.similarity', {
+                similarity: Math.round(duplicate.similarity * 100),
+              })}
+            </Badge>
+          </Link>
+
+          {canDismiss ? (
+            <fetcher.Form method="POST">
+              <input type="hidden" name="duplicateId" value={duplicate.id} />
+              <Button type="submit" name="intent" value="dismiss-duplicate" variant="secondary" size="xs">
+                {t('event-management.proposal-page.duplicates.dismiss')}
+              </Button>
+            </fetcher.Form>
+          ) : null}
+        </li>
+      ))}
+    </Card.Disclosure>
+  );
+}
@@ -0,0 +1,46 @@
+import { useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import { Text } from '~/design-system/typography.tsx';
+
+type MergeProposalModalProps = {
+  open: boolean;
+  onClose: VoidFunction;
+  proposal: { title: string };
+};
+
+export function MergeProposalModal({ open, onClose, proposal }: MergeProposalModalProps) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  return (
+    <Modal title={t('event-management.proposal-page.merge-modal.title')} open={open} size="m" onClose={onClose}>
+      <Modal.Content className="space-y-4">
+        <Text variant="secondary">
+          {t('event-management.proposal-page.merge-modal.description', { title: proposal.title })}
+        </Text>
+        <Form id={formId} method="POST" onSubmit={onClose}>
+          <Input
+            name="source"
+            type="number"
+            min={1}
+            label={t('event-management.proposal-page.merge-modal.proposal-number')}
+            required
+          />
+        </Form>
+      </Modal.Content>
+
+      <Modal.Actions>
+        <Button type="button" variant="secondary" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" name="intent" value="merge-proposal" form={formId}>
+          {t('event-management.proposal-page.merge-modal.submit')}
+        </Button>
+      </Modal.Actions>
+    </Modal>
+  );
+}
@@ -0,0 +1,67 @@
+import { ArrowsPointingInIcon } from '@heroicons/react/20/solid';
+import { Trans, useTranslation } from 'react-i18next';
+import { href, Link } from 'react-router';
+import { Callout } from '~/design-system/callout.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { Text } from '~/design-system/typography.tsx';
+
+type MergedProposal = { routeId: string; title: string };
+
+type MergedIntoCalloutProps = {
+  team: string;
+  event: string;
+  mergedInto: MergedProposal | null;
+};
+
+export function MergedIntoCallout({ team, event, mergedInto }: MergedIntoCalloutProps) {
+  if (!mergedInto) return null;
+
+  return (
+    <Callout icon={ArrowsPointingInIcon} variant="neutral" className="mb-6">
+      <Trans
+        i18nKey="event-management.proposal-page.merged-into"
+        values={{ title: mergedInto.title }}
+        components={[
+          <Link
+            key="0"
+            to={href('/team/:team/:event/proposals/:proposal', { team, event, proposal: mergedInto.routeId })}
+            className="font-semibold underline"
+          />,
+        ]}
+      />
+    </Callout>
+  );
+}
+
+type MergedProposalsDisclosureProps = {
+  team: string;
+  event: string;
+  proposals: Array<MergedProposal>;
+};
+
+export function MergedProposalsDisclosure({ team, event, proposals }: MergedProposalsDisclosureProps) {
+  const { t } = useTranslation();
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <Card.Disclosure
+      title={t('event-management.proposal-page.merged-proposals', { count: proposals.length })}
+      as="ul"
+      defaultOpen={false}
+    >
+      {proposals.map((proposal) => (
+        <li key={proposal.routeId}>
+          <Link
+            to={href('/team/:team/:event/proposals/:proposal', { team, event, proposal: proposal.routeId })}
+            target="_blank"
+            relative="path"
+            className="flex w-full rounded-md p-2 hover:bg-gray-100"
+          >
+            <Text weight="semibold">{proposal.title}</Text>
+          </Link>
+        </li>
+      ))}
+    </Card.Disclosure>
+  );
+}
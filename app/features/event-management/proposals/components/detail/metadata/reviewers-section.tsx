@@ -0,0 +1,86 @@
+import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { useFetcher } from 'react-router';
+import { AvatarName } from '~/design-system/avatar.tsx';
+import { SelectPanel } from '~/design-system/forms/select-panel.tsx';
+import { H2, Text } from '~/design-system/typography.tsx';
+import { sortBy } from '~/shared/utils/arrays-sort-by.ts';
+
+type Reviewer = { id: string; name: string; picture: string | null };
+
+type ReviewersSectionProps = {
+  proposalId: string;
+  assignedReviewers: Array<Reviewer>;
+  teamReviewers: Array<Reviewer>;
+  canAssignReviews: boolean;
+  className?: string;
+};
+
+export function ReviewersSection({
+  proposalId,
+  assignedReviewers,
+  teamReviewers,
+  canAssignReviews,
+  className,
+}: ReviewersSectionProps) {
+  const { t } = useTranslation();
+  const fetcher = useFetcher({ key: `save-reviewers:${proposalId}` });
+
+  // optimistic update
+  let displayedReviewers = assignedReviewers;
+  if (fetcher.formData?.get('intent') === 'save-reviewers') {
+    const pending = fetcher.formData?.getAll('reviewers') as string[];
+    displayedReviewers = teamReviewers.filter((reviewer) => pending.includes(reviewer.id));
+  }
+  displayedReviewers = sortBy(displayedReviewers, 'name');
+
+  const update = (ids: Array<string>) => {
+    const formData = new FormData();
+    formData.set('intent', 'save-reviewers');
+    for (const id of ids) {
+      formData.append('reviewers', id);
+    }
+    fetcher.submit(formData, { method: 'POST', preventScrollReset: true });
+  };
+
+  const title = t('event-management.proposal-page.reviewers');
+
+  return (
+    <div className={className}>
+      {canAssignReviews ? (
+        <SelectPanel
+          key={proposalId}
+          name="reviewers"
+          label={title}
+          values={displayedReviewers.map((reviewer) => reviewer.id)}
+          options={teamReviewers.map((reviewer) => ({
+            value: reviewer.id,
+            label: reviewer.name,
+            picture: reviewer.picture,
+          }))}
+          onChange={(selected) => update(selected.map((option) => option.value))}
+          displayPicture
+        >
+          <div className="group flex items-center justify-between">
+            <H2 size="s" className="group-hover:text-indigo-600">
+              {title}
+            </H2>
+            <Cog6ToothIcon className="h-5 w-5 text-gray-500 group-hover:text-indigo-600" aria-hidden />
+          </div>
+        </SelectPanel>
+      ) : (
+        <H2 size="s">{title}</H2>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {displayedReviewers.length === 0 ? (
+          <Text size="xs">{t('event-management.proposal-page.reviewers.empty')}</Text>
+        ) : null}
+
+        {displayedReviewers.map((reviewer) => (
+          <AvatarName key={reviewer.id} name={reviewer.name} picture={reviewer.picture} size="xs" />
+        ))}
+      </div>
+    </div>
+  );
+}
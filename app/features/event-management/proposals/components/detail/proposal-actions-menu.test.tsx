@@ -68,6 +68,25 @@ describe('ProposalActionsMenu component', () => {
     await expect.element(page.getByRole('dialog', { name: 'Share proposal' })).toBeInTheDocument();
   });
 
+  it('opens MergeProposalModal when clicking Merge a proposal', async () => {
+    await renderComponent();
+
+    const element = page.getByRole('button', { name: 'Proposal action menu' });
+    await element.click();
+    const element1 = page.getByRole('menuitem', { name: /Merge a proposal/ });
+    await element1.click();
+
+    await expect.element(page.getByRole('dialog', { name: 'Merge a proposal' })).toBeInTheDocument();
+  });
+
+  it('hides Merge action when the proposal has been merged into another one', async () => {
+    await renderComponent({ proposal: { ...defaultProps.proposal, mergedInto: { routeId: '42' } } });
+
+    const element = page.getByRole('button', { name: 'Proposal action menu' });
+    await element.click();
+    await expect.element(page.getByRole('menuitem', { name: /Merge a proposal/ })).not.toBeInTheDocument();
+  });
+
   it('hides Edit action when canEditEventProposal is false', async () => {
     await renderComponent({ canEditEventProposal: false });
 
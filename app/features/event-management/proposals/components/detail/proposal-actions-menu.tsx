@@ -2,6 +2,7 @@ import { Menu, MenuButton, MenuItem, MenuItems } from '@headlessui/react';
 import {
   ArchiveBoxIcon,
   ArchiveBoxXMarkIcon,
+  ArrowsPointingInIcon,
   EllipsisHorizontalIcon,
   PencilSquareIcon,
   ShareIcon,
@@ -15,6 +16,7 @@ import { menuItem, menuItemIcon, menuItems } from '~/design-system/styles/menu.s
 import { MenuTransition } from '~/design-system/transitions.tsx';
 import { TalkEditDrawer } from '~/features/speaker/talk-library/components/talk-forms/talk-form-drawer.tsx';
 import type { SubmissionErrors } from '~/shared/types/errors.types.ts';
+import { MergeProposalModal } from './merge-proposal-modal.tsx';
 import { ShareProposalModal } from './share-proposal-modal.tsx';
 
 type ProposalActionsMenuProps = {
@@ -29,6 +31,7 @@ type ProposalActionsMenuProps = {
     languages: string[];
     level: string | null;
     archivedAt: Date | null;
+    mergedInto?: { routeId: string } | null;
     formats?: Array<{ id: string }>;
     categories?: Array<{ id: string }>;
   };
@@ -48,11 +51,16 @@ export function ProposalActionsMenu({
   const { t } = useTranslation();
   const [editDrawerOpen, setEditDrawerOpen] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
+  const [mergeModalOpen, setMergeModalOpen] = useState(false);
 
   const onOpenEdit = () => setEditDrawerOpen(true);
   const onCloseEdit = () => setEditDrawerOpen(false);
   const onOpenShare = () => setShareModalOpen(true);
   const onCloseShare = () => setShareModalOpen(false);
+  const onOpenMerge = () => setMergeModalOpen(true);
+  const onCloseMerge = () => setMergeModalOpen(false);
+
+  const canMergeProposal = canEditEventProposal && !proposal.mergedInto;
 
   return (
     <>
@@ -80,6 +88,13 @@ export function ProposalActionsMenu({
               {t('event-management.proposal-page.share-link')}
             </MenuItem>
 
+            {canMergeProposal && (
+              <MenuItem as="button" onClick={onOpenMerge} className={menuItem()}>
+                <ArrowsPointingInIcon className={menuItemIcon()} aria-hidden="true" />
+                {t('event-management.proposal-page.merge-proposal')}
+              </MenuItem>
+            )}
+
             {canArchiveProposal && (
               <>
                 <Divider className="my-2" />
@@ -111,6 +126,8 @@ export function ProposalActionsMenu({
 
       <ShareProposalModal open={shareModalOpen} onClose={onCloseShare} team={team} event={event} proposal={proposal} />
 
+      {canMergeProposal && <MergeProposalModal open={mergeModalOpen} onClose={onCloseMerge} proposal={proposal} />}
+
       {canEditEventProposal && (
         <TalkEditDrawer initialValues={proposal} errors={errors} open={editDrawerOpen} onClose={onCloseEdit} />
       )}
@@ -96,6 +96,7 @@ describe('ProposalStatusSelect component', () => {
       await expect.element(page.getByRole('option', { name: /Pending/ })).toBeInTheDocument();
       await expect.element(page.getByRole('option', { name: /Accepted/ })).toBeInTheDocument();
       await expect.element(page.getByRole('option', { name: /Rejected/ })).toBeInTheDocument();
+      await expect.element(page.getByRole('option', { name: /Waitlisted/ })).toBeInTheDocument();
 
       // Confirmation status options should be hidden - let's check they're not in the DOM
       const allOptions = page.getByRole('option').all();
@@ -1,4 +1,4 @@
-import { CheckIcon, XMarkIcon } from '@heroicons/react/16/solid';
+import { CheckIcon, QueueListIcon, XMarkIcon } from '@heroicons/react/16/solid';
 import { QuestionMarkCircleIcon, ClockIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
 import type { TFunction } from 'i18next';
 import { useId, useState } from 'react';
@@ -31,6 +31,8 @@ function mapOptionValueToStatuses(value: string) {
       return { deliberationStatus: 'ACCEPTED', confirmationStatus: '' };
     case 'REJECTED':
       return { deliberationStatus: 'REJECTED', confirmationStatus: '' };
+    case 'WAITLISTED':
+      return { deliberationStatus: 'WAITLISTED', confirmationStatus: '' };
     default:
       return { deliberationStatus: 'PENDING', confirmationStatus: '' };
   }
@@ -57,6 +59,12 @@ function getOptions(t: TFunction, confirmationStatus: ConfirmationStatus) {
       icon: XMarkIcon,
       iconClassname: 'text-red-700',
     },
+    {
+      value: 'WAITLISTED',
+      name: t('common.proposals.status.waitlisted'),
+      icon: QueueListIcon,
+      iconClassname: 'text-amber-700',
+    },
     {
       value: 'NOT_ANSWERED',
       name: t('common.proposals.status.not-answered'),
@@ -88,7 +96,11 @@ export function ProposalStatusSelect({ deliberationStatus, publicationStatus, co
   const proposalStatus = mapStatusesToOptionValue({ confirmationStatus, deliberationStatus });
 
   const isArchived = archivedAt !== null;
-  const canPublish = !isArchived && publicationStatus === 'NOT_PUBLISHED' && deliberationStatus !== 'PENDING';
+  const canPublish =
+    !isArchived &&
+    publicationStatus === 'NOT_PUBLISHED' &&
+    deliberationStatus !== 'PENDING' &&
+    deliberationStatus !== 'WAITLISTED';
 
   const handleSubmit = (_name: string, value: string) => {
     const confirmation = t('event-management.proposal-page.proposal-status.confirmation');
@@ -0,0 +1,136 @@
+import { HandRaisedIcon } from '@heroicons/react/16/solid';
+import { useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, useFetcher } from 'react-router';
+import { AvatarName } from '~/design-system/avatar.tsx';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { FieldsetGroup } from '~/design-system/forms/fieldset-group.tsx';
+import { Radio } from '~/design-system/forms/input-radio.tsx';
+import { TextArea } from '~/design-system/forms/textarea.tsx';
+import { H2, Text } from '~/design-system/typography.tsx';
+
+type UserConflict = { id: string; reason: string | null; speaker: string | null };
+
+type YourConflictsProps = { conflicts: Array<UserConflict> };
+
+export function YourConflicts({ conflicts }: YourConflictsProps) {
+  const { t } = useTranslation();
+  const fetcher = useFetcher();
+
+  return (
+    <div className="space-y-2 p-4 lg:px-6 lg:py-4">
+      <H2 size="s">{t('event-management.proposal-page.your-review')}</H2>
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className="flex items-center justify-between gap-4">
+          <Text variant="secondary">
+            {conflict.speaker
+              ? t('event-management.proposal-page.conflicts.yours.speaker', { name: conflict.speaker })
+              : t('event-management.proposal-page.conflicts.yours.proposal')}
+          </Text>
+          <fetcher.Form method="POST">
+            <input type="hidden" name="conflictId" value={conflict.id} />
+            <Button type="submit" name="intent" value="remove-conflict" variant="secondary" size="xs">
+              {t('common.remove')}
+            </Button>
+          </fetcher.Form>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type Speaker = { id: string; name: string };
+
+type DeclareConflictButtonProps = { speakers: Array<Speaker> };
+
+export function DeclareConflictButton({ speakers }: DeclareConflictButtonProps) {
+  const { t } = useTranslation();
+  const [isOpen, setOpen] = useState(false);
+
+  return (
+    <div className="px-4 pb-4 lg:px-6">
+      <Button variant="tertiary" size="xs" iconLeft={HandRaisedIcon} onClick={() => setOpen(true)}>
+        {t('event-management.proposal-page.conflicts.declare')}
+      </Button>
+      <DeclareConflictModal speakers={speakers} isOpen={isOpen} onClose={() => setOpen(false)} />
+    </div>
+  );
+}
+
+type DeclareConflictModalProps = { speakers: Array<Speaker>; isOpen: boolean; onClose: VoidFunction };
+
+function DeclareConflictModal({ speakers, isOpen, onClose }: DeclareConflictModalProps) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  return (
+    <Modal title={t('event-management.proposal-page.conflicts.declare')} open={isOpen} onClose={onClose}>
+      <Modal.Content>
+        <Form id={formId} method="POST" onSubmit={onClose} className="space-y-6">
+          <Text>{t('event-management.proposal-page.conflicts.declare.description')}</Text>
+          <FieldsetGroup legend={t('event-management.proposal-page.conflicts.target')}>
+            <Radio name="eventSpeakerId" value="" defaultChecked>
+              {t('event-management.proposal-page.conflicts.target.proposal')}
+            </Radio>
+            {speakers.map((speaker) => (
+              <Radio key={speaker.id} name="eventSpeakerId" value={speaker.id}>
+                {t('event-management.proposal-page.conflicts.target.speaker', { name: speaker.name })}
+              </Radio>
+            ))}
+          </FieldsetGroup>
+          <TextArea name="reason" label={t('event-management.proposal-page.conflicts.reason')} rows={3} />
+        </Form>
+      </Modal.Content>
+      <Modal.Actions>
+        <Button onClick={onClose} type="button" variant="secondary">
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" name="intent" value="declare-conflict" form={formId}>
+          {t('event-management.proposal-page.conflicts.declare.submit')}
+        </Button>
+      </Modal.Actions>
+    </Modal>
+  );
+}
+
+type ProposalConflict = {
+  id: string;
+  name: string;
+  picture: string | null;
+  reason: string | null;
+  speaker: string | null;
+};
+
+type ProposalConflictsProps = { conflicts: Array<ProposalConflict> };
+
+export function ProposalConflicts({ conflicts }: ProposalConflictsProps) {
+  const { t } = useTranslation();
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-3 p-4 lg:px-6 lg:py-4">
+      <H2 size="s">{t('event-management.proposal-page.conflicts.heading')}</H2>
+      <ul className="space-y-3">
+        {conflicts.map((conflict) => (
+          <li key={conflict.id}>
+            <AvatarName
+              name={conflict.name}
+              picture={conflict.picture}
+              subtitle={[
+                conflict.speaker
+                  ? t('event-management.proposal-page.conflicts.with-speaker', { name: conflict.speaker })
+                  : null,
+                conflict.reason,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+              size="xs"
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
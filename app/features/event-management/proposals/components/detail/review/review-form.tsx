@@ -1,17 +1,36 @@
 import { useTranslation } from 'react-i18next';
 import { useFetcher, useParams } from 'react-router';
 import { MarkerGroup } from '~/design-system/forms/marker-group.tsx';
-import { H2 } from '~/design-system/typography.tsx';
+import { H2, Text } from '~/design-system/typography.tsx';
 import {
   feelingAndNoteToMarker,
   getReviewMarkerOptions,
   markerToFeelingAndNote,
 } from '~/features/event-management/proposals/components/shared/review-markers.config.ts';
+import { RubricFields } from '~/features/event-management/proposals/components/shared/rubric-fields.tsx';
+import type { ReviewCriterion, ReviewScores } from '~/features/event-management/settings/models/review-rubric.ts';
+import { ReviewRubric } from '~/features/event-management/settings/models/review-rubric.ts';
 import type { ReviewFeeling, UserReview } from '~/shared/types/proposals.types.ts';
 
-type Props = { initialValues: UserReview };
+type Rubric = { criteria: Array<ReviewCriterion>; scores: ReviewScores | null };
 
-export function ReviewForm({ initialValues }: Props) {
+type Props = { initialValues: UserReview; rubric: Rubric };
+
+export function ReviewForm({ initialValues, rubric }: Props) {
+  if (rubric.criteria.length > 0) {
+    return (
+      <RubricReviewForm
+        criteria={rubric.criteria}
+        initialScores={rubric.scores}
+        initialFeeling={initialValues.feeling ?? 'NEUTRAL'}
+      />
+    );
+  }
+
+  return <MarkerReviewForm initialValues={initialValues} />;
+}
+
+function MarkerReviewForm({ initialValues }: { initialValues: UserReview }) {
   const { t } = useTranslation();
   const { optimisticMarker, handleSubmit } = useOptimisticReview(initialValues);
   const markerOptions = getReviewMarkerOptions(t);
@@ -59,3 +78,62 @@ function useOptimisticReview(initialValues: UserReview) {
 
   return { optimisticMarker, handleSubmit };
 }
+
+type RubricReviewFormProps = {
+  criteria: Array<ReviewCriterion>;
+  initialScores: ReviewScores | null;
+  initialFeeling: ReviewFeeling;
+};
+
+function RubricReviewForm({ criteria, initialScores, initialFeeling }: RubricReviewFormProps) {
+  const { t } = useTranslation();
+  const { scores, feeling, handleSubmit } = useOptimisticScores(initialScores, initialFeeling);
+  const note = new ReviewRubric(criteria).computeNote(scores);
+
+  return (
+    <div className="space-y-4 p-4 lg:px-6 lg:py-4">
+      <div className="flex items-baseline justify-between gap-2">
+        <H2 size="s">{t('event-management.proposal-page.your-review')}</H2>
+        {note !== null ? (
+          <Text variant="secondary">{t('event-management.proposal-page.rubric.weighted-note', { note })}</Text>
+        ) : null}
+      </div>
+      <RubricFields criteria={criteria} scores={scores} feeling={feeling} onChange={handleSubmit} />
+    </div>
+  );
+}
+
+function useOptimisticScores(initialScores: ReviewScores | null, initialFeeling: ReviewFeeling) {
+  const params = useParams();
+  const fetcher = useFetcher({ key: `review:${params.proposal}` });
+
+  let scores: ReviewScores = initialScores ?? {};
+  let feeling = initialFeeling;
+
+  if (fetcher.formData?.get('intent') === 'add-review') {
+    feeling = fetcher.formData.get('feeling') as ReviewFeeling;
+    scores = {};
+    for (const [key, value] of fetcher.formData.entries()) {
+      if (key.startsWith('scores.')) scores[key.replace('scores.', '')] = Number(value);
+    }
+  } else if (fetcher.formData?.get('intent') === 'clear-review') {
+    scores = {};
+    feeling = 'NEUTRAL';
+  }
+
+  const handleSubmit = (nextScores: Record<string, number | undefined>, nextFeeling: ReviewFeeling) => {
+    const action = `/team/${params.team}/${params.event}/proposals/${params.proposal}`;
+    const entries = Object.entries(nextScores).filter(([, score]) => score !== undefined);
+    if (entries.length === 0 && nextFeeling === 'NEUTRAL') {
+      fetcher.submit({ intent: 'clear-review' }, { method: 'POST', action });
+      return;
+    }
+    const formData: Record<string, string> = { intent: 'add-review', feeling: nextFeeling, note: '' };
+    for (const [criterionId, score] of entries) {
+      formData[`scores.${criterionId}`] = String(score);
+    }
+    fetcher.submit(formData, { method: 'POST', action });
+  };
+
+  return { scores, feeling, handleSubmit };
+}
@@ -1,26 +1,41 @@
 import { MinusIcon } from '@heroicons/react/20/solid';
+import type { ComponentProps } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card } from '~/design-system/layouts/card.tsx';
 import { H2 } from '~/design-system/typography.tsx';
 import type { ProposalData } from '../../../proposal.tsx';
 import { ReviewNote } from '../../shared/review-note.tsx';
 import { ProposalStatusSelect } from './proposal-status-select.tsx';
+import { DeclareConflictButton, ProposalConflicts, YourConflicts } from './review-conflicts.tsx';
 import { ReviewForm } from './review-form.tsx';
 
-type Props = { proposal: ProposalData; reviewEnabled: boolean; canDeliberate: boolean };
+type Props = {
+  proposal: ProposalData;
+  conflicts: ComponentProps<typeof ProposalConflicts>['conflicts'];
+  reviewEnabled: boolean;
+  canDeliberate: boolean;
+};
 
-export function ReviewSidebar({ proposal, reviewEnabled, canDeliberate }: Props) {
+export function ReviewSidebar({ proposal, conflicts, reviewEnabled, canDeliberate }: Props) {
   const { t } = useTranslation();
 
   const { you, summary } = proposal.reviews || {};
+  const hasConflicts = proposal.conflicts.length > 0;
 
   return (
     <Card as="section" className="divide-y divide-gray-200">
-      {reviewEnabled ? <ReviewForm key={proposal.id} initialValues={proposal.reviews.you} /> : null}
+      {hasConflicts ? <YourConflicts conflicts={proposal.conflicts} /> : null}
+
+      {reviewEnabled && !hasConflicts ? (
+        <div>
+          <ReviewForm key={proposal.id} initialValues={proposal.reviews.you} rubric={proposal.rubric} />
+          <DeclareConflictButton speakers={proposal.speakers} />
+        </div>
+      ) : null}
 
       {!reviewEnabled || summary ? (
         <div className="space-y-4 p-4 lg:px-6 lg:py-4">
-          {!reviewEnabled ? (
+          {!reviewEnabled && !hasConflicts ? (
             <div className="flex items-center justify-between gap-4">
               <H2 size="s">{t('event-management.proposal-page.your-review')}</H2>
               <ReviewNote
@@ -48,6 +63,8 @@ export function ReviewSidebar({ proposal, reviewEnabled, canDeliberate }: Props)
         </div>
       ) : null}
 
+      <ProposalConflicts conflicts={conflicts} />
+
       {canDeliberate && (
         <div className="space-y-2 p-4 lg:px-6 lg:py-4">
           <ProposalStatusSelect
@@ -0,0 +1,47 @@
+import { useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, useSearchParams } from 'react-router';
+import { SelectNative } from '~/design-system/forms/select-native.tsx';
+import { PROPOSAL_AUDIT_ACTIONS } from '../../models/proposal-audit.ts';
+
+type Props = { members: Array<{ id: string; name: string }> };
+
+export function HistoryFilters({ members }: Props) {
+  const { t } = useTranslation();
+  const [searchParams] = useSearchParams();
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const actionOptions = [
+    { value: '', name: t('event-management.audit-logs.filters.all-actions') },
+    ...PROPOSAL_AUDIT_ACTIONS.map((action) => ({
+      value: action,
+      name: t(`event-management.audit-logs.filters.actions.${action}`),
+    })),
+  ];
+
+  const memberOptions = [
+    { value: '', name: t('event-management.audit-logs.filters.all-members') },
+    ...members.map((member) => ({ value: member.id, name: member.name })),
+  ];
+
+  return (
+    <Form ref={formRef} method="GET" className="flex w-full flex-col gap-4 sm:flex-row sm:items-center sm:justify-end">
+      <SelectNative
+        name="action"
+        label={t('event-management.audit-logs.filters.action')}
+        defaultValue={searchParams.get('action') || ''}
+        onChange={() => formRef.current?.submit()}
+        options={actionOptions}
+        srOnly
+      />
+      <SelectNative
+        name="user"
+        label={t('event-management.audit-logs.filters.member')}
+        defaultValue={searchParams.get('user') || ''}
+        onChange={() => formRef.current?.submit()}
+        options={memberOptions}
+        srOnly
+      />
+    </Form>
+  );
+}
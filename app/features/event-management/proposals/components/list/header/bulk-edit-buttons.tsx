@@ -0,0 +1,130 @@
+import { Square3Stack3DIcon, TagIcon } from '@heroicons/react/16/solid';
+import { useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import MultiSelect from '~/design-system/forms/multi-select.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+
+type Props = {
+  selection: string[];
+  isAllPagesSelected: boolean;
+  totalSelected: number;
+};
+
+export function BulkTagsButton({ selection, isAllPagesSelected, totalSelected }: Props) {
+  const { t } = useTranslation();
+  const { event } = useCurrentEventTeam();
+  const formId = useId();
+  const [open, setOpen] = useState(false);
+
+  if (event.tags.length === 0) return null;
+
+  return (
+    <>
+      <Button variant="secondary" size="sm" iconLeft={TagIcon} onClick={() => setOpen(true)}>
+        {t('common.tags')}
+      </Button>
+
+      <Modal
+        title={t('event-management.proposals.bulk.tags.title', { count: totalSelected })}
+        open={open}
+        onClose={() => setOpen(false)}
+      >
+        <Modal.Content>
+          <Form id={formId} method="POST" onSubmit={() => setOpen(false)}>
+            <MultiSelect
+              name="tags"
+              label={t('common.tags')}
+              placeholder={t('event-management.proposals.bulk.tags.placeholder')}
+              options={event.tags.map((tag) => ({ value: tag.id, label: tag.name }))}
+              defaultValues={[]}
+            />
+            <SelectionInputs selection={selection} isAllPagesSelected={isAllPagesSelected} />
+          </Form>
+        </Modal.Content>
+        <Modal.Actions>
+          <Button variant="secondary" onClick={() => setOpen(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button type="submit" name="intent" value="bulk-remove-tags" variant="secondary" form={formId}>
+            {t('event-management.proposals.bulk.tags.remove')}
+          </Button>
+          <Button type="submit" name="intent" value="bulk-add-tags" form={formId}>
+            {t('event-management.proposals.bulk.tags.add')}
+          </Button>
+        </Modal.Actions>
+      </Modal>
+    </>
+  );
+}
+
+export function BulkTracksButton({ selection, isAllPagesSelected, totalSelected }: Props) {
+  const { t } = useTranslation();
+  const { event } = useCurrentEventTeam();
+  const formId = useId();
+  const [open, setOpen] = useState(false);
+
+  const { formats, categories } = event;
+  if (formats.length === 0 && categories.length === 0) return null;
+
+  return (
+    <>
+      <Button variant="secondary" size="sm" iconLeft={Square3Stack3DIcon} onClick={() => setOpen(true)}>
+        {t('common.tracks')}
+      </Button>
+
+      <Modal
+        title={t('event-management.proposals.bulk.tracks.title', { count: totalSelected })}
+        open={open}
+        onClose={() => setOpen(false)}
+      >
+        <Modal.Content>
+          <Form id={formId} method="POST" onSubmit={() => setOpen(false)} className="space-y-4">
+            <Text variant="secondary">{t('event-management.proposals.bulk.tracks.description')}</Text>
+            {formats.length > 0 ? (
+              <MultiSelect
+                name="formats"
+                label={t('common.formats')}
+                placeholder={t('event-management.proposals.bulk.tracks.unchanged')}
+                options={formats.map((format) => ({ value: format.id, label: format.name }))}
+                defaultValues={[]}
+              />
+            ) : null}
+            {categories.length > 0 ? (
+              <MultiSelect
+                name="categories"
+                label={t('common.categories')}
+                placeholder={t('event-management.proposals.bulk.tracks.unchanged')}
+                options={categories.map((category) => ({ value: category.id, label: category.name }))}
+                defaultValues={[]}
+              />
+            ) : null}
+            <SelectionInputs selection={selection} isAllPagesSelected={isAllPagesSelected} />
+          </Form>
+        </Modal.Content>
+        <Modal.Actions>
+          <Button variant="secondary" onClick={() => setOpen(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button type="submit" name="intent" value="bulk-set-tracks" form={formId}>
+            {t('common.save')}
+          </Button>
+        </Modal.Actions>
+      </Modal>
+    </>
+  );
+}
+
+function SelectionInputs({ selection, isAllPagesSelected }: Omit<Props, 'totalSelected'>) {
+  return (
+    <>
+      <input type="hidden" name="allPagesSelected" value={String(isAllPagesSelected)} />
+      {selection.map((id) => (
+        <input key={id} type="hidden" name="selection" value={id} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import { ExclamationTriangleIcon } from '@heroicons/react/16/solid';
+import { cx } from 'class-variance-authority';
+import { useTranslation } from 'react-i18next';
+import { ProgressBar } from '~/design-system/charts/progress-bar.tsx';
+import { Text } from '~/design-system/typography.tsx';
+
+export type TrackCapacity = {
+  id: string;
+  type: 'formats' | 'categories';
+  name: string;
+  capacity: number;
+  accepted: number;
+  confirmed: number;
+};
+
+type Props = { capacities: Array<TrackCapacity> };
+
+export function CapacitySummary({ capacities }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <ul aria-label={t('event-management.proposals.capacities.label')} className="flex flex-wrap gap-x-6 gap-y-2">
+      {capacities.map((track) => {
+        const isOverCapacity = track.accepted > track.capacity;
+        return (
+          <li key={track.id} className="flex items-center gap-2">
+            {isOverCapacity ? <ExclamationTriangleIcon className="size-4 text-red-600" aria-hidden /> : null}
+            <Text size="xs" weight="medium" className={cx({ 'text-red-700': isOverCapacity })}>
+              {track.name}
+            </Text>
+            <ProgressBar value={track.accepted} max={track.capacity} className="w-16" />
+            <Text size="xs" variant="secondary" className="whitespace-nowrap">
+              {t('event-management.proposals.capacities.usage', {
+                accepted: track.accepted,
+                capacity: track.capacity,
+                confirmed: track.confirmed,
+              })}
+            </Text>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,17 +1,19 @@
-import { CheckIcon, XMarkIcon } from '@heroicons/react/16/solid';
+import { CheckIcon, QueueListIcon, XMarkIcon } from '@heroicons/react/16/solid';
 import { QuestionMarkCircleIcon } from '@heroicons/react/24/outline';
 import { useId, useState } from 'react';
 import { Trans, useTranslation } from 'react-i18next';
-import { Form } from 'react-router';
+import { Form, useFetcher } from 'react-router';
 import { Button } from '~/design-system/button.tsx';
 import { Callout } from '~/design-system/callout.tsx';
 import { Modal } from '~/design-system/dialogs/modals.tsx';
 import { Text } from '~/design-system/typography.tsx';
+import type { TrackCapacity } from './capacity-summary.tsx';
 
 const statuses = {
   ACCEPTED: { i18nKey: 'common.proposals.status.accepted', icon: CheckIcon, color: 'text-green-700' },
   PENDING: { i18nKey: 'common.proposals.status.pending', icon: QuestionMarkCircleIcon, color: 'text-gray-700' },
   REJECTED: { i18nKey: 'common.proposals.status.rejected', icon: XMarkIcon, color: 'text-red-700' },
+  WAITLISTED: { i18nKey: 'common.proposals.status.waitlisted', icon: QueueListIcon, color: 'text-amber-700' },
 } as const;
 
 type Props = {
@@ -26,10 +28,24 @@ export function DeliberationButton({ status, selection, isAllPagesSelected, tota
   const formId = useId();
   const [open, setOpen] = useState(false);
   const { i18nKey, icon: Icon, color } = statuses[status];
+  const fetcher = useFetcher<{ overflows: Array<TrackCapacity & { incoming: number }> }>();
+
+  // Accepting proposals may exceed the capacity of their tracks, organizers are warned before confirming
+  const handleOpen = () => {
+    setOpen(true);
+    if (status !== 'ACCEPTED') return;
+    const formData = new FormData();
+    formData.set('intent', 'capacity-overflows');
+    formData.set('allPagesSelected', String(isAllPagesSelected));
+    selection.forEach((id) => formData.append('selection', id));
+    fetcher.submit(formData, { method: 'POST' });
+  };
+
+  const overflows = status === 'ACCEPTED' ? (fetcher.data?.overflows ?? []) : [];
 
   return (
     <>
-      <Button variant="secondary" size="sm" iconLeft={Icon} iconClassName={color} onClick={() => setOpen(true)}>
+      <Button variant="secondary" size="sm" iconLeft={Icon} iconClassName={color} onClick={handleOpen}>
         {t(i18nKey)}
       </Button>
 
@@ -43,6 +59,25 @@ export function DeliberationButton({ status, selection, isAllPagesSelected, tota
             <Callout title={t('common.warning')} variant="warning">
               {t('event-management.proposals.deliberate.modal.description')}
             </Callout>
+            {overflows.length > 0 ? (
+              <Callout
+                title={t('event-management.proposals.capacities.overflow.title')}
+                variant="error"
+                className="mt-4"
+              >
+                <ul>
+                  {overflows.map((track) => (
+                    <li key={track.id}>
+                      {t('event-management.proposals.capacities.overflow.item', {
+                        name: track.name,
+                        total: track.accepted + track.incoming,
+                        capacity: track.capacity,
+                      })}
+                    </li>
+                  ))}
+                </ul>
+              </Callout>
+            ) : null}
             <input type="hidden" name="deliberationStatus" value={status} />
             <input type="hidden" name="allPagesSelected" value={String(isAllPagesSelected)} />
             {selection.map((id) => (
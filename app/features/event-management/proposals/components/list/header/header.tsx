@@ -4,7 +4,10 @@ import { useUserTeamPermissions } from '~/app-platform/components/user-context.t
 import { StatusPill } from '~/design-system/charts/status-pill.tsx';
 import { List } from '~/design-system/list/list.tsx';
 import { Text } from '~/design-system/typography.tsx';
+import { ComposeCampaignButton } from '~/features/event-management/campaigns/components/compose-campaign-button.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
 import { ReviewsProgress } from '../../shared/reviews-progress.tsx';
+import { BulkTagsButton, BulkTracksButton } from './bulk-edit-buttons.tsx';
 import { DeliberationButton } from './deliberation-button.tsx';
 import { SelectAllCheckbox, type SelectAllProps } from './select-all-checkbox.tsx';
 
@@ -29,6 +32,7 @@ export function ListHeader({
 }: Props) {
   const { t } = useTranslation();
   const permissions = useUserTeamPermissions();
+  const { event } = useCurrentEventTeam();
 
   return (
     <List.Header className="bg-gray-50">
@@ -75,6 +79,29 @@ export function ListHeader({
               isAllPagesSelected={isAllPagesSelected}
               totalSelected={totalSelected}
             />
+            <DeliberationButton
+              status="WAITLISTED"
+              selection={selection}
+              isAllPagesSelected={isAllPagesSelected}
+              totalSelected={totalSelected}
+            />
+            {permissions.canEditEventProposal ? (
+              <>
+                <BulkTagsButton
+                  selection={selection}
+                  isAllPagesSelected={isAllPagesSelected}
+                  totalSelected={totalSelected}
+                />
+                <BulkTracksButton
+                  selection={selection}
+                  isAllPagesSelected={isAllPagesSelected}
+                  totalSelected={totalSelected}
+                />
+              </>
+            ) : null}
+            {permissions.canPublishEventResults && event.displayProposalsSpeakers ? (
+              <ComposeCampaignButton source="proposals" selection={selection} isAllPagesSelected={isAllPagesSelected} />
+            ) : null}
           </div>
         )}
       </div>
@@ -5,6 +5,7 @@ import { useUserTeamPermissions } from '~/app-platform/components/user-context.t
 import { Badge } from '~/design-system/badges.tsx';
 import { StatusPill } from '~/design-system/charts/status-pill.tsx';
 import { Checkbox } from '~/design-system/forms/input-checkbox.tsx';
+import { HighlightedText } from '~/design-system/highlighted-text.tsx';
 import { Join } from '~/design-system/join.tsx';
 import { Tag } from '~/design-system/tag.tsx';
 import { Tooltip } from '~/design-system/tooltip.tsx';
@@ -40,8 +41,21 @@ export function ProposalItem({
   const hydrated = useHydrated();
   const proposalStatus = useProposalStatus(proposal, canChangeProposalStatus);
 
-  const { id, routeId, title, reviews, archivedAt, submittedAt, tags, speakers, commentCount, hasNewMessages } =
-    proposal;
+  const {
+    id,
+    routeId,
+    title,
+    reviews,
+    archivedAt,
+    submittedAt,
+    tags,
+    speakers,
+    commentCount,
+    hasNewMessages,
+    assignedToMe,
+    changedSinceReview,
+    highlights,
+  } = proposal;
 
   const pathname = href('/team/:team/:event/proposals/:proposal', {
     team,
@@ -69,10 +83,24 @@ export function ProposalItem({
       >
         <div className="min-w-0 space-y-2 md:space-y-1">
           <div className="flex flex-wrap items-center gap-x-2">
-            <span className="font-semibold">{title}</span>
+            <span className="font-semibold">
+              {highlights?.title ? <HighlightedText text={highlights.title} /> : title}
+            </span>
 
             {archivedAt ? <Badge pill>{t('common.archived')}</Badge> : null}
 
+            {assignedToMe ? (
+              <Badge color="indigo" pill>
+                {t('event-management.proposals.list.assigned-to-you')}
+              </Badge>
+            ) : null}
+
+            {changedSinceReview ? (
+              <Badge color="yellow" pill>
+                {t('event-management.proposals.list.changed-since-review')}
+              </Badge>
+            ) : null}
+
             {tags.map((tag) => (
               <Tag key={tag.id} tag={tag} isSearchLink={false} />
             ))}
@@ -99,6 +127,12 @@ export function ProposalItem({
 
             {hasNewMessages ? <NewMessagesIndicator /> : null}
           </div>
+
+          {highlights?.abstract ? (
+            <Text size="xs" variant="secondary" className="line-clamp-2">
+              <HighlightedText text={highlights.abstract} />
+            </Text>
+          ) : null}
         </div>
 
         <ReviewSection reviews={reviews} commentCount={commentCount} />
@@ -141,5 +175,8 @@ function useProposalStatus(proposal: ProposalData, canChangeProposalStatus: bool
   if (deliberationStatus === 'REJECTED') {
     return t('common.proposals.status.rejected');
   }
+  if (deliberationStatus === 'WAITLISTED') {
+    return t('common.proposals.status.waitlisted');
+  }
   return null;
 }
@@ -21,11 +21,14 @@ import Select from '~/design-system/forms/select.tsx';
 import { Text } from '~/design-system/typography.tsx';
 import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
 import { getReviewMarkerOptions } from '~/features/event-management/proposals/components/shared/review-markers.config.ts';
+import { LANGUAGES, TALK_LEVELS } from '~/shared/constants.ts';
 
-const statusOptions = ['pending', 'accepted', 'rejected', 'archived'] as const;
+const statusOptions = ['pending', 'accepted', 'rejected', 'waitlisted', 'archived'] as const;
 const confirmationOptions = ['not-answered', 'confirmed', 'declined'] as const;
 
-export function FiltersMenu() {
+type FiltersMenuProps = { languages: Array<string> };
+
+export function FiltersMenu({ languages }: FiltersMenuProps) {
   const { t } = useTranslation();
   return (
     <>
@@ -38,7 +41,7 @@ export function FiltersMenu() {
           anchor={{ to: 'bottom end', gap: '8px' }}
           className="z-10 w-96 rounded-md bg-white shadow-lg ring-1 ring-black/5 focus:outline-hidden"
         >
-          {({ close }) => <FiltersContent close={close} />}
+          {({ close }) => <FiltersContent languages={languages} close={close} />}
         </PopoverPanel>
       </Popover>
 
@@ -52,16 +55,16 @@ export function FiltersMenu() {
           className="fixed bottom-0 left-0 z-10 w-full bg-white shadow-lg ring-1 ring-black/5 focus:outline-hidden"
           modal
         >
-          {({ close }) => <FiltersContent close={close} />}
+          {({ close }) => <FiltersContent languages={languages} close={close} />}
         </PopoverPanel>
       </Popover>
     </>
   );
 }
 
-type FiltersContentProps = { close: VoidFunction };
+type FiltersContentProps = { languages: Array<string>; close: VoidFunction };
 
-function FiltersContent({ close }: FiltersContentProps) {
+function FiltersContent({ languages, close }: FiltersContentProps) {
   const { t } = useTranslation();
   const { event } = useCurrentEventTeam();
   const permissions = useUserTeamPermissions();
@@ -72,6 +75,11 @@ function FiltersContent({ close }: FiltersContentProps) {
   const { formats, categories, tags } = event;
   const hasTracks = formats.length > 0 || categories.length > 0;
 
+  const selectedLanguages = params.getAll('languages');
+  const languageOptions = LANGUAGES.filter(
+    (language) => languages.includes(language) || selectedLanguages.includes(language),
+  );
+
   return (
     <Form method="GET" onSubmit={close}>
       <div className="rounded-t-md border-b border-b-gray-200 bg-gray-50 px-4 py-3">
@@ -85,6 +93,10 @@ function FiltersContent({ close }: FiltersContentProps) {
 
       <FiltersReviewMarkers defaultValue={params.getAll('reviews')} />
 
+      <FiltersAssigned defaultValue={params.get('assigned') === 'me'} />
+
+      <FiltersDuplicates defaultValue={params.get('duplicates') === 'possible'} />
+
       {permissions.canChangeProposalStatus && (
         <>
           <FiltersRadio
@@ -104,6 +116,22 @@ function FiltersContent({ close }: FiltersContentProps) {
         </>
       )}
 
+      <FiltersToggleGroup
+        label={t('event-management.proposals.filters.levels')}
+        name="levels"
+        defaultValue={params.getAll('levels')}
+        options={TALK_LEVELS.map((value) => ({ value, name: t(`common.level.${value}`) }))}
+      />
+
+      {languageOptions.length > 0 && (
+        <FiltersToggleGroup
+          label={t('event-management.proposals.filters.languages')}
+          name="languages"
+          defaultValue={selectedLanguages}
+          options={languageOptions.map((value) => ({ value, name: t(`common.languages.${value}.label`) }))}
+        />
+      )}
+
       {hasTracks && (
         <div className="space-y-1 px-4 py-2">
           <Text variant="secondary" weight="semibold" size="xs">
@@ -244,3 +272,109 @@ function FiltersReviewMarkers({ defaultValue }: FiltersReviewMarkersProps) {
     </Fieldset>
   );
 }
+
+type FiltersToggleGroupProps = {
+  label: string;
+  name: string;
+  defaultValue: Array<string>;
+  options: Array<{ name: string; value: string }>;
+};
+
+function FiltersToggleGroup({ label, name, defaultValue, options }: FiltersToggleGroupProps) {
+  const [values, setValues] = useState<Array<string>>(defaultValue);
+
+  const handleToggle = (value: string) => {
+    setValues((current) => (current.includes(value) ? current.filter((v) => v !== value) : [...current, value]));
+  };
+
+  return (
+    <Fieldset className="px-4 py-2">
+      <Text as={Legend} variant="secondary" weight="semibold" size="xs">
+        {label}
+      </Text>
+
+      {values.map((value) => (
+        <input key={value} type="hidden" name={name} value={value} />
+      ))}
+
+      <div className="mt-1 flex flex-wrap items-center gap-2">
+        {options.map((option) => {
+          const checked = values.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => handleToggle(option.value)}
+              aria-pressed={checked}
+              className={cx('cursor-pointer', buttonStyles({ variant: 'secondary', size: 'sm' }), {
+                'bg-indigo-100! text-indigo-700 ring-indigo-200 hover:bg-indigo-100': checked,
+              })}
+            >
+              {option.name}
+            </button>
+          );
+        })}
+      </div>
+    </Fieldset>
+  );
+}
+
+type FiltersAssignedProps = { defaultValue: boolean };
+
+function FiltersAssigned({ defaultValue }: FiltersAssignedProps) {
+  const { t } = useTranslation();
+  const [assigned, setAssigned] = useState(defaultValue);
+
+  return (
+    <Fieldset className="px-4 py-2">
+      <Text as={Legend} variant="secondary" weight="semibold" size="xs">
+        {t('event-management.proposals.filters.assignments')}
+      </Text>
+
+      {assigned && <input type="hidden" name="assigned" value="me" />}
+
+      <div className="mt-1 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setAssigned(!assigned)}
+          aria-pressed={assigned}
+          className={cx('cursor-pointer', buttonStyles({ variant: 'secondary', size: 'sm' }), {
+            'bg-indigo-100! text-indigo-700 ring-indigo-200 hover:bg-indigo-100': assigned,
+          })}
+        >
+          {t('event-management.proposals.filters.assigned-to-me')}
+        </button>
+      </div>
+    </Fieldset>
+  );
+}
+
+type FiltersDuplicatesProps = { defaultValue: boolean };
+
+function FiltersDuplicates({ defaultValue }: FiltersDuplicatesProps) {
+  const { t } = useTranslation();
+  const [duplicates, setDuplicates] = useState(defaultValue);
+
+  return (
+    <Fieldset className="px-4 py-2">
+      <Text as={Legend} variant="secondary" weight="semibold" size="xs">
+        {t('event-management.proposals.filters.duplicates')}
+      </Text>
+
+      {duplicates && <input type="hidden" name="duplicates" value="possible" />}
+
+      <div className="mt-1 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setDuplicates(!duplicates)}
+          aria-pressed={duplicates}
+          className={cx('cursor-pointer', buttonStyles({ variant: 'secondary', size: 'sm' }), {
+            'bg-indigo-100! text-indigo-700 ring-indigo-200 hover:bg-indigo-100': duplicates,
+          })}
+        >
+          {t('event-management.proposals.filters.possible-duplicates')}
+        </button>
+      </div>
+    </Fieldset>
+  );
+}
@@ -10,9 +10,35 @@ export function FiltersTags({ filters }: FiltersBadgesProps) {
   const { t } = useTranslation();
   const { event } = useCurrentEventTeam();
 
-  const { query, reviews, status, confirmation, messages, formats, categories, tags } = filters;
+  const {
+    query,
+    reviews,
+    status,
+    confirmation,
+    messages,
+    assigned,
+    duplicates,
+    formats,
+    categories,
+    tags,
+    levels,
+    languages,
+  } = filters;
 
-  const hasFilters = Boolean(query || reviews || status || confirmation || messages || formats || categories || tags);
+  const hasFilters = Boolean(
+    query ||
+    reviews ||
+    status ||
+    confirmation ||
+    messages ||
+    assigned ||
+    duplicates ||
+    formats ||
+    categories ||
+    tags ||
+    levels ||
+    languages,
+  );
   if (!hasFilters) return null;
 
   return (
@@ -25,11 +51,30 @@ export function FiltersTags({ filters }: FiltersBadgesProps) {
         <FilterTag key={review} name="reviews" value={t(`common.review.status.${review}`)} specificValue={review} />
       ))}
       <FilterTag name="messages" value={messages ? t('event-management.proposals.list.new-messages') : undefined} />
+      <FilterTag
+        name="assigned"
+        value={assigned ? t('event-management.proposals.filters.assigned-to-me') : undefined}
+      />
+      <FilterTag
+        name="duplicates"
+        value={duplicates ? t('event-management.proposals.filters.possible-duplicates') : undefined}
+      />
       <FilterTag name="status" value={status ? t(`common.proposals.status.${status}`) : undefined} />
       <FilterTag name="confirmation" value={confirmation ? t(`common.proposals.status.${confirmation}`) : undefined} />
       <FilterTag name="formats" value={event.formats.find((format) => format.id === formats)?.name} />
       <FilterTag name="categories" value={event.categories.find((category) => category.id === categories)?.name} />
       <FilterTag name="tags" value={event.tags.find((tag) => tag.id === tags)?.name} />
+      {levels?.map((level) => (
+        <FilterTag key={level} name="levels" value={t(`common.level.${level}`)} specificValue={level} />
+      ))}
+      {languages?.map((language) => (
+        <FilterTag
+          key={language}
+          name="languages"
+          value={t(`common.languages.${language}.label`)}
+          specificValue={language}
+        />
+      ))}
     </div>
   );
 }
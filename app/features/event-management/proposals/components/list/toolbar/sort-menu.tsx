@@ -9,9 +9,12 @@ export function SortMenu() {
   const options = [
     { value: 'date', name: t('common.sort.date') },
     { value: 'my-review', name: t('common.sort.my-review') },
+    { value: 'assigned', name: t('common.sort.assigned') },
     ...(event.displayProposalsReviews
       ? [
           { value: 'reviews', name: t('common.sort.reviews') },
+          { value: 'normalized', name: t('common.sort.normalized') },
+          { value: 'comparisons', name: t('common.sort.comparisons') },
           { value: 'favorites', name: t('common.sort.favorites') },
         ]
       : []),
@@ -0,0 +1,116 @@
+import { Menu, MenuButton, MenuItem, MenuItems, MenuSeparator } from '@headlessui/react';
+import { BookmarkIcon, PlusIcon, TrashIcon, UsersIcon } from '@heroicons/react/16/solid';
+import { QueueListIcon } from '@heroicons/react/20/solid';
+import { type ReactNode, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, Link } from 'react-router';
+import { Badge } from '~/design-system/badges.tsx';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { Checkbox } from '~/design-system/forms/input-checkbox.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import { menuItem, menuItemIcon, menuItems, menuSeparator } from '~/design-system/styles/menu.styles.ts';
+import { MenuTransition } from '~/design-system/transitions.tsx';
+
+type ProposalListView = { id: string; name: string; shared: boolean; owned: boolean; search: string; count: number };
+
+type ViewsMenuProps = { views: Array<ProposalListView> };
+
+export function ViewsMenu({ views }: ViewsMenuProps) {
+  const { t } = useTranslation();
+
+  return (
+    <SaveViewModal>
+      {({ onOpen }) => (
+        <Menu>
+          <MenuButton as={Button} variant="secondary" block iconLeft={QueueListIcon}>
+            {t('event-management.proposals.views.label')}
+          </MenuButton>
+
+          <MenuTransition>
+            <MenuItems anchor={{ to: 'bottom end', gap: '8px' }} className={menuItems()}>
+              {views.map((view) => (
+                <div key={view.id} className="flex items-center">
+                  <MenuItem as={Link} to={`?${view.search}`} className={menuItem()}>
+                    {view.shared ? (
+                      <UsersIcon className={menuItemIcon()} aria-hidden="true" />
+                    ) : (
+                      <BookmarkIcon className={menuItemIcon()} aria-hidden="true" />
+                    )}
+                    <span className="grow truncate">{view.name}</span>
+                    <Badge pill compact>
+                      {view.count}
+                    </Badge>
+                  </MenuItem>
+
+                  {view.owned ? (
+                    <MenuItem as={Form} method="POST" className={menuItem({ className: 'mx-0 mr-2 grow-0' })}>
+                      <input type="hidden" name="id" value={view.id} />
+                      <button
+                        type="submit"
+                        name="intent"
+                        value="delete-view"
+                        className="cursor-pointer"
+                        aria-label={t('event-management.proposals.views.delete', { name: view.name })}
+                      >
+                        <TrashIcon className={menuItemIcon()} aria-hidden="true" />
+                      </button>
+                    </MenuItem>
+                  ) : null}
+                </div>
+              ))}
+
+              {views.length > 0 ? <MenuSeparator className={menuSeparator()} /> : null}
+
+              <MenuItem as="button" type="button" onClick={onOpen} className={menuItem()}>
+                <PlusIcon className={menuItemIcon()} aria-hidden="true" />
+                {t('event-management.proposals.views.save')}
+              </MenuItem>
+            </MenuItems>
+          </MenuTransition>
+        </Menu>
+      )}
+    </SaveViewModal>
+  );
+}
+
+type SaveViewModalProps = { children: (props: { onOpen: VoidFunction }) => ReactNode };
+
+function SaveViewModal({ children }: SaveViewModalProps) {
+  const { t } = useTranslation();
+  const formId = useId();
+  const [open, setOpen] = useState(false);
+  const onClose = () => setOpen(false);
+
+  return (
+    <>
+      {children({ onOpen: () => setOpen(true) })}
+
+      <Modal title={t('event-management.proposals.views.save')} open={open} onClose={onClose}>
+        <Modal.Content>
+          <Form id={formId} method="POST" onSubmit={onClose} className="space-y-4">
+            <Input
+              name="name"
+              label={t('event-management.proposals.views.name')}
+              description={t('event-management.proposals.views.name.description')}
+              maxLength={50}
+              required
+            />
+            <Checkbox name="shared" value="true">
+              {t('event-management.proposals.views.shared')}
+            </Checkbox>
+          </Form>
+        </Modal.Content>
+
+        <Modal.Actions>
+          <Button type="button" variant="secondary" onClick={onClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button type="submit" name="intent" value="save-view" form={formId}>
+            {t('common.save')}
+          </Button>
+        </Modal.Actions>
+      </Modal>
+    </>
+  );
+}
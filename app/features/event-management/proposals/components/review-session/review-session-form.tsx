@@ -0,0 +1,176 @@
+import { ForwardIcon } from '@heroicons/react/20/solid';
+import { type UseHotkeyDefinition, useHotkeys } from '@tanstack/react-hotkeys';
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useNavigate, useSearchParams } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { MarkerGroup } from '~/design-system/forms/marker-group.tsx';
+import { Kbd } from '~/design-system/kbd.tsx';
+import { H2, Text } from '~/design-system/typography.tsx';
+import {
+  feelingAndNoteToMarker,
+  getReviewMarkerOptions,
+  markerToFeelingAndNote,
+} from '~/features/event-management/proposals/components/shared/review-markers.config.ts';
+import { RubricFields } from '~/features/event-management/proposals/components/shared/rubric-fields.tsx';
+import type { ReviewCriterion, ReviewScores } from '~/features/event-management/settings/models/review-rubric.ts';
+import { ReviewRubric } from '~/features/event-management/settings/models/review-rubric.ts';
+import type { ReviewFeeling, UserReview } from '~/shared/types/proposals.types.ts';
+
+const REVIEW_SHORTCUTS = [
+  { hotkey: '0', marker: 'no-opinion' },
+  { hotkey: 'X', marker: 'negative' },
+  { hotkey: '1', marker: 'neutral-1' },
+  { hotkey: '2', marker: 'neutral-2' },
+  { hotkey: '3', marker: 'neutral-3' },
+  { hotkey: '4', marker: 'neutral-4' },
+  { hotkey: '5', marker: 'neutral-5' },
+  { hotkey: 'L', marker: 'positive' },
+] as const;
+
+type Rubric = { criteria: Array<ReviewCriterion>; scores: ReviewScores | null };
+
+type Props = { proposalId: string; initialValues: UserReview; rubric: Rubric };
+
+export function ReviewSessionForm({ proposalId, initialValues, rubric }: Props) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const fetcher = useFetcher({ key: `review-session:${proposalId}` });
+
+  const markerOptions = getReviewMarkerOptions(t);
+  const isSaving = fetcher.state !== 'idle';
+  const isRubric = rubric.criteria.length > 0;
+  const reviewShortcuts = isRubric ? [] : REVIEW_SHORTCUTS;
+
+  let marker = feelingAndNoteToMarker(initialValues.feeling ?? null, initialValues.note ?? null);
+  if (fetcher.formData) {
+    marker = feelingAndNoteToMarker(
+      fetcher.formData.get('feeling') as ReviewFeeling,
+      fetcher.formData.get('note') === '' ? null : Number(fetcher.formData.get('note')),
+    );
+  }
+
+  // Once saved, the session loader is revalidated and returns the next proposal to review
+  const handleSubmit = (value: string | null) => {
+    if (!value || isSaving) return;
+    const { feeling, note } = markerToFeelingAndNote(value);
+    fetcher.submit({ proposalId, feeling, note: note === null ? '' : note }, { method: 'POST' });
+  };
+
+  // With a review rubric, the criteria are scored first then saved together, the note is computed from the scores
+  const handleRubricSubmit = (scores: ReviewScores, feeling: ReviewFeeling) => {
+    if (isSaving) return;
+    const formData: Record<string, string> = { proposalId, feeling, note: '' };
+    for (const [criterionId, score] of Object.entries(scores)) {
+      formData[`scores.${criterionId}`] = String(score);
+    }
+    fetcher.submit(formData, { method: 'POST' });
+  };
+
+  const skipParams = new URLSearchParams(searchParams);
+  skipParams.append('skipped', proposalId);
+  const skipSearch = skipParams.toString();
+
+  const shortcuts: Array<UseHotkeyDefinition> = reviewShortcuts.map(({ hotkey, marker }) => ({
+    hotkey,
+    callback: () => handleSubmit(marker),
+  }));
+  shortcuts.push({ hotkey: 'S', callback: () => navigate({ search: skipSearch }) });
+  useHotkeys(shortcuts, { enabled: !isSaving });
+
+  return (
+    <div className="space-y-4 p-4 lg:px-6 lg:py-4">
+      <H2 size="s">{t('event-management.proposal-page.your-review')}</H2>
+
+      {isRubric ? (
+        <RubricSessionFields
+          criteria={rubric.criteria}
+          initialScores={rubric.scores}
+          initialFeeling={initialValues.feeling ?? 'NEUTRAL'}
+          isSaving={isSaving}
+          onSubmit={handleRubricSubmit}
+        />
+      ) : (
+        <MarkerGroup
+          options={markerOptions}
+          value={marker}
+          onChange={handleSubmit}
+          size="md"
+          variant="ghost"
+          withTooltip
+        />
+      )}
+
+      <Button to={{ search: skipSearch }} variant="secondary" iconLeft={ForwardIcon} size="sm" block>
+        {t('event-management.proposals.review-session.skip')}
+      </Button>
+
+      <div className="space-y-2 border-t border-t-gray-200 pt-4">
+        <Text variant="secondary" weight="semibold" size="xs">
+          {t('event-management.proposals.review-session.shortcuts')}
+        </Text>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+          {reviewShortcuts.map(({ hotkey, marker }) => (
+            <div key={hotkey} className="flex items-center justify-between gap-2">
+              <Text as="dt" variant="secondary" size="xs">
+                {t(`common.review.status.${marker}`)}
+              </Text>
+              <dd>
+                <Kbd>{hotkey.toLowerCase()}</Kbd>
+              </dd>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-2">
+            <Text as="dt" variant="secondary" size="xs">
+              {t('event-management.proposals.review-session.skip')}
+            </Text>
+            <dd>
+              <Kbd>s</Kbd>
+            </dd>
+          </div>
+        </dl>
+      </div>
+    </div>
+  );
+}
+
+type RubricSessionFieldsProps = {
+  criteria: Array<ReviewCriterion>;
+  initialScores: ReviewScores | null;
+  initialFeeling: ReviewFeeling;
+  isSaving: boolean;
+  onSubmit: (scores: ReviewScores, feeling: ReviewFeeling) => void;
+};
+
+function RubricSessionFields({
+  criteria,
+  initialScores,
+  initialFeeling,
+  isSaving,
+  onSubmit,
+}: RubricSessionFieldsProps) {
+  const { t } = useTranslation();
+  const [scores, setScores] = useState<ReviewScores>(initialScores ?? {});
+  const [feeling, setFeeling] = useState<ReviewFeeling>(initialFeeling);
+  const note = new ReviewRubric(criteria).computeNote(scores);
+  const isEmpty = Object.keys(scores).length === 0 && feeling === 'NEUTRAL';
+
+  const handleChange = (nextScores: Record<string, number | undefined>, nextFeeling: ReviewFeeling) => {
+    const scored = Object.entries(nextScores).filter((entry): entry is [string, number] => entry[1] !== undefined);
+    setScores(Object.fromEntries(scored));
+    setFeeling(nextFeeling);
+  };
+
+  return (
+    <div className="space-y-4">
+      <RubricFields criteria={criteria} scores={scores} feeling={feeling} onChange={handleChange} />
+      {note !== null ? (
+        <Text variant="secondary">{t('event-management.proposal-page.rubric.weighted-note', { note })}</Text>
+      ) : null}
+      <Button onClick={() => onSubmit(scores, feeling)} disabled={isEmpty || isSaving} loading={isSaving} block>
+        {t('event-management.proposals.review-session.save')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { ArrowRightIcon } from '@heroicons/react/20/solid';
+import type { ParseKeys, TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { Badge } from '~/design-system/badges.tsx';
+import type { ProposalAuditChange } from '../../models/proposal-audit.ts';
+
+export type AuditLog = ProposalAuditChange & {
+  id: string;
+  author: { name: string; picture: string | null } | null;
+  createdAt: Date;
+};
+
+const STATUS_LABELS: Record<string, Record<string, ParseKeys>> = {
+  DELIBERATION_STATUS_CHANGED: {
+    PENDING: 'common.proposals.status.pending',
+    ACCEPTED: 'common.proposals.status.accepted',
+    REJECTED: 'common.proposals.status.rejected',
+    WAITLISTED: 'common.proposals.status.waitlisted',
+  },
+  CONFIRMATION_STATUS_CHANGED: {
+    PENDING: 'common.proposals.status.not-answered.short',
+    CONFIRMED: 'common.proposals.status.confirmed.short',
+    DECLINED: 'common.proposals.status.declined.short',
+  },
+  PUBLICATION_STATUS_CHANGED: {
+    PUBLISHED: 'event-management.audit-logs.values.published',
+    NOT_PUBLISHED: 'event-management.audit-logs.values.not-published',
+  },
+};
+
+export function auditLogSummary(log: AuditLog, t: TFunction) {
+  const name = log.author?.name ?? t('event-management.audit-logs.anonymous');
+  const reviewer = typeof log.after === 'string' ? log.after : t('common.unknown');
+  return t(`event-management.audit-logs.actions.${log.action}`, { name, reviewer });
+}
+
+export function AuditLogChange({ log }: { log: AuditLog }) {
+  const { t } = useTranslation();
+
+  const labels = STATUS_LABELS[log.action];
+  if (labels) {
+    const label = (value: ProposalAuditChange['before']) =>
+      typeof value === 'string' && labels[value] ? t(labels[value]) : t('event-management.audit-logs.values.none');
+
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge color="red">
+          <del>{label(log.before)}</del>
+        </Badge>
+        <ArrowRightIcon className="h-4 w-4 text-gray-400" aria-hidden />
+        <Badge color="green">{label(log.after)}</Badge>
+      </div>
+    );
+  }
+
+  if (!Array.isArray(log.before) || !Array.isArray(log.after)) return null;
+
+  const before = log.before;
+  const after = log.after;
+  const removed = before.filter((value) => !after.includes(value));
+  const added = after.filter((value) => !before.includes(value));
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {removed.map((value) => (
+        <Badge key={value} color="red">
+          <del>{value}</del>
+        </Badge>
+      ))}
+      {added.map((value) => (
+        <Badge key={value} color="green">
+          <ins className="no-underline">{value}</ins>
+        </Badge>
+      ))}
+    </div>
+  );
+}
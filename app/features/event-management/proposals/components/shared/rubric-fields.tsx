@@ -0,0 +1,77 @@
+import { StarIcon } from '@heroicons/react/24/outline';
+import type { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import type { MarkerOption } from '~/design-system/forms/marker-group.tsx';
+import { MarkerGroup } from '~/design-system/forms/marker-group.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import type { ReviewCriterion, ReviewScores } from '~/features/event-management/settings/models/review-rubric.ts';
+import type { ReviewFeeling } from '~/shared/types/proposals.types.ts';
+import { getMarkerOptionForFeeling } from './review-markers.config.ts';
+
+// The note comes from the criteria scores, the feeling can still be given aside
+const RUBRIC_FEELINGS: Array<ReviewFeeling> = ['NO_OPINION', 'NEGATIVE', 'POSITIVE'];
+
+type Props = {
+  criteria: Array<ReviewCriterion>;
+  scores: ReviewScores;
+  feeling: ReviewFeeling;
+  onChange: (scores: Record<string, number | undefined>, feeling: ReviewFeeling) => void;
+};
+
+export function RubricFields({ criteria, scores, feeling, onChange }: Props) {
+  const { t } = useTranslation();
+  const feelingOptions = RUBRIC_FEELINGS.flatMap((value) => {
+    const option = getMarkerOptionForFeeling(value, t);
+    return option ? [{ ...option, value, cumulative: false }] : [];
+  });
+
+  return (
+    <>
+      {criteria.map((criterion) => {
+        const score = scores[criterion.id];
+        return (
+          <div key={criterion.id} className="space-y-1">
+            <Text weight="medium">
+              {criterion.name}
+              {criterion.weight > 1 ? (
+                <span className="ml-1 text-gray-500">
+                  {t('event-management.proposal-page.rubric.weight', { weight: criterion.weight })}
+                </span>
+              ) : null}
+            </Text>
+            <MarkerGroup
+              options={getScoreOptions(criterion.scale, t)}
+              value={score === undefined ? null : String(score)}
+              onChange={(value) =>
+                onChange({ ...scores, [criterion.id]: value === null ? undefined : Number(value) }, feeling)
+              }
+              size="sm"
+              variant="ghost"
+            />
+          </div>
+        );
+      })}
+      <div className="space-y-1">
+        <Text weight="medium">{t('event-management.proposal-page.rubric.feeling')}</Text>
+        <MarkerGroup
+          options={feelingOptions}
+          value={feeling === 'NEUTRAL' ? null : feeling}
+          onChange={(value) => onChange(scores, (value as ReviewFeeling | null) ?? 'NEUTRAL')}
+          size="sm"
+          variant="ghost"
+          withTooltip
+        />
+      </div>
+    </>
+  );
+}
+
+function getScoreOptions(scale: number, t: TFunction): MarkerOption[] {
+  return Array.from({ length: scale }, (_, index) => ({
+    value: String(index + 1),
+    icon: StarIcon,
+    fill: 'fill-yellow-400 stroke-yellow-400',
+    label: t('event-management.proposal-page.rubric.score', { score: index + 1, scale }),
+    cumulative: true,
+  }));
+}
@@ -5,6 +5,7 @@ import type {
   PublicationStatus,
   UserReview,
 } from '~/shared/types/proposals.types.ts';
+import type { HighlightedText } from '~/shared/types/search.types.ts';
 import type { Tag } from '~/shared/types/tags.types.ts';
 
 export type ProposalData = {
@@ -20,5 +21,8 @@ export type ProposalData = {
   reviews: { summary?: GlobalReview; you: UserReview };
   commentCount: number;
   hasNewMessages: boolean;
+  assignedToMe: boolean;
+  changedSinceReview: boolean;
   tags: Array<Tag>;
+  highlights?: { title: HighlightedText | null; abstract: HighlightedText | null };
 };
@@ -0,0 +1,55 @@
+import { eloRatings, INITIAL_RATING, pairKey, pickComparisonPair } from './comparison-rating.ts';
+
+describe('#eloRatings', () => {
+  it('starts unrated proposals at the initial rating', () => {
+    expect(eloRatings(null, null)).toEqual({ winner: INITIAL_RATING + 16, loser: INITIAL_RATING - 16 });
+  });
+
+  it('moves ratings less when the favourite wins', () => {
+    const expected = eloRatings(1700, 1500);
+    const upset = eloRatings(1500, 1700);
+
+    expect(expected.winner - 1700).toBeLessThan(upset.winner - 1500);
+    expect(expected.winner + expected.loser).toBeCloseTo(3200);
+    expect(upset.winner + upset.loser).toBeCloseTo(3200);
+  });
+});
+
+describe('#pairKey', () => {
+  it('returns the same key whatever the order of the proposals', () => {
+    expect(pairKey('p2', 'p1')).toBe(pairKey('p1', 'p2'));
+  });
+});
+
+describe('#pickComparisonPair', () => {
+  it('matches the least compared proposal with the closest rated one', () => {
+    const candidates = [
+      { id: 'p1', rating: 1600, comparisonCount: 3 },
+      { id: 'p2', rating: 1480, comparisonCount: 1 },
+      { id: 'p3', rating: 1520, comparisonCount: 1 },
+      { id: 'p4', rating: null, comparisonCount: 0 },
+    ];
+
+    expect(pickComparisonPair(candidates, new Set())).toEqual(['p4', 'p2']);
+  });
+
+  it('skips pairs already compared by the reviewer', () => {
+    const candidates = [
+      { id: 'p1', rating: null, comparisonCount: 1 },
+      { id: 'p2', rating: null, comparisonCount: 1 },
+      { id: 'p3', rating: null, comparisonCount: 2 },
+    ];
+
+    expect(pickComparisonPair(candidates, new Set([pairKey('p1', 'p2')]))).toEqual(['p1', 'p3']);
+  });
+
+  it('returns null when every pair has been compared', () => {
+    const candidates = [
+      { id: 'p1', rating: null, comparisonCount: 1 },
+      { id: 'p2', rating: null, comparisonCount: 1 },
+    ];
+
+    expect(pickComparisonPair(candidates, new Set([pairKey('p1', 'p2')]))).toBeNull();
+    expect(pickComparisonPair([], new Set())).toBeNull();
+  });
+});
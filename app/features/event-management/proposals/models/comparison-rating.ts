@@ -0,0 +1,49 @@
+export const INITIAL_RATING = 1500;
+
+const K_FACTOR = 32;
+
+type ComparisonCandidate = {
+  id: string;
+  rating: number | null;
+  comparisonCount: number;
+};
+
+// Elo update: the winner takes from the loser a share of K proportional to how unexpected the win was
+export function eloRatings(winnerRating: number | null, loserRating: number | null) {
+  const winner = winnerRating ?? INITIAL_RATING;
+  const loser = loserRating ?? INITIAL_RATING;
+
+  const expectedWin = 1 / (1 + 10 ** ((loser - winner) / 400));
+  const delta = K_FACTOR * (1 - expectedWin);
+
+  return { winner: winner + delta, loser: loser - delta };
+}
+
+export function pairKey(proposalId1: string, proposalId2: string) {
+  return [proposalId1, proposalId2].toSorted().join(':');
+}
+
+// The least compared proposal is matched against the least compared proposal with the closest rating,
+// skipping the pairs already compared by the reviewer.
+export function pickComparisonPair(candidates: Array<ComparisonCandidate>, comparedPairs: Set<string>) {
+  const sorted = candidates.toSorted((a, b) => a.comparisonCount - b.comparisonCount || a.id.localeCompare(b.id));
+
+  for (const first of sorted) {
+    const opponents = sorted
+      .filter((candidate) => candidate.id !== first.id && !comparedPairs.has(pairKey(first.id, candidate.id)))
+      .toSorted(
+        (a, b) =>
+          a.comparisonCount - b.comparisonCount ||
+          ratingGap(first, a) - ratingGap(first, b) ||
+          a.id.localeCompare(b.id),
+      );
+
+    if (opponents.length > 0) return [first.id, opponents[0].id] as const;
+  }
+
+  return null;
+}
+
+function ratingGap(a: ComparisonCandidate, b: ComparisonCandidate) {
+  return Math.abs((a.rating ?? INITIAL_RATING) - (b.rating ?? INITIAL_RATING));
+}
@@ -0,0 +1,53 @@
+import { diffAuditSnapshots, type ProposalAuditSnapshot } from './proposal-audit.ts';
+
+describe('diffAuditSnapshots', () => {
+  const snapshot: ProposalAuditSnapshot = {
+    deliberationStatus: 'PENDING',
+    confirmationStatus: null,
+    publicationStatus: 'NOT_PUBLISHED',
+    archived: false,
+    tags: ['Frontend'],
+    formats: ['Quickie'],
+    categories: [],
+    speakers: ['Ada', 'Grace'],
+  };
+
+  it('returns no change for identical snapshots', () => {
+    expect(diffAuditSnapshots(snapshot, { ...snapshot, speakers: ['Grace', 'Ada'] })).toEqual([]);
+  });
+
+  it('returns status changes with before and after values', () => {
+    const changes = diffAuditSnapshots(snapshot, {
+      ...snapshot,
+      deliberationStatus: 'ACCEPTED',
+      publicationStatus: 'PUBLISHED',
+      confirmationStatus: 'PENDING',
+    });
+
+    expect(changes).toEqual([
+      { action: 'DELIBERATION_STATUS_CHANGED', before: 'PENDING', after: 'ACCEPTED' },
+      { action: 'CONFIRMATION_STATUS_CHANGED', before: null, after: 'PENDING' },
+      { action: 'PUBLICATION_STATUS_CHANGED', before: 'NOT_PUBLISHED', after: 'PUBLISHED' },
+    ]);
+  });
+
+  it('returns archive and restore actions', () => {
+    const archived = { ...snapshot, archived: true };
+
+    expect(diffAuditSnapshots(snapshot, archived)).toEqual([
+      { action: 'PROPOSAL_ARCHIVED', before: null, after: null },
+    ]);
+    expect(diffAuditSnapshots(archived, snapshot)).toEqual([
+      { action: 'PROPOSAL_RESTORED', before: null, after: null },
+    ]);
+  });
+
+  it('returns sorted list changes', () => {
+    const changes = diffAuditSnapshots(snapshot, { ...snapshot, tags: ['Web', 'Frontend'], categories: ['Cloud'] });
+
+    expect(changes).toEqual([
+      { action: 'TAGS_CHANGED', before: ['Frontend'], after: ['Frontend', 'Web'] },
+      { action: 'CATEGORIES_CHANGED', before: [], after: ['Cloud'] },
+    ]);
+  });
+});
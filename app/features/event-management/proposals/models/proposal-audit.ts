@@ -0,0 +1,68 @@
+import type { ProposalAuditAction } from '../../../../../prisma/generated/client.ts';
+
+export type ProposalAuditSnapshot = {
+  deliberationStatus: string;
+  confirmationStatus: string | null;
+  publicationStatus: string;
+  archived: boolean;
+  tags: Array<string>;
+  formats: Array<string>;
+  categories: Array<string>;
+  speakers: Array<string>;
+};
+
+type AuditValue = string | Array<string> | null;
+
+export type ProposalAuditChange = { action: ProposalAuditAction; before: AuditValue; after: AuditValue };
+
+const STATUS_FIELDS = {
+  deliberationStatus: 'DELIBERATION_STATUS_CHANGED',
+  confirmationStatus: 'CONFIRMATION_STATUS_CHANGED',
+  publicationStatus: 'PUBLICATION_STATUS_CHANGED',
+} as const;
+
+const LIST_FIELDS = {
+  tags: 'TAGS_CHANGED',
+  formats: 'FORMATS_CHANGED',
+  categories: 'CATEGORIES_CHANGED',
+  speakers: 'SPEAKERS_CHANGED',
+} as const;
+
+export const PROPOSAL_AUDIT_ACTIONS = [
+  'DELIBERATION_STATUS_CHANGED',
+  'CONFIRMATION_STATUS_CHANGED',
+  'PUBLICATION_STATUS_CHANGED',
+  'PROPOSAL_ARCHIVED',
+  'PROPOSAL_RESTORED',
+  'TAGS_CHANGED',
+  'FORMATS_CHANGED',
+  'CATEGORIES_CHANGED',
+  'SPEAKERS_CHANGED',
+  'REVIEW_DISMISSED',
+  'REVIEW_RESTORED',
+  'PROPOSAL_MERGED',
+] as const satisfies ReadonlyArray<ProposalAuditAction>;
+
+export function diffAuditSnapshots(before: ProposalAuditSnapshot, after: ProposalAuditSnapshot) {
+  const changes: Array<ProposalAuditChange> = [];
+
+  for (const [field, action] of Object.entries(STATUS_FIELDS)) {
+    const key = field as keyof typeof STATUS_FIELDS;
+    if (before[key] === after[key]) continue;
+    changes.push({ action, before: before[key], after: after[key] });
+  }
+
+  if (before.archived !== after.archived) {
+    changes.push({ action: after.archived ? 'PROPOSAL_ARCHIVED' : 'PROPOSAL_RESTORED', before: null, after: null });
+  }
+
+  for (const [field, action] of Object.entries(LIST_FIELDS)) {
+    const key = field as keyof typeof LIST_FIELDS;
+    const beforeValues = before[key].toSorted();
+    const afterValues = after[key].toSorted();
+    if (beforeValues.join('\n') === afterValues.join('\n')) continue;
+    changes.push({ action, before: beforeValues, after: afterValues });
+  }
+
+  return changes;
+}
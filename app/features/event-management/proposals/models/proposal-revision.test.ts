@@ -0,0 +1,51 @@
+import { diffProposalSnapshots, diffWords, type ProposalSnapshot } from './proposal-revision.ts';
+
+describe('#diffProposalSnapshots', () => {
+  const snapshot: ProposalSnapshot = {
+    title: 'Title',
+    abstract: 'Abstract',
+    references: null,
+    formats: ['Talk', 'Workshop'],
+    categories: ['Web'],
+    speakers: ['Jane'],
+  };
+
+  it('returns no changes for identical snapshots', () => {
+    expect(diffProposalSnapshots(snapshot, { ...snapshot, formats: ['Workshop', 'Talk'], references: '' })).toEqual([]);
+  });
+
+  it('returns changed fields with their previous and new values', () => {
+    const changes = diffProposalSnapshots(snapshot, {
+      ...snapshot,
+      title: 'New title',
+      references: 'Some references',
+      categories: [],
+      speakers: ['John', 'Jane'],
+    });
+
+    expect(changes).toEqual([
+      { field: 'title', before: 'Title', after: 'New title' },
+      { field: 'references', before: null, after: 'Some references' },
+      { field: 'categories', before: ['Web'], after: [] },
+      { field: 'speakers', before: ['Jane'], after: ['Jane', 'John'] },
+    ]);
+  });
+});
+
+describe('#diffWords', () => {
+  it('returns added, removed and unchanged parts', () => {
+    expect(diffWords('Learn React in depth', 'Learn Vue in depth today')).toEqual([
+      { value: 'Learn ', type: 'unchanged' },
+      { value: 'React', type: 'removed' },
+      { value: 'Vue', type: 'added' },
+      { value: ' in depth', type: 'unchanged' },
+      { value: ' today', type: 'added' },
+    ]);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffWords('', 'New text')).toEqual([{ value: 'New text', type: 'added' }]);
+    expect(diffWords('Old text', '')).toEqual([{ value: 'Old text', type: 'removed' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
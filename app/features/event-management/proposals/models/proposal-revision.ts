@@ -0,0 +1,97 @@
+export type ProposalSnapshot = {
+  title: string;
+  abstract: string;
+  references: string | null;
+  formats: Array<string>;
+  categories: Array<string>;
+  speakers: Array<string>;
+};
+
+type TextField = 'title' | 'abstract' | 'references';
+type ListField = 'formats' | 'categories' | 'speakers';
+
+type TextChange = { field: TextField; before: string | null; after: string | null };
+type ListChange = { field: ListField; before: Array<string>; after: Array<string> };
+
+export type ProposalRevisionChange = TextChange | ListChange;
+
+export type TextDiffPart = { value: string; type: 'added' | 'removed' | 'unchanged' };
+
+const TEXT_FIELDS: Array<TextField> = ['title', 'abstract', 'references'];
+const LIST_FIELDS: Array<ListField> = ['formats', 'categories', 'speakers'];
+
+// Above this size (words before × words after), texts are shown as fully replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+export function diffProposalSnapshots(before: ProposalSnapshot, after: ProposalSnapshot) {
+  const changes: Array<ProposalRevisionChange> = [];
+
+  for (const field of TEXT_FIELDS) {
+    if ((before[field] ?? '') === (after[field] ?? '')) continue;
+    changes.push({ field, before: before[field], after: after[field] });
+  }
+
+  for (const field of LIST_FIELDS) {
+    const beforeValues = before[field].toSorted();
+    const afterValues = after[field].toSorted();
+    if (beforeValues.join('\n') === afterValues.join('\n')) continue;
+    changes.push({ field, before: beforeValues, after: afterValues });
+  }
+
+  return changes;
+}
+
+export function isListChange(change: ProposalRevisionChange): change is ListChange {
+  return (LIST_FIELDS as Array<string>).includes(change.field);
+}
+
+// Word-level diff based on the longest common subsequence of both texts
+export function diffWords(before: string, after: string): Array<TextDiffPart> {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return mergeParts([
+      ...a.map((value) => ({ value, type: 'removed' as const })),
+      ...b.map((value) => ({ value, type: 'added' as const })),
+    ]);
+  }
+
+  // lcs[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: Array<TextDiffPart> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ value: a[i++], type: 'unchanged' });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      parts.push({ value: a[i++], type: 'removed' });
+    } else {
+      parts.push({ value: b[j++], type: 'added' });
+    }
+  }
+  while (i < a.length) parts.push({ value: a[i++], type: 'removed' });
+  while (j < b.length) parts.push({ value: b[j++], type: 'added' });
+
+  return mergeParts(parts);
+}
+
+function mergeParts(parts: Array<TextDiffPart>) {
+  return parts.reduce<Array<TextDiffPart>>((merged, part) => {
+    const last = merged.at(-1);
+    if (last?.type === part.type) {
+      last.value += part.value;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
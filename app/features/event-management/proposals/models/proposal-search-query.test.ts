@@ -0,0 +1,71 @@
+import { parseSearchQuery } from './proposal-search-query.ts';
+
+describe('#parseSearchQuery', () => {
+  it('returns an empty query when there is nothing to parse', () => {
+    expect(parseSearchQuery(undefined)).toEqual({ text: '', qualifiers: [] });
+    expect(parseSearchQuery('   ')).toEqual({ text: '', qualifiers: [] });
+  });
+
+  it('keeps plain words as free text', () => {
+    expect(parseSearchQuery('react server components')).toEqual({ text: 'react server components', qualifiers: [] });
+  });
+
+  it('parses qualifiers with quoted values and negations', () => {
+    const query = 'speaker:"jane doe" level:Advanced lang:fr tag:keynote -category:ops react';
+
+    expect(parseSearchQuery(query)).toEqual({
+      text: 'react',
+      qualifiers: [
+        { key: 'speaker', value: 'jane doe', negated: false },
+        { key: 'level', value: 'ADVANCED', negated: false },
+        { key: 'lang', value: 'fr', negated: false },
+        { key: 'tag', value: 'keynote', negated: false },
+        { key: 'category', value: 'ops', negated: true },
+      ],
+    });
+  });
+
+  it('parses status and confirmation qualifiers', () => {
+    expect(parseSearchQuery('status:accepted confirmation:not-answered').qualifiers).toEqual([
+      { key: 'status', value: 'accepted', negated: false },
+      { key: 'confirmation', value: 'not-answered', negated: false },
+    ]);
+  });
+
+  it('parses comparisons on reviews and submission date', () => {
+    expect(parseSearchQuery('reviews:<3 reviews:>=2.5 submitted:>2026-05-01 submitted:2026-06-01').qualifiers).toEqual([
+      { key: 'reviews', comparator: '<', value: 3, negated: false },
+      { key: 'reviews', comparator: '>=', value: 2.5, negated: false },
+      { key: 'submitted', comparator: '>', value: '2026-05-01', negated: false },
+      { key: 'submitted', comparator: '=', value: '2026-06-01', negated: false },
+    ]);
+  });
+
+  it('keeps reviews comparisons that are not plain notes in the free text', () => {
+    expect(parseSearchQuery('reviews:< reviews:>1e3 reviews:0x10 reviews:Infinity reviews:-1')).toEqual({
+      text: 'reviews:< reviews:>1e3 reviews:0x10 reviews:Infinity reviews:-1',
+      qualifiers: [],
+    });
+  });
+
+  it('keeps unknown qualifiers and invalid values in the free text', () => {
+    expect(parseSearchQuery('foo:bar level:expert reviews:<abc submitted:yesterday -react')).toEqual({
+      text: 'foo:bar level:expert reviews:<abc submitted:yesterday -react',
+      qualifiers: [],
+    });
+  });
+
+  it('keeps dates that do not exist in the free text', () => {
+    expect(parseSearchQuery('submitted:2026-02-31 submitted:>2026-13-01 submitted:2028-02-29')).toEqual({
+      text: 'submitted:2026-02-31 submitted:>2026-13-01',
+      qualifiers: [{ key: 'submitted', comparator: '=', value: '2028-02-29', negated: false }],
+    });
+  });
+
+  it('keeps proposal numbers in the free text', () => {
+    expect(parseSearchQuery('#42 tag:keynote')).toEqual({
+      text: '#42',
+      qualifiers: [{ key: 'tag', value: 'keynote', negated: false }],
+    });
+  });
+});
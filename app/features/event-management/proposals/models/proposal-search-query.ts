@@ -0,0 +1,101 @@
+type SearchComparator = '<' | '<=' | '>' | '>=' | '=';
+
+type TextQualifier = { key: 'speaker' | 'tag' | 'category' | 'format' | 'lang'; value: string };
+type LevelQualifier = { key: 'level'; value: 'BEGINNER' | 'INTERMEDIATE' | 'ADVANCED' };
+type StatusQualifier = { key: 'status'; value: 'pending' | 'accepted' | 'rejected' | 'waitlisted' };
+type ConfirmationQualifier = { key: 'confirmation'; value: 'not-answered' | 'confirmed' | 'declined' };
+type ReviewsQualifier = { key: 'reviews'; comparator: SearchComparator; value: number };
+type SubmittedQualifier = { key: 'submitted'; comparator: SearchComparator; value: string };
+
+type Qualifier =
+  | TextQualifier
+  | LevelQualifier
+  | StatusQualifier
+  | ConfirmationQualifier
+  | ReviewsQualifier
+  | SubmittedQualifier;
+
+export type SearchQualifier = Qualifier & { negated: boolean };
+
+export type SearchQuery = { text: string; qualifiers: Array<SearchQualifier> };
+
+const TEXT_KEYS = ['speaker', 'tag', 'category', 'format', 'lang'] as const;
+const LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+const STATUSES = ['pending', 'accepted', 'rejected', 'waitlisted'] as const;
+const CONFIRMATIONS = ['not-answered', 'confirmed', 'declined'] as const;
+
+// Matches `key:value`, `key:"quoted value"`, `-key:value` or any other word (quoted or not)
+const TOKEN_REGEX = /(-?)([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+const COMPARATOR_REGEX = /^(<=|>=|<|>|=)?(.+)$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const NOTE_REGEX = /^\d+(\.\d+)?$/;
+
+// Splits a search query such as `speaker:"jane" -tag:ops reviews:<3 react` into qualifiers and free text.
+// Qualifiers with an unknown key or an invalid value are kept in the free text.
+export function parseSearchQuery(query?: string): SearchQuery {
+  const words: Array<string> = [];
+  const qualifiers: Array<SearchQualifier> = [];
+
+  for (const match of (query ?? '').matchAll(TOKEN_REGEX)) {
+    const [token, negation, key, quotedValue, value, quotedText, text] = match;
+
+    if (key === undefined) {
+      words.push(quotedText ?? text);
+      continue;
+    }
+
+    const qualifier = parseQualifier(key.toLowerCase(), quotedValue ?? value);
+    if (qualifier) {
+      qualifiers.push({ ...qualifier, negated: negation === '-' });
+    } else {
+      words.push(token);
+    }
+  }
+
+  return { text: words.join(' ').trim(), qualifiers };
+}
+
+function parseQualifier(key: string, value: string): Qualifier | null {
+  if (!value) return null;
+
+  if (includes(TEXT_KEYS, key)) return { key, value };
+
+  const lowerValue = value.toLowerCase();
+  switch (key) {
+    case 'level':
+      if (!includes(LEVELS, lowerValue)) return null;
+      return { key, value: lowerValue.toUpperCase() as LevelQualifier['value'] };
+    case 'status':
+      if (!includes(STATUSES, lowerValue)) return null;
+      return { key, value: lowerValue };
+    case 'confirmation':
+      if (!includes(CONFIRMATIONS, lowerValue)) return null;
+      return { key, value: lowerValue };
+    case 'reviews': {
+      const [, comparator = '=', note] = value.match(COMPARATOR_REGEX) ?? [];
+      // `Number` also reads exponents, hexadecimals or Infinity, only plain notes are kept
+      if (!NOTE_REGEX.test(note)) return null;
+      return { key, comparator: comparator as SearchComparator, value: Number(note) };
+    }
+    case 'submitted': {
+      const [, comparator = '=', date] = value.match(COMPARATOR_REGEX) ?? [];
+      if (!isCalendarDate(date)) return null;
+      return { key, comparator: comparator as SearchComparator, value: date };
+    }
+    default:
+      return null;
+  }
+}
+
+// `Date.parse` rolls over impossible days (2026-02-31), so the parsed date must give back the same day
+function isCalendarDate(date: string) {
+  if (!DATE_REGEX.test(date)) return false;
+
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+function includes<T extends string>(values: ReadonlyArray<T>, value: string): value is T {
+  return values.includes(value as T);
+}
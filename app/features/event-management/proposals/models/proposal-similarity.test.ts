@@ -0,0 +1,52 @@
+import { findSimilarProposals, jaccardSimilarity, shingles } from './proposal-similarity.ts';
+
+describe('#shingles', () => {
+  it('returns word trigrams of the normalized text', () => {
+    expect(shingles('Écrire du code, vite!')).toEqual(new Set(['ecrire du code', 'du code vite']));
+  });
+
+  it('returns the whole text when it is shorter than a shingle', () => {
+    expect(shingles('Hello world')).toEqual(new Set(['hello world']));
+    expect(shingles('  ')).toEqual(new Set());
+  });
+});
+
+describe('#jaccardSimilarity', () => {
+  it('returns the ratio of shared shingles', () => {
+    expect(jaccardSimilarity(new Set(['a', 'b', 'c']), new Set(['b', 'c', 'd']))).toBe(0.5);
+    expect(jaccardSimilarity(new Set(['a']), new Set(['a']))).toBe(1);
+    expect(jaccardSimilarity(new Set(), new Set(['a']))).toBe(0);
+  });
+});
+
+describe('#findSimilarProposals', () => {
+  const abstract = 'In this talk we will build a compiler from scratch and explain every step of the parsing process.';
+  const proposal = { id: 'p1', title: 'Build your own compiler', abstract };
+
+  it('finds proposals with the same abstract and a different title', () => {
+    const candidates = [
+      { id: 'p1', title: 'Build your own compiler', abstract },
+      { id: 'p2', title: 'Writing a compiler', abstract },
+      { id: 'p3', title: 'Kubernetes at scale', abstract: 'Running many clusters in production is hard.' },
+    ];
+
+    expect(findSimilarProposals(proposal, candidates)).toEqual([{ id: 'p2', similarity: 1 }]);
+  });
+
+  it('finds proposals with a slightly edited abstract', () => {
+    const edited = abstract.replace('every step', 'each step');
+    const [result] = findSimilarProposals(proposal, [
+      { id: 'p2', title: 'Build your own compiler!', abstract: edited },
+    ]);
+
+    expect(result.id).toBe('p2');
+    expect(result.similarity).toBeGreaterThanOrEqual(0.5);
+    expect(result.similarity).toBeLessThan(1);
+  });
+
+  it('does not flag proposals sharing only their title', () => {
+    const candidates = [{ id: 'p2', title: 'Build your own compiler', abstract: 'A workshop about parsers in Rust.' }];
+
+    expect(findSimilarProposals(proposal, candidates)).toEqual([]);
+  });
+});
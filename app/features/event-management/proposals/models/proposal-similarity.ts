@@ -0,0 +1,56 @@
+type ProposalText = { id: string; title: string; abstract: string };
+
+type SimilarProposal = { id: string; similarity: number };
+
+const SHINGLE_SIZE = 3;
+
+// Proposals sharing at least this ratio of shingles are flagged as possible duplicates
+const DUPLICATE_THRESHOLD = 0.5;
+
+// Word n-grams of the normalized text (accents, case and punctuation are ignored)
+export function shingles(text: string, size = SHINGLE_SIZE): Set<string> {
+  const words = text
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+  if (!words) return new Set();
+  if (words.length <= size) return new Set([words.join(' ')]);
+
+  const result = new Set<string>();
+  for (let index = 0; index <= words.length - size; index++) {
+    result.add(words.slice(index, index + size).join(' '));
+  }
+  return result;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let intersection = 0;
+  for (const shingle of a) {
+    if (b.has(shingle)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+// The abstract is also compared on its own, so a retitled talk with the same abstract is still found
+export function findSimilarProposals(
+  proposal: ProposalText,
+  candidates: Array<ProposalText>,
+  threshold = DUPLICATE_THRESHOLD,
+): Array<SimilarProposal> {
+  const text = shingles(`${proposal.title} ${proposal.abstract}`);
+  const abstract = shingles(proposal.abstract);
+
+  return candidates
+    .filter((candidate) => candidate.id !== proposal.id)
+    .map((candidate) => {
+      const textSimilarity = jaccardSimilarity(text, shingles(`${candidate.title} ${candidate.abstract}`));
+      const abstractSimilarity = jaccardSimilarity(abstract, shingles(candidate.abstract));
+      const similarity = Math.max(textSimilarity, abstractSimilarity);
+      return { id: candidate.id, similarity: Math.round(similarity * 100) / 100 };
+    })
+    .filter((candidate) => candidate.similarity >= threshold)
+    .toSorted((a, b) => b.similarity - a.similarity);
+}
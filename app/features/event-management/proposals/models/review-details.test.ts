@@ -9,6 +9,7 @@ describe('#ReviewsDetails', () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       migrationId: null,
+      scores: null,
       dismissedAt: null,
     };
     const user1 = { id: 'uid1', name: 'John doe', picture: 'j.png' };
@@ -63,6 +64,7 @@ describe('#ReviewsDetails', () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       migrationId: null,
+      scores: null,
       dismissedAt: null,
     };
     const user1 = { id: 'uid1', name: 'John doe', picture: 'j.png' };
@@ -0,0 +1,49 @@
+import { distributeReviews } from './review-distribution.ts';
+
+describe('#distributeReviews', () => {
+  it('assigns the expected number of reviewers to each proposal with a balanced load', () => {
+    const proposals = ['p1', 'p2', 'p3', 'p4'].map((id) => ({ id, assignedReviewerIds: [], excludedReviewerIds: [] }));
+
+    const assignments = distributeReviews({ proposals, reviewerIds: ['u1', 'u2', 'u3', 'u4'], reviewsPerProposal: 2 });
+
+    expect(assignments).toHaveLength(8);
+    for (const proposal of proposals) {
+      expect(assignments.filter((a) => a.proposalId === proposal.id)).toHaveLength(2);
+    }
+    for (const userId of ['u1', 'u2', 'u3', 'u4']) {
+      expect(assignments.filter((a) => a.userId === userId)).toHaveLength(2);
+    }
+  });
+
+  it('completes existing assignments and takes them into account in reviewers load', () => {
+    const proposals = [
+      { id: 'p1', assignedReviewerIds: ['u1', 'u2'], excludedReviewerIds: [] },
+      { id: 'p2', assignedReviewerIds: ['u1'], excludedReviewerIds: [] },
+      { id: 'p3', assignedReviewerIds: [], excludedReviewerIds: [] },
+    ];
+
+    const assignments = distributeReviews({ proposals, reviewerIds: ['u1', 'u2', 'u3'], reviewsPerProposal: 2 });
+
+    expect(assignments).toEqual([
+      { proposalId: 'p3', userId: 'u3' },
+      { proposalId: 'p3', userId: 'u2' },
+      { proposalId: 'p2', userId: 'u3' },
+    ]);
+  });
+
+  it('never assigns excluded reviewers', () => {
+    const proposals = [{ id: 'p1', assignedReviewerIds: [], excludedReviewerIds: ['u1'] }];
+
+    const assignments = distributeReviews({ proposals, reviewerIds: ['u1', 'u2'], reviewsPerProposal: 2 });
+
+    expect(assignments).toEqual([{ proposalId: 'p1', userId: 'u2' }]);
+  });
+
+  it('returns no assignments when there is no reviewer', () => {
+    const proposals = [{ id: 'p1', assignedReviewerIds: [], excludedReviewerIds: [] }];
+
+    const assignments = distributeReviews({ proposals, reviewerIds: [], reviewsPerProposal: 3 });
+
+    expect(assignments).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+type ProposalToDistribute = {
+  id: string;
+  assignedReviewerIds: Array<string>;
+  excludedReviewerIds: Array<string>;
+};
+
+type DistributionOptions = {
+  proposals: Array<ProposalToDistribute>;
+  reviewerIds: Array<string>;
+  reviewsPerProposal: number;
+};
+
+type Assignment = { proposalId: string; userId: string };
+
+// Greedy distribution: each proposal is completed up to the expected number of reviewers,
+// always picking the reviewers with the lowest load first (existing assignments included).
+export function distributeReviews({ proposals, reviewerIds, reviewsPerProposal }: DistributionOptions) {
+  const loads = new Map(reviewerIds.map((id) => [id, 0]));
+  for (const proposal of proposals) {
+    for (const userId of proposal.assignedReviewerIds) {
+      const load = loads.get(userId);
+      if (load !== undefined) loads.set(userId, load + 1);
+    }
+  }
+
+  const sortedProposals = proposals.toSorted(
+    (a, b) => a.assignedReviewerIds.length - b.assignedReviewerIds.length || a.id.localeCompare(b.id),
+  );
+
+  const assignments: Array<Assignment> = [];
+
+  for (const proposal of sortedProposals) {
+    const missing = reviewsPerProposal - proposal.assignedReviewerIds.length;
+    if (missing <= 0) continue;
+
+    const candidates = reviewerIds
+      .filter((id) => !proposal.assignedReviewerIds.includes(id) && !proposal.excludedReviewerIds.includes(id))
+      .toSorted((a, b) => (loads.get(a) ?? 0) - (loads.get(b) ?? 0));
+
+    for (const userId of candidates.slice(0, missing)) {
+      assignments.push({ proposalId: proposal.id, userId });
+      loads.set(userId, (loads.get(userId) ?? 0) + 1);
+    }
+  }
+
+  return assignments;
+}
@@ -20,22 +20,30 @@ import {
 } from '~/features/conversations/services/conversation.schema.server.ts';
 import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
 import { parseUrlFilters } from '~/features/event-management/proposals/services/proposal-search-builder.schema.server.ts';
+import { ReviewPeriod } from '~/features/event-management/settings/models/review-period.ts';
+import { TalkAttachments } from '~/features/speaker/talk-library/components/talk-attachments.tsx';
 import { TalkSection } from '~/features/speaker/talk-library/components/talk-section.tsx';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { ProposalMergeInvalidError, ProposalNotFoundError } from '~/shared/errors.server.ts';
 import { useFlag } from '~/shared/feature-flags/flags-context.tsx';
 import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
 import { toast } from '~/shared/toasts/toast.server.ts';
 import { Publication } from '../publication/services/publication.server.ts';
 import type { Route } from './+types/proposal.ts';
 import { ProposalActivityFeed } from './components/detail/activity/proposal-activity-feed.tsx';
+import { DuplicatesDisclosure } from './components/detail/duplicates-disclosure.tsx';
+import { MergedIntoCallout, MergedProposalsDisclosure } from './components/detail/merged-proposals-disclosure.tsx';
 import { CategoriesSection } from './components/detail/metadata/categories-section.tsx';
 import { FormatsSection } from './components/detail/metadata/formats-section.tsx';
+import { ReviewersSection } from './components/detail/metadata/reviewers-section.tsx';
 import { SpeakersSection } from './components/detail/metadata/speakers-section.tsx';
 import { TagsSection } from './components/detail/metadata/tags-section.tsx';
 import { NavigationHeader } from './components/detail/navigation-header.tsx';
 import { OtherProposalsDisclosure } from './components/detail/other-proposals-disclosure.tsx';
 import { ProposalActionsMenu } from './components/detail/proposal-actions-menu.tsx';
 import { ReviewSidebar } from './components/detail/review/review-sidebar.tsx';
+import { ProposalAuditLogs } from './services/proposal-audit-logs.server.ts';
+import { ProposalDuplicates } from './services/proposal-duplicates.server.ts';
 import { resolveProposalId } from './services/proposal-id-resolver.server.ts';
 import {
   ProposalSaveCategoriesSchema,
@@ -45,10 +53,17 @@ import {
   ProposalUpdateSchema,
 } from './services/proposal-management.schema.server.ts';
 import { ProposalManagement } from './services/proposal-management.server.ts';
+import { ProposalMergeSchema } from './services/proposal-merge.schema.server.ts';
+import { ProposalMerge } from './services/proposal-merge.server.ts';
 import { ReviewUpdateDataSchema } from './services/proposal-review.schema.server.ts';
 import type { ProposalReviewData } from './services/proposal-review.server.ts';
 import { ProposalReview } from './services/proposal-review.server.ts';
+import { ProposalRevisions } from './services/proposal-revisions.server.ts';
 import { ProposalStatusSchema, ProposalStatusUpdater } from './services/proposal-status-updater.server.ts';
+import { ReviewAssignmentsSaveSchema } from './services/review-assignments.schema.server.ts';
+import { ReviewAssignments } from './services/review-assignments.server.ts';
+import { ReviewConflictDeclareSchema } from './services/review-conflicts.schema.server.ts';
+import { ReviewConflicts } from './services/review-conflicts.server.ts';
 
 export type ProposalData = ProposalReviewData;
 
@@ -69,9 +84,30 @@ export const loader = async ({ params, context, url }: Route.LoaderArgs) => {
   const activityPromise = Promise.all([reviewComments.getConversation(), speakerConversation.getConversation()]);
   const proposal = await proposalReview.get();
   const otherProposalsPromise = proposalReview.getOtherProposals(proposal.speakers.map((s) => s.id));
+  const duplicatesPromise = ProposalDuplicates.for(authorizedEvent, proposalId).list();
   const pagination = await proposalReview.getPreviousAndNextReviews(filters);
 
-  return { proposal, pagination, activityPromise, otherProposalsPromise };
+  const reviewAssignments = ReviewAssignments.for(authorizedEvent);
+  const [teamReviewers, assignedReviewers, conflicts, revisions, auditLogs] = await Promise.all([
+    reviewAssignments.reviewers(),
+    reviewAssignments.ofProposal(proposalId),
+    authorizedEvent.permissions.canAssignReviews ? ReviewConflicts.for(authorizedEvent).ofProposal(proposalId) : [],
+    ProposalRevisions.for(authorizedEvent, proposalId).list(),
+    authorizedEvent.permissions.canEditEvent ? ProposalAuditLogs.for(authorizedEvent).ofProposal(proposalId) : [],
+  ]);
+
+  return {
+    proposal,
+    pagination,
+    activityPromise,
+    otherProposalsPromise,
+    duplicatesPromise,
+    reviewers: { team: teamReviewers, assigned: assignedReviewers },
+    conflicts,
+    revisions,
+    auditLogs,
+    reviewLocked: new ReviewPeriod(authorizedEvent.event).isLocked(),
+  };
 };
 
 export const action = async ({ request, params, context }: Route.ActionArgs) => {
@@ -95,6 +131,22 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
       await review.clearReview();
       break;
     }
+    case 'declare-conflict': {
+      const result = parseWithZod(form, { schema: ReviewConflictDeclareSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await ReviewConflicts.for(authorizedEvent).declare(proposalId, result.value);
+      return toast('success', i18n.t('event-management.proposal-page.conflicts.feedbacks.declared'));
+    }
+    case 'remove-conflict': {
+      const conflictId = String(form.get('conflictId'));
+      await ReviewConflicts.for(authorizedEvent).remove(conflictId);
+      break;
+    }
+    case 'dismiss-duplicate': {
+      const duplicateId = String(form.get('duplicateId'));
+      await ProposalDuplicates.for(authorizedEvent, proposalId).dismiss(duplicateId);
+      return toast('success', i18n.t('event-management.proposal-page.duplicates.feedbacks.dismissed'));
+    }
     case 'dismiss-review': {
       const reviewId = String(form.get('reviewId'));
       await ProposalReview.for(authorizedEvent, proposalId).dismissReview(reviewId);
@@ -185,6 +237,12 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
       await proposal.saveCategories(result.value);
       break;
     }
+    case 'save-reviewers': {
+      const result = parseWithZod(form, { schema: ReviewAssignmentsSaveSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await ReviewAssignments.for(authorizedEvent).assign(proposalId, result.value);
+      break;
+    }
     case 'archive-proposal': {
       const proposalStatus = ProposalStatusUpdater.for(authorizedEvent);
       await proposalStatus.archive([proposalId]);
@@ -195,6 +253,24 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
       await proposalStatus.restore([proposalId]);
       return toast('success', i18n.t('event-management.proposal-page.feedbacks.restored'));
     }
+    case 'merge-proposal': {
+      const result = parseWithZod(form, { schema: ProposalMergeSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      try {
+        const sourceId = await resolveProposalId(authorizedEvent, result.value.source);
+        const systemMessage = i18n.t('event-management.proposal-page.merge.system-message');
+        await ProposalMerge.for(authorizedEvent, proposalId).merge(sourceId, systemMessage);
+      } catch (error) {
+        if (error instanceof ProposalNotFoundError) {
+          return toast('error', i18n.t('event-management.proposal-page.merge.errors.not-found'));
+        }
+        if (error instanceof ProposalMergeInvalidError) {
+          return toast('error', i18n.t('event-management.proposal-page.merge.errors.invalid'));
+        }
+        throw error;
+      }
+      return toast('success', i18n.t('event-management.proposal-page.feedbacks.merged'));
+    }
   }
   return null;
 };
@@ -203,7 +279,18 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
   const { t } = useTranslation();
   const { event } = useCurrentEventTeam();
   const permissions = useUserTeamPermissions();
-  const { proposal, pagination, activityPromise, otherProposalsPromise } = loaderData;
+  const {
+    proposal,
+    pagination,
+    activityPromise,
+    otherProposalsPromise,
+    duplicatesPromise,
+    reviewers,
+    conflicts,
+    revisions,
+    auditLogs,
+    reviewLocked,
+  } = loaderData;
   const pageRef = useRef<HTMLElement>(null);
 
   const hasSpeakers = proposal.speakers.length > 0;
@@ -224,6 +311,8 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
         activityPromise={activityPromise}
       />
 
+      <MergedIntoCallout team={params.team} event={params.event} mergedInto={proposal.mergedInto} />
+
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-12">
         <div className="lg:col-span-8">
           <TalkSection
@@ -239,6 +328,8 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
               />
             }
           >
+            <TalkAttachments attachments={proposal.attachments} />
+            <MergedProposalsDisclosure team={params.team} event={params.event} proposals={proposal.mergedProposals} />
             <Suspense fallback={null}>
               <Await resolve={otherProposalsPromise}>
                 {(proposals) => (
@@ -246,6 +337,18 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
                 )}
               </Await>
             </Suspense>
+            <Suspense fallback={null}>
+              <Await resolve={duplicatesPromise}>
+                {(duplicates) => (
+                  <DuplicatesDisclosure
+                    team={params.team}
+                    event={params.event}
+                    duplicates={duplicates}
+                    canDismiss={permissions.canEditEventProposal}
+                  />
+                )}
+              </Await>
+            </Suspense>
           </TalkSection>
 
           <Suspense fallback={<ActivityFeed.Loading className="pl-4" />}>
@@ -253,6 +356,8 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
               {([comments, speakerConversation]) => (
                 <ProposalActivityFeed
                   comments={comments}
+                  revisions={revisions}
+                  auditLogs={auditLogs}
                   reviews={proposal.reviews.members}
                   reviewsSummary={proposal.reviews.summary}
                   speakerConversation={speakerConversation}
@@ -268,7 +373,8 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
         <div className="flex flex-col-reverse gap-4 lg:col-span-4 lg:flex-col">
           <ReviewSidebar
             proposal={proposal}
-            reviewEnabled={event.reviewEnabled}
+            conflicts={conflicts}
+            reviewEnabled={event.reviewEnabled && !reviewLocked}
             canDeliberate={permissions.canChangeProposalStatus}
           />
 
@@ -358,6 +464,16 @@ export default function ProposalReviewLayoutRoute({ params, loaderData, actionDa
               eventTags={event.tags}
               canChangeTags={permissions.canEditEventProposal}
               canCreateTags={permissions.canEditEvent}
+              className="space-y-3 p-4 lg:px-6"
+            />
+
+            <Divider />
+
+            <ReviewersSection
+              proposalId={params.proposal}
+              assignedReviewers={reviewers.assigned}
+              teamReviewers={reviewers.team}
+              canAssignReviews={permissions.canAssignReviews}
               className="space-y-3 p-4 pb-6 lg:px-6"
             />
           </Card>
@@ -0,0 +1,85 @@
+import { parseWithZod } from '@conform-to/zod/v4';
+import { ScaleIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { Form, href } from 'react-router';
+import { mergeMeta } from '~/app-platform/seo/utils/merge-meta.ts';
+import { Button } from '~/design-system/button.tsx';
+import { EmptyState } from '~/design-system/layouts/empty-state.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+import { TalkSection } from '~/features/speaker/talk-library/components/talk-section.tsx';
+import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
+import { toast } from '~/shared/toasts/toast.server.ts';
+import type { Route } from './+types/proposals-comparison.ts';
+import { ProposalComparisonSchema } from './services/proposal-comparisons.schema.server.ts';
+import { ProposalComparisons } from './services/proposal-comparisons.server.ts';
+
+export const meta = (args: Route.MetaArgs) => {
+  return mergeMeta(args.matches, [{ title: 'Compare proposals | Conference Hall' }]);
+};
+
+export const loader = async ({ context }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const pair = await ProposalComparisons.for(authorizedEvent).nextPair();
+  return { pair };
+};
+
+export const action = async ({ request, context }: Route.ActionArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const i18n = getI18n(context);
+  const form = await request.formData();
+
+  const result = parseWithZod(form, { schema: ProposalComparisonSchema });
+  if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+
+  await ProposalComparisons.for(authorizedEvent).compare(result.value);
+  return null;
+};
+
+export default function ProposalsComparisonRoute({ loaderData, params }: Route.ComponentProps) {
+  const { t } = useTranslation();
+  const { event } = useCurrentEventTeam();
+  const { pair } = loaderData;
+
+  return (
+    <Page>
+      <Page.Heading
+        title={t('event-management.proposals.comparison.title')}
+        subtitle={t('event-management.proposals.comparison.subtitle')}
+      >
+        <Button variant="secondary" to={href('/team/:team/:event/proposals', params)}>
+          {t('common.go-back')}
+        </Button>
+      </Page.Heading>
+
+      {pair ? (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 lg:gap-6">
+          {pair.map((proposal, index) => {
+            const opponent = pair[index === 0 ? 1 : 0];
+            return (
+              <TalkSection
+                key={proposal.id}
+                talk={proposal}
+                showSpeakers={event.displayProposalsSpeakers}
+                showFormats
+                showCategories
+                action={
+                  <Form method="POST">
+                    <input type="hidden" name="winnerId" value={proposal.id} />
+                    <input type="hidden" name="loserId" value={opponent.id} />
+                    <Button type="submit" size="sm">
+                      {t('event-management.proposals.comparison.pick')}
+                    </Button>
+                  </Form>
+                }
+              />
+            );
+          })}
+        </div>
+      ) : (
+        <EmptyState icon={ScaleIcon} label={t('event-management.proposals.comparison.empty')} />
+      )}
+    </Page>
+  );
+}
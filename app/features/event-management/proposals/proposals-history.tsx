@@ -0,0 +1,86 @@
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { href } from 'react-router';
+import { mergeMeta } from '~/app-platform/seo/utils/merge-meta.ts';
+import { Avatar } from '~/design-system/avatar.tsx';
+import { Button } from '~/design-system/button.tsx';
+import { EmptyState } from '~/design-system/layouts/empty-state.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { Link } from '~/design-system/links.tsx';
+import { List } from '~/design-system/list/list.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { formatDatetime } from '~/shared/datetimes/datetimes.ts';
+import { parseUrlPage } from '~/shared/pagination/pagination.ts';
+import type { Route } from './+types/proposals-history.ts';
+import { HistoryFilters } from './components/history/history-filters.tsx';
+import { AuditLogChange, auditLogSummary } from './components/shared/audit-log-change.tsx';
+import { parseUrlFilters } from './services/proposal-audit-logs.schema.server.ts';
+import { ProposalAuditLogs } from './services/proposal-audit-logs.server.ts';
+
+export const meta = (args: Route.MetaArgs) => {
+  return mergeMeta(args.matches, [{ title: 'Proposals history | Conference Hall' }]);
+};
+
+export const loader = async ({ context, url }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const filters = parseUrlFilters(url);
+  const page = parseUrlPage(url);
+  return ProposalAuditLogs.for(authorizedEvent).history(filters, page);
+};
+
+export default function ProposalsHistoryRoute({ loaderData, params }: Route.ComponentProps) {
+  const { t, i18n } = useTranslation();
+  const { logs, members, pagination, statistics } = loaderData;
+
+  return (
+    <Page>
+      <Page.Heading
+        title={t('event-management.audit-logs.heading')}
+        subtitle={t('event-management.audit-logs.description')}
+      >
+        <Button variant="secondary" to={href('/team/:team/:event/proposals', params)}>
+          {t('common.go-back')}
+        </Button>
+      </Page.Heading>
+
+      <div className="space-y-4">
+        <HistoryFilters members={members} />
+
+        {logs.length === 0 ? (
+          <EmptyState icon={ClockIcon} label={t('event-management.audit-logs.empty')} />
+        ) : (
+          <List>
+            <List.Header>
+              <Text>{t('event-management.audit-logs.list.items', { count: statistics.total })}</Text>
+            </List.Header>
+
+            <List.Content aria-label={t('event-management.audit-logs.heading')}>
+              {logs.map((log) => (
+                <List.Row key={log.id} className="flex items-start gap-4 p-4">
+                  <Avatar picture={log.author?.picture} name={log.author?.name} size="s" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <Text weight="medium">{auditLogSummary(log, t)}</Text>
+                    <Link
+                      to={href('/team/:team/:event/proposals/:proposal', { ...params, proposal: log.proposal.routeId })}
+                      size="s"
+                      truncate
+                    >
+                      {log.proposal.title}
+                    </Link>
+                    <AuditLogChange log={log} />
+                  </div>
+                  <Text size="xs" variant="secondary" className="shrink-0">
+                    {formatDatetime(log.createdAt, { format: 'medium', locale: i18n.language })}
+                  </Text>
+                </List.Row>
+              ))}
+            </List.Content>
+
+            <List.PaginationFooter current={pagination.current} pages={pagination.total} total={statistics.total} />
+          </List>
+        )}
+      </div>
+    </Page>
+  );
+}
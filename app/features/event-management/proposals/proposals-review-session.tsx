@@ -0,0 +1,136 @@
+import { parseWithZod } from '@conform-to/zod/v4';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { href, useSearchParams } from 'react-router';
+import { mergeMeta } from '~/app-platform/seo/utils/merge-meta.ts';
+import { Button } from '~/design-system/button.tsx';
+import { ProgressBar } from '~/design-system/charts/progress-bar.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { EmptyState } from '~/design-system/layouts/empty-state.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+import { parseUrlFilters } from '~/features/event-management/proposals/services/proposal-search-builder.schema.server.ts';
+import { TalkAttachments } from '~/features/speaker/talk-library/components/talk-attachments.tsx';
+import { TalkSection } from '~/features/speaker/talk-library/components/talk-section.tsx';
+import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
+import { toast } from '~/shared/toasts/toast.server.ts';
+import type { Route } from './+types/proposals-review-session.ts';
+import { ReviewSessionForm } from './components/review-session/review-session-form.tsx';
+import { ReviewSessionSaveSchema } from './services/proposal-review.schema.server.ts';
+import { ProposalReview } from './services/proposal-review.server.ts';
+import { ReviewSession } from './services/review-session.server.ts';
+
+export const meta = (args: Route.MetaArgs) => {
+  return mergeMeta(args.matches, [{ title: 'Review session | Conference Hall' }]);
+};
+
+export const loader = async ({ context, url }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const filters = parseUrlFilters(url);
+  const skipped = url.searchParams.getAll('skipped');
+  return ReviewSession.for(authorizedEvent).next(filters, skipped);
+};
+
+export const action = async ({ request, context }: Route.ActionArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const i18n = getI18n(context);
+  const form = await request.formData();
+
+  const result = parseWithZod(form, { schema: ReviewSessionSaveSchema });
+  if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+
+  const { proposalId, ...review } = result.value;
+  await ProposalReview.for(authorizedEvent, proposalId).addReview(review);
+  return null;
+};
+
+export default function ProposalsReviewSessionRoute({ loaderData, params }: Route.ComponentProps) {
+  const { t } = useTranslation();
+  const { event } = useCurrentEventTeam();
+  const [searchParams] = useSearchParams();
+  const { proposal, progress, skipped } = loaderData;
+
+  const filtersParams = new URLSearchParams(searchParams);
+  filtersParams.delete('skipped');
+  const filtersSearch = filtersParams.toString();
+
+  return (
+    <Page>
+      <Page.Heading
+        title={t('event-management.proposals.review-session.title')}
+        subtitle={t('event-management.proposals.review-session.subtitle')}
+      >
+        <Button
+          variant="secondary"
+          to={{ pathname: href('/team/:team/:event/proposals', params), search: filtersSearch }}
+        >
+          {t('common.go-back')}
+        </Button>
+      </Page.Heading>
+
+      <div className="mb-6 flex items-center gap-4">
+        <ProgressBar
+          value={progress.reviewed}
+          max={progress.total}
+          aria-label={t('event-management.proposals.review-session.title')}
+        />
+        <Text variant="secondary" size="xs" className="whitespace-nowrap">
+          {t('event-management.proposals.review-session.progress', progress)}
+        </Text>
+      </div>
+
+      {proposal ? (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-12">
+          <div className="lg:col-span-8">
+            <TalkSection
+              talk={proposal}
+              showSpeakers={event.displayProposalsSpeakers}
+              showFormats
+              showCategories
+              action={
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  to={{
+                    pathname: href('/team/:team/:event/proposals/:proposal', { ...params, proposal: proposal.routeId }),
+                    search: filtersSearch,
+                  }}
+                >
+                  {t('event-management.proposals.review-session.open-proposal')}
+                </Button>
+              }
+            >
+              <TalkAttachments attachments={proposal.attachments} />
+            </TalkSection>
+          </div>
+
+          <div className="lg:col-span-4">
+            <Card as="section">
+              <ReviewSessionForm
+                key={proposal.id}
+                proposalId={proposal.id}
+                initialValues={proposal.reviews.you}
+                rubric={proposal.rubric}
+              />
+            </Card>
+          </div>
+        </div>
+      ) : (
+        <EmptyState icon={CheckCircleIcon} label={t('event-management.proposals.review-session.completed')}>
+          {skipped > 0 ? (
+            <div className="flex flex-col items-center gap-4">
+              <Text variant="secondary">
+                {t('event-management.proposals.review-session.skipped', { count: skipped })}
+              </Text>
+              <Button to={{ search: filtersSearch }}>
+                {t('event-management.proposals.review-session.review-skipped')}
+              </Button>
+            </div>
+          ) : null}
+        </EmptyState>
+      )}
+    </Page>
+  );
+}
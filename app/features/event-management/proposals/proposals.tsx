@@ -1,11 +1,12 @@
 import { parseWithZod } from '@conform-to/zod/v4';
-import { PlusIcon } from '@heroicons/react/16/solid';
+import { ClockIcon, PlayIcon, PlusIcon, ScaleIcon } from '@heroicons/react/16/solid';
 import { useTranslation } from 'react-i18next';
-import { href } from 'react-router';
+import { href, useSearchParams } from 'react-router';
 import { useUserTeamPermissions } from '~/app-platform/components/user-context.tsx';
 import { Button } from '~/design-system/button.tsx';
 import { SearchInput } from '~/design-system/forms/search-input.tsx';
 import { Page } from '~/design-system/layouts/page.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
 import { parseUrlFilters } from '~/features/event-management/proposals/services/proposal-search-builder.schema.server.ts';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
 import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
@@ -13,25 +14,91 @@ import { parseUrlPage } from '~/shared/pagination/pagination.ts';
 import { toast } from '~/shared/toasts/toast.server.ts';
 import { getObjectHash } from '~/shared/utils/object-hash.ts';
 import type { Route } from './+types/proposals.ts';
+import { CapacitySummary } from './components/list/header/capacity-summary.tsx';
 import { ProposalsList } from './components/list/proposals-list.tsx';
 import { ExportMenu } from './components/list/toolbar/export-menu.tsx';
 import { FiltersMenu } from './components/list/toolbar/filters-menu.tsx';
 import { FiltersTags } from './components/list/toolbar/filters-tags.tsx';
 import { SortMenu } from './components/list/toolbar/sort-menu.tsx';
+import { ViewsMenu } from './components/list/toolbar/views-menu.tsx';
 import { CfpReviewsSearch } from './services/cfp-reviews-search.server.ts';
+import {
+  ProposalBulkSelectionSchema,
+  ProposalBulkTagsSchema,
+  ProposalBulkTracksSchema,
+} from './services/proposal-bulk-edit.schema.server.ts';
+import { ProposalBulkEdit } from './services/proposal-bulk-edit.server.ts';
+import {
+  ProposalListViewCreateSchema,
+  ProposalListViewDeleteSchema,
+} from './services/proposal-list-views.schema.server.ts';
+import { ProposalListViews } from './services/proposal-list-views.server.ts';
 import { ProposalStatusBulkSchema, ProposalStatusUpdater } from './services/proposal-status-updater.server.ts';
+import { ReviewSession } from './services/review-session.server.ts';
+import { TrackCapacities } from './services/track-capacities.server.ts';
 
 export const loader = async ({ context, url }: Route.LoaderArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
   const filters = parseUrlFilters(url);
   const page = parseUrlPage(url);
-  return CfpReviewsSearch.for(authorizedEvent).search(filters, page);
+  const [search, views, capacities] = await Promise.all([
+    CfpReviewsSearch.for(authorizedEvent).search(filters, page),
+    ProposalListViews.for(authorizedEvent).list(),
+    authorizedEvent.permissions.canChangeProposalStatus ? TrackCapacities.for(authorizedEvent).list() : [],
+  ]);
+  const reviewSessionAvailable = ReviewSession.for(authorizedEvent).isAvailable();
+  return { ...search, views, capacities, reviewSessionAvailable };
 };
 
 export const action = async ({ request, context, url }: Route.ActionArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
   const i18n = getI18n(context);
   const form = await request.formData();
+  const intent = form.get('intent');
+
+  switch (intent) {
+    case 'save-view': {
+      const result = parseWithZod(form, { schema: ProposalListViewCreateSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await ProposalListViews.for(authorizedEvent).create(result.value, parseUrlFilters(url));
+      return toast('success', i18n.t('event-management.proposals.views.feedbacks.saved'));
+    }
+    case 'delete-view': {
+      const result = parseWithZod(form, { schema: ProposalListViewDeleteSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await ProposalListViews.for(authorizedEvent).delete(result.value.id);
+      return toast('success', i18n.t('event-management.proposals.views.feedbacks.deleted'));
+    }
+    case 'bulk-add-tags':
+    case 'bulk-remove-tags': {
+      const result = parseWithZod(form, { schema: ProposalBulkTagsSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      const { tags, ...target } = result.value;
+      const bulkEdit = ProposalBulkEdit.for(authorizedEvent);
+      const count =
+        intent === 'bulk-add-tags'
+          ? await bulkEdit.addTags(target, parseUrlFilters(url), tags)
+          : await bulkEdit.removeTags(target, parseUrlFilters(url), tags);
+      return toast('success', i18n.t('event-management.proposals.bulk.feedbacks.tags-updated', { count }));
+    }
+    case 'capacity-overflows': {
+      const result = parseWithZod(form, { schema: ProposalBulkSelectionSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      const overflows = await TrackCapacities.for(authorizedEvent).overflows(result.value, parseUrlFilters(url));
+      return { overflows };
+    }
+    case 'bulk-set-tracks': {
+      const result = parseWithZod(form, { schema: ProposalBulkTracksSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      const { formats, categories, ...target } = result.value;
+      const count = await ProposalBulkEdit.for(authorizedEvent).setTracks(target, parseUrlFilters(url), {
+        formats,
+        categories,
+      });
+      return toast('success', i18n.t('event-management.proposals.bulk.feedbacks.tracks-updated', { count }));
+    }
+  }
+
   const result = parseWithZod(form, { schema: ProposalStatusBulkSchema });
   if (result.status !== 'success') return toast('error', i18n.t('error.global'));
 
@@ -53,9 +120,11 @@ export const action = async ({ request, context, url }: Route.ActionArgs) => {
 
 export default function ReviewsRoute({ loaderData, params }: Route.ComponentProps) {
   const { t } = useTranslation();
-  const { results, filters, pagination, statistics } = loaderData;
+  const { results, filters, languages, pagination, statistics, views, capacities, reviewSessionAvailable } = loaderData;
   const filtersHash = getObjectHash(filters);
   const permissions = useUserTeamPermissions();
+  const { event } = useCurrentEventTeam();
+  const [searchParams] = useSearchParams();
 
   return (
     <Page>
@@ -70,10 +139,41 @@ export default function ReviewsRoute({ loaderData, params }: Route.ComponentProp
             />
             <div className="flex flex-col gap-2 sm:flex-row">
               <div className="flex justify-between gap-2">
-                <FiltersMenu />
+                <ViewsMenu views={views} />
+                <FiltersMenu languages={languages} />
                 <SortMenu />
                 <ExportMenu />
               </div>
+              {reviewSessionAvailable && (
+                <Button
+                  variant="secondary"
+                  iconLeft={PlayIcon}
+                  to={{
+                    pathname: href('/team/:team/:event/proposals/review', params),
+                    search: searchParams.toString(),
+                  }}
+                >
+                  {t('event-management.proposals.review-session')}
+                </Button>
+              )}
+              {event.reviewEnabled && (
+                <Button
+                  variant="secondary"
+                  iconLeft={ScaleIcon}
+                  to={href('/team/:team/:event/proposals/compare', params)}
+                >
+                  {t('event-management.proposals.compare')}
+                </Button>
+              )}
+              {permissions.canEditEvent && (
+                <Button
+                  variant="secondary"
+                  iconLeft={ClockIcon}
+                  to={href('/team/:team/:event/proposals/history', params)}
+                >
+                  {t('event-management.proposals.history')}
+                </Button>
+              )}
               {permissions.canCreateEventProposal && (
                 <Button iconLeft={PlusIcon} to={href('/team/:team/:event/proposals/new', params)}>
                   {t('event-management.proposals.new-proposal')}
@@ -82,6 +182,7 @@ export default function ReviewsRoute({ loaderData, params }: Route.ComponentProp
             </div>
           </div>
           <FiltersTags filters={filters} />
+          {capacities.length > 0 ? <CapacitySummary capacities={capacities} /> : null}
         </div>
 
         <ProposalsList
@@ -63,6 +63,9 @@ describe('CfpReviewsSearch', () => {
           },
           commentCount: 1,
           hasNewMessages: true,
+          assignedToMe: false,
+          changedSinceReview: false,
+          highlights: { title: null, abstract: null },
         },
       ]);
 
@@ -107,6 +110,32 @@ describe('CfpReviewsSearch', () => {
       expect(proposals.pagination).toEqual({ current: 1, total: 0 });
     });
 
+    it('returns the languages of the event proposals', async () => {
+      const event = await eventFactory({ team });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { languages: ['fr', 'en'] },
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { languages: ['fr'] },
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { languages: ['de'] },
+        traits: ['draft'],
+      });
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const proposals = await CfpReviewsSearch.for(authorizedEvent).search({});
+
+      expect(proposals.languages).toEqual(['en', 'fr']);
+    });
+
     describe('statistics.hasNewMessages', () => {
       it('returns true for a speaker conversation message even when the user is not a participant', async () => {
         const event = await eventFactory({ team });
@@ -1,5 +1,6 @@
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { Pagination } from '~/shared/pagination/pagination.ts';
+import type { Language } from '~/shared/types/proposals.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import { Prisma } from '../../../../../prisma/generated/client.ts';
 import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
@@ -19,13 +20,19 @@ export class CfpReviewsSearch {
       withSpeakers: event.displayProposalsSpeakers,
       withReviews: true,
       withMessages: true,
+      hideConflicts: true,
     });
-    const [statistics, hasNewMessages] = await Promise.all([search.statistics(), this.hasNewMessages()]);
+    const [statistics, hasNewMessages, languages] = await Promise.all([
+      search.statistics(),
+      this.hasNewMessages(),
+      this.languages(),
+    ]);
     const pagination = new Pagination({ page, total: statistics.total });
     const proposals = await search.proposalsByPage(pagination);
 
     return {
       filters,
+      languages,
       statistics: { ...statistics, hasNewMessages },
       pagination: { current: pagination.page, total: pagination.pageCount },
       results: proposals.map((proposal) => ({
@@ -47,10 +54,27 @@ export class CfpReviewsSearch {
         },
         commentCount: proposal.commentCount,
         hasNewMessages: proposal.hasNewMessages,
+        assignedToMe: proposal.assignedToMe,
+        changedSinceReview: proposal.changedSinceReview,
+        highlights: proposal.highlights,
       })),
     };
   }
 
+  // Languages spoken in the event proposals, used as options of the languages filter
+  private async languages(): Promise<Array<Language>> {
+    const { event } = this.authorizedEvent;
+    const rows = await db.$queryRaw<Array<{ language: Language }>>(
+      Prisma.sql`
+        SELECT DISTINCT jsonb_array_elements_text(p.languages) AS language
+        FROM proposals p
+        WHERE p."eventId" = ${event.id} AND p."isDraft" IS FALSE
+        ORDER BY language
+      `,
+    );
+    return rows.map((row) => row.language);
+  }
+
   private async hasNewMessages(): Promise<boolean> {
     const { event, userId } = this.authorizedEvent;
     const rows = await db.$queryRaw<Array<{ exists: boolean }>>(
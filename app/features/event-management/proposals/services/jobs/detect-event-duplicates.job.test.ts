@@ -0,0 +1,43 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import type { Event, User } from '../../../../../../prisma/generated/client.ts';
+import { detectEventDuplicates } from './detect-event-duplicates.job.ts';
+
+const ABSTRACT = 'Learn how to build fast and accessible web applications with server side rendering and streaming';
+
+describe('Job: detectEventDuplicates', () => {
+  let speaker: User;
+  let event: Event;
+
+  beforeEach(async () => {
+    speaker = await userFactory();
+    event = await eventFactory({ team: await teamFactory() });
+  });
+
+  const createProposal = async (event: Event, title: string, abstract: string) => {
+    const talk = await talkFactory({ speakers: [speaker], attributes: { title, abstract } });
+    return proposalFactory({ event, talk });
+  };
+
+  it('flags similar proposals among every proposal of the event', async () => {
+    const proposal = await createProposal(event, 'Server side rendering', ABSTRACT);
+    const duplicate = await createProposal(event, 'SSR in practice', ABSTRACT);
+    await createProposal(event, 'Kubernetes operators', 'Writing operators to automate the deployment of databases');
+
+    const otherEvent = await eventFactory({ team: await teamFactory() });
+    await createProposal(otherEvent, 'Server side rendering', ABSTRACT);
+    await createProposal(otherEvent, 'SSR in practice', ABSTRACT);
+
+    await detectEventDuplicates.config.run({ eventId: event.id });
+
+    const [first, second] = [proposal.id, duplicate.id].toSorted();
+    const pairs = await db.proposalDuplicate.findMany();
+    expect(pairs).toEqual([
+      expect.objectContaining({ eventId: event.id, proposalId: first, duplicateId: second, similarity: 1 }),
+    ]);
+  });
+});
@@ -0,0 +1,24 @@
+import { job } from '~/shared/jobs/job.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import { detectDuplicatesOf } from './detect-proposal-duplicates.job.ts';
+
+type DetectEventDuplicatesPayload = {
+  eventId: string;
+};
+
+// Detects duplicates among the proposals submitted before duplicates were detected on submission
+export const detectEventDuplicates = job<DetectEventDuplicatesPayload>({
+  name: 'detect-event-duplicates',
+  queue: 'default',
+  run: async ({ eventId }: DetectEventDuplicatesPayload) => {
+    const proposals = await db.proposal.findMany({
+      where: { eventId, isDraft: false },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const proposal of proposals) {
+      await detectDuplicatesOf(proposal.id);
+    }
+  },
+});
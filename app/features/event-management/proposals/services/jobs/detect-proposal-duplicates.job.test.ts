@@ -0,0 +1,88 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import type { Event, User } from '../../../../../../prisma/generated/client.ts';
+import { detectProposalDuplicates } from './detect-proposal-duplicates.job.ts';
+
+const ABSTRACT = 'Learn how to build fast and accessible web applications with server side rendering and streaming';
+
+describe('Job: detectProposalDuplicates', () => {
+  let speaker: User;
+  let event: Event;
+
+  beforeEach(async () => {
+    speaker = await userFactory();
+    const team = await teamFactory();
+    event = await eventFactory({ team });
+  });
+
+  const createProposal = async (title: string, abstract: string, traits?: Array<'draft'>) => {
+    const talk = await talkFactory({ speakers: [speaker], attributes: { title, abstract } });
+    return proposalFactory({ event, talk, traits });
+  };
+
+  it('flags proposals of the event similar to the given proposal', async () => {
+    const proposal = await createProposal('Server side rendering', ABSTRACT);
+    const duplicate = await createProposal('SSR in practice', ABSTRACT);
+    await createProposal('Kubernetes operators', 'Writing operators to automate the deployment of databases');
+    await createProposal('Draft', ABSTRACT, ['draft']);
+
+    const otherEvent = await eventFactory({ team: await teamFactory() });
+    await proposalFactory({ event: otherEvent, talk: await talkFactory({ speakers: [speaker] }) });
+
+    await detectProposalDuplicates.config.run({ proposalId: proposal.id });
+
+    const [first, second] = [proposal.id, duplicate.id].toSorted();
+    const pairs = await db.proposalDuplicate.findMany();
+    expect(pairs).toEqual([
+      expect.objectContaining({
+        eventId: event.id,
+        proposalId: first,
+        duplicateId: second,
+        similarity: 1,
+        dismissedAt: null,
+      }),
+    ]);
+  });
+
+  it('updates existing pairs and removes the ones no longer similar', async () => {
+    const proposal = await createProposal('Server side rendering', ABSTRACT);
+    const duplicate = await createProposal('SSR in practice', ABSTRACT);
+    await detectProposalDuplicates.config.run({ proposalId: proposal.id });
+
+    await db.proposal.update({ where: { id: proposal.id }, data: { abstract: 'A completely different talk now' } });
+    await detectProposalDuplicates.config.run({ proposalId: proposal.id });
+
+    expect(await db.proposalDuplicate.count()).toBe(0);
+
+    await db.proposal.update({ where: { id: duplicate.id }, data: { abstract: 'A completely different talk now' } });
+    await detectProposalDuplicates.config.run({ proposalId: duplicate.id });
+
+    expect(await db.proposalDuplicate.count()).toBe(1);
+  });
+
+  it('keeps dismissed pairs', async () => {
+    const proposal = await createProposal('Server side rendering', ABSTRACT);
+    await createProposal('SSR in practice', ABSTRACT);
+    await detectProposalDuplicates.config.run({ proposalId: proposal.id });
+    await db.proposalDuplicate.updateMany({ data: { dismissedAt: new Date() } });
+
+    await db.proposal.update({ where: { id: proposal.id }, data: { abstract: 'A completely different talk now' } });
+    await detectProposalDuplicates.config.run({ proposalId: proposal.id });
+
+    const pairs = await db.proposalDuplicate.findMany();
+    expect(pairs).toEqual([expect.objectContaining({ dismissedAt: expect.any(Date) })]);
+  });
+
+  it('does nothing for draft proposals', async () => {
+    const proposal = await createProposal('Server side rendering', ABSTRACT, ['draft']);
+    await createProposal('SSR in practice', ABSTRACT);
+
+    await detectProposalDuplicates.config.run({ proposalId: proposal.id });
+
+    expect(await db.proposalDuplicate.count()).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { job } from '~/shared/jobs/job.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import { findSimilarProposals } from '../../models/proposal-similarity.ts';
+
+type DetectProposalDuplicatesPayload = {
+  proposalId: string;
+};
+
+export const detectProposalDuplicates = job<DetectProposalDuplicatesPayload>({
+  name: 'detect-proposal-duplicates',
+  queue: 'default',
+  run: async ({ proposalId }: DetectProposalDuplicatesPayload) => {
+    await detectDuplicatesOf(proposalId);
+  },
+});
+
+// Flags the proposals of the event similar to the given proposal
+export async function detectDuplicatesOf(proposalId: string) {
+  const proposal = await db.proposal.findUnique({
+    where: { id: proposalId },
+    select: { id: true, eventId: true, title: true, abstract: true, isDraft: true },
+  });
+
+  if (!proposal || proposal.isDraft) return;
+
+  const candidates = await db.proposal.findMany({
+    where: { eventId: proposal.eventId, isDraft: false, id: { not: proposal.id } },
+    select: { id: true, title: true, abstract: true },
+  });
+
+  const similarProposals = findSimilarProposals(proposal, candidates);
+  const similarIds = similarProposals.map((similar) => similar.id);
+
+  await db.$transaction([
+    // pairs no longer similar are removed, dismissed pairs are kept so they are not flagged again
+    db.proposalDuplicate.deleteMany({
+      where: {
+        dismissedAt: null,
+        OR: [
+          { proposalId: proposal.id, duplicateId: { notIn: similarIds } },
+          { duplicateId: proposal.id, proposalId: { notIn: similarIds } },
+        ],
+      },
+    }),
+    ...similarProposals.map(({ id, similarity }) => {
+      // a pair is stored once, ordered by id
+      const [first, second] = [proposal.id, id].toSorted();
+      return db.proposalDuplicate.upsert({
+        where: { proposalId_duplicateId: { proposalId: first, duplicateId: second } },
+        create: { eventId: proposal.eventId, proposalId: first, duplicateId: second, similarity },
+        update: { similarity },
+      });
+    }),
+  ]);
+}
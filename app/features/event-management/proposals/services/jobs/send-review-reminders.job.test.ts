@@ -0,0 +1,129 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { reviewFactory } from 'tests/factories/reviews.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { sendEmail } from '~/shared/emails/send-email.job.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import type { Event, User } from '../../../../../../prisma/generated/client.ts';
+import { sendReviewReminders } from './send-review-reminders.job.ts';
+
+describe('Job: sendReviewReminders', () => {
+  let owner: User;
+  let reviewer: User;
+  let speaker: User;
+  let event: Event;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-13T08:00:00.000Z'));
+
+    owner = await userFactory({ attributes: { email: 'owner@example.com' } });
+    reviewer = await userFactory({ attributes: { email: 'reviewer@example.com', locale: 'fr' } });
+    speaker = await userFactory();
+    const team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({
+      team,
+      attributes: { reviewEnd: new Date('2024-01-15T23:59:59.999Z'), reviewReminderDays: [3] },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createProposal = async (submittedAt: Date) => {
+    const talk = await talkFactory({ speakers: [speaker] });
+    return proposalFactory({ event, talk, attributes: { submittedAt } });
+  };
+
+  it('emails each team member their unreviewed proposals count with the first one to review', async () => {
+    const first = await createProposal(new Date('2024-01-01'));
+    const second = await createProposal(new Date('2024-01-02'));
+    await reviewFactory({ proposal: first, user: owner });
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).toHaveBeenCalledTimes(2);
+    expect(sendEmail.trigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        template: 'organizers-review-reminder',
+        to: ['owner@example.com'],
+        locale: 'en',
+        data: expect.objectContaining({ unreviewedCount: 1, daysLeft: 3, proposal: { routeId: second.routeId } }),
+      }),
+      expect.anything(),
+    );
+    expect(sendEmail.trigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: ['reviewer@example.com'],
+        locale: 'fr',
+        data: expect.objectContaining({ unreviewedCount: 2, proposal: { routeId: first.routeId } }),
+      }),
+      expect.anything(),
+    );
+  });
+
+  it('sends each reminder once a day even when the job is retried', async () => {
+    await createProposal(new Date('2024-01-01'));
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).toHaveBeenCalledWith(expect.objectContaining({ to: ['owner@example.com'] }), {
+      deduplication: { id: `review-reminder:${event.id}:${owner.id}:2024-01-13`, ttl: 24 * 60 * 60 * 1000 },
+    });
+  });
+
+  it('does not count proposals in conflict with the reviewer', async () => {
+    const proposal = await createProposal(new Date('2024-01-01'));
+    await reviewFactory({ proposal, user: owner });
+    await db.reviewConflict.create({ data: { userId: reviewer.id, eventId: event.id, proposalId: proposal.id } });
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+
+  it('counts dismissed reviews as not reviewed', async () => {
+    const proposal = await createProposal(new Date('2024-01-01'));
+    await reviewFactory({ proposal, user: owner, attributes: { dismissedAt: new Date() } });
+    await reviewFactory({ proposal, user: reviewer });
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).toHaveBeenCalledTimes(1);
+    expect(sendEmail.trigger).toHaveBeenCalledWith(
+      expect.objectContaining({ to: ['owner@example.com'], data: expect.objectContaining({ unreviewedCount: 1 }) }),
+      expect.anything(),
+    );
+  });
+
+  it('does not count the own proposals of the reviewer', async () => {
+    const talk = await talkFactory({ speakers: [reviewer] });
+    const proposal = await proposalFactory({ event, talk, attributes: { submittedAt: new Date('2024-01-01') } });
+    await reviewFactory({ proposal, user: owner });
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+
+  it('does not send reminders on days not matching the configured intervals', async () => {
+    await createProposal(new Date('2024-01-01'));
+    vi.setSystemTime(new Date('2024-01-14T08:00:00.000Z'));
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+
+  it('does not send reminders when review is disabled', async () => {
+    await createProposal(new Date('2024-01-01'));
+    await db.event.update({ where: { id: event.id }, data: { reviewEnabled: false } });
+
+    await sendReviewReminders.config.run(undefined);
+
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { ReviewPeriod } from '~/features/event-management/settings/models/review-period.ts';
+import { sendEmail } from '~/shared/emails/send-email.job.ts';
+import ReviewReminderEmail from '~/shared/emails/templates/organizers/review-reminder.email.tsx';
+import { job } from '~/shared/jobs/job.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import { ProposalSearchBuilder } from '../proposal-search-builder.server.ts';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export const sendReviewReminders = job({
+  name: 'send-review-reminders',
+  queue: 'default',
+  repeat: { pattern: '0 8 * * *' },
+  run: async () => {
+    const now = new Date();
+
+    const events = await db.event.findMany({
+      where: {
+        archived: false,
+        reviewEnabled: true,
+        reviewEnd: { gt: now },
+        reviewReminderDays: { isEmpty: false },
+      },
+      include: { team: { include: { members: { include: { member: true } } } } },
+    });
+
+    for (const event of events) {
+      const period = new ReviewPeriod(event);
+      if (!period.isReminderDue(now)) continue;
+
+      const daysLeft = period.daysLeft(now);
+      if (daysLeft === null) continue;
+
+      const day = now.toISOString().slice(0, 10);
+
+      for (const { member } of event.team.members) {
+        const unreviewed = await findUnreviewedProposals(event.id, member.id);
+        const proposal = unreviewed.at(0);
+        if (!proposal) continue;
+
+        await sendEmail.trigger(
+          ReviewReminderEmail.buildPayload(
+            {
+              event: { slug: event.slug, name: event.name, logo: event.logo, team: { slug: event.team.slug } },
+              reviewer: { email: member.email },
+              unreviewedCount: unreviewed.length,
+              daysLeft,
+              proposal: { routeId: proposal.routeId },
+            },
+            member.locale,
+          ),
+          // A retried run does not email again reviewers already reminded today
+          { deduplication: { id: `review-reminder:${event.id}:${member.id}:${day}`, ttl: ONE_DAY_MS } },
+        );
+      }
+    }
+  },
+});
+
+// Proposals not reviewed yet as listed in the review list, without the user's own proposals
+async function findUnreviewedProposals(eventId: string, userId: string) {
+  const filters = { reviews: ['not-reviewed' as const], sort: 'date' as const, order: 'asc' as const };
+  const options = { withSpeakers: false, withReviews: false, hideConflicts: true };
+  const search = new ProposalSearchBuilder(eventId, userId, filters, options);
+
+  const [unreviewed, ownProposals] = await Promise.all([
+    search.proposalRouteIds(),
+    db.proposal.findMany({ where: { eventId, speakers: { some: { userId } } }, select: { id: true } }),
+  ]);
+
+  const ownIds = new Set(ownProposals.map(({ id }) => id));
+  return unreviewed.filter(({ id }) => !ownIds.has(id));
+}
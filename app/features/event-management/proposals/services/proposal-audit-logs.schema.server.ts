@@ -0,0 +1,17 @@
+import { parseWithZod } from '@conform-to/zod/v4';
+import { z } from 'zod';
+import { PROPOSAL_AUDIT_ACTIONS } from '../models/proposal-audit.ts';
+
+const ProposalAuditLogsFiltersSchema = z.object({
+  action: z.enum(PROPOSAL_AUDIT_ACTIONS).optional(),
+  user: z.string().trim().optional(),
+});
+
+export type ProposalAuditLogsFilters = z.infer<typeof ProposalAuditLogsFiltersSchema>;
+
+export function parseUrlFilters(url: URL): ProposalAuditLogsFilters {
+  const params = url.searchParams;
+  const result = parseWithZod(params, { schema: ProposalAuditLogsFiltersSchema });
+  if (result.status !== 'success') return {};
+  return result.value;
+}
@@ -0,0 +1,135 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventProposalTagFactory } from 'tests/factories/proposal-tags.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Proposal, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ProposalAuditLogs } from './proposal-audit-logs.server.ts';
+
+describe('ProposalAuditLogs', () => {
+  let owner: User;
+  let member: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+  let proposal: Proposal;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    member = await userFactory({ traits: ['bruce-wayne'] });
+    reviewer = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner], members: [member], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+    proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [reviewer] }) });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('.track', () => {
+    it('records the changes made by the update on each proposal', async () => {
+      const tag = await eventProposalTagFactory({ event, attributes: { name: 'Frontend' } });
+
+      const result = await ProposalAuditLogs.track(event.id, member.id, [proposal.id], async () => {
+        await db.proposal.update({
+          where: { id: proposal.id },
+          data: { deliberationStatus: 'ACCEPTED', tags: { connect: { id: tag.id } } },
+        });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      const logs = await db.proposalAuditLog.findMany({ orderBy: { action: 'asc' } });
+      expect(logs).toEqual([
+        expect.objectContaining({
+          eventId: event.id,
+          proposalId: proposal.id,
+          userId: member.id,
+          action: 'DELIBERATION_STATUS_CHANGED',
+          before: 'PENDING',
+          after: 'ACCEPTED',
+        }),
+        expect.objectContaining({ action: 'TAGS_CHANGED', before: [], after: ['Frontend'] }),
+      ]);
+    });
+
+    it('ignores proposals of other events', async () => {
+      const otherEvent = await eventFactory({ team });
+      const other = await proposalFactory({ event: otherEvent, talk: await talkFactory({ speakers: [reviewer] }) });
+
+      await ProposalAuditLogs.track(event.id, member.id, [other.id], () =>
+        db.proposal.update({ where: { id: other.id }, data: { archivedAt: new Date() } }),
+      );
+
+      expect(await db.proposalAuditLog.count()).toBe(0);
+    });
+  });
+
+  describe('#ofProposal', () => {
+    it('returns the audit trail of the proposal', async () => {
+      await ProposalAuditLogs.record([
+        { eventId: event.id, proposalId: proposal.id, userId: member.id, action: 'PROPOSAL_ARCHIVED' },
+        { eventId: event.id, proposalId: proposal.id, userId: null, action: 'REVIEW_DISMISSED', after: 'Ada' },
+      ]);
+
+      const logs = await ProposalAuditLogs.for(await authorize(owner)).ofProposal(proposal.id);
+
+      expect(logs).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            action: 'PROPOSAL_ARCHIVED',
+            before: null,
+            after: null,
+            author: { name: member.name, picture: member.picture },
+          }),
+          expect.objectContaining({ action: 'REVIEW_DISMISSED', after: 'Ada', author: null }),
+        ]),
+      );
+    });
+
+    it('throws an error when user cannot edit the event', async () => {
+      await expect(ProposalAuditLogs.for(await authorize(reviewer)).ofProposal(proposal.id)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#history', () => {
+    it('returns the event audit trail filtered by action and member', async () => {
+      const other = await proposalFactory({ event, talk: await talkFactory({ speakers: [reviewer] }) });
+      await ProposalAuditLogs.record([
+        { eventId: event.id, proposalId: proposal.id, userId: member.id, action: 'PROPOSAL_ARCHIVED' },
+        { eventId: event.id, proposalId: other.id, userId: owner.id, action: 'PROPOSAL_ARCHIVED' },
+        { eventId: event.id, proposalId: other.id, userId: owner.id, action: 'PROPOSAL_RESTORED' },
+      ]);
+
+      const audit = ProposalAuditLogs.for(await authorize(member));
+
+      const all = await audit.history({}, 1);
+      expect(all.statistics.total).toBe(3);
+      expect(all.members.map((member) => member.name)).toEqual(['Bruce Wayne', 'Clark Kent', 'Peter Parker']);
+
+      const filtered = await audit.history({ action: 'PROPOSAL_ARCHIVED', user: owner.id }, 1);
+      expect(filtered.logs).toEqual([
+        expect.objectContaining({
+          action: 'PROPOSAL_ARCHIVED',
+          author: { name: owner.name, picture: owner.picture },
+          proposal: { routeId: other.routeId, title: other.title },
+        }),
+      ]);
+      expect(filtered.pagination).toEqual({ current: 1, total: 1 });
+    });
+
+    it('throws an error when user cannot edit the event', async () => {
+      await expect(ProposalAuditLogs.for(await authorize(reviewer)).history({}, 1)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+});
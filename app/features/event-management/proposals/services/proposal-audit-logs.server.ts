@@ -0,0 +1,150 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { Pagination } from '~/shared/pagination/pagination.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { ProposalAuditAction } from '../../../../../prisma/generated/client.ts';
+import type { ProposalAuditLogWhereInput } from '../../../../../prisma/generated/models.ts';
+import { diffAuditSnapshots, type ProposalAuditChange, type ProposalAuditSnapshot } from '../models/proposal-audit.ts';
+import type { ProposalAuditLogsFilters } from './proposal-audit-logs.schema.server.ts';
+
+type AuditLogEntry = {
+  eventId: string;
+  proposalId: string;
+  userId: string | null;
+  action: ProposalAuditAction;
+  before?: string | Array<string> | null;
+  after?: string | Array<string> | null;
+};
+
+export class ProposalAuditLogs {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ProposalAuditLogs(authorizedEvent);
+  }
+
+  // Runs the update and records the changes it made on the given proposals, attributed to the user
+  static async track<T>(
+    eventId: string,
+    userId: string | null,
+    proposalIds: Array<string>,
+    update: () => Promise<T>,
+  ): Promise<T> {
+    if (proposalIds.length === 0) return update();
+
+    const before = await ProposalAuditLogs.snapshots(eventId, proposalIds);
+    const result = await update();
+    const after = await ProposalAuditLogs.snapshots(eventId, proposalIds);
+
+    const entries: Array<AuditLogEntry> = [];
+    for (const [proposalId, snapshot] of before) {
+      const updated = after.get(proposalId);
+      if (!updated) continue;
+
+      for (const change of diffAuditSnapshots(snapshot, updated)) {
+        entries.push({ eventId, proposalId, userId, ...change });
+      }
+    }
+    await ProposalAuditLogs.record(entries);
+    return result;
+  }
+
+  static async record(entries: Array<AuditLogEntry>) {
+    if (entries.length === 0) return;
+    await db.proposalAuditLog.createMany({
+      data: entries.map(({ before, after, ...entry }) => ({
+        ...entry,
+        before: before ?? undefined,
+        after: after ?? undefined,
+      })),
+    });
+  }
+
+  private static async snapshots(eventId: string, proposalIds: Array<string>) {
+    const proposals = await db.proposal.findMany({
+      where: { id: { in: proposalIds }, eventId },
+      include: { tags: true, formats: true, categories: true, speakers: true },
+    });
+
+    return new Map<string, ProposalAuditSnapshot>(
+      proposals.map((proposal) => [
+        proposal.id,
+        {
+          deliberationStatus: proposal.deliberationStatus,
+          confirmationStatus: proposal.confirmationStatus,
+          publicationStatus: proposal.publicationStatus,
+          archived: proposal.archivedAt !== null,
+          tags: proposal.tags.map((tag) => tag.name),
+          formats: proposal.formats.map((format) => format.name),
+          categories: proposal.categories.map((category) => category.name),
+          speakers: proposal.speakers.map((speaker) => speaker.name),
+        },
+      ]),
+    );
+  }
+
+  async ofProposal(proposalId: string) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEvent) throw new ForbiddenOperationError();
+
+    const logs = await db.proposalAuditLog.findMany({
+      where: { eventId: event.id, proposalId },
+      include: { user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return logs.map((log) => ({
+      id: log.id,
+      action: log.action,
+      before: log.before as ProposalAuditChange['before'],
+      after: log.after as ProposalAuditChange['after'],
+      author: log.user ? { name: log.user.name, picture: log.user.picture } : null,
+      createdAt: log.createdAt,
+    }));
+  }
+
+  async history(filters: ProposalAuditLogsFilters, page: number) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEvent) throw new ForbiddenOperationError();
+
+    const where: ProposalAuditLogWhereInput = {
+      eventId: event.id,
+      ...(filters.action && { action: filters.action }),
+      ...(filters.user && { userId: filters.user }),
+    };
+
+    const [total, members] = await Promise.all([
+      db.proposalAuditLog.count({ where }),
+      db.teamMember.findMany({
+        where: { teamId: event.teamId },
+        include: { member: true },
+        orderBy: { member: { name: 'asc' } },
+      }),
+    ]);
+
+    const pagination = new Pagination({ page, total });
+
+    const logs = await db.proposalAuditLog.findMany({
+      where,
+      include: { user: true, proposal: true },
+      orderBy: { createdAt: 'desc' },
+      skip: pagination.pageIndex * pagination.pageSize,
+      take: pagination.pageSize,
+    });
+
+    return {
+      logs: logs.map((log) => ({
+        id: log.id,
+        action: log.action,
+        before: log.before as ProposalAuditChange['before'],
+        after: log.after as ProposalAuditChange['after'],
+        author: log.user ? { name: log.user.name, picture: log.user.picture } : null,
+        proposal: { routeId: log.proposal.routeId, title: log.proposal.title },
+        createdAt: log.createdAt,
+      })),
+      members: members.map(({ member }) => ({ id: member.id, name: member.name })),
+      pagination: { current: pagination.page, total: pagination.pageCount },
+      statistics: { total },
+    };
+  }
+}
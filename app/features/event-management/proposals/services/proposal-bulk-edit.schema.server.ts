@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+export const ProposalBulkSelectionSchema = z.object({
+  selection: z.array(z.string()).default([]),
+  allPagesSelected: z.stringbool().default(false),
+});
+
+export const ProposalBulkTagsSchema = ProposalBulkSelectionSchema.extend({
+  tags: z.array(z.string()).nonempty(),
+});
+
+export const ProposalBulkTracksSchema = ProposalBulkSelectionSchema.extend({
+  formats: z.array(z.string()).optional(),
+  categories: z.array(z.string()).optional(),
+});
+
+export type ProposalBulkSelection = z.infer<typeof ProposalBulkSelectionSchema>;
+
+export type ProposalBulkTracksData = Omit<z.infer<typeof ProposalBulkTracksSchema>, keyof ProposalBulkSelection>;
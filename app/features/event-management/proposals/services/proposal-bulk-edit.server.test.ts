@@ -0,0 +1,215 @@
+import { eventCategoryFactory } from 'tests/factories/categories.ts';
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { eventProposalTagFactory } from 'tests/factories/proposal-tags.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ProposalBulkEdit } from './proposal-bulk-edit.server.ts';
+
+describe('ProposalBulkEdit', () => {
+  let owner: User;
+  let reviewer: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  const tagNamesOf = async (proposalId: string) => {
+    const proposal = await db.proposal.findUniqueOrThrow({ where: { id: proposalId }, include: { tags: true } });
+    return proposal.tags.map((tag) => tag.name).sort();
+  };
+
+  describe('#addTags', () => {
+    it('adds tags to the selected proposals', async () => {
+      const existing = await eventProposalTagFactory({ event, attributes: { name: 'Existing' } });
+      const shortlist = await eventProposalTagFactory({ event, attributes: { name: 'Shortlist' } });
+      const proposal1 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        tags: [existing],
+      });
+      const proposal2 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const proposal3 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+      const count = await bulkEdit.addTags({ selection: [proposal1.id, proposal2.id], allPagesSelected: false }, {}, [
+        shortlist.id,
+      ]);
+
+      expect(count).toBe(2);
+      expect(await tagNamesOf(proposal1.id)).toEqual(['Existing', 'Shortlist']);
+      expect(await tagNamesOf(proposal2.id)).toEqual(['Shortlist']);
+      expect(await tagNamesOf(proposal3.id)).toEqual([]);
+    });
+
+    it('adds tags to every proposal matching the filters when all pages are selected', async () => {
+      const shortlist = await eventProposalTagFactory({ event, attributes: { name: 'Shortlist' } });
+      const proposal1 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker], attributes: { title: 'React hooks' } }),
+      });
+      const proposal2 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker], attributes: { title: 'Kubernetes operators' } }),
+      });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+      const count = await bulkEdit.addTags({ selection: [], allPagesSelected: true }, { query: 'react' }, [
+        shortlist.id,
+      ]);
+
+      expect(count).toBe(1);
+      expect(await tagNamesOf(proposal1.id)).toEqual(['Shortlist']);
+      expect(await tagNamesOf(proposal2.id)).toEqual([]);
+    });
+
+    it('ignores tags and proposals of other events', async () => {
+      const otherEvent = await eventFactory({ team });
+      const otherTag = await eventProposalTagFactory({ event: otherEvent });
+      const otherProposal = await proposalFactory({
+        event: otherEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+      });
+      const tag = await eventProposalTagFactory({ event, attributes: { name: 'Shortlist' } });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+
+      expect(await bulkEdit.addTags({ selection: [otherProposal.id], allPagesSelected: false }, {}, [tag.id])).toBe(0);
+      expect(
+        await bulkEdit.addTags({ selection: [otherProposal.id], allPagesSelected: false }, {}, [otherTag.id]),
+      ).toBe(0);
+      expect(await tagNamesOf(otherProposal.id)).toEqual([]);
+    });
+
+    it('throws an error when user cannot edit proposals', async () => {
+      const tag = await eventProposalTagFactory({ event });
+      const bulkEdit = ProposalBulkEdit.for(await authorize(reviewer));
+
+      await expect(bulkEdit.addTags({ selection: [], allPagesSelected: true }, {}, [tag.id])).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#removeTags', () => {
+    it('removes tags from the selected proposals', async () => {
+      const tag1 = await eventProposalTagFactory({ event, attributes: { name: 'Tag 1' } });
+      const tag2 = await eventProposalTagFactory({ event, attributes: { name: 'Tag 2' } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        tags: [tag1, tag2],
+      });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+      const count = await bulkEdit.removeTags({ selection: [proposal.id], allPagesSelected: false }, {}, [tag1.id]);
+
+      expect(count).toBe(1);
+      expect(await tagNamesOf(proposal.id)).toEqual(['Tag 2']);
+    });
+  });
+
+  describe('#setTracks', () => {
+    it('replaces formats and categories of the selected proposals and records revisions', async () => {
+      const format1 = await eventFormatFactory({ event, attributes: { name: 'Talk' } });
+      const format2 = await eventFormatFactory({ event, attributes: { name: 'Workshop' } });
+      const category = await eventCategoryFactory({ event, attributes: { name: 'Web' } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [format1],
+        categories: [category],
+      });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+      const count = await bulkEdit.setTracks(
+        { selection: [proposal.id], allPagesSelected: false },
+        {},
+        {
+          formats: [format2.id],
+        },
+      );
+
+      expect(count).toBe(1);
+      const updated = await db.proposal.findUniqueOrThrow({
+        where: { id: proposal.id },
+        include: { formats: true, categories: true },
+      });
+      expect(updated.formats.map((format) => format.name)).toEqual(['Workshop']);
+      expect(updated.categories.map((category) => category.name)).toEqual(['Web']);
+
+      const revisions = await db.proposalRevision.findMany({ where: { proposalId: proposal.id } });
+      expect(revisions).toEqual([
+        expect.objectContaining({
+          userId: owner.id,
+          changes: [{ field: 'formats', before: ['Talk'], after: ['Workshop'] }],
+        }),
+      ]);
+    });
+
+    it('does nothing when no tracks are given', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+      const count = await bulkEdit.setTracks({ selection: [proposal.id], allPagesSelected: false }, {}, {});
+
+      expect(count).toBe(0);
+    });
+
+    it('leaves tracks untouched when given ids do not belong to the event', async () => {
+      const format = await eventFormatFactory({ event, attributes: { name: 'Talk' } });
+      const otherFormat = await eventFormatFactory({
+        event: await eventFactory({ team }),
+        attributes: { name: 'Other' },
+      });
+      const category = await eventCategoryFactory({ event, attributes: { name: 'Web' } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [format],
+        categories: [category],
+      });
+
+      const bulkEdit = ProposalBulkEdit.for(await authorize(owner));
+      const count = await bulkEdit.setTracks(
+        { selection: [proposal.id], allPagesSelected: false },
+        {},
+        { formats: [otherFormat.id], categories: ['unknown'] },
+      );
+
+      expect(count).toBe(0);
+      const updated = await db.proposal.findUniqueOrThrow({
+        where: { id: proposal.id },
+        include: { formats: true, categories: true },
+      });
+      expect(updated.formats.map((format) => format.name)).toEqual(['Talk']);
+      expect(updated.categories.map((category) => category.name)).toEqual(['Web']);
+    });
+
+    it('throws an error when user cannot edit proposals', async () => {
+      const bulkEdit = ProposalBulkEdit.for(await authorize(reviewer));
+
+      await expect(
+        bulkEdit.setTracks({ selection: [], allPagesSelected: true }, {}, { formats: [] }),
+      ).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { ProposalAuditLogs } from './proposal-audit-logs.server.ts';
+import type { ProposalBulkSelection, ProposalBulkTracksData } from './proposal-bulk-edit.schema.server.ts';
+import { ProposalRevisions } from './proposal-revisions.server.ts';
+import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
+import { ProposalSearchBuilder } from './proposal-search-builder.server.ts';
+
+export class ProposalBulkEdit {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ProposalBulkEdit(authorizedEvent);
+  }
+
+  async addTags(target: ProposalBulkSelection, filters: ProposalsFilters, tagIds: Array<string>) {
+    return this.updateTags(target, filters, tagIds, 'connect');
+  }
+
+  async removeTags(target: ProposalBulkSelection, filters: ProposalsFilters, tagIds: Array<string>) {
+    return this.updateTags(target, filters, tagIds, 'disconnect');
+  }
+
+  async setTracks(target: ProposalBulkSelection, filters: ProposalsFilters, data: ProposalBulkTracksData) {
+    const { event, userId, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
+
+    // A track field is left untouched when one of its ids does not belong to the event
+    const [formats, categories] = await Promise.all([
+      data.formats ? db.eventFormat.findMany({ where: { eventId: event.id, id: { in: data.formats } } }) : undefined,
+      data.categories
+        ? db.eventCategory.findMany({ where: { eventId: event.id, id: { in: data.categories } } })
+        : undefined,
+    ]);
+    const formatsToSet = formats?.length === new Set(data.formats).size ? formats : undefined;
+    const categoriesToSet = categories?.length === new Set(data.categories).size ? categories : undefined;
+    if (!formatsToSet && !categoriesToSet) return 0;
+
+    const proposalIds = await this.resolveProposalIds(target, filters);
+    if (proposalIds.length === 0) return 0;
+
+    await ProposalAuditLogs.track(event.id, userId, proposalIds, () =>
+      db.$transaction(async (trx) => {
+        for (const proposalId of proposalIds) {
+          await ProposalRevisions.track(
+            proposalId,
+            userId,
+            () =>
+              trx.proposal.update({
+                where: { id: proposalId },
+                data: {
+                  formats: formatsToSet ? { set: formatsToSet.map(({ id }) => ({ id })) } : undefined,
+                  categories: categoriesToSet ? { set: categoriesToSet.map(({ id }) => ({ id })) } : undefined,
+                },
+              }),
+            trx,
+          );
+        }
+      }),
+    );
+    return proposalIds.length;
+  }
+
+  private async updateTags(
+    target: ProposalBulkSelection,
+    filters: ProposalsFilters,
+    tagIds: Array<string>,
+    operation: 'connect' | 'disconnect',
+  ) {
+    const { event, userId, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
+
+    const tags = await db.eventProposalTag.findMany({ where: { eventId: event.id, id: { in: tagIds } } });
+    if (tags.length === 0) return 0;
+
+    const proposalIds = await this.resolveProposalIds(target, filters);
+    if (proposalIds.length === 0) return 0;
+
+    await ProposalAuditLogs.track(event.id, userId, proposalIds, () =>
+      db.$transaction(
+        tags.map((tag) =>
+          db.eventProposalTag.update({
+            where: { id: tag.id },
+            data: { proposals: { [operation]: proposalIds.map((id) => ({ id })) } },
+          }),
+        ),
+      ),
+    );
+    return proposalIds.length;
+  }
+
+  // Selected proposals of the event, or every proposal matching the filters when all pages are selected
+  private async resolveProposalIds({ selection, allPagesSelected }: ProposalBulkSelection, filters: ProposalsFilters) {
+    const { event, userId } = this.authorizedEvent;
+
+    if (allPagesSelected) {
+      const search = new ProposalSearchBuilder(event.id, userId, filters, {
+        withSpeakers: true,
+        withReviews: true,
+        hideConflicts: true,
+      });
+      return search.proposalIds();
+    }
+
+    const proposals = await db.proposal.findMany({
+      where: { id: { in: selection }, eventId: event.id, isDraft: false },
+      select: { id: true },
+    });
+    return proposals.map(({ id }) => id);
+  }
+}
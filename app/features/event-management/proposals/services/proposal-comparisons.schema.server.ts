@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const ProposalComparisonSchema = z
+  .object({ winnerId: z.string(), loserId: z.string() })
+  .refine(({ winnerId, loserId }) => winnerId !== loserId, { path: ['loserId'] });
+
+export type ProposalComparisonData = z.infer<typeof ProposalComparisonSchema>;
@@ -0,0 +1,218 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { reviewFactory } from 'tests/factories/reviews.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import {
+  ForbiddenOperationError,
+  ProposalNotFoundError,
+  ReviewConflictError,
+  ReviewDisabledError,
+} from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Proposal, Team, User } from '../../../../../prisma/generated/client.ts';
+import { pairKey } from '../models/comparison-rating.ts';
+import { ProposalComparisons } from './proposal-comparisons.server.ts';
+
+describe('ProposalComparisons', () => {
+  let owner: User;
+  let reviewer: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  const createProposal = async (
+    title: string,
+    attributes: Partial<Pick<Proposal, 'comparisonRating' | 'isDraft' | 'archivedAt'>> = {},
+  ) => {
+    const talk = await talkFactory({ speakers: [speaker], attributes: { title } });
+    return proposalFactory({ event, talk, attributes });
+  };
+
+  describe('#nextPair', () => {
+    it('returns the least compared proposals with the closest ratings', async () => {
+      const proposal1 = await createProposal('Proposal 1', { comparisonRating: 1600 });
+      const proposal2 = await createProposal('Proposal 2');
+      const proposal3 = await createProposal('Proposal 3');
+      await db.proposalComparison.create({
+        data: {
+          eventId: event.id,
+          userId: owner.id,
+          winnerId: proposal1.id,
+          loserId: proposal3.id,
+          pair: pairKey(proposal1.id, proposal3.id),
+        },
+      });
+
+      const pair = await ProposalComparisons.for(await authorize(reviewer)).nextPair();
+
+      expect(pair?.map((proposal) => proposal.title)).toEqual(['Proposal 2', 'Proposal 3']);
+      expect(pair?.[0]).toEqual(
+        expect.objectContaining({ id: proposal2.id, routeId: proposal2.routeId, formats: [], categories: [] }),
+      );
+    });
+
+    it('skips pairs already compared by the reviewer', async () => {
+      const proposal1 = await createProposal('Proposal 1');
+      const proposal2 = await createProposal('Proposal 2');
+      await db.proposalComparison.create({
+        data: {
+          eventId: event.id,
+          userId: reviewer.id,
+          winnerId: proposal1.id,
+          loserId: proposal2.id,
+          pair: pairKey(proposal1.id, proposal2.id),
+        },
+      });
+
+      expect(await ProposalComparisons.for(await authorize(reviewer)).nextPair()).toBeNull();
+      expect(await ProposalComparisons.for(await authorize(owner)).nextPair()).toHaveLength(2);
+    });
+
+    it('excludes draft, archived, own and conflicted proposals', async () => {
+      await createProposal('Proposal 1');
+      await createProposal('Draft', { isDraft: true });
+      await createProposal('Archived', { archivedAt: new Date() });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [reviewer] }) });
+      const conflicted = await createProposal('Conflicted');
+      await db.reviewConflict.create({ data: { userId: reviewer.id, eventId: event.id, proposalId: conflicted.id } });
+
+      expect(await ProposalComparisons.for(await authorize(reviewer)).nextPair()).toBeNull();
+    });
+
+    it('only compares the best rated proposals', async () => {
+      const talk = await talkFactory({ speakers: [speaker] });
+      const best = await proposalFactory({ event, talk });
+      await reviewFactory({ proposal: best, user: owner, attributes: { note: 5 } });
+      for (let index = 0; index < 100; index++) {
+        const proposal = await createProposal(`Proposal ${index}`);
+        await reviewFactory({ proposal, user: owner, attributes: { note: 3 } });
+      }
+      const unrated = await createProposal('Unrated');
+
+      const pair = await ProposalComparisons.for(await authorize(reviewer)).nextPair();
+
+      expect(pair?.map(({ id }) => id)).not.toContain(unrated.id);
+    });
+
+    it('leaves conflicted reviews out of the ratings ranking the best proposals', async () => {
+      const conflicted = await userFactory();
+      // the smallest id comes first when candidates are equally compared
+      const inflated = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { id: '0-inflated' },
+      });
+      await reviewFactory({ proposal: inflated, user: conflicted, attributes: { note: 5 } });
+      await db.reviewConflict.create({ data: { userId: conflicted.id, eventId: event.id, proposalId: inflated.id } });
+      for (let index = 0; index < 100; index++) {
+        const proposal = await createProposal(`Proposal ${index}`);
+        await reviewFactory({ proposal, user: owner, attributes: { note: 3 } });
+      }
+
+      const pair = await ProposalComparisons.for(await authorize(reviewer)).nextPair();
+
+      expect(pair?.map(({ id }) => id)).not.toContain(inflated.id);
+    });
+
+    it('throws an error when review is disabled', async () => {
+      await db.event.update({ where: { id: event.id }, data: { reviewEnabled: false } });
+
+      await expect(ProposalComparisons.for(await authorize(reviewer)).nextPair()).rejects.toThrowError(
+        ReviewDisabledError,
+      );
+    });
+  });
+
+  describe('#compare', () => {
+    it('records the comparison and updates the Elo ratings of both proposals', async () => {
+      const winner = await createProposal('Proposal 1');
+      const loser = await createProposal('Proposal 2', { comparisonRating: 1540 });
+
+      await ProposalComparisons.for(await authorize(reviewer)).compare({ winnerId: winner.id, loserId: loser.id });
+
+      const comparisons = await db.proposalComparison.findMany();
+      expect(comparisons).toEqual([
+        expect.objectContaining({ eventId: event.id, userId: reviewer.id, winnerId: winner.id, loserId: loser.id }),
+      ]);
+
+      const updatedWinner = await db.proposal.findUnique({ where: { id: winner.id } });
+      const updatedLoser = await db.proposal.findUnique({ where: { id: loser.id } });
+      expect(updatedWinner?.comparisonRating).toBeCloseTo(1517.83, 2);
+      expect(updatedLoser?.comparisonRating).toBeCloseTo(1522.17, 2);
+    });
+
+    it('rejects a pair already compared by the reviewer', async () => {
+      const proposal1 = await createProposal('Proposal 1');
+      const proposal2 = await createProposal('Proposal 2');
+      const comparisons = ProposalComparisons.for(await authorize(reviewer));
+      await comparisons.compare({ winnerId: proposal1.id, loserId: proposal2.id });
+
+      await expect(comparisons.compare({ winnerId: proposal2.id, loserId: proposal1.id })).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+
+      expect(await db.proposalComparison.count()).toBe(1);
+      const updated = await db.proposal.findUnique({ where: { id: proposal1.id } });
+      expect(updated?.comparisonRating).toBe(1516);
+    });
+
+    it('applies the rating changes of concurrent comparisons one after the other', async () => {
+      const proposal1 = await createProposal('Proposal 1');
+      const proposal2 = await createProposal('Proposal 2');
+      const proposal3 = await createProposal('Proposal 3');
+
+      await Promise.all([
+        ProposalComparisons.for(await authorize(reviewer)).compare({ winnerId: proposal1.id, loserId: proposal2.id }),
+        ProposalComparisons.for(await authorize(owner)).compare({ winnerId: proposal1.id, loserId: proposal3.id }),
+      ]);
+
+      const updated = await db.proposal.findUnique({ where: { id: proposal1.id } });
+      expect(updated?.comparisonRating).toBeCloseTo(1531.26, 2);
+    });
+
+    it('throws an error when a proposal does not belong to the event', async () => {
+      const proposal = await createProposal('Proposal 1');
+      const otherEvent = await eventFactory({ team });
+      const other = await proposalFactory({ event: otherEvent, talk: await talkFactory({ speakers: [speaker] }) });
+
+      await expect(
+        ProposalComparisons.for(await authorize(reviewer)).compare({ winnerId: proposal.id, loserId: other.id }),
+      ).rejects.toThrowError(ProposalNotFoundError);
+    });
+
+    it('throws an error when the reviewer declared a conflict on one of the proposals', async () => {
+      const proposal1 = await createProposal('Proposal 1');
+      const proposal2 = await createProposal('Proposal 2');
+      await db.reviewConflict.create({ data: { userId: reviewer.id, eventId: event.id, proposalId: proposal2.id } });
+
+      await expect(
+        ProposalComparisons.for(await authorize(reviewer)).compare({ winnerId: proposal1.id, loserId: proposal2.id }),
+      ).rejects.toThrowError(ReviewConflictError);
+    });
+
+    it('throws an error when the reviewer is a speaker of one of the proposals', async () => {
+      const proposal1 = await createProposal('Proposal 1');
+      const own = await proposalFactory({ event, talk: await talkFactory({ speakers: [reviewer] }) });
+
+      await expect(
+        ProposalComparisons.for(await authorize(reviewer)).compare({ winnerId: proposal1.id, loserId: own.id }),
+      ).rejects.toThrowError(ReviewConflictError);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { ReviewPeriod } from '~/features/event-management/settings/models/review-period.ts';
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import {
+  ForbiddenOperationError,
+  ProposalNotFoundError,
+  ReviewConflictError,
+  ReviewDisabledError,
+  ReviewLockedError,
+} from '~/shared/errors.server.ts';
+import type { Languages } from '~/shared/types/proposals.types.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { Prisma } from '../../../../../prisma/generated/client.ts';
+import { eloRatings, pairKey, pickComparisonPair } from '../models/comparison-rating.ts';
+import type { ProposalComparisonData } from './proposal-comparisons.schema.server.ts';
+import { reviewConflictCondition } from './review-conflicts.server.ts';
+
+// Comparisons are meant for fine-grained ranking, so they are limited to the best rated proposals
+const COMPARISON_POOL_SIZE = 100;
+
+type ComparisonCandidateRow = {
+  id: string;
+  rating: number | null;
+  comparisonCount: number;
+};
+
+export class ProposalComparisons {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ProposalComparisons(authorizedEvent);
+  }
+
+  async nextPair() {
+    const { event, userId } = this.authorizedEvent;
+    if (!event.reviewEnabled) throw new ReviewDisabledError();
+
+    const [candidates, comparisons] = await Promise.all([
+      this.findCandidates(),
+      db.proposalComparison.findMany({
+        where: { eventId: event.id, userId },
+        select: { winnerId: true, loserId: true },
+      }),
+    ]);
+
+    const comparedPairs = new Set(comparisons.map(({ winnerId, loserId }) => pairKey(winnerId, loserId)));
+    const pair = pickComparisonPair(candidates, comparedPairs);
+    if (!pair) return null;
+
+    const proposals = await db.proposal.findMany({
+      where: { id: { in: [...pair] }, eventId: event.id },
+      include: { speakers: event.displayProposalsSpeakers, formats: true, categories: true },
+    });
+
+    return pair.map((proposalId) => {
+      const proposal = proposals.find(({ id }) => id === proposalId);
+      if (!proposal) throw new ProposalNotFoundError();
+
+      return {
+        id: proposal.id,
+        routeId: proposal.routeId,
+        title: proposal.title,
+        abstract: proposal.abstract,
+        references: proposal.references,
+        level: proposal.level,
+        languages: proposal.languages as Languages,
+        formats: proposal.formats.map(({ id, name }) => ({ id, name })),
+        categories: proposal.categories.map(({ id, name }) => ({ id, name })),
+        speakers:
+          proposal.speakers?.map(({ id, userId, name, picture, company }) => ({
+            id,
+            userId,
+            name,
+            picture,
+            company,
+          })) ?? [],
+      };
+    });
+  }
+
+  async compare({ winnerId, loserId }: ProposalComparisonData) {
+    const { event, userId } = this.authorizedEvent;
+    if (!event.reviewEnabled) throw new ReviewDisabledError();
+    if (new ReviewPeriod(event).isLocked()) throw new ReviewLockedError();
+
+    const count = await db.proposal.count({
+      where: { id: { in: [winnerId, loserId] }, eventId: event.id, isDraft: false },
+    });
+    if (count !== 2) throw new ProposalNotFoundError();
+
+    // reviewers cannot rank their own proposals, as with a declared conflict of interest
+    const [conflicts, ownProposals] = await Promise.all([
+      db.reviewConflict.count({
+        where: {
+          eventId: event.id,
+          userId,
+          OR: [
+            { proposalId: { in: [winnerId, loserId] } },
+            { eventSpeaker: { proposals: { some: { id: { in: [winnerId, loserId] } } } } },
+          ],
+        },
+      }),
+      db.proposal.count({ where: { id: { in: [winnerId, loserId] }, speakers: { some: { userId } } } }),
+    ]);
+    if (conflicts > 0 || ownProposals > 0) throw new ReviewConflictError();
+
+    await db.$transaction(async (trx) => {
+      // a pair is compared once by a reviewer, a duplicate submission is rejected without touching the ratings
+      const created = await trx.proposalComparison.createMany({
+        data: { eventId: event.id, userId, winnerId, loserId, pair: pairKey(winnerId, loserId) },
+        skipDuplicates: true,
+      });
+      if (created.count === 0) throw new ForbiddenOperationError();
+
+      // locks both proposals so concurrent comparisons apply their rating changes one after the other
+      await trx.$queryRaw`SELECT id FROM proposals WHERE id IN (${winnerId}, ${loserId}) ORDER BY id FOR UPDATE`;
+
+      const [winner, loser] = await Promise.all([
+        trx.proposal.findUniqueOrThrow({ where: { id: winnerId }, select: { comparisonRating: true } }),
+        trx.proposal.findUniqueOrThrow({ where: { id: loserId }, select: { comparisonRating: true } }),
+      ]);
+
+      const ratings = eloRatings(winner.comparisonRating, loser.comparisonRating);
+
+      await trx.proposal.update({ where: { id: winnerId }, data: { comparisonRating: ratings.winner } });
+      await trx.proposal.update({ where: { id: loserId }, data: { comparisonRating: ratings.loser } });
+    });
+  }
+
+  private findCandidates() {
+    const { event, userId } = this.authorizedEvent;
+
+    return db.$queryRaw<Array<ComparisonCandidateRow>>(Prisma.sql`
+      SELECT
+        p.id,
+        p."comparisonRating" AS rating,
+        (
+          SELECT COUNT(*) FROM proposal_comparisons pc WHERE pc."winnerId" = p.id OR pc."loserId" = p.id
+        )::INTEGER AS "comparisonCount"
+      FROM proposals p
+      LEFT JOIN LATERAL (
+        SELECT (AVG(note) FILTER (WHERE feeling != 'NO_OPINION'))::DOUBLE PRECISION AS avg_rating
+        FROM reviews
+        WHERE "proposalId" = p.id AND "dismissedAt" IS NULL
+          AND NOT ${reviewConflictCondition(Prisma.sql`reviews."userId"`, Prisma.sql`p.id`)}
+      ) review_agg ON true
+      WHERE p."eventId" = ${event.id} AND p."isDraft" IS FALSE AND p."archivedAt" IS NULL
+        AND NOT ${reviewConflictCondition(userId, Prisma.sql`p.id`)}
+        AND NOT EXISTS (
+          SELECT 1 FROM "_proposals_speakers" ps
+          INNER JOIN event_speakers es ON es.id = ps."A"
+          WHERE ps."B" = p.id AND es."userId" = ${userId}
+        )
+      ORDER BY review_agg.avg_rating DESC NULLS LAST, p."submittedAt" ASC
+      LIMIT ${COMPARISON_POOL_SIZE}
+    `);
+  }
+}
@@ -0,0 +1,117 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { detectEventDuplicates } from './jobs/detect-event-duplicates.job.ts';
+import { ProposalDuplicates } from './proposal-duplicates.server.ts';
+
+type ProposalFixture = Awaited<ReturnType<typeof proposalFactory>>;
+
+describe('ProposalDuplicates', () => {
+  let owner: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+  let proposal: ProposalFixture;
+  let duplicate: ProposalFixture;
+  let other: ProposalFixture;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+    proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }) });
+    duplicate = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [owner], attributes: { title: 'Duplicate' } }),
+    });
+    other = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [owner], attributes: { title: 'Other' } }),
+    });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#detectAll', () => {
+    it('triggers the detection of duplicates among every proposal of the event', async () => {
+      await ProposalDuplicates.detectAll(await authorize(owner));
+
+      expect(detectEventDuplicates.trigger).toHaveBeenCalledWith(
+        { eventId: event.id },
+        { deduplication: { id: `detect-event-duplicates:${event.id}` } },
+      );
+    });
+
+    it('throws an error when user cannot edit proposals', async () => {
+      await expect(ProposalDuplicates.detectAll(await authorize(reviewer))).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#list', () => {
+    it('returns possible duplicates of the proposal not dismissed', async () => {
+      await db.proposalDuplicate.createMany({
+        data: [
+          { eventId: event.id, proposalId: duplicate.id, duplicateId: proposal.id, similarity: 0.8 },
+          { eventId: event.id, proposalId: proposal.id, duplicateId: other.id, similarity: 0.6 },
+          { eventId: event.id, proposalId: duplicate.id, duplicateId: other.id, similarity: 0.9 },
+        ],
+      });
+      await db.proposalDuplicate.updateMany({ where: { duplicateId: other.id }, data: { dismissedAt: new Date() } });
+
+      const authorizedEvent = await authorize(reviewer);
+      const duplicates = await ProposalDuplicates.for(authorizedEvent, proposal.id).list();
+
+      expect(duplicates).toEqual([
+        { id: expect.any(String), routeId: duplicate.routeId, title: 'Duplicate', similarity: 0.8 },
+      ]);
+    });
+  });
+
+  describe('#dismiss', () => {
+    it('dismisses a possible duplicate of the proposal', async () => {
+      const pair = await db.proposalDuplicate.create({
+        data: { eventId: event.id, proposalId: proposal.id, duplicateId: duplicate.id, similarity: 0.8 },
+      });
+
+      const authorizedEvent = await authorize(owner);
+      await ProposalDuplicates.for(authorizedEvent, duplicate.id).dismiss(pair.id);
+
+      const updated = await db.proposalDuplicate.findUnique({ where: { id: pair.id } });
+      expect(updated?.dismissedAt).toEqual(expect.any(Date));
+    });
+
+    it('throws an error when the pair does not concern the proposal', async () => {
+      const pair = await db.proposalDuplicate.create({
+        data: { eventId: event.id, proposalId: proposal.id, duplicateId: duplicate.id, similarity: 0.8 },
+      });
+
+      const authorizedEvent = await authorize(owner);
+      await expect(ProposalDuplicates.for(authorizedEvent, other.id).dismiss(pair.id)).rejects.toThrowError(
+        NotFoundError,
+      );
+    });
+
+    it('throws an error when user cannot edit proposals', async () => {
+      const pair = await db.proposalDuplicate.create({
+        data: { eventId: event.id, proposalId: proposal.id, duplicateId: duplicate.id, similarity: 0.8 },
+      });
+
+      const authorizedEvent = await authorize(reviewer);
+      await expect(ProposalDuplicates.for(authorizedEvent, proposal.id).dismiss(pair.id)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+});
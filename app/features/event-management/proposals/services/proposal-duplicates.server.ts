@@ -0,0 +1,71 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { Prisma } from '../../../../../prisma/generated/client.ts';
+import { detectEventDuplicates } from './jobs/detect-event-duplicates.job.ts';
+
+// SQL condition matching a proposal flagged as a possible duplicate not dismissed by organizers
+export function possibleDuplicateCondition(proposalId: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM proposal_duplicates pd
+    WHERE pd."dismissedAt" IS NULL
+      AND (pd."proposalId" = ${proposalId} OR pd."duplicateId" = ${proposalId})
+  )`;
+}
+
+export class ProposalDuplicates {
+  constructor(
+    private authorizedEvent: AuthorizedEvent,
+    private proposalId: string,
+  ) {}
+
+  static for(authorizedEvent: AuthorizedEvent, proposalId: string) {
+    return new ProposalDuplicates(authorizedEvent, proposalId);
+  }
+
+  // Detects in the background duplicates among every proposal of the event, including ones submitted before detection
+  static async detectAll(authorizedEvent: AuthorizedEvent) {
+    const { event, permissions } = authorizedEvent;
+    if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
+
+    await detectEventDuplicates.trigger(
+      { eventId: event.id },
+      { deduplication: { id: `detect-event-duplicates:${event.id}` } },
+    );
+  }
+
+  async list() {
+    const { event } = this.authorizedEvent;
+
+    const duplicates = await db.proposalDuplicate.findMany({
+      where: {
+        eventId: event.id,
+        dismissedAt: null,
+        OR: [{ proposalId: this.proposalId }, { duplicateId: this.proposalId }],
+      },
+      include: { proposal: true, duplicate: true },
+      orderBy: { similarity: 'desc' },
+    });
+
+    return duplicates.map((pair) => {
+      const other = pair.proposalId === this.proposalId ? pair.duplicate : pair.proposal;
+      return { id: pair.id, routeId: other.routeId, title: other.title, similarity: pair.similarity };
+    });
+  }
+
+  async dismiss(pairId: string) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
+
+    const result = await db.proposalDuplicate.updateMany({
+      where: {
+        id: pairId,
+        eventId: event.id,
+        OR: [{ proposalId: this.proposalId }, { duplicateId: this.proposalId }],
+      },
+      data: { dismissedAt: new Date() },
+    });
+
+    if (result.count === 0) throw new NotFoundError('Duplicate not found');
+  }
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const ProposalListViewCreateSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  shared: z.stringbool().default(false),
+});
+
+export const ProposalListViewDeleteSchema = z.object({ id: z.string() });
+
+export type ProposalListViewCreateData = z.infer<typeof ProposalListViewCreateSchema>;
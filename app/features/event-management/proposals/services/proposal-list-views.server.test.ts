@@ -0,0 +1,130 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ProposalListViews } from './proposal-list-views.server.ts';
+
+describe('ProposalListViews', () => {
+  let owner: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#create', () => {
+    it('saves a view with the given filters for the user', async () => {
+      const authorizedEvent = await authorize(owner);
+      await ProposalListViews.for(authorizedEvent).create(
+        { name: 'Accepted', shared: true },
+        { status: 'accepted', sort: 'reviews', order: 'asc' },
+      );
+
+      const views = await db.proposalListView.findMany();
+      expect(views).toEqual([
+        expect.objectContaining({
+          name: 'Accepted',
+          shared: true,
+          userId: owner.id,
+          eventId: event.id,
+          filters: { status: 'accepted', sort: 'reviews', order: 'asc' },
+        }),
+      ]);
+    });
+  });
+
+  describe('#list', () => {
+    it('returns views of the user and views shared by the team with live counts', async () => {
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner], attributes: { title: 'React' } }) });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner], attributes: { title: 'Vue' } }) });
+
+      const authorizedEvent = await authorize(owner);
+      const views = ProposalListViews.for(authorizedEvent);
+      await views.create({ name: 'React', shared: false }, { query: 'react', sort: 'date' });
+      await views.create({ name: 'All', shared: true }, {});
+
+      const reviewerViews = ProposalListViews.for(await authorize(reviewer));
+      await reviewerViews.create({ name: 'Private', shared: false }, {});
+
+      const result = await views.list();
+      expect(result).toEqual([
+        { id: expect.any(String), name: 'All', shared: true, owned: true, search: '', count: 2 },
+        {
+          id: expect.any(String),
+          name: 'React',
+          shared: false,
+          owned: true,
+          search: 'query=react&sort=date',
+          count: 1,
+        },
+      ]);
+
+      const sharedResult = await reviewerViews.list();
+      expect(sharedResult.map((view) => [view.name, view.owned])).toEqual([
+        ['All', false],
+        ['Private', true],
+      ]);
+    });
+
+    it('counts proposals the same way as the proposals list', async () => {
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [owner], attributes: { title: 'React' } }) });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [reviewer], attributes: { title: 'Vue' } }) });
+
+      const authorizedEvent = await authorize(owner);
+      await ProposalListViews.for(authorizedEvent).create({ name: 'Bruce', shared: false }, { query: 'bruce' });
+      await ProposalListViews.for(authorizedEvent).create({ name: 'Unknown', shared: false }, { query: 'unknown' });
+
+      const views = await ProposalListViews.for(authorizedEvent).list();
+
+      expect(views.map((view) => [view.name, view.count])).toEqual([
+        ['Bruce', 1],
+        ['Unknown', 0],
+      ]);
+    });
+
+    it('drops stored filters that are no longer valid', async () => {
+      await db.proposalListView.create({
+        data: { name: 'Legacy', eventId: event.id, userId: owner.id, filters: { status: 'unknown', query: 'react' } },
+      });
+
+      const authorizedEvent = await authorize(owner);
+      const [view] = await ProposalListViews.for(authorizedEvent).list();
+
+      expect(view.search).toBe('query=react');
+    });
+  });
+
+  describe('#delete', () => {
+    it('deletes a view of the user', async () => {
+      const authorizedEvent = await authorize(owner);
+      const view = await ProposalListViews.for(authorizedEvent).create({ name: 'Mine', shared: false }, {});
+
+      await ProposalListViews.for(authorizedEvent).delete(view.id);
+
+      expect(await db.proposalListView.count()).toBe(0);
+    });
+
+    it('throws an error when deleting a view shared by another user', async () => {
+      const view = await ProposalListViews.for(await authorize(owner)).create({ name: 'Shared', shared: true }, {});
+
+      await expect(ProposalListViews.for(await authorize(reviewer)).delete(view.id)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { ProposalListViewCreateData } from './proposal-list-views.schema.server.ts';
+import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
+import { parseFilters, toSearchParams } from './proposal-search-builder.schema.server.ts';
+import { ProposalSearchBuilder } from './proposal-search-builder.server.ts';
+
+export class ProposalListViews {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ProposalListViews(authorizedEvent);
+  }
+
+  // Views of the user and views shared with the event team, with the live count of matching proposals
+  async list({ query, take }: { query?: string; take?: number } = {}) {
+    const { event, userId } = this.authorizedEvent;
+
+    const views = await db.proposalListView.findMany({
+      where: {
+        eventId: event.id,
+        OR: [{ userId }, { shared: true }],
+        ...(query ? { name: { contains: query, mode: 'insensitive' } } : {}),
+      },
+      orderBy: { name: 'asc' },
+      take,
+    });
+
+    // Stored filters are parsed again as the filters schema may have changed since the view was saved
+    const filters = views.map((view) => parseFilters(toSearchParams(view.filters as ProposalsFilters)));
+
+    // Counts use the same options as the proposals list, so the badge matches the list the view opens
+    const searches = filters.map(
+      (viewFilters) =>
+        new ProposalSearchBuilder(event.id, userId, viewFilters, {
+          withSpeakers: event.displayProposalsSpeakers,
+          withReviews: true,
+          hideConflicts: true,
+        }),
+    );
+    const counts = await ProposalSearchBuilder.countAll(event.id, searches);
+
+    return views.map((view, index) => ({
+      id: view.id,
+      name: view.name,
+      shared: view.shared,
+      owned: view.userId === userId,
+      search: toSearchParams(filters[index]).toString(),
+      count: counts[index],
+    }));
+  }
+
+  async create(data: ProposalListViewCreateData, filters: ProposalsFilters) {
+    const { event, userId } = this.authorizedEvent;
+    return db.proposalListView.create({
+      data: { name: data.name, shared: data.shared, filters, eventId: event.id, userId },
+    });
+  }
+
+  async delete(viewId: string) {
+    const { event, userId } = this.authorizedEvent;
+
+    const view = await db.proposalListView.findFirst({ where: { id: viewId, eventId: event.id } });
+    if (!view || view.userId !== userId) throw new ForbiddenOperationError();
+
+    await db.proposalListView.delete({ where: { id: view.id } });
+  }
+}
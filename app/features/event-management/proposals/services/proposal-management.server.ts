@@ -2,6 +2,8 @@ import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { getNextProposalNumber } from '~/shared/counters/proposal-counter.server.ts';
 import { ForbiddenOperationError } from '~/shared/errors.server.ts';
 import { db } from '../../../../../prisma/db.server.ts';
+import { detectProposalDuplicates } from './jobs/detect-proposal-duplicates.job.ts';
+import { ProposalAuditLogs } from './proposal-audit-logs.server.ts';
 import type {
   ProposalCreationData,
   ProposalSaveCategoriesData,
@@ -10,6 +12,7 @@ import type {
   ProposalSaveTagsData,
   ProposalUpdateData,
 } from './proposal-management.schema.server.ts';
+import { ProposalRevisions } from './proposal-revisions.server.ts';
 
 export class ProposalManagement {
   constructor(
@@ -31,7 +34,7 @@ export class ProposalManagement {
     const { event, permissions } = this.authorizedEvent;
     if (!permissions.canCreateEventProposal) throw new ForbiddenOperationError();
 
-    return await db.$transaction(async (trx) => {
+    const proposal = await db.$transaction(async (trx) => {
       const formatsConnect = data.formats?.length
         ? { connect: data.formats.map((formatId) => ({ id: formatId })) }
         : undefined;
@@ -72,6 +75,10 @@ export class ProposalManagement {
 
       return proposal;
     });
+
+    await detectProposalDuplicates.trigger({ proposalId: proposal.id });
+
+    return proposal;
   }
 
   async update(data: ProposalUpdateData) {
@@ -80,25 +87,33 @@ export class ProposalManagement {
     const { event, permissions } = this.authorizedEvent;
     if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
 
-    return db.proposal.update({ where: { id: this.proposalId, eventId: event.id }, data });
+    const proposal = await ProposalRevisions.track(this.proposalId, this.authorizedEvent.userId, () =>
+      db.proposal.update({ where: { id: this.proposalId, eventId: event.id }, data }),
+    );
+
+    await detectProposalDuplicates.trigger({ proposalId: proposal.id });
+
+    return proposal;
   }
 
   async saveTags(data: ProposalSaveTagsData) {
     if (!this.proposalId) throw new Error('Proposal ID is required for saveTags operation');
 
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
 
-    return db.proposal.update({
-      where: { id: this.proposalId, eventId: event.id },
-      data: { tags: { set: [], connect: data.tags?.map((id) => ({ id })) } },
-    });
+    return ProposalAuditLogs.track(event.id, userId, [this.proposalId], () =>
+      db.proposal.update({
+        where: { id: this.proposalId, eventId: event.id },
+        data: { tags: { set: [], connect: data.tags?.map((id) => ({ id })) } },
+      }),
+    );
   }
 
   async saveSpeakers(data: ProposalSaveSpeakersData) {
     if (!this.proposalId) throw new Error('Proposal ID is required for saveSpeakers operation');
 
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
 
     const eventSpeakers = await db.eventSpeaker.findMany({
@@ -113,16 +128,21 @@ export class ProposalManagement {
       throw new Error(`Speakers with IDs ${invalidSpeakers.join(', ')} do not belong to this event`);
     }
 
-    return db.proposal.update({
-      where: { id: this.proposalId, eventId: event.id },
-      data: { speakers: { set: [], connect: data.speakers.map((id) => ({ id })) } },
-    });
+    const { proposalId } = this;
+    return ProposalAuditLogs.track(event.id, userId, [proposalId], () =>
+      ProposalRevisions.track(proposalId, userId, () =>
+        db.proposal.update({
+          where: { id: this.proposalId, eventId: event.id },
+          data: { speakers: { set: [], connect: data.speakers.map((id) => ({ id })) } },
+        }),
+      ),
+    );
   }
 
   async saveFormats(data: ProposalSaveFormatsData) {
     if (!this.proposalId) throw new Error('Proposal ID is required for saveFormats operation');
 
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
 
     const eventFormats = await db.eventFormat.findMany({
@@ -137,16 +157,21 @@ export class ProposalManagement {
       throw new Error(`Formats with IDs ${invalidFormats.join(', ')} do not belong to this event`);
     }
 
-    return db.proposal.update({
-      where: { id: this.proposalId, eventId: event.id },
-      data: { formats: { set: [], connect: data.formats.map((id) => ({ id })) } },
-    });
+    const { proposalId } = this;
+    return ProposalAuditLogs.track(event.id, userId, [proposalId], () =>
+      ProposalRevisions.track(proposalId, userId, () =>
+        db.proposal.update({
+          where: { id: this.proposalId, eventId: event.id },
+          data: { formats: { set: [], connect: data.formats.map((id) => ({ id })) } },
+        }),
+      ),
+    );
   }
 
   async saveCategories(data: ProposalSaveCategoriesData) {
     if (!this.proposalId) throw new Error('Proposal ID is required for saveCategories operation');
 
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
 
     const eventCategories = await db.eventCategory.findMany({
@@ -161,9 +186,14 @@ export class ProposalManagement {
       throw new Error(`Categories with IDs ${invalidCategories.join(', ')} do not belong to this event`);
     }
 
-    return db.proposal.update({
-      where: { id: this.proposalId, eventId: event.id },
-      data: { categories: { set: [], connect: data.categories.map((id) => ({ id })) } },
-    });
+    const { proposalId } = this;
+    return ProposalAuditLogs.track(event.id, userId, [proposalId], () =>
+      ProposalRevisions.track(proposalId, userId, () =>
+        db.proposal.update({
+          where: { id: this.proposalId, eventId: event.id },
+          data: { categories: { set: [], connect: data.categories.map((id) => ({ id })) } },
+        }),
+      ),
+    );
   }
 }
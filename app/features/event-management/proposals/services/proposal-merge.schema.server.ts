@@ -0,0 +1,5 @@
+import { z } from 'zod';
+
+export const ProposalMergeSchema = z.object({
+  source: z.string().trim().min(1),
+});
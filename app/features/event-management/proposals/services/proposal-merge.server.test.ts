@@ -0,0 +1,190 @@
+import { conversationMessageFactory } from 'tests/factories/conversation-messages.ts';
+import { conversationFactory } from 'tests/factories/conversations.ts';
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { reviewFactory } from 'tests/factories/reviews.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, ProposalMergeInvalidError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ProposalMerge } from './proposal-merge.server.ts';
+
+describe('ProposalMerge', () => {
+  let owner: User;
+  let reviewer: User;
+  let speaker1: User;
+  let speaker2: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    speaker1 = await userFactory({ traits: ['peter-parker'] });
+    speaker2 = await userFactory();
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  const createProposals = async () => {
+    const target = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker1], attributes: { title: 'Target' } }),
+    });
+    const source = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker2], attributes: { title: 'Source' } }),
+    });
+    return { target, source };
+  };
+
+  describe('#merge', () => {
+    it('combines speakers and archives the merged proposal with a link to the target', async () => {
+      const { target, source } = await createProposals();
+
+      await ProposalMerge.for(await authorize(owner), target.id).merge(source.id, 'Merged');
+
+      const updatedTarget = await db.proposal.findUnique({ where: { id: target.id }, include: { speakers: true } });
+      expect(updatedTarget?.speakers.map((speaker) => speaker.userId).sort()).toEqual(
+        [speaker1.id, speaker2.id].sort(),
+      );
+
+      const updatedSource = await db.proposal.findUnique({ where: { id: source.id } });
+      expect(updatedSource?.mergedIntoId).toBe(target.id);
+      expect(updatedSource?.archivedAt).toBeInstanceOf(Date);
+    });
+
+    it('keeps the reviews of the merged proposal as history', async () => {
+      const { target, source } = await createProposals();
+      await reviewFactory({ user: owner, proposal: source });
+
+      await ProposalMerge.for(await authorize(owner), target.id).merge(source.id, 'Merged');
+
+      expect(await db.review.count({ where: { proposalId: source.id } })).toBe(1);
+      expect(await db.review.count({ where: { proposalId: target.id } })).toBe(0);
+    });
+
+    it('moves the conversation when the target proposal has none', async () => {
+      const { target, source } = await createProposals();
+      const conversation = await conversationFactory({
+        event,
+        proposalId: source.id,
+        type: 'PROPOSAL_REVIEW_COMMENTS',
+      });
+
+      await ProposalMerge.for(await authorize(owner), target.id).merge(source.id, 'Merged');
+
+      const moved = await db.conversation.findUnique({ where: { id: conversation.id } });
+      expect(moved?.proposalId).toBe(target.id);
+    });
+
+    it('merges messages and participants when both proposals have a conversation', async () => {
+      const { target, source } = await createProposals();
+      const targetConversation = await conversationFactory({
+        event,
+        proposalId: target.id,
+        type: 'PROPOSAL_SPEAKER_CONVERSATION',
+      });
+      const sourceConversation = await conversationFactory({
+        event,
+        proposalId: source.id,
+        type: 'PROPOSAL_SPEAKER_CONVERSATION',
+      });
+      await conversationMessageFactory({ conversation: targetConversation, sender: speaker1, role: 'SPEAKER' });
+      await conversationMessageFactory({ conversation: sourceConversation, sender: speaker2, role: 'SPEAKER' });
+
+      await ProposalMerge.for(await authorize(owner), target.id).merge(source.id, 'Merged');
+
+      expect(await db.conversation.findUnique({ where: { id: sourceConversation.id } })).toBe(null);
+
+      const messages = await db.conversationMessage.findMany({
+        where: { conversationId: targetConversation.id },
+        orderBy: { createdAt: 'asc' },
+      });
+      expect(messages.map((message) => message.senderId)).toEqual([speaker1.id, speaker2.id, null]);
+
+      const participants = await db.conversationParticipant.findMany({
+        where: { conversationId: targetConversation.id },
+      });
+      expect(participants.map((participant) => participant.userId).sort()).toEqual([speaker1.id, speaker2.id].sort());
+    });
+
+    it('adds a system message in the speaker conversation of the target proposal', async () => {
+      const { target, source } = await createProposals();
+
+      await ProposalMerge.for(await authorize(owner), target.id).merge(source.id, 'Proposals have been merged');
+
+      const conversation = await db.conversation.findUnique({
+        where: { proposalId_type: { proposalId: target.id, type: 'PROPOSAL_SPEAKER_CONVERSATION' } },
+        include: { messages: true },
+      });
+      expect(conversation?.messages).toEqual([
+        expect.objectContaining({ type: 'SYSTEM', senderId: null, content: 'Proposals have been merged' }),
+      ]);
+    });
+
+    it('records audit logs on both proposals', async () => {
+      const { target, source } = await createProposals();
+
+      await ProposalMerge.for(await authorize(owner), target.id).merge(source.id, 'Merged');
+
+      const logs = await db.proposalAuditLog.findMany({ where: { action: 'PROPOSAL_MERGED' } });
+      expect(logs).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ proposalId: target.id, userId: owner.id, after: 'Source' }),
+          expect.objectContaining({ proposalId: source.id, userId: owner.id, after: 'Target' }),
+        ]),
+      );
+
+      const actions = await db.proposalAuditLog.findMany({ where: { proposalId: source.id } });
+      expect(actions.map((log) => log.action)).toContain('PROPOSAL_ARCHIVED');
+    });
+
+    it('throws an error when merging a proposal into itself', async () => {
+      const { target } = await createProposals();
+
+      await expect(
+        ProposalMerge.for(await authorize(owner), target.id).merge(target.id, 'Merged'),
+      ).rejects.toThrowError(ProposalMergeInvalidError);
+    });
+
+    it('throws an error when a proposal has already been merged', async () => {
+      const { target, source } = await createProposals();
+      const authorizedEvent = await authorize(owner);
+      await ProposalMerge.for(authorizedEvent, target.id).merge(source.id, 'Merged');
+
+      await expect(ProposalMerge.for(authorizedEvent, source.id).merge(target.id, 'Merged')).rejects.toThrowError(
+        ProposalMergeInvalidError,
+      );
+    });
+
+    it('throws an error when the proposal is not found in the event', async () => {
+      const { target } = await createProposals();
+      const otherEvent = await eventFactory({ team });
+      const otherProposal = await proposalFactory({
+        event: otherEvent,
+        talk: await talkFactory({ speakers: [speaker2] }),
+      });
+
+      await expect(
+        ProposalMerge.for(await authorize(owner), target.id).merge(otherProposal.id, 'Merged'),
+      ).rejects.toThrowError(ProposalNotFoundError);
+    });
+
+    it('throws an error when user cannot edit proposals', async () => {
+      const { target, source } = await createProposals();
+
+      await expect(
+        ProposalMerge.for(await authorize(reviewer), target.id).merge(source.id, 'Merged'),
+      ).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, ProposalMergeInvalidError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { ProposalAuditLogs } from './proposal-audit-logs.server.ts';
+
+const CONVERSATION_TYPES = ['PROPOSAL_SPEAKER_CONVERSATION', 'PROPOSAL_REVIEW_COMMENTS'] as const;
+
+export class ProposalMerge {
+  constructor(
+    private authorizedEvent: AuthorizedEvent,
+    private proposalId: string,
+  ) {}
+
+  static for(authorizedEvent: AuthorizedEvent, proposalId: string) {
+    return new ProposalMerge(authorizedEvent, proposalId);
+  }
+
+  // Merges the source proposal into this one as a joint session: speakers are combined and conversations are
+  // moved, while the source proposal is archived with its reviews kept as history
+  async merge(sourceId: string, systemMessage: string) {
+    const { event, userId, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEventProposal) throw new ForbiddenOperationError();
+    if (sourceId === this.proposalId) throw new ProposalMergeInvalidError();
+
+    const proposals = await db.proposal.findMany({
+      where: { id: { in: [this.proposalId, sourceId] }, eventId: event.id, isDraft: false },
+      include: { speakers: true },
+    });
+
+    const target = proposals.find((proposal) => proposal.id === this.proposalId);
+    const source = proposals.find((proposal) => proposal.id === sourceId);
+    if (!target || !source) throw new ProposalNotFoundError();
+    if (target.mergedIntoId || source.mergedIntoId) throw new ProposalMergeInvalidError();
+
+    await ProposalAuditLogs.track(event.id, userId, [target.id, source.id], () =>
+      db.$transaction(async (tx) => {
+        await tx.proposal.update({
+          where: { id: target.id },
+          data: { speakers: { connect: source.speakers.map(({ id }) => ({ id })) } },
+        });
+
+        await tx.proposal.update({
+          where: { id: source.id },
+          data: { mergedIntoId: target.id, archivedAt: source.archivedAt ?? new Date() },
+        });
+
+        // A conversation is unique per proposal and type, so messages and participants are moved into the target
+        // conversation when both proposals already have one
+        for (const type of CONVERSATION_TYPES) {
+          const sourceConversation = await tx.conversation.findUnique({
+            where: { proposalId_type: { proposalId: source.id, type } },
+            include: { participants: true },
+          });
+          if (!sourceConversation) continue;
+
+          const targetConversation = await tx.conversation.findUnique({
+            where: { proposalId_type: { proposalId: target.id, type } },
+          });
+          if (!targetConversation) {
+            await tx.conversation.update({ where: { id: sourceConversation.id }, data: { proposalId: target.id } });
+            continue;
+          }
+
+          await tx.conversationMessage.updateMany({
+            where: { conversationId: sourceConversation.id },
+            data: { conversationId: targetConversation.id },
+          });
+          for (const participant of sourceConversation.participants) {
+            await tx.conversationParticipant.upsert({
+              where: { conversationId_userId: { conversationId: targetConversation.id, userId: participant.userId } },
+              create: {
+                conversationId: targetConversation.id,
+                userId: participant.userId,
+                role: participant.role,
+                lastSeenAt: participant.lastSeenAt,
+              },
+              update: {},
+            });
+          }
+          await tx.conversation.delete({ where: { id: sourceConversation.id } });
+        }
+
+        const conversation = await tx.conversation.upsert({
+          where: { proposalId_type: { proposalId: target.id, type: 'PROPOSAL_SPEAKER_CONVERSATION' } },
+          create: { eventId: event.id, proposalId: target.id, type: 'PROPOSAL_SPEAKER_CONVERSATION' },
+          update: {},
+        });
+        await tx.conversationMessage.create({
+          data: { conversationId: conversation.id, senderId: null, content: systemMessage, type: 'SYSTEM' },
+        });
+      }),
+    );
+
+    await ProposalAuditLogs.record([
+      { eventId: event.id, proposalId: target.id, userId, action: 'PROPOSAL_MERGED', after: source.title },
+      { eventId: event.id, proposalId: source.id, userId, action: 'PROPOSAL_MERGED', after: target.title },
+    ]);
+  }
+}
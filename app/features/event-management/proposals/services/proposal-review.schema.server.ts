@@ -3,6 +3,9 @@ import { z } from 'zod';
 export const ReviewUpdateDataSchema = z.object({
   note: z.number().min(0).max(5).nullable().default(null),
   feeling: z.enum(['NEUTRAL', 'POSITIVE', 'NEGATIVE', 'NO_OPINION']),
+  scores: z.record(z.string(), z.coerce.number().int().min(0).max(10)).optional(),
 });
 
 export type ReviewUpdateData = z.infer<typeof ReviewUpdateDataSchema>;
+
+export const ReviewSessionSaveSchema = ReviewUpdateDataSchema.extend({ proposalId: z.string() });
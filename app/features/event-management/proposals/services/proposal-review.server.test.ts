@@ -1,3 +1,4 @@
+import { attachmentFactory } from 'tests/factories/attachments.ts';
 import { eventCategoryFactory } from 'tests/factories/categories.ts';
 import { eventSpeakerFactory } from 'tests/factories/event-speakers.ts';
 import { eventFactory } from 'tests/factories/events.ts';
@@ -10,7 +11,12 @@ import { talkFactory } from 'tests/factories/talks.ts';
 import { teamFactory } from 'tests/factories/team.ts';
 import { userFactory } from 'tests/factories/users.ts';
 import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
-import { ForbiddenOperationError, ReviewDisabledError } from '~/shared/errors.server.ts';
+import {
+  ForbiddenOperationError,
+  ReviewConflictError,
+  ReviewDisabledError,
+  ReviewLockedError,
+} from '~/shared/errors.server.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import type {
   Event,
@@ -20,8 +26,11 @@ import type {
   Team,
   User,
 } from '../../../../../prisma/generated/client.ts';
+import { getSharedServerEnv } from '../../../../../servers/environment.server.ts';
 import { ProposalReview } from './proposal-review.server.ts';
 
+const { APP_URL } = getSharedServerEnv();
+
 describe('ProposalReview', () => {
   let owner: User;
   let member: User;
@@ -71,6 +80,8 @@ describe('ProposalReview', () => {
         publicationStatus: proposal.publicationStatus,
         confirmationStatus: proposal.confirmationStatus,
         archivedAt: null,
+        mergedInto: null,
+        mergedProposals: [],
         submittedAt: proposal.submittedAt,
         languages: ['en'],
         formats: [{ id: format.id, name: format.name }],
@@ -99,9 +110,47 @@ describe('ProposalReview', () => {
           members: [],
           you: { feeling: null, note: null },
         },
+        attachments: [],
+        conflicts: [],
+        rubric: { criteria: [], scores: null },
       });
     });
 
+    it('returns proposal attachments', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const attachment = await attachmentFactory({ proposal, attributes: { name: 'slides.pdf' } });
+
+      const authorizedTeam = await getAuthorizedTeam(member.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = await ProposalReview.for(authorizedEvent, proposal.id).get();
+
+      expect(review.attachments).toEqual([
+        {
+          id: attachment.id,
+          name: 'slides.pdf',
+          contentType: 'application/pdf',
+          size: 1024,
+          url: `${APP_URL}/attachments/${attachment.id}`,
+          createdAt: attachment.createdAt,
+        },
+      ]);
+    });
+
+    it('returns merged proposals links', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const merged = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await db.proposal.update({ where: { id: merged.id }, data: { mergedIntoId: proposal.id } });
+
+      const authorizedTeam = await getAuthorizedTeam(member.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const review = await ProposalReview.for(authorizedEvent, proposal.id).get();
+      expect(review.mergedProposals).toEqual([{ id: merged.id, routeId: merged.routeId, title: merged.title }]);
+
+      const mergedReview = await ProposalReview.for(authorizedEvent, merged.id).get();
+      expect(mergedReview.mergedInto).toEqual({ routeId: proposal.routeId, title: proposal.title });
+    });
+
     it('does not returns speakers when display proposals speaker setting is false', async () => {
       const event = await eventFactory({ team, attributes: { displayProposalsSpeakers: false } });
       const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
@@ -136,6 +185,20 @@ describe('ProposalReview', () => {
       );
     });
 
+    it('excludes reviews of conflicted reviewers from summary aggregates', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await reviewFactory({ proposal, user: owner, attributes: { feeling: 'NEGATIVE', note: 0 } });
+      await reviewFactory({ proposal, user: member, attributes: { feeling: 'POSITIVE', note: 5 } });
+      await db.reviewConflict.create({ data: { userId: member.id, eventId: event.id, proposalId: proposal.id } });
+
+      const authorizedTeam = await getAuthorizedTeam(member.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = await ProposalReview.for(authorizedEvent, proposal.id).get();
+
+      expect(review.reviews.summary).toEqual({ average: 0, positives: 0, negatives: 1 });
+      expect(review.conflicts).toEqual([{ id: expect.any(String), reason: null, speaker: null }]);
+    });
+
     it('returns teams reviews', async () => {
       const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
       await reviewFactory({ proposal, user: owner, attributes: { feeling: 'NEGATIVE', note: 0 } });
@@ -171,6 +234,26 @@ describe('ProposalReview', () => {
       });
     });
 
+    it('skips proposals in conflict with the reviewer', async () => {
+      const proposal1 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const proposal2 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const proposal3 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await db.reviewConflict.create({ data: { userId: owner.id, eventId: event.id, proposalId: proposal2.id } });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = ProposalReview.for(authorizedEvent, proposal3.id);
+      const pagination = await review.getPreviousAndNextReviews({});
+
+      expect(pagination).toEqual({
+        current: 1,
+        total: 2,
+        reviewed: 0,
+        next: proposal1.routeId,
+        previous: undefined,
+      });
+    });
+
     it('throws an error if user does not belong to event team', async () => {
       const user = await userFactory();
       const event = await eventFactory();
@@ -463,6 +546,104 @@ describe('ProposalReview', () => {
       await expect(review.addReview({ feeling: 'NEUTRAL', note: 2 })).rejects.toThrow(ReviewDisabledError);
     });
 
+    it('throws an error if the review period is over and reviews are locked', async () => {
+      const event = await eventFactory({
+        team,
+        attributes: { reviewEnd: new Date('2020-01-01T00:00:00.000Z'), reviewLockAfterEnd: true },
+      });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = ProposalReview.for(authorizedEvent, proposal.id);
+      await expect(review.addReview({ feeling: 'NEUTRAL', note: 2 })).rejects.toThrow(ReviewLockedError);
+    });
+
+    it('throws an error if the review period has not started yet', async () => {
+      const event = await eventFactory({ team, attributes: { reviewStart: new Date('2100-01-01T00:00:00.000Z') } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = ProposalReview.for(authorizedEvent, proposal.id);
+      await expect(review.addReview({ feeling: 'NEUTRAL', note: 2 })).rejects.toThrow(ReviewLockedError);
+    });
+
+    it('accepts reviews after the review period when reviews are not locked', async () => {
+      const event = await eventFactory({ team, attributes: { reviewEnd: new Date('2020-01-01T00:00:00.000Z') } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalReview.for(authorizedEvent, proposal.id).addReview({ feeling: 'NEUTRAL', note: 2 });
+
+      expect(await db.review.count({ where: { proposalId: proposal.id } })).toBe(1);
+    });
+
+    it('computes the weighted note from criteria scores when the event has a review rubric', async () => {
+      const criteria = [
+        { id: 'relevance', name: 'Relevance', weight: 2, scale: 5 },
+        { id: 'originality', name: 'Originality', weight: 1, scale: 10 },
+      ];
+      const event = await eventFactory({ team, attributes: { reviewCriteria: criteria } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = ProposalReview.for(authorizedEvent, proposal.id);
+      await review.addReview({ feeling: 'NEUTRAL', note: null, scores: { relevance: 4, originality: 5, unknown: 3 } });
+
+      const saved = await db.review.findFirst({ where: { userId: owner.id, proposalId: proposal.id } });
+      expect(saved?.note).toBe(3.5);
+      expect(saved?.scores).toEqual({ relevance: 4, originality: 5 });
+
+      const data = await review.get();
+      expect(data.rubric).toEqual({ criteria, scores: { relevance: 4, originality: 5 } });
+      expect(data.reviews.you).toEqual({ feeling: 'NEUTRAL', note: 3.5 });
+    });
+
+    it('keeps the submitted feeling along the weighted note of a review rubric', async () => {
+      const criteria = [{ id: 'relevance', name: 'Relevance', weight: 1, scale: 5 }];
+      const event = await eventFactory({ team, attributes: { reviewCriteria: criteria } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalReview.for(authorizedEvent, proposal.id).addReview({
+        feeling: 'POSITIVE',
+        note: null,
+        scores: { relevance: 3 },
+      });
+
+      const saved = await db.review.findFirst({ where: { userId: owner.id, proposalId: proposal.id } });
+      expect(saved?.feeling).toBe('POSITIVE');
+      expect(saved?.note).toBe(3);
+    });
+
+    it('ignores the note of reviews without scores when the event has a review rubric', async () => {
+      const criteria = [{ id: 'relevance', name: 'Relevance', weight: 1, scale: 5 }];
+      const event = await eventFactory({ team, attributes: { reviewCriteria: criteria } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalReview.for(authorizedEvent, proposal.id).addReview({ feeling: 'NEUTRAL', note: 5 });
+
+      const saved = await db.review.findFirst({ where: { userId: owner.id, proposalId: proposal.id } });
+      expect(saved?.note).toBe(null);
+      expect(saved?.scores).toBe(null);
+    });
+
+    it('throws an error if user declared a conflict of interest', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await db.reviewConflict.create({ data: { userId: owner.id, eventId: event.id, proposalId: proposal.id } });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const review = ProposalReview.for(authorizedEvent, proposal.id);
+      await expect(review.addReview({ feeling: 'NEUTRAL', note: 2 })).rejects.toThrow(ReviewConflictError);
+    });
+
     it('throws an error if user does not belong to event team', async () => {
       const user = await userFactory();
       const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
@@ -1,15 +1,28 @@
+import { ReviewPeriod } from '~/features/event-management/settings/models/review-period.ts';
+import type { ReviewScores } from '~/features/event-management/settings/models/review-rubric.ts';
+import { ReviewRubric } from '~/features/event-management/settings/models/review-rubric.ts';
+import { ProposalAttachments } from '~/features/event-participation/speaker-proposals/services/proposal-attachments.server.ts';
 import { SpeakerSurvey } from '~/features/event-participation/speaker-survey/services/speaker-survey.server.ts';
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
-import { ForbiddenOperationError, ProposalNotFoundError, ReviewDisabledError } from '~/shared/errors.server.ts';
+import {
+  ForbiddenOperationError,
+  ProposalNotFoundError,
+  ReviewConflictError,
+  ReviewDisabledError,
+  ReviewLockedError,
+} from '~/shared/errors.server.ts';
 import type { Languages } from '~/shared/types/proposals.types.ts';
 import type { SocialLinks } from '~/shared/types/speaker.types.ts';
 import type { SurveyDetailedAnswer } from '~/shared/types/survey.types.ts';
 import { sortBy } from '~/shared/utils/arrays-sort-by.ts';
 import { db } from '../../../../../prisma/db.server.ts';
+import { Prisma } from '../../../../../prisma/generated/client.ts';
 import { ReviewDetails } from '../models/review-details.ts';
+import { ProposalAuditLogs } from './proposal-audit-logs.server.ts';
 import type { ReviewUpdateData } from './proposal-review.schema.server.ts';
 import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
 import { ProposalSearchBuilder } from './proposal-search-builder.server.ts';
+import { ReviewConflicts } from './review-conflicts.server.ts';
 
 export type ProposalReviewData = Awaited<ReturnType<typeof ProposalReview.prototype.get>>;
 
@@ -33,12 +46,24 @@ export class ProposalReview {
         categories: true,
         reviews: { include: { user: true } },
         tags: true,
+        attachments: { orderBy: { createdAt: 'asc' } },
+        mergedInto: true,
+        mergedProposals: { orderBy: { createdAt: 'asc' } },
       },
       where: { id: this.proposalId, eventId: event.id },
     });
     if (!proposal) throw new ProposalNotFoundError();
 
+    const conflicts = ReviewConflicts.for(this.authorizedEvent);
+    const [conflictedUserIds, yourConflicts] = await Promise.all([
+      conflicts.conflictedUserIds(proposal.id),
+      conflicts.ofUser(proposal.id),
+    ]);
+
     const reviews = new ReviewDetails(proposal.reviews);
+    const unconflictedReviews = new ReviewDetails(
+      proposal.reviews.filter((review) => !conflictedUserIds.includes(review.userId)),
+    );
 
     let answers: Record<string, Array<SurveyDetailedAnswer>> = {};
     if (proposal.speakers) {
@@ -47,6 +72,9 @@ export class ProposalReview {
       answers = await survey.getMultipleSpeakerAnswers(event, userIds);
     }
 
+    const rubric = new ReviewRubric(event.reviewCriteria);
+    const yourReview = proposal.reviews.find((review) => review.userId === userId && review.dismissedAt === null);
+
     return {
       id: proposal.id,
       routeId: proposal.routeId,
@@ -58,13 +86,17 @@ export class ProposalReview {
       publicationStatus: proposal.publicationStatus,
       confirmationStatus: proposal.confirmationStatus,
       archivedAt: proposal.archivedAt,
+      mergedInto: proposal.mergedInto
+        ? { routeId: proposal.mergedInto.routeId, title: proposal.mergedInto.title }
+        : null,
+      mergedProposals: proposal.mergedProposals.map(({ id, routeId, title }) => ({ id, routeId, title })),
       submittedAt: proposal.submittedAt,
       languages: proposal.languages as Languages,
       formats: proposal.formats.map(({ id, name }) => ({ id, name })),
       categories: proposal.categories.map(({ id, name }) => ({ id, name })),
       reviews: {
         you: reviews.ofUser(userId),
-        summary: event.displayProposalsReviews ? reviews.summary() : null,
+        summary: event.displayProposalsReviews ? unconflictedReviews.summary() : null,
         members: event.displayProposalsReviews ? reviews.ofMembers() : null,
       },
       speakers:
@@ -86,6 +118,13 @@ export class ProposalReview {
         proposal.tags.map((tag) => ({ id: tag.id, name: tag.name, color: tag.color })),
         'name',
       ),
+      attachments: proposal.attachments.map(ProposalAttachments.toAttachmentData),
+      conflicts: yourConflicts,
+      rubric: {
+        criteria: rubric.criteria,
+        scores:
+          rubric.isEnabled && yourReview?.scores ? rubric.sanitizeScores(yourReview.scores as ReviewScores) : null,
+      },
     };
   }
 
@@ -118,7 +157,12 @@ export class ProposalReview {
 
   async getPreviousAndNextReviews(filters: ProposalsFilters) {
     const { event, userId } = this.authorizedEvent;
-    const search = new ProposalSearchBuilder(event.id, userId, filters);
+    // Same options as the review list, so the navigation follows its order and skips conflicted proposals
+    const search = new ProposalSearchBuilder(event.id, userId, filters, {
+      withSpeakers: event.displayProposalsSpeakers,
+      withReviews: true,
+      hideConflicts: true,
+    });
 
     const { total, reviewed } = await search.statistics();
     const proposalRouteIds = await search.proposalRouteIds();
@@ -145,20 +189,37 @@ export class ProposalReview {
   async addReview(data: ReviewUpdateData) {
     const { event } = this.authorizedEvent;
     if (!event.reviewEnabled) throw new ReviewDisabledError();
+    if (new ReviewPeriod(event).isLocked()) throw new ReviewLockedError();
 
     const exists = await this.existsProposal();
     if (!exists) throw new ProposalNotFoundError();
 
+    const conflicts = await ReviewConflicts.for(this.authorizedEvent).ofUser(this.proposalId);
+    if (conflicts.length > 0) throw new ReviewConflictError();
+
+    const review = this.toReview(data);
+
     await db.review.upsert({
       where: { userId_proposalId: { userId: this.authorizedEvent.userId, proposalId: this.proposalId } },
-      create: { userId: this.authorizedEvent.userId, proposalId: this.proposalId, ...data },
-      update: { ...data, dismissedAt: null },
+      create: { userId: this.authorizedEvent.userId, proposalId: this.proposalId, ...review },
+      update: { ...review, dismissedAt: null },
     });
   }
 
+  // With a review rubric, the note is the weighted note computed from the criteria scores
+  private toReview({ scores, ...data }: ReviewUpdateData) {
+    const rubric = new ReviewRubric(this.authorizedEvent.event.reviewCriteria);
+    if (!rubric.isEnabled) return { ...data, scores: Prisma.DbNull };
+    if (!scores) return { ...data, note: null, scores: Prisma.DbNull };
+
+    const sanitized = rubric.sanitizeScores(scores);
+    return { feeling: data.feeling, note: rubric.computeNote(sanitized), scores: sanitized };
+  }
+
   async clearReview() {
     const { event } = this.authorizedEvent;
     if (!event.reviewEnabled) throw new ReviewDisabledError();
+    if (new ReviewPeriod(event).isLocked()) throw new ReviewLockedError();
 
     const exists = await this.existsProposal();
     if (!exists) throw new ProposalNotFoundError();
@@ -169,30 +230,38 @@ export class ProposalReview {
   }
 
   async dismissReview(reviewId: string) {
-    const { permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canDismissReviews) throw new ForbiddenOperationError();
 
     const exists = await this.existsProposal();
     if (!exists) throw new ProposalNotFoundError();
 
-    const review = await db.review.findUnique({ where: { id: reviewId } });
+    const review = await db.review.findUnique({ where: { id: reviewId }, include: { user: true } });
     await db.review.update({
       where: { id: reviewId, proposalId: this.proposalId },
       data: { dismissedAt: new Date(), updatedAt: review?.updatedAt },
     });
+
+    await ProposalAuditLogs.record([
+      { eventId: event.id, proposalId: this.proposalId, userId, action: 'REVIEW_DISMISSED', after: review?.user.name },
+    ]);
   }
 
   async restoreReview(reviewId: string) {
-    const { permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canDismissReviews) throw new ForbiddenOperationError();
 
     const exists = await this.existsProposal();
     if (!exists) throw new ProposalNotFoundError();
 
-    const review = await db.review.findUnique({ where: { id: reviewId } });
+    const review = await db.review.findUnique({ where: { id: reviewId }, include: { user: true } });
     await db.review.update({
       where: { id: reviewId, proposalId: this.proposalId },
       data: { dismissedAt: null, updatedAt: review?.updatedAt },
     });
+
+    await ProposalAuditLogs.record([
+      { eventId: event.id, proposalId: this.proposalId, userId, action: 'REVIEW_RESTORED', after: review?.user.name },
+    ]);
   }
 }
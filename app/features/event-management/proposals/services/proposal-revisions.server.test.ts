@@ -0,0 +1,154 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { reviewFactory } from 'tests/factories/reviews.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ProposalRevisions } from './proposal-revisions.server.ts';
+
+describe('ProposalRevisions', () => {
+  let owner: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#track', () => {
+    it('records the changes made on a submitted proposal', async () => {
+      const format = await eventFormatFactory({ event, attributes: { name: 'Workshop' } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker], attributes: { title: 'Old title', abstract: 'Same' } }),
+      });
+
+      const result = await ProposalRevisions.track(proposal.id, speaker.id, () =>
+        db.proposal.update({
+          where: { id: proposal.id },
+          data: { title: 'New title', formats: { connect: { id: format.id } } },
+        }),
+      );
+
+      expect(result.title).toBe('New title');
+      const revisions = await db.proposalRevision.findMany();
+      expect(revisions).toEqual([
+        expect.objectContaining({
+          proposalId: proposal.id,
+          userId: speaker.id,
+          changes: [
+            { field: 'title', before: 'Old title', after: 'New title' },
+            { field: 'formats', before: [], after: ['Workshop'] },
+          ],
+        }),
+      ]);
+    });
+
+    it('does not record a revision when nothing changed', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      await ProposalRevisions.track(proposal.id, speaker.id, () =>
+        db.proposal.update({ where: { id: proposal.id }, data: { title: proposal.title } }),
+      );
+
+      expect(await db.proposalRevision.count()).toBe(0);
+    });
+
+    it('does not record a revision for draft proposals', async () => {
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['draft'],
+      });
+
+      await ProposalRevisions.track(proposal.id, speaker.id, () =>
+        db.proposal.update({ where: { id: proposal.id }, data: { title: 'New title' } }),
+      );
+
+      expect(await db.proposalRevision.count()).toBe(0);
+    });
+  });
+
+  describe('#list', () => {
+    it('returns revisions with their author and flags the ones made since the user review', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await db.proposalRevision.create({
+        data: {
+          proposalId: proposal.id,
+          userId: speaker.id,
+          changes: [{ field: 'title', before: 'A', after: 'B' }],
+          createdAt: new Date('2020-01-01'),
+        },
+      });
+      await reviewFactory({ user: owner, proposal, attributes: { updatedAt: new Date('2020-01-02') } });
+      await db.proposalRevision.create({
+        data: {
+          proposalId: proposal.id,
+          userId: owner.id,
+          changes: [{ field: 'abstract', before: 'A', after: 'B' }],
+          createdAt: new Date('2020-01-03'),
+        },
+      });
+
+      const revisions = await ProposalRevisions.for(await authorize(owner), proposal.id).list();
+
+      expect(revisions).toEqual([
+        {
+          id: expect.any(String),
+          author: { name: speaker.name, picture: speaker.picture },
+          changes: [{ field: 'title', before: 'A', after: 'B' }],
+          createdAt: new Date('2020-01-01'),
+          isNew: false,
+        },
+        {
+          id: expect.any(String),
+          author: { name: owner.name, picture: owner.picture },
+          changes: [{ field: 'abstract', before: 'A', after: 'B' }],
+          createdAt: new Date('2020-01-03'),
+          isNew: true,
+        },
+      ]);
+    });
+
+    it('hides speakers when the event does not display them', async () => {
+      await db.event.update({ where: { id: event.id }, data: { displayProposalsSpeakers: false } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await db.proposalRevision.createMany({
+        data: [
+          {
+            proposalId: proposal.id,
+            userId: speaker.id,
+            changes: [
+              { field: 'title', before: 'A', after: 'B' },
+              { field: 'speakers', before: ['Peter Parker'], after: [] },
+            ],
+          },
+          {
+            proposalId: proposal.id,
+            userId: owner.id,
+            changes: [{ field: 'speakers', before: [], after: ['Peter Parker'] }],
+          },
+        ],
+      });
+
+      const revisions = await ProposalRevisions.for(await authorize(owner), proposal.id).list();
+
+      expect(revisions).toEqual([
+        expect.objectContaining({ author: null, changes: [{ field: 'title', before: 'A', after: 'B' }] }),
+      ]);
+    });
+  });
+});
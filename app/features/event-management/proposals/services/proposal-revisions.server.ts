@@ -0,0 +1,90 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { type DbTransaction, db } from '../../../../../prisma/db.server.ts';
+import {
+  diffProposalSnapshots,
+  type ProposalRevisionChange,
+  type ProposalSnapshot,
+} from '../models/proposal-revision.ts';
+
+export class ProposalRevisions {
+  constructor(
+    private authorizedEvent: AuthorizedEvent,
+    private proposalId: string,
+  ) {}
+
+  static for(authorizedEvent: AuthorizedEvent, proposalId: string) {
+    return new ProposalRevisions(authorizedEvent, proposalId);
+  }
+
+  // Runs the update and records the changes it made as a revision, only for submitted proposals
+  static async track<T>(
+    proposalId: string,
+    userId: string | null,
+    update: () => Promise<T>,
+    trx: DbTransaction = db,
+  ): Promise<T> {
+    const before = await ProposalRevisions.snapshot(proposalId, trx);
+    const result = await update();
+    if (!before) return result;
+
+    const after = await ProposalRevisions.snapshot(proposalId, trx);
+    if (!after) return result;
+
+    const changes = diffProposalSnapshots(before, after);
+    if (changes.length > 0) {
+      await trx.proposalRevision.create({ data: { proposalId, userId, changes } });
+    }
+    return result;
+  }
+
+  private static async snapshot(proposalId: string, trx: DbTransaction): Promise<ProposalSnapshot | null> {
+    const proposal = await trx.proposal.findUnique({
+      where: { id: proposalId },
+      include: { formats: true, categories: true, speakers: true },
+    });
+    if (!proposal || proposal.isDraft) return null;
+
+    return {
+      title: proposal.title,
+      abstract: proposal.abstract,
+      references: proposal.references,
+      formats: proposal.formats.map((format) => format.name),
+      categories: proposal.categories.map((category) => category.name),
+      speakers: proposal.speakers.map((speaker) => speaker.name),
+    };
+  }
+
+  async list() {
+    const { event, userId } = this.authorizedEvent;
+
+    const [revisions, review, speakers] = await Promise.all([
+      db.proposalRevision.findMany({
+        where: { proposalId: this.proposalId, proposal: { eventId: event.id } },
+        include: { user: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.review.findUnique({ where: { userId_proposalId: { userId, proposalId: this.proposalId } } }),
+      db.eventSpeaker.findMany({ where: { proposals: { some: { id: this.proposalId } } }, select: { userId: true } }),
+    ]);
+
+    // speakers identity is hidden when the event does not display them to reviewers
+    const speakerUserIds = speakers.map((speaker) => speaker.userId);
+    const hideSpeakers = !event.displayProposalsSpeakers;
+
+    return revisions
+      .map((revision) => {
+        const changes = revision.changes as Array<ProposalRevisionChange>;
+        const isSpeakerAuthor = revision.userId !== null && speakerUserIds.includes(revision.userId);
+        const author = revision.user && !(hideSpeakers && isSpeakerAuthor) ? revision.user : null;
+
+        return {
+          id: revision.id,
+          author: author ? { name: author.name, picture: author.picture } : null,
+          changes: hideSpeakers ? changes.filter((change) => change.field !== 'speakers') : changes,
+          createdAt: revision.createdAt,
+          isNew: review ? revision.createdAt > review.updatedAt : false,
+        };
+      })
+      .filter((revision) => revision.changes.length > 0);
+  }
+}
@@ -1,4 +1,4 @@
-import { parseUrlFilters } from './proposal-search-builder.schema.server.ts';
+import { parseUrlFilters, toSearchParams } from './proposal-search-builder.schema.server.ts';
 
 describe('parseUrlFilters', () => {
   it('parses valid filters', () => {
@@ -15,6 +15,20 @@ describe('parseUrlFilters', () => {
     expect(result).toEqual({ reviews: ['positive', 'negative'] });
   });
 
+  it('parses levels and languages as arrays of values', () => {
+    const url = new URL('https://example.com/proposals?levels=BEGINNER&levels=ADVANCED&languages=fr');
+    const result = parseUrlFilters(url);
+
+    expect(result).toEqual({ levels: ['BEGINNER', 'ADVANCED'], languages: ['fr'] });
+  });
+
+  it('drops an invalid level or language but keeps the other filters', () => {
+    const url = new URL('https://example.com/proposals?levels=EXPERT&languages=xx&status=accepted');
+    const result = parseUrlFilters(url);
+
+    expect(result).toEqual({ status: 'accepted' });
+  });
+
   it('returns empty filters for URL without search parameters', () => {
     const url = new URL('https://example.com/proposals');
     const result = parseUrlFilters(url);
@@ -57,3 +71,13 @@ describe('parseUrlFilters', () => {
     expect(result).toEqual({ order: 'desc' });
   });
 });
+
+describe('toSearchParams', () => {
+  it('converts filters to search params that parse back to the same filters', () => {
+    const filters = { query: 'react', sort: 'reviews' as const, reviews: ['positive' as const, 'negative' as const] };
+    const params = toSearchParams(filters);
+
+    expect(params.toString()).toBe('query=react&sort=reviews&reviews=positive&reviews=negative');
+    expect(parseUrlFilters(new URL(`https://example.com/proposals?${params}`))).toEqual(filters);
+  });
+});
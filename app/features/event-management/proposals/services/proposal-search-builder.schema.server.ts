@@ -1,5 +1,6 @@
 import { parseWithZod } from '@conform-to/zod/v4';
 import { z } from 'zod';
+import { LANGUAGES, TALK_LEVELS } from '~/shared/constants.ts';
 
 const ReviewValueSchema = z.enum([
   'not-reviewed',
@@ -15,24 +16,38 @@ const ReviewValueSchema = z.enum([
 
 const ReviewsFiltersSchema = z.array(ReviewValueSchema).optional();
 
-const StatusFilterSchema = z.enum(['pending', 'accepted', 'rejected', 'archived']).optional();
+const StatusFilterSchema = z.enum(['pending', 'accepted', 'rejected', 'waitlisted', 'archived']).optional();
 
 const ConfirmationFilterSchema = z.enum(['not-answered', 'confirmed', 'declined']).optional();
 
 const MessagesFilterSchema = z.enum(['new']).optional();
 
+const AssignedFilterSchema = z.enum(['me']).optional();
+
+const DuplicatesFilterSchema = z.enum(['possible']).optional();
+
+const LevelsFilterSchema = z.array(z.enum(TALK_LEVELS)).optional();
+
+const LanguagesFilterSchema = z.array(z.enum(LANGUAGES)).optional();
+
 const ProposalsFiltersSchema = z.object({
   query: z.string().trim().optional(),
-  sort: z.enum(['date', 'reviews', 'favorites', 'my-review', 'comments']).optional(),
+  sort: z
+    .enum(['date', 'reviews', 'normalized', 'comparisons', 'favorites', 'my-review', 'comments', 'assigned'])
+    .optional(),
   order: z.enum(['asc', 'desc']).optional(),
   reviews: ReviewsFiltersSchema,
   status: StatusFilterSchema,
   confirmation: ConfirmationFilterSchema,
   messages: MessagesFilterSchema,
+  assigned: AssignedFilterSchema,
+  duplicates: DuplicatesFilterSchema,
   formats: z.string().optional(),
   categories: z.string().optional(),
   tags: z.string().optional(),
   speakers: z.string().optional(),
+  levels: LevelsFilterSchema,
+  languages: LanguagesFilterSchema,
 });
 
 export type ReviewsFilter = z.infer<typeof ReviewsFiltersSchema>;
@@ -43,9 +58,13 @@ export type ConfirmationFilter = z.infer<typeof ConfirmationFilterSchema>;
 
 export type ProposalsFilters = z.infer<typeof ProposalsFiltersSchema>;
 
-// Invalid params only drop the offending filters: on error, remove them and parse again
 export function parseUrlFilters(url: URL) {
-  const params = new URLSearchParams(url.searchParams);
+  return parseFilters(url.searchParams);
+}
+
+// Invalid params only drop the offending filters: on error, remove them and parse again
+export function parseFilters(searchParams: URLSearchParams): ProposalsFilters {
+  const params = new URLSearchParams(searchParams);
   let result = parseWithZod(params, { schema: ProposalsFiltersSchema });
   if (result.status === 'error') {
     for (const field of Object.keys(result.error ?? {})) {
@@ -56,3 +75,12 @@ export function parseUrlFilters(url: URL) {
   if (result.status !== 'success') return {};
   return result.value;
 }
+
+export function toSearchParams(filters: ProposalsFilters) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (Array.isArray(value)) value.forEach((item) => params.append(key, item));
+    else if (value) params.append(key, value);
+  }
+  return params;
+}
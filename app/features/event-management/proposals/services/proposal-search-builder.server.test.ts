@@ -111,6 +111,35 @@ describe('EventProposalsSearch', { tags: ['no-teardown'] }, () => {
     await reviewFactory({ user: owner, proposal: proposal2, attributes: { feeling: 'NEUTRAL', note: 5 } });
     await reviewFactory({ user: owner, proposal: proposal3, attributes: { feeling: 'NEUTRAL', note: 1 } });
 
+    await db.reviewAssignment.createMany({
+      data: [
+        { userId: owner.id, proposalId: proposal2.id },
+        { userId: owner.id, proposalId: proposal4.id },
+        { userId: speaker.id, proposalId: proposal1.id },
+      ],
+    });
+
+    await db.proposalRevision.createMany({
+      data: [
+        { proposalId: proposal1.id, changes: [{ field: 'title', before: 'A', after: 'B' }] },
+        { proposalId: proposal2.id, changes: [], createdAt: new Date('2020-01-01') },
+        { proposalId: proposal4.id, changes: [] },
+      ],
+    });
+
+    await db.proposalDuplicate.createMany({
+      data: [
+        { eventId: event.id, proposalId: proposal1.id, duplicateId: proposal3.id, similarity: 0.8 },
+        {
+          eventId: event.id,
+          proposalId: proposal2.id,
+          duplicateId: proposal4.id,
+          similarity: 0.6,
+          dismissedAt: new Date(),
+        },
+      ],
+    });
+
     const conversation1 = await conversationFactory({
       event,
       proposalId: proposal1.id,
@@ -229,11 +258,12 @@ describe('EventProposalsSearch', { tags: ['no-teardown'] }, () => {
       expect(proposals.some((p) => p.id === proposal3.id)).toBe(true);
     });
 
-    it('escapes ILIKE special characters in search query', async () => {
-      const filters = { query: 'Awe%me' };
+    it('ignores full-text search operators in search query', async () => {
+      const filters = { query: "awesome & | ! ( ) ' :* talk" };
       const search = new ProposalSearchBuilder(event.id, owner.id, filters);
       const proposals = await search.proposals();
-      expect(proposals.length).toBe(0);
+      expect(proposals.length).toBe(1);
+      expect(proposals[0].title).toBe(proposal2.title);
     });
 
     it('escapes underscore wildcard in search query', async () => {
@@ -286,6 +316,36 @@ describe('EventProposalsSearch', { tags: ['no-teardown'] }, () => {
       expect(proposals[3].id).toBe(proposal1.id);
     });
 
+    it('filters proposals by levels and languages', async () => {
+      const otherEvent = await eventFactory({ team });
+      const beginnerFr = await proposalFactory({
+        event: otherEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { level: 'BEGINNER', languages: ['fr'] },
+      });
+      const advancedEnFr = await proposalFactory({
+        event: otherEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { level: 'ADVANCED', languages: ['en', 'fr'] },
+      });
+      await proposalFactory({
+        event: otherEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+        attributes: { level: null, languages: ['de'] },
+      });
+
+      const searchIds = async (filters: ProposalsFilters) => {
+        const proposals = await new ProposalSearchBuilder(otherEvent.id, owner.id, filters).proposals();
+        return proposals.map((p) => p.id).sort();
+      };
+
+      expect(await searchIds({ levels: ['BEGINNER'] })).toEqual([beginnerFr.id]);
+      expect(await searchIds({ levels: ['BEGINNER', 'ADVANCED'] })).toEqual([beginnerFr.id, advancedEnFr.id].sort());
+      expect(await searchIds({ languages: ['fr'] })).toEqual([beginnerFr.id, advancedEnFr.id].sort());
+      expect(await searchIds({ languages: ['en', 'es'] })).toEqual([advancedEnFr.id]);
+      expect(await searchIds({ levels: ['BEGINNER'], languages: ['en'] })).toEqual([]);
+    });
+
     it('filters proposals by status pending', async () => {
       const filters: ProposalsFilters = { status: 'pending' };
       const search = new ProposalSearchBuilder(event.id, owner.id, filters);
@@ -391,6 +451,27 @@ describe('EventProposalsSearch', { tags: ['no-teardown'] }, () => {
       expect(proposals[0].id).toBe(proposal3.id);
     });
 
+    it('filters proposals assigned to the user', async () => {
+      const filters: ProposalsFilters = { assigned: 'me' };
+      const search = new ProposalSearchBuilder(event.id, owner.id, filters);
+      const proposals = await search.proposals();
+      expect(proposals.map((p) => p.id)).toEqual([proposal4.id, proposal2.id]);
+      expect(proposals.every((p) => p.assignedToMe)).toBe(true);
+    });
+
+    it('flags proposals changed since the user review', async () => {
+      const search = new ProposalSearchBuilder(event.id, owner.id, {});
+      const proposals = await search.proposals();
+      expect(proposals.filter((p) => p.changedSinceReview).map((p) => p.id)).toEqual([proposal1.id]);
+    });
+
+    it('filters possible duplicates not dismissed', async () => {
+      const filters: ProposalsFilters = { duplicates: 'possible' };
+      const search = new ProposalSearchBuilder(event.id, owner.id, filters);
+      const proposals = await search.proposals();
+      expect(proposals.map((p) => p.id)).toEqual([proposal3.id, proposal1.id]);
+    });
+
     it('sorts by newest (default)', async () => {
       const search = new ProposalSearchBuilder(event.id, owner.id, {});
       const proposals = await search.proposals();
@@ -509,6 +590,78 @@ describe('EventProposalsSearch', { tags: ['no-teardown'] }, () => {
       expect(proposals[3].id).toBe(proposal4.id); // not reviewed
       expect(proposals[4].id).toBe(proposal5.id); // not reviewed
     });
+
+    it('sort by assigned to me first', async () => {
+      const filters: ProposalsFilters = { sort: 'assigned', order: 'desc' };
+      const search = new ProposalSearchBuilder(event.id, owner.id, filters);
+      const proposals = await search.proposals();
+      expect(proposals.map((p) => p.id)).toEqual([
+        proposal4.id,
+        proposal2.id,
+        proposal5.id,
+        proposal3.id,
+        proposal1.id,
+      ]);
+    });
+
+    it('sort by assigned to me last', async () => {
+      const filters: ProposalsFilters = { sort: 'assigned', order: 'asc' };
+      const search = new ProposalSearchBuilder(event.id, owner.id, filters);
+      const proposals = await search.proposals();
+      expect(proposals.map((p) => p.id)).toEqual([
+        proposal5.id,
+        proposal3.id,
+        proposal1.id,
+        proposal4.id,
+        proposal2.id,
+      ]);
+    });
+
+    describe('with search query qualifiers', () => {
+      const searchIds = async (query: string, options?: { withSpeakers: boolean; withReviews: boolean }) => {
+        const search = new ProposalSearchBuilder(event.id, owner.id, { query }, options);
+        const proposals = await search.proposals();
+        return proposals.map((p) => p.id).sort();
+      };
+
+      it('filters proposals by tag, format and category names', async () => {
+        expect(await searchIds(`tag:"${tag.name.toUpperCase()}"`)).toEqual([proposal3.id]);
+        expect(await searchIds(`format:"${format.name}"`)).toEqual([proposal1.id]);
+        expect(await searchIds(`category:"${category.name}"`)).toEqual([proposal2.id]);
+      });
+
+      it('excludes proposals with negated qualifiers', async () => {
+        expect(await searchIds(`-tag:"${tag.name}"`)).toEqual(
+          [proposal1.id, proposal2.id, proposal4.id, proposal5.id].sort(),
+        );
+      });
+
+      it('filters proposals by speaker name', async () => {
+        expect(await searchIds('speaker:"clark"')).toEqual([proposal2.id, proposal3.id].sort());
+        expect(await searchIds('speaker:"clark"', { withSpeakers: false, withReviews: true })).toHaveLength(5);
+      });
+
+      it('filters proposals by level and language', async () => {
+        expect(await searchIds('level:advanced')).toEqual([]);
+        expect(await searchIds('level:intermediate lang:en')).toHaveLength(5);
+        expect(await searchIds('lang:fr')).toEqual([]);
+      });
+
+      it('filters proposals by average review note', async () => {
+        expect(await searchIds('reviews:<3')).toEqual([proposal1.id, proposal3.id].sort());
+        expect(await searchIds('reviews:>=5')).toEqual([proposal2.id]);
+      });
+
+      it('filters proposals by submission date', async () => {
+        expect(await searchIds('submitted:>2000-01-01')).toHaveLength(5);
+        expect(await searchIds('submitted:<2000-01-01')).toEqual([]);
+      });
+
+      it('combines qualifiers with the text search', async () => {
+        expect(await searchIds('status:pending world')).toEqual([proposal1.id]);
+        expect(await searchIds('status:rejected world')).toEqual([]);
+      });
+    });
   });
 
   describe('#search.proposalIds', () => {
@@ -626,11 +779,11 @@ describe('ProposalSearchBuilder hasNewMessages', { tags: ['no-teardown'] }, () =
     event = await eventFactory({ team });
 
     // Proposal with no speaker conversation
-    const talk1 = await talkFactory({ speakers: [speaker] });
+    const talk1 = await talkFactory({ speakers: [speaker], attributes: { title: 'Alpha talk' } });
     proposalNoConversation = await proposalFactory({ event, talk: talk1 });
 
     // Proposal with speaker conversation but no messages
-    const talk2 = await talkFactory({ speakers: [speaker] });
+    const talk2 = await talkFactory({ speakers: [speaker], attributes: { title: 'Bravo talk' } });
     proposalWithConversationNoMessages = await proposalFactory({ event, talk: talk2 });
     await conversationFactory({
       event,
@@ -639,7 +792,7 @@ describe('ProposalSearchBuilder hasNewMessages', { tags: ['no-teardown'] }, () =
     });
 
     // Proposal with messages newer than organizer's lastSeenAt
-    const talk3 = await talkFactory({ speakers: [speaker] });
+    const talk3 = await talkFactory({ speakers: [speaker], attributes: { title: 'Charlie talk' } });
     proposalWithUnseenMessages = await proposalFactory({ event, talk: talk3 });
     const conv3 = await conversationFactory({
       event,
@@ -653,7 +806,7 @@ describe('ProposalSearchBuilder hasNewMessages', { tags: ['no-teardown'] }, () =
     await conversationMessageFactory({ conversation: conv3, sender: speaker, role: 'SPEAKER' });
 
     // Proposal where organizer has seen all messages
-    const talk4 = await talkFactory({ speakers: [speaker] });
+    const talk4 = await talkFactory({ speakers: [speaker], attributes: { title: 'Delta talk' } });
     proposalWithSeenMessages = await proposalFactory({ event, talk: talk4 });
     const conv4 = await conversationFactory({
       event,
@@ -667,7 +820,7 @@ describe('ProposalSearchBuilder hasNewMessages', { tags: ['no-teardown'] }, () =
     });
 
     // Proposal where organizer has no participant record (never joined)
-    const talk5 = await talkFactory({ speakers: [speaker] });
+    const talk5 = await talkFactory({ speakers: [speaker], attributes: { title: 'Echo talk' } });
     proposalOrganizerNeverJoined = await proposalFactory({ event, talk: talk5 });
     const conv5 = await conversationFactory({
       event,
@@ -685,7 +838,7 @@ describe('ProposalSearchBuilder hasNewMessages', { tags: ['no-teardown'] }, () =
     await conversationMessageFactory({ conversation: reviewConv, sender: otherOrganizer });
 
     // Proposal with PROPOSAL_REVIEW_COMMENTS where organizer IS a participant with unseen messages
-    const talk6 = await talkFactory({ speakers: [speaker] });
+    const talk6 = await talkFactory({ speakers: [speaker], attributes: { title: 'Foxtrot talk' } });
     proposalWithUnseenReviewComments = await proposalFactory({ event, talk: talk6 });
     const reviewConv2 = await conversationFactory({
       event,
@@ -803,3 +956,258 @@ describe('ProposalSearchBuilder hasNewMessages', { tags: ['no-teardown'] }, () =
     expect(ids).toEqual(expectedIds);
   });
 });
+
+describe('ProposalSearchBuilder review conflicts', () => {
+  let owner: User;
+  let member: User;
+  let speaker: User;
+  let event: Event;
+  let proposal: Proposal;
+  let otherProposal: Proposal;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    member = await userFactory({ traits: ['bruce-wayne'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    const team = await teamFactory({ owners: [owner], members: [member] });
+    event = await eventFactory({ team });
+    proposal = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker], attributes: { title: 'Conflicted talk' } }),
+    });
+    otherProposal = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [owner], attributes: { title: 'Unrelated session' } }),
+    });
+  });
+
+  it('hides proposals in conflict with the user when hideConflicts option is set', async () => {
+    await db.reviewConflict.create({ data: { userId: member.id, eventId: event.id, proposalId: proposal.id } });
+
+    const search = new ProposalSearchBuilder(
+      event.id,
+      member.id,
+      {},
+      { withSpeakers: false, withReviews: false, hideConflicts: true },
+    );
+    const proposals = await search.proposals();
+    expect(proposals.map((p) => p.id)).toEqual([otherProposal.id]);
+
+    const allProposals = await new ProposalSearchBuilder(
+      event.id,
+      member.id,
+      {},
+      { withSpeakers: false, withReviews: false },
+    ).proposals();
+    expect(allProposals).toHaveLength(2);
+  });
+
+  it('hides proposals of speakers in conflict with the user', async () => {
+    const eventSpeaker = await db.eventSpeaker.findFirstOrThrow({ where: { userId: speaker.id, eventId: event.id } });
+    await db.reviewConflict.create({ data: { userId: member.id, eventId: event.id, eventSpeakerId: eventSpeaker.id } });
+
+    const search = new ProposalSearchBuilder(
+      event.id,
+      member.id,
+      {},
+      { withSpeakers: false, withReviews: false, hideConflicts: true },
+    );
+    const proposals = await search.proposals();
+    expect(proposals.map((p) => p.id)).toEqual([otherProposal.id]);
+  });
+
+  it('excludes reviews of conflicted reviewers from review aggregates', async () => {
+    await reviewFactory({ proposal, user: owner, attributes: { feeling: 'NEGATIVE', note: 0 } });
+    await reviewFactory({ proposal, user: member, attributes: { feeling: 'POSITIVE', note: 5 } });
+    await db.reviewConflict.create({ data: { userId: member.id, eventId: event.id, proposalId: proposal.id } });
+
+    const search = new ProposalSearchBuilder(
+      event.id,
+      owner.id,
+      { query: proposal.title },
+      {
+        withSpeakers: false,
+        withReviews: true,
+      },
+    );
+    const proposals = await search.proposals();
+    expect(proposals[0].reviews.summary).toEqual({ average: 0, positives: 0, negatives: 1 });
+  });
+});
+
+describe('ProposalSearchBuilder normalized reviews', () => {
+  let lenient: User;
+  let strict: User;
+  let event: Event;
+  let proposals: Array<Proposal>;
+
+  beforeEach(async () => {
+    lenient = await userFactory({ traits: ['clark-kent'] });
+    strict = await userFactory({ traits: ['bruce-wayne'] });
+    const speaker = await userFactory({ traits: ['peter-parker'] });
+    const team = await teamFactory({ owners: [lenient], members: [strict] });
+    event = await eventFactory({ team });
+
+    proposals = [];
+    for (const title of ['Proposal 1', 'Proposal 2', 'Proposal 3', 'Proposal 4']) {
+      const talk = await talkFactory({ speakers: [speaker], attributes: { title } });
+      proposals.push(await proposalFactory({ event, talk }));
+    }
+    const [proposal1, proposal2, proposal3, proposal4] = proposals;
+    await reviewFactory({ proposal: proposal1, user: lenient, attributes: { feeling: 'NEUTRAL', note: 5 } });
+    await reviewFactory({ proposal: proposal2, user: lenient, attributes: { feeling: 'NEUTRAL', note: 4 } });
+    await reviewFactory({ proposal: proposal3, user: strict, attributes: { feeling: 'NEUTRAL', note: 3 } });
+    await reviewFactory({ proposal: proposal4, user: strict, attributes: { feeling: 'NEUTRAL', note: 1 } });
+  });
+
+  it('sorts proposals on notes rescaled for each reviewer', async () => {
+    const [proposal1, proposal2, proposal3, proposal4] = proposals;
+
+    const search = new ProposalSearchBuilder(
+      event.id,
+      lenient.id,
+      { sort: 'normalized' },
+      { withSpeakers: false, withReviews: true },
+    );
+    const ids = await search.proposalIds();
+
+    expect(ids).toEqual([proposal1.id, proposal3.id, proposal2.id, proposal4.id]);
+  });
+
+  it('returns the normalized review when withNormalizedReviews option is set', async () => {
+    const [proposal1, proposal2, proposal3, proposal4] = proposals;
+
+    const search = new ProposalSearchBuilder(
+      event.id,
+      lenient.id,
+      {},
+      { withSpeakers: false, withReviews: true, withNormalizedReviews: true },
+    );
+    const results = await search.proposals();
+
+    const normalized = new Map(results.map((proposal) => [proposal.id, proposal.normalizedReview]));
+    expect(normalized.get(proposal1.id)).toBeCloseTo(4.729, 3);
+    expect(normalized.get(proposal2.id)).toBeCloseTo(1.771, 3);
+    expect(normalized.get(proposal3.id)).toBeCloseTo(4.729, 3);
+    expect(normalized.get(proposal4.id)).toBeCloseTo(1.771, 3);
+  });
+
+  it('does not return the normalized review by default', async () => {
+    const search = new ProposalSearchBuilder(event.id, lenient.id, {}, { withSpeakers: false, withReviews: true });
+    const results = await search.proposals();
+
+    expect(results[0].normalizedReview).toBeUndefined();
+  });
+});
+
+describe('ProposalSearchBuilder comparison ratings', () => {
+  it('sorts proposals on their pairwise comparison rating', async () => {
+    const owner = await userFactory({ traits: ['clark-kent'] });
+    const team = await teamFactory({ owners: [owner] });
+    const event = await eventFactory({ team });
+    const talk = await talkFactory({ speakers: [owner] });
+    const proposal1 = await proposalFactory({ event, talk, attributes: { comparisonRating: 1480 } });
+    const proposal2 = await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }) });
+    const proposal3 = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [owner] }),
+      attributes: { comparisonRating: 1530 },
+    });
+
+    const desc = new ProposalSearchBuilder(
+      event.id,
+      owner.id,
+      { sort: 'comparisons' },
+      { withSpeakers: false, withReviews: false },
+    );
+    expect(await desc.proposalIds()).toEqual([proposal3.id, proposal1.id, proposal2.id]);
+
+    const asc = new ProposalSearchBuilder(
+      event.id,
+      owner.id,
+      { sort: 'comparisons', order: 'asc' },
+      { withSpeakers: false, withReviews: false },
+    );
+    expect(await asc.proposalIds()).toEqual([proposal1.id, proposal3.id, proposal2.id]);
+  });
+});
+
+describe('ProposalSearchBuilder full-text search', () => {
+  let owner: User;
+  let speaker: User;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    speaker = await userFactory({ attributes: { bio: 'Maintainer of observability tools' } });
+    const team = await teamFactory({ owners: [owner] });
+    event = await eventFactory({ team });
+  });
+
+  const createProposal = async (attributes: { title: string; abstract: string; languages?: Array<string> }) => {
+    const talk = await talkFactory({ speakers: [speaker], attributes });
+    return proposalFactory({ event, talk });
+  };
+
+  it('stems search words with the language of the proposals', async () => {
+    const english = await createProposal({ title: 'Running servers', abstract: 'In production.', languages: ['en'] });
+    const french = await createProposal({ title: 'Développeurs heureux', abstract: 'Bonheur.', languages: ['fr'] });
+
+    const englishResults = await new ProposalSearchBuilder(event.id, owner.id, { query: 'runs' }).proposals();
+    expect(englishResults.map((proposal) => proposal.id)).toEqual([english.id]);
+
+    const frenchResults = await new ProposalSearchBuilder(event.id, owner.id, { query: 'développeur' }).proposals();
+    expect(frenchResults.map((proposal) => proposal.id)).toEqual([french.id]);
+  });
+
+  it('matches words in the abstract and the speaker bios', async () => {
+    const proposal = await createProposal({ title: 'Metrics', abstract: 'Dashboards for the kubernetes clusters.' });
+
+    const abstractResults = await new ProposalSearchBuilder(event.id, owner.id, { query: 'kubernetes' }).proposals();
+    expect(abstractResults.map((result) => result.id)).toEqual([proposal.id]);
+
+    const bioResults = await new ProposalSearchBuilder(event.id, owner.id, { query: 'observability' }).proposals();
+    expect(bioResults.map((result) => result.id)).toEqual([proposal.id]);
+  });
+
+  it('ranks results by relevance when no sort is given', async () => {
+    const inTitle = await createProposal({ title: 'Kubernetes at scale', abstract: 'Clusters everywhere.' });
+    const inAbstract = await createProposal({ title: 'Deployments', abstract: 'We also talk about kubernetes.' });
+
+    const ranked = await new ProposalSearchBuilder(event.id, owner.id, { query: 'kubernetes' }).proposals();
+    expect(ranked.map((proposal) => proposal.id)).toEqual([inTitle.id, inAbstract.id]);
+
+    const sorted = await new ProposalSearchBuilder(event.id, owner.id, {
+      query: 'kubernetes',
+      sort: 'date',
+      order: 'desc',
+    }).proposals();
+    expect(sorted.map((proposal) => proposal.id)).toEqual([inAbstract.id, inTitle.id]);
+  });
+
+  it('returns highlighted title and abstract snippets', async () => {
+    await createProposal({ title: 'Kubernetes at scale', abstract: 'Running many kubernetes clusters.' });
+
+    const [result] = await new ProposalSearchBuilder(event.id, owner.id, { query: 'kube' }).proposals();
+
+    expect(result.highlights).toEqual({
+      title: [
+        { text: 'Kubernetes', highlighted: true },
+        { text: ' at scale', highlighted: false },
+      ],
+      abstract: [
+        { text: 'Running many ', highlighted: false },
+        { text: 'kubernetes', highlighted: true },
+        { text: ' clusters', highlighted: false },
+      ],
+    });
+  });
+
+  it('does not return highlights without text search', async () => {
+    await createProposal({ title: 'Kubernetes at scale', abstract: 'Running many kubernetes clusters.' });
+
+    const [result] = await new ProposalSearchBuilder(event.id, owner.id, {}).proposals();
+
+    expect(result.highlights).toEqual({ title: null, abstract: null });
+  });
+});
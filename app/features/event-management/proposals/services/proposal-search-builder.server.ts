@@ -1,4 +1,12 @@
 import type { Pagination } from '~/shared/pagination/pagination.ts';
+import {
+  fullTextQuery,
+  headline,
+  parseHeadline,
+  proposalSearchConfig,
+  proposalSearchVector,
+  speakerSearchVector,
+} from '~/shared/search/full-text-search.server.ts';
 import type { Languages } from '~/shared/types/proposals.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import {
@@ -9,14 +17,24 @@ import {
   ReviewFeeling,
   TalkLevel,
 } from '../../../../../prisma/generated/client.ts';
+import type { SearchQualifier } from '../models/proposal-search-query.ts';
+import { parseSearchQuery } from '../models/proposal-search-query.ts';
+import { possibleDuplicateCondition } from './proposal-duplicates.server.ts';
 import type {
   ConfirmationFilter,
   StatusFilter,
   ProposalsFilters,
   ReviewsFilter,
 } from './proposal-search-builder.schema.server.ts';
-
-type SearchOptions = { withSpeakers: boolean; withReviews: boolean; withMessages?: boolean };
+import { reviewConflictCondition } from './review-conflicts.server.ts';
+
+type SearchOptions = {
+  withSpeakers: boolean;
+  withReviews: boolean;
+  withMessages?: boolean;
+  withNormalizedReviews?: boolean;
+  hideConflicts?: boolean;
+};
 
 type QueryParseResult =
   | { type: 'proposal-number'; number: number }
@@ -38,12 +56,17 @@ type ProposalRow = {
   archivedAt: Date | null;
   submittedAt: Date;
   avgRating: number | null;
+  normalizedRating: number | null;
   positiveCount: number;
   negativeCount: number;
   userReviewNote: number | null;
   userReviewFeeling: ReviewFeeling | null;
   commentCount: number;
   hasNewMessages: boolean;
+  assignedToMe: boolean;
+  changedSinceReview: boolean;
+  titleHighlight: string | null;
+  abstractHighlight: string | null;
 };
 
 type StatisticsRow = { total: bigint; reviewed: bigint };
@@ -75,6 +98,23 @@ export class ProposalSearchBuilder {
     return { total: Number(row.total), reviewed: Number(row.reviewed) };
   }
 
+  // Counts the proposals matching each search of the event in a single query
+  static async countAll(eventId: string, searches: Array<ProposalSearchBuilder>) {
+    if (searches.length === 0) return [];
+
+    const counts = searches.map(
+      (search) => Prisma.sql`COUNT(*) FILTER (WHERE ${Prisma.join(search.buildWhereConditions(), ' AND ')})::INTEGER`,
+    );
+    const rows = await db.$queryRaw<Array<{ counts: Array<number> }>>(
+      Prisma.sql`
+        SELECT ARRAY[${Prisma.join(counts)}] AS counts
+        FROM proposals p
+        WHERE p."eventId" = ${eventId}
+      `,
+    );
+    return rows[0].counts;
+  }
+
   async proposalsByPage(pagination: Pagination) {
     const rows = await this.executeMainQuery(pagination);
     if (rows.length === 0) return [];
@@ -144,8 +184,10 @@ export class ProposalSearchBuilder {
 
     const needsReviewAgg = this.options.withReviews || this.filters.sort === 'reviews';
     const needsUserReview = this.options.withReviews || this.filters.sort === 'my-review';
+    const needsNormalizedReview = this.options.withNormalizedReviews || this.filters.sort === 'normalized';
     const reviewAggJoin = needsReviewAgg ? this.buildReviewAggJoin() : Prisma.empty;
     const userReviewJoin = needsUserReview ? this.buildUserReviewJoin() : Prisma.empty;
+    const normalizedReviewJoin = needsNormalizedReview ? this.buildNormalizedReviewJoin() : Prisma.empty;
     const commentCountJoin = this.buildCommentCountJoin();
     const newMessagesJoin = this.options.withMessages ? this.buildNewMessagesJoin() : Prisma.empty;
     const reviewSelect = this.buildReviewSelectColumns();
@@ -171,11 +213,16 @@ export class ProposalSearchBuilder {
           p."archivedAt",
           p."submittedAt",
           ${reviewSelect},
+          ${this.options.withNormalizedReviews ? Prisma.sql`normalized_review.rating` : Prisma.sql`NULL::DOUBLE PRECISION`} AS "normalizedRating",
           COALESCE(comment_count.count, 0)::INTEGER AS "commentCount",
-          ${this.options.withMessages ? Prisma.sql`COALESCE(new_messages.has_new, false)` : Prisma.sql`false`} AS "hasNewMessages"
+          ${this.options.withMessages ? Prisma.sql`COALESCE(new_messages.has_new, false)` : Prisma.sql`false`} AS "hasNewMessages",
+          ${this.buildAssignedToMeExpression()} AS "assignedToMe",
+          ${this.buildChangedSinceReviewExpression()} AS "changedSinceReview",
+          ${this.buildHighlightSelectColumns()}
         FROM proposals p
         ${reviewAggJoin}
         ${userReviewJoin}
+        ${normalizedReviewJoin}
         ${commentCountJoin}
         ${newMessagesJoin}
         WHERE ${Prisma.join(conditions, ' AND ')}
@@ -186,7 +233,8 @@ export class ProposalSearchBuilder {
   }
 
   private buildWhereConditions(): Prisma.Sql[] {
-    const { query, reviews, formats, categories, tags, speakers, status, confirmation } = this.filters;
+    const { query, reviews, formats, categories, tags, speakers, levels, languages, status, confirmation } =
+      this.filters;
     const conditions: Prisma.Sql[] = [];
 
     conditions.push(Prisma.sql`p."eventId" = ${this.eventId}`);
@@ -204,9 +252,16 @@ export class ProposalSearchBuilder {
     const confirmationCondition = this.buildConfirmationCondition(confirmation);
     if (confirmationCondition) conditions.push(confirmationCondition);
 
-    const searchCondition = this.buildSearchCondition(query);
+    const { text, qualifiers } = parseSearchQuery(query);
+    const searchCondition = this.buildSearchCondition(text);
     if (searchCondition) conditions.push(searchCondition);
 
+    for (const qualifier of qualifiers) {
+      const qualifierCondition = this.buildQualifierCondition(qualifier);
+      if (!qualifierCondition) continue;
+      conditions.push(qualifier.negated ? Prisma.sql`NOT COALESCE(${qualifierCondition}, false)` : qualifierCondition);
+    }
+
     if (formats) {
       conditions.push(
         Prisma.sql`EXISTS (SELECT 1 FROM "_proposals_formats" pf WHERE pf."B" = p.id AND pf."A" = ${formats})`,
@@ -228,12 +283,31 @@ export class ProposalSearchBuilder {
       );
     }
 
+    if (levels && levels.length > 0) {
+      conditions.push(Prisma.sql`p.level::text = ANY(${levels})`);
+    }
+    if (languages && languages.length > 0) {
+      conditions.push(Prisma.sql`p.languages ?| ${languages}::text[]`);
+    }
+
     const reviewCondition = this.buildReviewFilterCondition(reviews);
     if (reviewCondition) conditions.push(reviewCondition);
 
     const messagesCondition = this.buildMessagesCondition();
     if (messagesCondition) conditions.push(messagesCondition);
 
+    if (this.filters.assigned === 'me') {
+      conditions.push(this.buildAssignedToMeExpression());
+    }
+
+    if (this.filters.duplicates === 'possible') {
+      conditions.push(possibleDuplicateCondition(Prisma.sql`p.id`));
+    }
+
+    if (this.options.hideConflicts) {
+      conditions.push(Prisma.sql`NOT ${reviewConflictCondition(this.userId, Prisma.sql`p.id`)}`);
+    }
+
     return conditions;
   }
 
@@ -245,6 +319,8 @@ export class ProposalSearchBuilder {
         return Prisma.sql`p."deliberationStatus" = 'ACCEPTED'`;
       case 'rejected':
         return Prisma.sql`p."deliberationStatus" = 'REJECTED'`;
+      case 'waitlisted':
+        return Prisma.sql`p."deliberationStatus" = 'WAITLISTED'`;
       default:
         return null;
     }
@@ -289,7 +365,20 @@ export class ProposalSearchBuilder {
     )`;
   }
 
-  private parseSearchQuery(query?: string): QueryParseResult {
+  private buildAssignedToMeExpression(): Prisma.Sql {
+    return Prisma.sql`EXISTS (SELECT 1 FROM review_assignments ra WHERE ra."proposalId" = p.id AND ra."userId" = ${this.userId})`;
+  }
+
+  private buildChangedSinceReviewExpression(): Prisma.Sql {
+    return Prisma.sql`EXISTS (
+      SELECT 1
+      FROM proposal_revisions pr
+      INNER JOIN reviews ur ON ur."proposalId" = pr."proposalId" AND ur."userId" = ${this.userId}
+      WHERE pr."proposalId" = p.id AND pr."createdAt" > ur."updatedAt"
+    )`;
+  }
+
+  private parseTextQuery(query?: string): QueryParseResult {
     const trimmedQuery = query?.trim();
     if (!trimmedQuery) return { type: 'empty' };
 
@@ -301,31 +390,117 @@ export class ProposalSearchBuilder {
   }
 
   private buildSearchCondition(query?: string): Prisma.Sql | null {
-    const parsed = this.parseSearchQuery(query);
+    const parsed = this.parseTextQuery(query);
     if (parsed.type === 'empty') return null;
 
-    const searchValue = parsed.type === 'proposal-number' ? String(parsed.number) : parsed.query;
-    const escapedValue = searchValue.replace(/[%_\\]/g, '\\$&');
     const clauses: Prisma.Sql[] = [];
 
     if (parsed.type === 'proposal-number') {
       clauses.push(Prisma.sql`p."proposalNumber" = ${parsed.number}`);
     }
-    clauses.push(Prisma.sql`p.title ILIKE ${'%' + escapedValue + '%'}`);
 
-    if (this.options.withSpeakers) {
-      clauses.push(
-        Prisma.sql`EXISTS (
-          SELECT 1 FROM "_proposals_speakers" ps
-          JOIN event_speakers es ON es.id = ps."A"
-          WHERE ps."B" = p.id AND es."eventId" = ${this.eventId} AND es.name ILIKE ${'%' + escapedValue + '%'}
-        )`,
-      );
+    const textQuery = fullTextQuery(parsed.type === 'proposal-number' ? String(parsed.number) : parsed.query);
+    if (textQuery) {
+      clauses.push(Prisma.sql`${proposalSearchVector} @@ ${textQuery}`);
+
+      if (this.options.withSpeakers) {
+        clauses.push(
+          Prisma.sql`EXISTS (
+            SELECT 1 FROM "_proposals_speakers" ps
+            JOIN event_speakers es ON es.id = ps."A"
+            WHERE ps."B" = p.id AND es."eventId" = ${this.eventId} AND ${speakerSearchVector} @@ ${textQuery}
+          )`,
+        );
+      }
     }
 
+    if (clauses.length === 0) return null;
     return Prisma.sql`(${Prisma.join(clauses, ' OR ')})`;
   }
 
+  // Full-text query on the free text of the search, qualifiers excluded
+  private buildFullTextQuery(): Prisma.Sql | null {
+    const { text } = parseSearchQuery(this.filters.query);
+    return fullTextQuery(text);
+  }
+
+  private buildSearchRank(textQuery: Prisma.Sql): Prisma.Sql {
+    if (!this.options.withSpeakers) return Prisma.sql`ts_rank(${proposalSearchVector}, ${textQuery})`;
+
+    return Prisma.sql`(
+      ts_rank(${proposalSearchVector}, ${textQuery}) + COALESCE((
+        SELECT MAX(ts_rank(${speakerSearchVector}, ${textQuery}))
+        FROM "_proposals_speakers" ps
+        JOIN event_speakers es ON es.id = ps."A"
+        WHERE ps."B" = p.id
+      ), 0)
+    )`;
+  }
+
+  private buildHighlightSelectColumns(): Prisma.Sql {
+    const textQuery = this.buildFullTextQuery();
+    if (!textQuery) return Prisma.sql`NULL::TEXT AS "titleHighlight", NULL::TEXT AS "abstractHighlight"`;
+
+    const title = headline({ config: proposalSearchConfig, document: Prisma.sql`p.title`, query: textQuery });
+    const abstract = headline({
+      config: proposalSearchConfig,
+      document: Prisma.sql`p.abstract`,
+      query: textQuery,
+      fragments: true,
+    });
+    return Prisma.sql`${title} AS "titleHighlight", ${abstract} AS "abstractHighlight"`;
+  }
+
+  // Qualifiers of the search query (e.g. `tag:keynote`) are matched by name instead of the ids used by the filter menus
+  private buildQualifierCondition(qualifier: SearchQualifier): Prisma.Sql | null {
+    switch (qualifier.key) {
+      case 'speaker':
+        // Speakers are hidden when blind review is enabled, so they can't be searched either
+        if (!this.options.withSpeakers) return null;
+        return Prisma.sql`EXISTS (
+          SELECT 1 FROM "_proposals_speakers" ps
+          JOIN event_speakers es ON es.id = ps."A"
+          WHERE ps."B" = p.id AND es.name ILIKE ${'%' + escapeLike(qualifier.value) + '%'}
+        )`;
+      case 'tag':
+        return Prisma.sql`EXISTS (
+          SELECT 1 FROM "_proposal_to_event_proposal_tags" pt
+          JOIN event_proposal_tags t ON t.id = pt."A"
+          WHERE pt."B" = p.id AND t.name ILIKE ${escapeLike(qualifier.value)}
+        )`;
+      case 'category':
+        return Prisma.sql`EXISTS (
+          SELECT 1 FROM "_proposals_categories" pc
+          JOIN event_categories c ON c.id = pc."A"
+          WHERE pc."B" = p.id AND c.name ILIKE ${escapeLike(qualifier.value)}
+        )`;
+      case 'format':
+        return Prisma.sql`EXISTS (
+          SELECT 1 FROM "_proposals_formats" pf
+          JOIN event_formats f ON f.id = pf."A"
+          WHERE pf."B" = p.id AND f.name ILIKE ${escapeLike(qualifier.value)}
+        )`;
+      case 'lang':
+        return Prisma.sql`p.languages @> ${JSON.stringify([qualifier.value.toLowerCase()])}::jsonb`;
+      case 'level':
+        return Prisma.sql`p.level = ${qualifier.value}::"TalkLevel"`;
+      case 'status':
+        return this.buildStatusCondition(qualifier.value);
+      case 'confirmation':
+        return this.buildConfirmationCondition(qualifier.value);
+      case 'reviews':
+        if (!this.options.withReviews) return null;
+        return Prisma.sql`(
+          SELECT AVG(r.note) FILTER (WHERE r.feeling != 'NO_OPINION')
+          FROM reviews r
+          WHERE r."proposalId" = p.id AND r."dismissedAt" IS NULL
+            AND NOT ${reviewConflictCondition(Prisma.sql`r."userId"`, Prisma.sql`p.id`)}
+        ) ${Prisma.raw(qualifier.comparator)} ${qualifier.value}`;
+      case 'submitted':
+        return Prisma.sql`p."submittedAt"::date ${Prisma.raw(qualifier.comparator)} ${qualifier.value}::date`;
+    }
+  }
+
   private buildReviewFilterCondition(reviews?: ReviewsFilter): Prisma.Sql | null {
     if (!reviews || reviews.length === 0) return null;
 
@@ -349,7 +524,7 @@ export class ProposalSearchBuilder {
       case 'neutral-4':
       case 'neutral-5': {
         const note = Number(review.split('-')[1]);
-        return Prisma.sql`EXISTS (SELECT 1 FROM reviews r WHERE r."proposalId" = p.id AND r."userId" = ${this.userId} AND r."dismissedAt" IS NULL AND r.feeling = 'NEUTRAL' AND r.note = ${note})`;
+        return Prisma.sql`EXISTS (SELECT 1 FROM reviews r WHERE r."proposalId" = p.id AND r."userId" = ${this.userId} AND r."dismissedAt" IS NULL AND r.feeling = 'NEUTRAL' AND ROUND(r.note) = ${note})`;
       }
       case 'positive':
         return Prisma.sql`EXISTS (SELECT 1 FROM reviews r WHERE r."proposalId" = p.id AND r."userId" = ${this.userId} AND r."dismissedAt" IS NULL AND r.feeling = 'POSITIVE')`;
@@ -369,10 +544,22 @@ export class ProposalSearchBuilder {
         return order === 'asc'
           ? Prisma.sql`review_agg.positive_count ASC NULLS LAST, review_agg.avg_rating ASC NULLS LAST, p.title ASC`
           : Prisma.sql`review_agg.positive_count DESC NULLS LAST, review_agg.avg_rating DESC NULLS LAST, p.title ASC`;
+      case 'normalized':
+        return order === 'asc'
+          ? Prisma.sql`normalized_review.rating ASC NULLS LAST, p.title ASC`
+          : Prisma.sql`normalized_review.rating DESC NULLS LAST, p.title ASC`;
+      case 'comparisons':
+        return order === 'asc'
+          ? Prisma.sql`p."comparisonRating" ASC NULLS LAST, p.title ASC`
+          : Prisma.sql`p."comparisonRating" DESC NULLS LAST, p.title ASC`;
       case 'comments':
         return order === 'asc'
           ? Prisma.sql`comment_count.count ASC, p.title ASC`
           : Prisma.sql`comment_count.count DESC, p.title ASC`;
+      case 'assigned':
+        return order === 'asc'
+          ? Prisma.sql`${this.buildAssignedToMeExpression()} ASC, p."submittedAt" DESC, p.title ASC`
+          : Prisma.sql`${this.buildAssignedToMeExpression()} DESC, p."submittedAt" DESC, p.title ASC`;
       case 'my-review':
         return order === 'asc'
           ? Prisma.sql`
@@ -395,10 +582,15 @@ export class ProposalSearchBuilder {
               END DESC,
               COALESCE(user_review.note, -1) DESC,
               p.title ASC`;
-      default:
+      default: {
+        // Without explicit sort, text searches are ranked by relevance
+        const textQuery = this.filters.sort ? null : this.buildFullTextQuery();
+        if (textQuery) return Prisma.sql`${this.buildSearchRank(textQuery)} DESC, p."submittedAt" DESC, p.title ASC`;
+
         return order === 'asc'
           ? Prisma.sql`p."submittedAt" ASC, p.title ASC`
           : Prisma.sql`p."submittedAt" DESC, p.title ASC`;
+      }
     }
   }
 
@@ -411,10 +603,46 @@ export class ProposalSearchBuilder {
           COUNT(*) FILTER (WHERE feeling = 'NEGATIVE') AS negative_count
         FROM reviews
         WHERE "proposalId" = p.id AND "dismissedAt" IS NULL
+          AND NOT ${reviewConflictCondition(Prisma.sql`reviews."userId"`, Prisma.sql`p.id`)}
       ) review_agg ON true
     `;
   }
 
+  // Each reviewer's notes are turned into z-scores within the event, then brought back to the note scale
+  // with the event mean and deviation, so lenient and strict reviewers weigh the same in the ranking.
+  // Reviewers whose notes do not vary get the event mean.
+  private buildNormalizedReviewJoin(): Prisma.Sql {
+    const eventReviews = Prisma.sql`
+      SELECT r."userId", r."proposalId", r.note
+      FROM reviews r
+      INNER JOIN proposals rp ON rp.id = r."proposalId"
+      WHERE rp."eventId" = ${this.eventId} AND rp."isDraft" IS FALSE
+        AND r."dismissedAt" IS NULL AND r.note IS NOT NULL AND r.feeling != 'NO_OPINION'
+        AND NOT ${reviewConflictCondition(Prisma.sql`r."userId"`, Prisma.sql`r."proposalId"`)}
+    `;
+
+    return Prisma.sql`
+      LEFT JOIN (
+        SELECT
+          er."proposalId",
+          AVG(
+            event_stats.mean + COALESCE((er.note - reviewer_stats.mean) / NULLIF(reviewer_stats.stddev, 0), 0) * event_stats.stddev
+          )::DOUBLE PRECISION AS rating
+        FROM (${eventReviews}) er
+        INNER JOIN (
+          SELECT "userId", AVG(note) AS mean, STDDEV_POP(note) AS stddev
+          FROM (${eventReviews}) ur
+          GROUP BY "userId"
+        ) reviewer_stats ON reviewer_stats."userId" = er."userId"
+        CROSS JOIN (
+          SELECT AVG(note) AS mean, COALESCE(STDDEV_POP(note), 0) AS stddev
+          FROM (${eventReviews}) ar
+        ) event_stats
+        GROUP BY er."proposalId"
+      ) normalized_review ON normalized_review."proposalId" = p.id
+    `;
+  }
+
   private buildUserReviewJoin(): Prisma.Sql {
     return Prisma.sql`
       LEFT JOIN reviews user_review
@@ -473,6 +701,9 @@ export class ProposalSearchBuilder {
     if (sort === 'my-review') {
       parts.push(this.buildUserReviewJoin());
     }
+    if (sort === 'normalized') {
+      parts.push(this.buildNormalizedReviewJoin());
+    }
 
     if (parts.length === 0) return Prisma.empty;
     return Prisma.join(parts, ' ');
@@ -492,7 +723,7 @@ export class ProposalSearchBuilder {
       NULL::DOUBLE PRECISION AS "avgRating",
       0::INTEGER AS "positiveCount",
       0::INTEGER AS "negativeCount",
-      NULL::INTEGER AS "userReviewNote",
+      NULL::DOUBLE PRECISION AS "userReviewNote",
       NULL::TEXT AS "userReviewFeeling"
     `;
   }
@@ -564,8 +795,16 @@ export class ProposalSearchBuilder {
           ? { note: row.userReviewNote, feeling: row.userReviewFeeling }
           : { note: null, feeling: null },
       },
+      normalizedReview: this.options.withNormalizedReviews ? row.normalizedRating : undefined,
       commentCount: row.commentCount,
       hasNewMessages: row.hasNewMessages,
+      assignedToMe: row.assignedToMe,
+      changedSinceReview: row.changedSinceReview,
+      highlights: { title: parseHeadline(row.titleHighlight), abstract: parseHeadline(row.abstractHighlight) },
     };
   }
 }
+
+function escapeLike(value: string) {
+  return value.replace(/[%_\\]/g, '\\$&');
+}
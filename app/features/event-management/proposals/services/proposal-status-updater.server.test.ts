@@ -1,8 +1,10 @@
 import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
 import { proposalFactory } from 'tests/factories/proposals.ts';
 import { talkFactory } from 'tests/factories/talks.ts';
 import { teamFactory } from 'tests/factories/team.ts';
 import { userFactory } from 'tests/factories/users.ts';
+import { promoteWaitlistedProposal } from '~/features/event-management/publication/services/jobs/promote-waitlisted-proposal.job.ts';
 import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
 import { ForbiddenOperationError } from '~/shared/errors.server.ts';
 import { db } from '../../../../../prisma/db.server.ts';
@@ -44,6 +46,35 @@ describe('ProposalStatusUpdater', () => {
       expect(updated2?.deliberationStatus).toBe('ACCEPTED');
     });
 
+    it('records the status changes in the proposal audit trail', async () => {
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['accepted-published'],
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalStatusUpdater.for(authorizedEvent).update([proposal.id], { deliberationStatus: 'REJECTED' });
+
+      const logs = await db.proposalAuditLog.findMany({ where: { proposalId: proposal.id } });
+      expect(logs).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            userId: owner.id,
+            action: 'DELIBERATION_STATUS_CHANGED',
+            before: 'ACCEPTED',
+            after: 'REJECTED',
+          }),
+          expect.objectContaining({
+            action: 'PUBLICATION_STATUS_CHANGED',
+            before: 'PUBLISHED',
+            after: 'NOT_PUBLISHED',
+          }),
+        ]),
+      );
+    });
+
     it('resets the publication status when deliberation status changed to ACCEPTED/REJECTED', async () => {
       const proposal1 = await proposalFactory({
         event,
@@ -306,6 +337,107 @@ describe('ProposalStatusUpdater', () => {
       const updated = await db.proposal.findUnique({ where: { id: proposal.id } });
       expect(updated?.confirmationStatus).toBe(null);
     });
+
+    it('appends waitlisted proposals at the end of the waitlist of their formats', async () => {
+      const quickie = await eventFormatFactory({ event });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['waitlisted'],
+        attributes: { waitlistPositions: { create: [{ position: 3 }] } },
+      });
+      const proposal1 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['accepted-published'],
+      });
+      const proposal2 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const proposal3 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [quickie],
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const proposalStatus = ProposalStatusUpdater.for(authorizedEvent);
+      const result = await proposalStatus.update([proposal2.id, proposal1.id, proposal3.id], {
+        deliberationStatus: 'WAITLISTED',
+      });
+
+      expect(result).toBe(3);
+      const updated1 = await db.proposal.findUnique({ where: { id: proposal1.id } });
+      expect(updated1).toEqual(
+        expect.objectContaining({
+          deliberationStatus: 'WAITLISTED',
+          publicationStatus: 'NOT_PUBLISHED',
+          confirmationStatus: null,
+        }),
+      );
+      const positions = await db.proposalWaitlistPosition.findMany({
+        where: { proposalId: { in: [proposal1.id, proposal2.id, proposal3.id] } },
+        orderBy: { position: 'asc' },
+      });
+      expect(positions.map(({ proposalId, formatId, position }) => [proposalId, formatId, position])).toEqual([
+        [proposal3.id, quickie.id, 1],
+        [proposal2.id, null, 4],
+        [proposal1.id, null, 5],
+      ]);
+    });
+
+    it('removes the proposal from the waitlist when its deliberation status changes', async () => {
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['waitlisted'],
+        attributes: { waitlistPositions: { create: [{ position: 1 }] } },
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalStatusUpdater.for(authorizedEvent).update([proposal.id], { deliberationStatus: 'ACCEPTED' });
+
+      const updated = await db.proposal.findUnique({ where: { id: proposal.id } });
+      expect(updated?.deliberationStatus).toBe('ACCEPTED');
+      expect(await db.proposalWaitlistPosition.count({ where: { proposalId: proposal.id } })).toBe(0);
+    });
+
+    it('triggers the waitlist promotion for newly declined proposals when automatic promotion is enabled', async () => {
+      await db.event.update({ where: { id: event.id }, data: { waitlistAutoPromotion: true } });
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['accepted-published'],
+      });
+      const alreadyDeclined = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['declined'],
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalStatusUpdater.for(authorizedEvent).update([proposal.id, alreadyDeclined.id], {
+        confirmationStatus: 'DECLINED',
+      });
+
+      expect(promoteWaitlistedProposal.trigger).toHaveBeenCalledTimes(1);
+      expect(promoteWaitlistedProposal.trigger).toHaveBeenCalledWith({ declinedProposalId: proposal.id });
+    });
+
+    it('does not trigger the waitlist promotion when automatic promotion is disabled', async () => {
+      const proposal = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['accepted-published'],
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await ProposalStatusUpdater.for(authorizedEvent).update([proposal.id], { confirmationStatus: 'DECLINED' });
+
+      expect(promoteWaitlistedProposal.trigger).not.toHaveBeenCalled();
+    });
   });
 
   describe('#archive', () => {
@@ -326,6 +458,9 @@ describe('ProposalStatusUpdater', () => {
 
       const updated2 = proposals.find((p) => p.id === proposal2.id);
       expect(updated2?.archivedAt).not.toBe(null);
+
+      const logs = await db.proposalAuditLog.findMany({ where: { action: 'PROPOSAL_ARCHIVED' } });
+      expect(logs).toHaveLength(2);
     });
 
     it('does not archive already archived proposals', async () => {
@@ -1,18 +1,20 @@
 import { z } from 'zod';
+import { promoteWaitlistedProposal } from '~/features/event-management/publication/services/jobs/promote-waitlisted-proposal.job.ts';
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { ForbiddenOperationError } from '~/shared/errors.server.ts';
 import type { DeliberationStatus } from '~/shared/types/proposals.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
+import { ProposalAuditLogs } from './proposal-audit-logs.server.ts';
 import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
 import { ProposalSearchBuilder } from './proposal-search-builder.server.ts';
 
 export const ProposalStatusSchema = z.object({
-  deliberationStatus: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']).optional(),
+  deliberationStatus: z.enum(['PENDING', 'ACCEPTED', 'REJECTED', 'WAITLISTED']).optional(),
   confirmationStatus: z.enum(['PENDING', 'CONFIRMED', 'DECLINED']).optional(),
 });
 
 export const ProposalStatusBulkSchema = z.object({
-  deliberationStatus: z.enum(['PENDING', 'ACCEPTED', 'REJECTED']),
+  deliberationStatus: z.enum(['PENDING', 'ACCEPTED', 'REJECTED', 'WAITLISTED']),
   selection: z.array(z.string()),
   allPagesSelected: z.stringbool().default(false),
 });
@@ -26,23 +28,45 @@ export class ProposalStatusUpdater {
     return new ProposalStatusUpdater(authorizedEvent);
   }
 
-  async update(proposalIds: string[], { confirmationStatus, deliberationStatus }: ProposalStatus) {
-    const { permissions } = this.authorizedEvent;
+  async update(proposalIds: string[], status: ProposalStatus) {
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canChangeProposalStatus) throw new ForbiddenOperationError();
 
+    return ProposalAuditLogs.track(event.id, userId, proposalIds, () => this.updateStatus(proposalIds, status));
+  }
+
+  private async updateStatus(proposalIds: string[], { confirmationStatus, deliberationStatus }: ProposalStatus) {
     if (confirmationStatus) {
-      const result = await db.proposal.updateMany({
-        where: { id: { in: proposalIds }, archivedAt: null },
-        data: { deliberationStatus: 'ACCEPTED', publicationStatus: 'PUBLISHED', confirmationStatus },
-      });
+      const declinedIds = confirmationStatus === 'DECLINED' ? await this.findNotDeclined(proposalIds) : [];
+
+      const [result] = await db.$transaction([
+        db.proposal.updateMany({
+          where: { id: { in: proposalIds }, archivedAt: null },
+          data: { deliberationStatus: 'ACCEPTED', publicationStatus: 'PUBLISHED', confirmationStatus },
+        }),
+        this.clearWaitlistPositions(proposalIds),
+      ]);
+
+      if (this.authorizedEvent.event.waitlistAutoPromotion) {
+        for (const declinedProposalId of declinedIds) {
+          await promoteWaitlistedProposal.trigger({ declinedProposalId });
+        }
+      }
       return result.count;
     }
 
+    if (deliberationStatus === 'WAITLISTED') {
+      return this.waitlist(proposalIds);
+    }
+
     if (deliberationStatus) {
-      const result = await db.proposal.updateMany({
-        where: { id: { in: proposalIds }, deliberationStatus: { not: deliberationStatus }, archivedAt: null },
-        data: { deliberationStatus, publicationStatus: 'NOT_PUBLISHED', confirmationStatus: null },
-      });
+      const [result] = await db.$transaction([
+        db.proposal.updateMany({
+          where: { id: { in: proposalIds }, deliberationStatus: { not: deliberationStatus }, archivedAt: null },
+          data: { deliberationStatus, publicationStatus: 'NOT_PUBLISHED', confirmationStatus: null },
+        }),
+        this.clearWaitlistPositions(proposalIds),
+      ]);
       return result.count;
     }
 
@@ -53,31 +77,110 @@ export class ProposalStatusUpdater {
     const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canChangeProposalStatus) throw new ForbiddenOperationError();
 
-    const search = new ProposalSearchBuilder(event.id, userId, filters);
+    const search = new ProposalSearchBuilder(event.id, userId, filters, {
+      withSpeakers: true,
+      withReviews: true,
+      hideConflicts: true,
+    });
     const proposalIds = await search.proposalIds();
 
     return this.update(proposalIds, { deliberationStatus });
   }
 
+  // Waitlisted proposals are appended at the end of the waitlist of each of their formats, in the given order
+  private async waitlist(proposalIds: string[]) {
+    const { event } = this.authorizedEvent;
+
+    return db.$transaction(async (trx) => {
+      const proposals = await trx.proposal.findMany({
+        where: {
+          id: { in: proposalIds },
+          eventId: event.id,
+          deliberationStatus: { not: 'WAITLISTED' },
+          archivedAt: null,
+        },
+        include: { formats: true },
+      });
+
+      const positions = new Map<string | null, number>();
+      const nextPosition = async (formatId: string | null) => {
+        let position = positions.get(formatId);
+        if (position === undefined) {
+          const last = await trx.proposalWaitlistPosition.aggregate({
+            where: { formatId, proposal: { eventId: event.id, deliberationStatus: 'WAITLISTED' } },
+            _max: { position: true },
+          });
+          position = last._max.position ?? 0;
+        }
+        positions.set(formatId, position + 1);
+        return position + 1;
+      };
+
+      const waitlisted = proposalIds.flatMap((id) => proposals.find((proposal) => proposal.id === id) ?? []);
+      for (const proposal of waitlisted) {
+        const formatIds = proposal.formats.length > 0 ? proposal.formats.map((format) => format.id) : [null];
+
+        const waitlistPositions = [];
+        for (const formatId of formatIds) {
+          waitlistPositions.push({ formatId, position: await nextPosition(formatId) });
+        }
+
+        await trx.proposal.update({
+          where: { id: proposal.id },
+          data: {
+            deliberationStatus: 'WAITLISTED',
+            publicationStatus: 'NOT_PUBLISHED',
+            confirmationStatus: null,
+            waitlistPositions: { deleteMany: {}, create: waitlistPositions },
+          },
+        });
+      }
+      return waitlisted.length;
+    });
+  }
+
+  // Proposals leaving the waitlist lose their positions in it
+  private clearWaitlistPositions(proposalIds: string[]) {
+    return db.proposalWaitlistPosition.deleteMany({
+      where: { proposalId: { in: proposalIds }, proposal: { deliberationStatus: { not: 'WAITLISTED' } } },
+    });
+  }
+
+  private async findNotDeclined(proposalIds: string[]) {
+    const proposals = await db.proposal.findMany({
+      where: {
+        id: { in: proposalIds },
+        archivedAt: null,
+        OR: [{ confirmationStatus: null }, { confirmationStatus: { not: 'DECLINED' } }],
+      },
+      select: { id: true },
+    });
+    return proposals.map(({ id }) => id);
+  }
+
   async archive(proposalIds: string[]) {
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canChangeProposalStatus) throw new ForbiddenOperationError();
 
-    const result = await db.proposal.updateMany({
-      where: { id: { in: proposalIds }, eventId: event.id, archivedAt: null },
-      data: { archivedAt: new Date() },
-    });
+    const result = await ProposalAuditLogs.track(event.id, userId, proposalIds, () =>
+      db.proposal.updateMany({
+        where: { id: { in: proposalIds }, eventId: event.id, archivedAt: null },
+        data: { archivedAt: new Date() },
+      }),
+    );
     return result.count;
   }
 
   async restore(proposalIds: string[]) {
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canChangeProposalStatus) throw new ForbiddenOperationError();
 
-    const result = await db.proposal.updateMany({
-      where: { id: { in: proposalIds }, eventId: event.id, archivedAt: { not: null } },
-      data: { archivedAt: null },
-    });
+    const result = await ProposalAuditLogs.track(event.id, userId, proposalIds, () =>
+      db.proposal.updateMany({
+        where: { id: { in: proposalIds }, eventId: event.id, archivedAt: { not: null } },
+        data: { archivedAt: null },
+      }),
+    );
     return result.count;
   }
 }
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const ReviewAssignmentsSaveSchema = z.object({
+  reviewers: z.array(z.string()).default([]),
+});
+
+export type ReviewAssignmentsSaveData = z.infer<typeof ReviewAssignmentsSaveSchema>;
+
+export const ReviewDistributionSchema = z.object({
+  reviewsPerProposal: z.number().int().min(1).max(20),
+  reviewers: z.array(z.string()).min(1),
+});
+
+export type ReviewDistributionData = z.infer<typeof ReviewDistributionSchema>;
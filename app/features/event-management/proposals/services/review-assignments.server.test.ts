@@ -0,0 +1,149 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ReviewAssignments } from './review-assignments.server.ts';
+
+describe('ReviewAssignments', () => {
+  let owner: User;
+  let member: User;
+  let reviewer: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    member = await userFactory({ traits: ['bruce-wayne'] });
+    reviewer = await userFactory({ traits: ['peter-parker'] });
+    speaker = await userFactory();
+    team = await teamFactory({ owners: [owner], members: [member], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#reviewers', () => {
+    it('returns team members sorted by name', async () => {
+      const authorizedEvent = await authorize(owner);
+      const reviewers = await ReviewAssignments.for(authorizedEvent).reviewers();
+
+      expect(reviewers).toEqual([
+        { id: member.id, name: member.name, picture: member.picture },
+        { id: owner.id, name: owner.name, picture: owner.picture },
+        { id: reviewer.id, name: reviewer.name, picture: reviewer.picture },
+      ]);
+    });
+  });
+
+  describe('#assign', () => {
+    it('sets the reviewers assigned to a proposal', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await db.reviewAssignment.create({ data: { proposalId: proposal.id, userId: owner.id } });
+
+      const authorizedEvent = await authorize(owner);
+      await ReviewAssignments.for(authorizedEvent).assign(proposal.id, { reviewers: [member.id, reviewer.id] });
+
+      const assigned = await ReviewAssignments.for(authorizedEvent).ofProposal(proposal.id);
+      expect(assigned.map(({ id }) => id)).toEqual([member.id, reviewer.id]);
+    });
+
+    it('ignores users who are not team members', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(owner);
+      await ReviewAssignments.for(authorizedEvent).assign(proposal.id, { reviewers: [speaker.id, member.id] });
+
+      const assigned = await ReviewAssignments.for(authorizedEvent).ofProposal(proposal.id);
+      expect(assigned.map(({ id }) => id)).toEqual([member.id]);
+    });
+
+    it('throws an error when proposal does not belong to the event', async () => {
+      const otherEvent = await eventFactory({ team });
+      const proposal = await proposalFactory({ event: otherEvent, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(owner);
+      await expect(
+        ReviewAssignments.for(authorizedEvent).assign(proposal.id, { reviewers: [member.id] }),
+      ).rejects.toThrowError(ProposalNotFoundError);
+    });
+
+    it('throws an error when user cannot assign reviews', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(reviewer);
+      await expect(
+        ReviewAssignments.for(authorizedEvent).assign(proposal.id, { reviewers: [member.id] }),
+      ).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+
+  describe('#distribute', () => {
+    it('distributes submitted proposals between selected reviewers', async () => {
+      const proposal1 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const proposal2 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }), traits: ['draft'] });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }), traits: ['archived'] });
+
+      const authorizedEvent = await authorize(owner);
+      const count = await ReviewAssignments.for(authorizedEvent).distribute({
+        reviewsPerProposal: 1,
+        reviewers: [owner.id, member.id],
+      });
+
+      expect(count).toBe(2);
+      const assignments = await db.reviewAssignment.findMany();
+      expect(assignments.map(({ proposalId }) => proposalId).sort()).toEqual([proposal1.id, proposal2.id].sort());
+      expect(assignments.map(({ userId }) => userId).sort()).toEqual([owner.id, member.id].sort());
+    });
+
+    it('does not assign speakers to their own proposals', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [member] }) });
+
+      const authorizedEvent = await authorize(owner);
+      const count = await ReviewAssignments.for(authorizedEvent).distribute({
+        reviewsPerProposal: 2,
+        reviewers: [owner.id, member.id],
+      });
+
+      expect(count).toBe(1);
+      const assigned = await ReviewAssignments.for(authorizedEvent).ofProposal(proposal.id);
+      expect(assigned.map(({ id }) => id)).toEqual([owner.id]);
+    });
+
+    it('throws an error when user cannot assign reviews', async () => {
+      const authorizedEvent = await authorize(reviewer);
+      await expect(
+        ReviewAssignments.for(authorizedEvent).distribute({ reviewsPerProposal: 1, reviewers: [owner.id] }),
+      ).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+
+  describe('#clear', () => {
+    it('removes all assignments of the event', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const otherEvent = await eventFactory({ team });
+      const otherProposal = await proposalFactory({
+        event: otherEvent,
+        talk: await talkFactory({ speakers: [speaker] }),
+      });
+      await db.reviewAssignment.create({ data: { proposalId: proposal.id, userId: owner.id } });
+      await db.reviewAssignment.create({ data: { proposalId: otherProposal.id, userId: owner.id } });
+
+      const authorizedEvent = await authorize(owner);
+      const count = await ReviewAssignments.for(authorizedEvent).clear();
+
+      expect(count).toBe(1);
+      const assignments = await db.reviewAssignment.findMany();
+      expect(assignments.map(({ proposalId }) => proposalId)).toEqual([otherProposal.id]);
+    });
+  });
+});
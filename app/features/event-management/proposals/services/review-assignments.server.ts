@@ -0,0 +1,111 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { sortBy } from '~/shared/utils/arrays-sort-by.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { distributeReviews } from '../models/review-distribution.ts';
+import type { ReviewAssignmentsSaveData, ReviewDistributionData } from './review-assignments.schema.server.ts';
+
+export class ReviewAssignments {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ReviewAssignments(authorizedEvent);
+  }
+
+  async reviewers() {
+    const { teamId } = this.authorizedEvent;
+
+    const members = await db.teamMember.findMany({ where: { teamId }, include: { member: true } });
+
+    return sortBy(
+      members.map(({ member }) => ({ id: member.id, name: member.name, picture: member.picture })),
+      'name',
+    );
+  }
+
+  async ofProposal(proposalId: string) {
+    const { event } = this.authorizedEvent;
+
+    const assignments = await db.reviewAssignment.findMany({
+      where: { proposalId, proposal: { eventId: event.id } },
+      include: { user: true },
+    });
+
+    return sortBy(
+      assignments.map(({ user }) => ({ id: user.id, name: user.name, picture: user.picture })),
+      'name',
+    );
+  }
+
+  async assign(proposalId: string, { reviewers }: ReviewAssignmentsSaveData) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canAssignReviews) throw new ForbiddenOperationError();
+
+    const proposal = await db.proposal.findFirst({ where: { id: proposalId, eventId: event.id } });
+    if (!proposal) throw new ProposalNotFoundError();
+
+    const userIds = await this.filterTeamMembers(reviewers);
+
+    await db.$transaction([
+      db.reviewAssignment.deleteMany({ where: { proposalId, userId: { notIn: userIds } } }),
+      db.reviewAssignment.createMany({
+        data: userIds.map((userId) => ({ proposalId, userId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  async distribute({ reviewsPerProposal, reviewers }: ReviewDistributionData) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canAssignReviews) throw new ForbiddenOperationError();
+
+    const reviewerIds = await this.filterTeamMembers(reviewers);
+
+    const proposals = await db.proposal.findMany({
+      where: { eventId: event.id, isDraft: false, archivedAt: null },
+      select: {
+        id: true,
+        reviewAssignments: { select: { userId: true } },
+        reviewConflicts: { select: { userId: true } },
+        speakers: { select: { userId: true, reviewConflicts: { select: { userId: true } } } },
+      },
+    });
+
+    const assignments = distributeReviews({
+      reviewerIds,
+      reviewsPerProposal,
+      proposals: proposals.map((proposal) => ({
+        id: proposal.id,
+        assignedReviewerIds: proposal.reviewAssignments.map(({ userId }) => userId),
+        excludedReviewerIds: [
+          ...proposal.speakers.map(({ userId }) => userId).filter((id) => id !== null),
+          ...proposal.reviewConflicts.map(({ userId }) => userId),
+          ...proposal.speakers.flatMap(({ reviewConflicts }) => reviewConflicts.map(({ userId }) => userId)),
+        ],
+      })),
+    });
+
+    const result = await db.reviewAssignment.createMany({ data: assignments, skipDuplicates: true });
+    return result.count;
+  }
+
+  async clear() {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canAssignReviews) throw new ForbiddenOperationError();
+
+    const result = await db.reviewAssignment.deleteMany({ where: { proposal: { eventId: event.id } } });
+    return result.count;
+  }
+
+  private async filterTeamMembers(userIds: Array<string>) {
+    const { teamId } = this.authorizedEvent;
+
+    const members = await db.teamMember.findMany({
+      where: { teamId, memberId: { in: userIds } },
+      select: { memberId: true },
+    });
+
+    const memberIds = members.map(({ memberId }) => memberId);
+    return userIds.filter((id) => memberIds.includes(id));
+  }
+}
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const ReviewConflictDeclareSchema = z.object({
+  eventSpeakerId: z.string().optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type ReviewConflictDeclareData = z.infer<typeof ReviewConflictDeclareSchema>;
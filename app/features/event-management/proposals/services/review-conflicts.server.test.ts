@@ -0,0 +1,180 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ReviewConflicts } from './review-conflicts.server.ts';
+
+describe('ReviewConflicts', () => {
+  let owner: User;
+  let member: User;
+  let reviewer: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    member = await userFactory({ traits: ['bruce-wayne'] });
+    reviewer = await userFactory({ traits: ['peter-parker'] });
+    speaker = await userFactory();
+    team = await teamFactory({ owners: [owner], members: [member], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#declare', () => {
+    it('declares a conflict on a proposal', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(reviewer);
+      await ReviewConflicts.for(authorizedEvent).declare(proposal.id, { reason: 'Colleague' });
+
+      const conflicts = await ReviewConflicts.for(authorizedEvent).ofUser(proposal.id);
+      expect(conflicts).toEqual([{ id: expect.any(String), reason: 'Colleague', speaker: null }]);
+    });
+
+    it('declares a conflict on a speaker which applies to all their proposals', async () => {
+      const proposal1 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const proposal2 = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const eventSpeaker = await db.eventSpeaker.findFirstOrThrow({ where: { userId: speaker.id, eventId: event.id } });
+
+      const authorizedEvent = await authorize(reviewer);
+      await ReviewConflicts.for(authorizedEvent).declare(proposal1.id, { eventSpeakerId: eventSpeaker.id });
+
+      const conflicts = await ReviewConflicts.for(authorizedEvent).ofUser(proposal2.id);
+      expect(conflicts).toEqual([{ id: expect.any(String), reason: null, speaker: eventSpeaker.name }]);
+    });
+
+    it('updates the reason when the conflict is declared again', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(reviewer);
+      await ReviewConflicts.for(authorizedEvent).declare(proposal.id, { reason: 'Colleague' });
+      await ReviewConflicts.for(authorizedEvent).declare(proposal.id, { reason: 'Friend' });
+
+      const conflicts = await db.reviewConflict.findMany({ where: { userId: reviewer.id } });
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].reason).toBe('Friend');
+    });
+
+    it('throws an error when the speaker is not a speaker of the proposal', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [member] }) });
+      const otherSpeaker = await db.eventSpeaker.findFirstOrThrow({ where: { userId: member.id, eventId: event.id } });
+
+      const authorizedEvent = await authorize(reviewer);
+      await expect(
+        ReviewConflicts.for(authorizedEvent).declare(proposal.id, { eventSpeakerId: otherSpeaker.id }),
+      ).rejects.toThrowError(ForbiddenOperationError);
+    });
+
+    it('throws an error when proposal does not belong to the event', async () => {
+      const otherEvent = await eventFactory({ team });
+      const proposal = await proposalFactory({ event: otherEvent, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(reviewer);
+      await expect(ReviewConflicts.for(authorizedEvent).declare(proposal.id, {})).rejects.toThrowError(
+        ProposalNotFoundError,
+      );
+    });
+  });
+
+  describe('#remove', () => {
+    it('removes a conflict declared by the user', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const conflict = await db.reviewConflict.create({
+        data: { userId: reviewer.id, eventId: event.id, proposalId: proposal.id },
+      });
+
+      const authorizedEvent = await authorize(reviewer);
+      await ReviewConflicts.for(authorizedEvent).remove(conflict.id);
+
+      expect(await db.reviewConflict.count()).toBe(0);
+    });
+
+    it('does not remove conflicts declared by other users', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const conflict = await db.reviewConflict.create({
+        data: { userId: member.id, eventId: event.id, proposalId: proposal.id },
+      });
+
+      const authorizedEvent = await authorize(reviewer);
+      await ReviewConflicts.for(authorizedEvent).remove(conflict.id);
+
+      expect(await db.reviewConflict.count()).toBe(1);
+    });
+  });
+
+  describe('#ofProposal', () => {
+    it('returns conflicts declared on the proposal and its speakers', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const eventSpeaker = await db.eventSpeaker.findFirstOrThrow({ where: { userId: speaker.id, eventId: event.id } });
+      await db.reviewConflict.createMany({
+        data: [
+          { userId: reviewer.id, eventId: event.id, proposalId: proposal.id, reason: 'Colleague' },
+          { userId: member.id, eventId: event.id, eventSpeakerId: eventSpeaker.id },
+        ],
+      });
+
+      const authorizedEvent = await authorize(owner);
+      const conflicts = await ReviewConflicts.for(authorizedEvent).ofProposal(proposal.id);
+
+      expect(conflicts).toEqual([
+        {
+          id: expect.any(String),
+          userId: member.id,
+          name: member.name,
+          picture: member.picture,
+          reason: null,
+          speaker: eventSpeaker.name,
+        },
+        {
+          id: expect.any(String),
+          userId: reviewer.id,
+          name: reviewer.name,
+          picture: reviewer.picture,
+          reason: 'Colleague',
+          speaker: null,
+        },
+      ]);
+    });
+
+    it('throws an error when user cannot assign reviews', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+
+      const authorizedEvent = await authorize(reviewer);
+      await expect(ReviewConflicts.for(authorizedEvent).ofProposal(proposal.id)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#conflictedUserIds', () => {
+    it('returns users with a conflict on the proposal or its speakers', async () => {
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const otherProposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }) });
+      const eventSpeaker = await db.eventSpeaker.findFirstOrThrow({ where: { userId: speaker.id, eventId: event.id } });
+      await db.reviewConflict.createMany({
+        data: [
+          { userId: reviewer.id, eventId: event.id, proposalId: proposal.id },
+          { userId: reviewer.id, eventId: event.id, eventSpeakerId: eventSpeaker.id },
+          { userId: member.id, eventId: event.id, proposalId: otherProposal.id },
+        ],
+      });
+
+      const authorizedEvent = await authorize(owner);
+      const userIds = await ReviewConflicts.for(authorizedEvent).conflictedUserIds(proposal.id);
+
+      expect(userIds).toEqual([reviewer.id]);
+    });
+  });
+});
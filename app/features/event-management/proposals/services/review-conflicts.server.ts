@@ -0,0 +1,113 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { sortBy } from '~/shared/utils/arrays-sort-by.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { Prisma } from '../../../../../prisma/generated/client.ts';
+import type { ReviewConflictWhereInput } from '../../../../../prisma/generated/models.ts';
+import type { ReviewConflictDeclareData } from './review-conflicts.schema.server.ts';
+
+// SQL condition matching a conflict declared by the user on the proposal or on one of its speakers
+export function reviewConflictCondition(userId: string | Prisma.Sql, proposalId: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`EXISTS (
+    SELECT 1 FROM review_conflicts rc
+    WHERE rc."userId" = ${userId}
+      AND (
+        rc."proposalId" = ${proposalId}
+        OR rc."eventSpeakerId" IN (SELECT ps."A" FROM "_proposals_speakers" ps WHERE ps."B" = ${proposalId})
+      )
+  )`;
+}
+
+export class ReviewConflicts {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ReviewConflicts(authorizedEvent);
+  }
+
+  async declare(proposalId: string, { eventSpeakerId, reason }: ReviewConflictDeclareData) {
+    const { event, userId } = this.authorizedEvent;
+
+    const proposal = await db.proposal.findFirst({
+      where: { id: proposalId, eventId: event.id },
+      include: { speakers: true },
+    });
+    if (!proposal) throw new ProposalNotFoundError();
+
+    if (eventSpeakerId) {
+      const speaker = proposal.speakers.find((speaker) => speaker.id === eventSpeakerId);
+      if (!speaker) throw new ForbiddenOperationError();
+
+      return db.reviewConflict.upsert({
+        where: { userId_eventSpeakerId: { userId, eventSpeakerId: speaker.id } },
+        create: { userId, eventId: event.id, eventSpeakerId: speaker.id, reason },
+        update: { reason },
+      });
+    }
+
+    return db.reviewConflict.upsert({
+      where: { userId_proposalId: { userId, proposalId } },
+      create: { userId, eventId: event.id, proposalId, reason },
+      update: { reason },
+    });
+  }
+
+  async remove(conflictId: string) {
+    const { event, userId } = this.authorizedEvent;
+    await db.reviewConflict.deleteMany({ where: { id: conflictId, userId, eventId: event.id } });
+  }
+
+  async ofUser(proposalId: string) {
+    const { userId } = this.authorizedEvent;
+
+    const conflicts = await db.reviewConflict.findMany({
+      where: { ...this.proposalConflictsWhere(proposalId), userId },
+      include: { eventSpeaker: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return conflicts.map((conflict) => ({
+      id: conflict.id,
+      reason: conflict.reason,
+      speaker: conflict.eventSpeaker?.name ?? null,
+    }));
+  }
+
+  async ofProposal(proposalId: string) {
+    const { permissions } = this.authorizedEvent;
+    if (!permissions.canAssignReviews) throw new ForbiddenOperationError();
+
+    const conflicts = await db.reviewConflict.findMany({
+      where: this.proposalConflictsWhere(proposalId),
+      include: { user: true, eventSpeaker: true },
+    });
+
+    return sortBy(
+      conflicts.map((conflict) => ({
+        id: conflict.id,
+        userId: conflict.userId,
+        name: conflict.user.name,
+        picture: conflict.user.picture,
+        reason: conflict.reason,
+        speaker: conflict.eventSpeaker?.name ?? null,
+      })),
+      'name',
+    );
+  }
+
+  async conflictedUserIds(proposalId: string) {
+    const conflicts = await db.reviewConflict.findMany({
+      where: this.proposalConflictsWhere(proposalId),
+      select: { userId: true },
+    });
+    return Array.from(new Set(conflicts.map(({ userId }) => userId)));
+  }
+
+  private proposalConflictsWhere(proposalId: string): ReviewConflictWhereInput {
+    const { event } = this.authorizedEvent;
+    return {
+      eventId: event.id,
+      OR: [{ proposalId }, { eventSpeaker: { proposals: { some: { id: proposalId } } } }],
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { reviewFactory } from 'tests/factories/reviews.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ReviewDisabledError, ReviewLockedError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ReviewSession } from './review-session.server.ts';
+
+describe('ReviewSession', () => {
+  let owner: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner] });
+    event = await eventFactory({ team });
+  });
+
+  const authorize = async () => {
+    const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  const createProposal = async (title: string, submittedAt: string) => {
+    const talk = await talkFactory({ speakers: [speaker], attributes: { title } });
+    return proposalFactory({ event, talk, attributes: { submittedAt: new Date(submittedAt) } });
+  };
+
+  describe('#isAvailable', () => {
+    it('returns true when the event review is enabled', async () => {
+      expect(ReviewSession.for(await authorize()).isAvailable()).toBe(true);
+    });
+
+    it('returns true when the event uses a review rubric', async () => {
+      await db.event.update({
+        where: { id: event.id },
+        data: { reviewCriteria: [{ id: 'content', name: 'Content', weight: 1, scale: 5 }] },
+      });
+
+      expect(ReviewSession.for(await authorize()).isAvailable()).toBe(true);
+    });
+  });
+
+  describe('#next', () => {
+    it('returns the first proposal not reviewed yet with the session progress', async () => {
+      const proposal1 = await createProposal('Proposal 1', '2024-01-01');
+      await createProposal('Proposal 2', '2024-01-02');
+      const proposal3 = await createProposal('Proposal 3', '2024-01-03');
+      await reviewFactory({ user: owner, proposal: proposal1 });
+
+      const session = await ReviewSession.for(await authorize()).next({ sort: 'date', order: 'desc' });
+
+      expect(session.proposal?.id).toBe(proposal3.id);
+      expect(session.progress).toEqual({ total: 3, reviewed: 1 });
+      expect(session.remaining).toBe(2);
+      expect(session.skipped).toBe(0);
+    });
+
+    it('only steps through proposals matching the filters and ignores the reviews filter', async () => {
+      const format = await eventFormatFactory({ event });
+      const talk = await talkFactory({ speakers: [speaker] });
+      const proposal = await proposalFactory({ event, talk, formats: [format] });
+      await createProposal('Other', '2024-01-01');
+
+      const session = await ReviewSession.for(await authorize()).next({
+        formats: format.id,
+        reviews: ['positive'],
+      });
+
+      expect(session.proposal?.id).toBe(proposal.id);
+      expect(session.progress).toEqual({ total: 1, reviewed: 0 });
+      expect(session.remaining).toBe(1);
+    });
+
+    it('keeps skipped proposals for later', async () => {
+      const proposal1 = await createProposal('Proposal 1', '2024-01-01');
+      const proposal2 = await createProposal('Proposal 2', '2024-01-02');
+
+      const authorizedEvent = await authorize();
+      const session = await ReviewSession.for(authorizedEvent).next({ sort: 'date', order: 'desc' }, [proposal2.id]);
+
+      expect(session.proposal?.id).toBe(proposal1.id);
+      expect(session.remaining).toBe(1);
+      expect(session.skipped).toBe(1);
+
+      const ended = await ReviewSession.for(authorizedEvent).next({}, [proposal1.id, proposal2.id]);
+
+      expect(ended.proposal).toBe(null);
+      expect(ended.remaining).toBe(0);
+      expect(ended.skipped).toBe(2);
+    });
+
+    it('returns no proposal when all proposals are reviewed', async () => {
+      const proposal = await createProposal('Proposal 1', '2024-01-01');
+      await reviewFactory({ user: owner, proposal });
+
+      const session = await ReviewSession.for(await authorize()).next({});
+
+      expect(session.proposal).toBe(null);
+      expect(session.progress).toEqual({ total: 1, reviewed: 1 });
+      expect(session.remaining).toBe(0);
+    });
+
+    it('throws an error when review is disabled', async () => {
+      await db.event.update({ where: { id: event.id }, data: { reviewEnabled: false } });
+
+      await expect(ReviewSession.for(await authorize()).next({})).rejects.toThrowError(ReviewDisabledError);
+    });
+
+    it('throws an error when the review period is locked', async () => {
+      await db.event.update({
+        where: { id: event.id },
+        data: { reviewEnd: new Date('2020-01-01'), reviewLockAfterEnd: true },
+      });
+
+      await expect(ReviewSession.for(await authorize()).next({})).rejects.toThrowError(ReviewLockedError);
+    });
+
+    it('returns the review rubric with the proposal when the event uses one', async () => {
+      const criteria = [{ id: 'content', name: 'Content', weight: 1, scale: 5 }];
+      await db.event.update({ where: { id: event.id }, data: { reviewCriteria: criteria } });
+      await createProposal('Proposal 1', '2024-01-01');
+
+      const session = await ReviewSession.for(await authorize()).next({});
+
+      expect(session.proposal?.rubric).toEqual({ criteria, scores: null });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { ReviewPeriod } from '~/features/event-management/settings/models/review-period.ts';
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ReviewDisabledError, ReviewLockedError } from '~/shared/errors.server.ts';
+import { ProposalReview } from './proposal-review.server.ts';
+import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
+import { ProposalSearchBuilder } from './proposal-search-builder.server.ts';
+
+export class ReviewSession {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ReviewSession(authorizedEvent);
+  }
+
+  isAvailable() {
+    const { event } = this.authorizedEvent;
+    return event.reviewEnabled && !new ReviewPeriod(event).isLocked();
+  }
+
+  // Steps through the proposals of the filters not reviewed yet, skipped ones are kept for the end of the session
+  async next(filters: ProposalsFilters, skipped: Array<string> = []) {
+    const { event, userId } = this.authorizedEvent;
+    if (!event.reviewEnabled) throw new ReviewDisabledError();
+    if (new ReviewPeriod(event).isLocked()) throw new ReviewLockedError();
+
+    const sessionFilters = { ...filters, reviews: undefined };
+    const options = { withSpeakers: false, withReviews: false, hideConflicts: true };
+    const search = new ProposalSearchBuilder(event.id, userId, sessionFilters, options);
+    const queue = new ProposalSearchBuilder(
+      event.id,
+      userId,
+      { ...sessionFilters, reviews: ['not-reviewed'] },
+      options,
+    );
+
+    const [progress, unreviewed] = await Promise.all([search.statistics(), queue.proposalRouteIds()]);
+
+    const remaining = unreviewed.filter(({ id }) => !skipped.includes(id));
+    const current = remaining.at(0);
+    const proposal = current ? await ProposalReview.for(this.authorizedEvent, current.id).get() : null;
+
+    return {
+      proposal,
+      progress,
+      remaining: remaining.length,
+      skipped: unreviewed.length - remaining.length,
+    };
+  }
+}
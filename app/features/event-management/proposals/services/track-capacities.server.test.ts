@@ -0,0 +1,128 @@
+import { eventCategoryFactory } from 'tests/factories/categories.ts';
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import type { Event, EventFormat, Team, User } from '../../../../../prisma/generated/client.ts';
+import { TrackCapacities } from './track-capacities.server.ts';
+
+describe('TrackCapacities', () => {
+  let owner: User;
+  let reviewer: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+  let conference: EventFormat;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team });
+    conference = await eventFormatFactory({ event, attributes: { name: 'Conference', capacity: 2 } });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#list', () => {
+    it('returns accepted and confirmed proposals of tracks with a capacity', async () => {
+      const frontend = await eventCategoryFactory({ event, attributes: { name: 'Frontend', capacity: 10 } });
+      await eventFormatFactory({ event, attributes: { name: 'Workshop' } });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+        categories: [frontend],
+        traits: ['confirmed'],
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+        traits: ['accepted'],
+      });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+        traits: ['declined'],
+      });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }), formats: [conference] });
+
+      const capacities = await TrackCapacities.for(await authorize(owner)).list();
+
+      expect(capacities).toEqual([
+        { id: conference.id, type: 'formats', name: 'Conference', capacity: 2, accepted: 2, confirmed: 1 },
+        { id: frontend.id, type: 'categories', name: 'Frontend', capacity: 10, accepted: 1, confirmed: 1 },
+      ]);
+    });
+
+    it('throws an error when user cannot change proposal status', async () => {
+      await expect(TrackCapacities.for(await authorize(reviewer)).list()).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+
+  describe('#overflows', () => {
+    it('returns tracks whose capacity would be exceeded by accepting the selection', async () => {
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+        traits: ['accepted'],
+      });
+      const proposal1 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+      });
+      const proposal2 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+      });
+
+      const capacities = TrackCapacities.for(await authorize(owner));
+
+      const withinCapacity = await capacities.overflows({ selection: [proposal1.id], allPagesSelected: false }, {});
+      expect(withinCapacity).toEqual([]);
+
+      const overflows = await capacities.overflows(
+        { selection: [proposal1.id, proposal2.id], allPagesSelected: false },
+        {},
+      );
+      expect(overflows).toEqual([expect.objectContaining({ id: conference.id, accepted: 1, incoming: 2 })]);
+    });
+
+    it('counts every proposal matching the filters when all pages are selected', async () => {
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }), formats: [conference] });
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }), formats: [conference] });
+      await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        formats: [conference],
+        traits: ['rejected'],
+      });
+
+      const overflows = await TrackCapacities.for(await authorize(owner)).overflows(
+        { selection: [], allPagesSelected: true },
+        { status: 'pending' },
+      );
+
+      expect(overflows).toEqual([]);
+
+      const allOverflows = await TrackCapacities.for(await authorize(owner)).overflows(
+        { selection: [], allPagesSelected: true },
+        {},
+      );
+      expect(allOverflows).toEqual([expect.objectContaining({ id: conference.id, incoming: 3 })]);
+    });
+  });
+});
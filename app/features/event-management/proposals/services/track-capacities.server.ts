@@ -0,0 +1,97 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { ProposalBulkSelection } from './proposal-bulk-edit.schema.server.ts';
+import type { ProposalsFilters } from './proposal-search-builder.schema.server.ts';
+import { ProposalSearchBuilder } from './proposal-search-builder.server.ts';
+
+type TrackType = 'formats' | 'categories';
+
+type ProposalTracks = { formats: Array<{ id: string }>; categories: Array<{ id: string }> };
+
+export class TrackCapacities {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new TrackCapacities(authorizedEvent);
+  }
+
+  // Accepted and confirmed proposals of each track with a capacity, declined proposals free their slot
+  async list() {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canChangeProposalStatus) throw new ForbiddenOperationError();
+
+    const [formats, categories] = await Promise.all([
+      db.eventFormat.findMany({ where: { eventId: event.id, capacity: { not: null } }, orderBy: { order: 'asc' } }),
+      db.eventCategory.findMany({ where: { eventId: event.id, capacity: { not: null } }, orderBy: { order: 'asc' } }),
+    ]);
+    if (formats.length === 0 && categories.length === 0) return [];
+
+    const accepted = await db.proposal.findMany({
+      where: {
+        eventId: event.id,
+        deliberationStatus: 'ACCEPTED',
+        isDraft: false,
+        archivedAt: null,
+        OR: [{ confirmationStatus: null }, { confirmationStatus: { not: 'DECLINED' } }],
+      },
+      select: { confirmationStatus: true, formats: { select: { id: true } }, categories: { select: { id: true } } },
+    });
+
+    const toCapacity = (type: TrackType, track: { id: string; name: string; capacity: number | null }) => {
+      const proposals = accepted.filter((proposal) => hasTrack(proposal, type, track.id));
+      return {
+        id: track.id,
+        type,
+        name: track.name,
+        capacity: track.capacity ?? 0,
+        accepted: proposals.length,
+        confirmed: proposals.filter((proposal) => proposal.confirmationStatus === 'CONFIRMED').length,
+      };
+    };
+
+    return [
+      ...formats.map((format) => toCapacity('formats', format)),
+      ...categories.map((category) => toCapacity('categories', category)),
+    ];
+  }
+
+  // Tracks whose capacity would be exceeded if the selected proposals were accepted
+  async overflows(target: ProposalBulkSelection, filters: ProposalsFilters) {
+    const { event } = this.authorizedEvent;
+
+    const capacities = await this.list();
+    if (capacities.length === 0) return [];
+
+    const proposalIds = await this.resolveProposalIds(target, filters);
+    const incoming = await db.proposal.findMany({
+      where: { id: { in: proposalIds }, eventId: event.id, deliberationStatus: { not: 'ACCEPTED' }, archivedAt: null },
+      select: { formats: { select: { id: true } }, categories: { select: { id: true } } },
+    });
+
+    return capacities
+      .map((track) => ({
+        ...track,
+        incoming: incoming.filter((proposal) => hasTrack(proposal, track.type, track.id)).length,
+      }))
+      .filter((track) => track.incoming > 0 && track.accepted + track.incoming > track.capacity);
+  }
+
+  private async resolveProposalIds({ selection, allPagesSelected }: ProposalBulkSelection, filters: ProposalsFilters) {
+    const { event, userId } = this.authorizedEvent;
+
+    if (allPagesSelected) {
+      const search = new ProposalSearchBuilder(event.id, userId, filters, {
+        withSpeakers: true,
+        withReviews: true,
+        hideConflicts: true,
+      });
+      return search.proposalIds();
+    }
+    return selection;
+  }
+}
+
+function hasTrack(proposal: ProposalTracks, type: TrackType, trackId: string) {
+  return proposal[type].some(({ id }) => id === trackId);
+}
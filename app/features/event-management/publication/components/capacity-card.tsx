@@ -0,0 +1,60 @@
+import { useTranslation } from 'react-i18next';
+import { Callout } from '~/design-system/callout.tsx';
+import { ProgressBar } from '~/design-system/charts/progress-bar.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { H2, Subtitle, Text } from '~/design-system/typography.tsx';
+import type { TrackCapacity } from '~/features/event-management/proposals/components/list/header/capacity-summary.tsx';
+
+type Props = { capacities: Array<TrackCapacity> };
+
+export function CapacityCard({ capacities }: Props) {
+  const { t } = useTranslation();
+  const overCapacity = capacities.filter((track) => track.accepted > track.capacity);
+
+  return (
+    <Card as="section">
+      <Card.Title>
+        <H2>{t('event-management.publication.capacities.label')}</H2>
+        <Subtitle>{t('event-management.publication.capacities.description')}</Subtitle>
+      </Card.Title>
+
+      <Card.Content>
+        {overCapacity.length > 0 ? (
+          <Callout title={t('event-management.proposals.capacities.overflow.title')} variant="error">
+            <ul>
+              {overCapacity.map((track) => (
+                <li key={track.id}>
+                  {t('event-management.proposals.capacities.overflow.item', {
+                    name: track.name,
+                    total: track.accepted,
+                    capacity: track.capacity,
+                  })}
+                </li>
+              ))}
+            </ul>
+          </Callout>
+        ) : null}
+
+        <ul className="space-y-4">
+          {capacities.map((track) => (
+            <li key={track.id} className="grid gap-1 lg:grid-cols-5 lg:gap-4">
+              <div className="flex items-center justify-between gap-2 lg:col-span-2">
+                <Text weight="medium" truncate>
+                  {track.name}
+                </Text>
+                <Text size="s" variant="secondary" className="whitespace-nowrap">
+                  {t('event-management.proposals.capacities.usage', {
+                    accepted: track.accepted,
+                    capacity: track.capacity,
+                    confirmed: track.confirmed,
+                  })}
+                </Text>
+              </div>
+              <ProgressBar value={track.accepted} max={track.capacity} className="lg:col-span-3" />
+            </li>
+          ))}
+        </ul>
+      </Card.Content>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { ArrowDownIcon, ArrowUpIcon } from '@heroicons/react/16/solid';
+import { useTranslation } from 'react-i18next';
+import { href, useFetcher } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { ToggleGroup } from '~/design-system/forms/toggles.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { Link } from '~/design-system/links.tsx';
+import { List } from '~/design-system/list/list.tsx';
+import { H2, Subtitle, Text } from '~/design-system/typography.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+
+type WaitlistCardProps = {
+  autoPromotion: boolean;
+  formats: Array<{
+    id: string | null;
+    name: string | null;
+    proposals: Array<{ id: string; routeId: string; title: string }>;
+  }>;
+};
+
+export function WaitlistCard({ autoPromotion, formats }: WaitlistCardProps) {
+  const { t } = useTranslation();
+  const { team, event } = useCurrentEventTeam();
+  const fetcher = useFetcher({ key: 'waitlist' });
+
+  const handleMove = (proposalId: string, formatId: string | null, direction: 'up' | 'down') => {
+    fetcher.submit({ intent: 'waitlist-move', proposalId, formatId: formatId ?? '', direction }, { method: 'POST' });
+  };
+
+  return (
+    <Card as="section">
+      <Card.Title>
+        <H2>{t('event-management.publication.waitlist.label')}</H2>
+        <Subtitle>{t('event-management.publication.waitlist.description')}</Subtitle>
+      </Card.Title>
+
+      <Card.Content>
+        <ToggleGroup
+          label={t('event-management.publication.waitlist.auto-promotion.label')}
+          description={t('event-management.publication.waitlist.auto-promotion.description')}
+          value={autoPromotion}
+          onChange={(enabled) =>
+            fetcher.submit({ intent: 'waitlist-auto-promotion', enabled: String(enabled) }, { method: 'POST' })
+          }
+        />
+
+        {formats.length === 0 ? (
+          <Text variant="secondary">{t('event-management.publication.waitlist.empty')}</Text>
+        ) : null}
+
+        {formats.map((format) => (
+          <List key={format.id ?? 'no-format'}>
+            <List.Header>
+              <Text weight="medium">{format.name ?? t('event-management.publication.waitlist.no-format')}</Text>
+            </List.Header>
+
+            <List.Content aria-label={format.name ?? t('event-management.publication.waitlist.no-format')}>
+              {format.proposals.map((proposal, index) => (
+                <List.Row key={proposal.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="flex min-w-0 items-baseline gap-3">
+                    <Text size="s" variant="secondary">
+                      {index + 1}.
+                    </Text>
+                    <Link
+                      to={href('/team/:team/:event/proposals/:proposal', {
+                        team: team.slug,
+                        event: event.slug,
+                        proposal: proposal.routeId,
+                      })}
+                      weight="medium"
+                      truncate
+                    >
+                      {proposal.title}
+                    </Link>
+                  </div>
+
+                  <div className="flex shrink-0 gap-2">
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="sm"
+                      icon={ArrowUpIcon}
+                      aria-label={t('event-management.publication.waitlist.move-up', { title: proposal.title })}
+                      disabled={index === 0}
+                      onClick={() => handleMove(proposal.id, format.id, 'up')}
+                    />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="sm"
+                      icon={ArrowDownIcon}
+                      aria-label={t('event-management.publication.waitlist.move-down', { title: proposal.title })}
+                      disabled={index === format.proposals.length - 1}
+                      onClick={() => handleMove(proposal.id, format.id, 'down')}
+                    />
+                  </div>
+                </List.Row>
+              ))}
+            </List.Content>
+          </List>
+        ))}
+      </Card.Content>
+    </Card>
+  );
+}
@@ -8,23 +8,53 @@ import { Card } from '~/design-system/layouts/card.tsx';
 import { Page } from '~/design-system/layouts/page.tsx';
 import { Link } from '~/design-system/links.tsx';
 import { H1, H2, Subtitle } from '~/design-system/typography.tsx';
+import { TrackCapacities } from '~/features/event-management/proposals/services/track-capacities.server.ts';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
 import { BadRequestError } from '~/shared/errors.server.ts';
 import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
 import { toast } from '~/shared/toasts/toast.server.ts';
 import type { Route } from './+types/publication.ts';
+import { CapacityCard } from './components/capacity-card.tsx';
 import { PublicationButton } from './components/publication-confirm-modal.tsx';
+import { WaitlistCard } from './components/waitlist-card.tsx';
+import {
+  ProposalWaitlist,
+  WaitlistAutoPromotionSchema,
+  WaitlistMoveSchema,
+} from './services/proposal-waitlist.server.ts';
 import { Publication, PublishResultFormSchema } from './services/publication.server.ts';
 
 export const loader = async ({ context }: Route.LoaderArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
-  return Publication.for(authorizedEvent).statistics();
+  const [statistics, waitlist, capacities] = await Promise.all([
+    Publication.for(authorizedEvent).statistics(),
+    ProposalWaitlist.for(authorizedEvent).list(),
+    TrackCapacities.for(authorizedEvent).list(),
+  ]);
+  return { statistics, waitlist, capacities };
 };
 
 export const action = async ({ request, context }: Route.ActionArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
   const i18n = getI18n(context);
   const form = await request.formData();
+  const intent = form.get('intent');
+
+  switch (intent) {
+    case 'waitlist-move': {
+      const result = parseWithZod(form, { schema: WaitlistMoveSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await ProposalWaitlist.for(authorizedEvent).move(result.value);
+      return null;
+    }
+    case 'waitlist-auto-promotion': {
+      const result = parseWithZod(form, { schema: WaitlistAutoPromotionSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await ProposalWaitlist.for(authorizedEvent).setAutoPromotion(result.value.enabled);
+      return toast('success', i18n.t('event-management.publication.feedbacks.waitlist-auto-promotion-saved'));
+    }
+  }
+
   const result = parseWithZod(form, { schema: PublishResultFormSchema });
   if (result.status !== 'success') throw new BadRequestError(i18n.t('error.invalid-form-data'));
 
@@ -38,7 +68,8 @@ export const action = async ({ request, context }: Route.ActionArgs) => {
   );
 };
 
-export default function PublicationRoute({ loaderData: statistics }: Route.ComponentProps) {
+export default function PublicationRoute({ loaderData }: Route.ComponentProps) {
+  const { statistics, waitlist, capacities } = loaderData;
   const { t } = useTranslation();
   return (
     <Page>
@@ -82,6 +113,8 @@ export default function PublicationRoute({ loaderData: statistics }: Route.Compo
           </Card.Content>
         </Card>
 
+        {capacities.length > 0 ? <CapacityCard capacities={capacities} /> : null}
+
         <section className="flex flex-col gap-4 lg:flex-row lg:gap-6">
           <DonutCard
             title={t('event-management.publication.deliberation-chart.label')}
@@ -112,6 +145,13 @@ export default function PublicationRoute({ loaderData: statistics }: Route.Compo
                 colorLegend: 'bg-blue-500',
                 to: '../proposals?status=pending',
               },
+              {
+                name: t('common.proposals.status.waitlisted'),
+                amount: statistics.deliberation.waitlisted,
+                colorChart: 'amber',
+                colorLegend: 'bg-amber-500',
+                to: '../proposals?status=waitlisted',
+              },
             ]}
           >
             <Callout>{t('event-management.publication.deliberation-chart.info')}</Callout>
@@ -151,6 +191,8 @@ export default function PublicationRoute({ loaderData: statistics }: Route.Compo
             <Callout>{t('event-management.publication.confirmation-chart.info')}</Callout>
           </DonutCard>
         </section>
+
+        <WaitlistCard autoPromotion={waitlist.autoPromotion} formats={waitlist.formats} />
       </div>
     </Page>
   );
@@ -0,0 +1,188 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { sendEmail } from '~/shared/emails/send-email.job.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import type { Event, EventFormat, User } from '../../../../../../prisma/generated/client.ts';
+import { ProposalWaitlist } from '../proposal-waitlist.server.ts';
+import { promoteWaitlistedProposal } from './promote-waitlisted-proposal.job.ts';
+
+describe('Job: promoteWaitlistedProposal', () => {
+  let speaker: User;
+  let event: Event;
+  let quickie: EventFormat;
+  let conference: EventFormat;
+
+  beforeEach(async () => {
+    speaker = await userFactory({ attributes: { email: 'speaker@example.com' } });
+    const team = await teamFactory();
+    event = await eventFactory({ team, attributes: { waitlistAutoPromotion: true } });
+    quickie = await eventFormatFactory({ event, attributes: { name: 'Quickie' } });
+    conference = await eventFormatFactory({ event, attributes: { name: 'Conference' } });
+  });
+
+  const createWaitlisted = async (position: number, formats: Array<EventFormat>) => {
+    const talk = await talkFactory({ speakers: [speaker] });
+    const waitlistPositions =
+      formats.length > 0 ? formats.map(({ id }) => ({ formatId: id, position })) : [{ position }];
+    return proposalFactory({
+      event,
+      talk,
+      formats,
+      traits: ['waitlisted'],
+      attributes: { waitlistPositions: { createMany: { data: waitlistPositions } } },
+    });
+  };
+
+  it('offers the slot to the first waitlisted proposal of the same format', async () => {
+    const declined = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      formats: [quickie],
+      traits: ['declined'],
+    });
+    await createWaitlisted(1, [conference]);
+    const promoted = await createWaitlisted(2, [quickie]);
+    const next = await createWaitlisted(3, [quickie]);
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+
+    const updated = await db.proposal.findUnique({ where: { id: promoted.id } });
+    expect(updated).toEqual(
+      expect.objectContaining({
+        deliberationStatus: 'ACCEPTED',
+        publicationStatus: 'PUBLISHED',
+        confirmationStatus: 'PENDING',
+        promotedFromId: declined.id,
+      }),
+    );
+    expect(await db.proposalWaitlistPosition.count({ where: { proposalId: promoted.id } })).toBe(0);
+    const untouched = await db.proposal.findUnique({ where: { id: next.id } });
+    expect(untouched?.deliberationStatus).toBe('WAITLISTED');
+
+    expect(sendEmail.trigger).toHaveBeenCalledTimes(1);
+    expect(sendEmail.trigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        template: 'speakers-proposal-promoted',
+        to: ['speaker@example.com'],
+        data: expect.objectContaining({ proposal: expect.objectContaining({ id: promoted.id }) }),
+      }),
+    );
+  });
+
+  it('offers the slot to the first proposal of the waitlist without format when the declined proposal has no format', async () => {
+    const declined = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      traits: ['declined'],
+    });
+    await createWaitlisted(1, [conference]);
+    const promoted = await createWaitlisted(2, []);
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+
+    const updated = await db.proposal.findUnique({ where: { id: promoted.id } });
+    expect(updated?.deliberationStatus).toBe('ACCEPTED');
+  });
+
+  it('offers the slot to the next waitlisted proposal when the first one left the waitlist meanwhile', async () => {
+    const declined = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      formats: [quickie],
+      traits: ['declined'],
+    });
+    const first = await createWaitlisted(1, [quickie]);
+    const next = await createWaitlisted(2, [quickie]);
+
+    const findWaitlisted = ProposalWaitlist.findWaitlisted.bind(ProposalWaitlist);
+    const spy = vi.spyOn(ProposalWaitlist, 'findWaitlisted').mockImplementationOnce(async (...args) => {
+      const waitlisted = await findWaitlisted(...args);
+      await db.proposal.update({ where: { id: first.id }, data: { deliberationStatus: 'ACCEPTED' } });
+      return waitlisted;
+    });
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+    spy.mockRestore();
+
+    const promoted = await db.proposal.findUnique({ where: { id: next.id } });
+    expect(promoted).toEqual(expect.objectContaining({ deliberationStatus: 'ACCEPTED', promotedFromId: declined.id }));
+    expect(sendEmail.trigger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ proposal: expect.objectContaining({ id: next.id }) }),
+      }),
+    );
+  });
+
+  it('does not promote another proposal when the job is retried', async () => {
+    const declined = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      formats: [quickie],
+      traits: ['declined'],
+    });
+    const promoted = await createWaitlisted(1, [quickie]);
+    const next = await createWaitlisted(2, [quickie]);
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+
+    const untouched = await db.proposal.findUnique({ where: { id: next.id } });
+    expect(untouched?.deliberationStatus).toBe('WAITLISTED');
+    expect(sendEmail.trigger).toHaveBeenCalledTimes(2);
+    expect(sendEmail.trigger).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ proposal: expect.objectContaining({ id: promoted.id }) }),
+      }),
+    );
+  });
+
+  it('does nothing when automatic promotion is disabled', async () => {
+    await db.event.update({ where: { id: event.id }, data: { waitlistAutoPromotion: false } });
+    const declined = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      traits: ['declined'],
+    });
+    const waitlisted = await createWaitlisted(1, []);
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+
+    const updated = await db.proposal.findUnique({ where: { id: waitlisted.id } });
+    expect(updated?.deliberationStatus).toBe('WAITLISTED');
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the proposal is no longer declined', async () => {
+    const proposal = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      traits: ['confirmed'],
+    });
+    const waitlisted = await createWaitlisted(1, []);
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: proposal.id });
+
+    const updated = await db.proposal.findUnique({ where: { id: waitlisted.id } });
+    expect(updated?.deliberationStatus).toBe('WAITLISTED');
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when no proposal is waitlisted for the format', async () => {
+    const declined = await proposalFactory({
+      event,
+      talk: await talkFactory({ speakers: [speaker] }),
+      formats: [quickie],
+      traits: ['declined'],
+    });
+    await createWaitlisted(1, [conference]);
+
+    await promoteWaitlistedProposal.config.run({ declinedProposalId: declined.id });
+
+    expect(await db.proposal.count({ where: { deliberationStatus: 'WAITLISTED' } })).toBe(1);
+    expect(sendEmail.trigger).not.toHaveBeenCalled();
+  });
+});
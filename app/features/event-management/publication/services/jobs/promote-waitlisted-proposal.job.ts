@@ -0,0 +1,67 @@
+import { ProposalAuditLogs } from '~/features/event-management/proposals/services/proposal-audit-logs.server.ts';
+import { sendEmail } from '~/shared/emails/send-email.job.ts';
+import ProposalPromotedEmail from '~/shared/emails/templates/speakers/proposal-promoted.email.tsx';
+import { job } from '~/shared/jobs/job.ts';
+import { db } from '../../../../../../prisma/db.server.ts';
+import { ProposalWaitlist } from '../proposal-waitlist.server.ts';
+
+type PromoteWaitlistedProposalPayload = {
+  declinedProposalId: string;
+};
+
+export const promoteWaitlistedProposal = job<PromoteWaitlistedProposalPayload>({
+  name: 'promote-waitlisted-proposal',
+  queue: 'default',
+  run: async ({ declinedProposalId }: PromoteWaitlistedProposalPayload) => {
+    const declined = await db.proposal.findUnique({
+      where: { id: declinedProposalId },
+      include: { event: true, formats: { orderBy: { order: 'asc' } }, promotedTo: true },
+    });
+
+    if (!declined || declined.confirmationStatus !== 'DECLINED') return;
+    if (!declined.event.waitlistAutoPromotion) return;
+
+    // a retried job only sends the email of the proposal already promoted for the freed slot
+    const promotedId = declined.promotedTo?.id ?? (await promote(declined));
+    if (!promotedId) return;
+
+    const proposal = await db.proposal.findUniqueOrThrow({
+      where: { id: promotedId },
+      include: { speakers: true, formats: true },
+    });
+    await sendEmail.trigger(ProposalPromotedEmail.buildPayload({ event: declined.event, proposal }));
+  },
+});
+
+type DeclinedProposal = { id: string; eventId: string; formats: Array<{ id: string }> };
+
+async function promote(declined: DeclinedProposal) {
+  // the freed slot goes to the top of the waitlist of its formats, in the order of the formats
+  const formatIds = declined.formats.length > 0 ? declined.formats.map((format) => format.id) : [null];
+
+  for (const formatId of formatIds) {
+    const candidates = await ProposalWaitlist.findWaitlisted(declined.eventId, formatId);
+
+    for (const candidate of candidates) {
+      // guarded on the status and linked to the declined proposal so a slot is never given twice,
+      // recorded without actor as done automatically
+      const [result] = await ProposalAuditLogs.track(declined.eventId, null, [candidate.id], () =>
+        db.$transaction([
+          db.proposal.updateMany({
+            where: { id: candidate.id, deliberationStatus: 'WAITLISTED' },
+            data: {
+              deliberationStatus: 'ACCEPTED',
+              publicationStatus: 'PUBLISHED',
+              confirmationStatus: 'PENDING',
+              promotedFromId: declined.id,
+            },
+          }),
+          db.proposalWaitlistPosition.deleteMany({ where: { proposalId: candidate.id } }),
+        ]),
+      );
+      // the candidate was promoted or moved out of the waitlist meanwhile, the slot goes to the next one
+      if (result.count > 0) return candidate.id;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, EventFormat, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ProposalWaitlist } from './proposal-waitlist.server.ts';
+
+describe('ProposalWaitlist', () => {
+  let owner: User;
+  let reviewer: User;
+  let speaker: User;
+  let team: Team;
+  let event: Event;
+  let quickie: EventFormat;
+  let conference: EventFormat;
+
+  beforeEach(async () => {
+    owner = await userFactory({ traits: ['clark-kent'] });
+    reviewer = await userFactory({ traits: ['bruce-wayne'] });
+    speaker = await userFactory({ traits: ['peter-parker'] });
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team, traits: ['conference'] });
+    quickie = await eventFormatFactory({ event, attributes: { name: 'Quickie' } });
+    conference = await eventFormatFactory({ event, attributes: { name: 'Conference' } });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  const createWaitlisted = async (title: string, position: number, formats: Array<EventFormat> = []) => {
+    const talk = await talkFactory({ speakers: [speaker], attributes: { title } });
+    const waitlistPositions =
+      formats.length > 0 ? formats.map(({ id }) => ({ formatId: id, position })) : [{ position }];
+    return proposalFactory({
+      event,
+      talk,
+      formats,
+      traits: ['waitlisted'],
+      attributes: { waitlistPositions: { createMany: { data: waitlistPositions } } },
+    });
+  };
+
+  const waitlistOf = async (formatId: string | null) => {
+    const proposals = await ProposalWaitlist.findWaitlisted(event.id, formatId);
+    return proposals.map(({ id }) => id);
+  };
+
+  describe('#list', () => {
+    it('returns the waitlisted proposals grouped by format and ordered by position', async () => {
+      const proposal1 = await createWaitlisted('Proposal 1', 2, [quickie, conference]);
+      const proposal2 = await createWaitlisted('Proposal 2', 1, [quickie]);
+      const proposal3 = await createWaitlisted('Proposal 3', 3);
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }), formats: [conference] });
+
+      const waitlist = await ProposalWaitlist.for(await authorize(owner)).list();
+
+      expect(waitlist).toEqual({
+        autoPromotion: false,
+        formats: [
+          {
+            id: quickie.id,
+            name: 'Quickie',
+            proposals: [
+              { id: proposal2.id, routeId: proposal2.routeId, title: 'Proposal 2' },
+              { id: proposal1.id, routeId: proposal1.routeId, title: 'Proposal 1' },
+            ],
+          },
+          {
+            id: conference.id,
+            name: 'Conference',
+            proposals: [{ id: proposal1.id, routeId: proposal1.routeId, title: 'Proposal 1' }],
+          },
+          {
+            id: null,
+            name: null,
+            proposals: [{ id: proposal3.id, routeId: proposal3.routeId, title: 'Proposal 3' }],
+          },
+        ],
+      });
+    });
+
+    it('throws an error when user cannot publish results', async () => {
+      await expect(ProposalWaitlist.for(await authorize(reviewer)).list()).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#move', () => {
+    it('swaps the proposal with its neighbour in the waitlist of the format only', async () => {
+      const proposal1 = await createWaitlisted('Proposal 1', 1, [quickie]);
+      const proposal2 = await createWaitlisted('Proposal 2', 2, [quickie, conference]);
+      const proposal3 = await createWaitlisted('Proposal 3', 3, [quickie, conference]);
+
+      await ProposalWaitlist.for(await authorize(owner)).move({
+        proposalId: proposal3.id,
+        formatId: quickie.id,
+        direction: 'up',
+      });
+
+      expect(await waitlistOf(quickie.id)).toEqual([proposal1.id, proposal3.id, proposal2.id]);
+      expect(await waitlistOf(conference.id)).toEqual([proposal2.id, proposal3.id]);
+    });
+
+    it('gives a position to the proposals without position in the waitlist', async () => {
+      const proposal1 = await createWaitlisted('Proposal 1', 1);
+      const proposal2 = await proposalFactory({
+        event,
+        talk: await talkFactory({ speakers: [speaker] }),
+        traits: ['waitlisted'],
+      });
+
+      await ProposalWaitlist.for(await authorize(owner)).move({
+        proposalId: proposal2.id,
+        formatId: null,
+        direction: 'up',
+      });
+
+      expect(await waitlistOf(null)).toEqual([proposal2.id, proposal1.id]);
+      const positions = await db.proposalWaitlistPosition.findMany({ orderBy: { position: 'asc' } });
+      expect(positions.map(({ proposalId, position }) => [proposalId, position])).toEqual([
+        [proposal2.id, 1],
+        [proposal1.id, 2],
+      ]);
+    });
+
+    it('does nothing when the proposal is already at the edge of the waitlist', async () => {
+      const proposal1 = await createWaitlisted('Proposal 1', 1);
+      const proposal2 = await createWaitlisted('Proposal 2', 2);
+
+      await ProposalWaitlist.for(await authorize(owner)).move({
+        proposalId: proposal1.id,
+        formatId: null,
+        direction: 'up',
+      });
+
+      expect(await waitlistOf(null)).toEqual([proposal1.id, proposal2.id]);
+    });
+
+    it('throws an error when the proposal is not in the waitlist of the format', async () => {
+      const proposal = await createWaitlisted('Proposal 1', 1, [quickie]);
+
+      await expect(
+        ProposalWaitlist.for(await authorize(owner)).move({
+          proposalId: proposal.id,
+          formatId: conference.id,
+          direction: 'down',
+        }),
+      ).rejects.toThrowError(ProposalNotFoundError);
+    });
+  });
+
+  describe('#setAutoPromotion', () => {
+    it('enables the automatic promotion of the waitlist', async () => {
+      await ProposalWaitlist.for(await authorize(owner)).setAutoPromotion(true);
+
+      const updated = await db.event.findUnique({ where: { id: event.id } });
+      expect(updated?.waitlistAutoPromotion).toBe(true);
+    });
+
+    it('throws an error when user cannot publish results', async () => {
+      await expect(ProposalWaitlist.for(await authorize(reviewer)).setAutoPromotion(true)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+
+export const WaitlistMoveSchema = z.object({
+  proposalId: z.string(),
+  formatId: z.string().nullable().default(null),
+  direction: z.enum(['up', 'down']),
+});
+
+export const WaitlistAutoPromotionSchema = z.object({
+  enabled: z.stringbool().default(false),
+});
+
+type WaitlistMove = z.infer<typeof WaitlistMoveSchema>;
+
+export class ProposalWaitlist {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ProposalWaitlist(authorizedEvent);
+  }
+
+  // Waitlisted proposals grouped by format, proposals without format are listed in a group without id
+  async list() {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canPublishEventResults) throw new ForbiddenOperationError();
+
+    const [formats, proposals] = await Promise.all([
+      db.eventFormat.findMany({ where: { eventId: event.id }, orderBy: { order: 'asc' } }),
+      db.proposal.findMany({
+        where: { eventId: event.id, deliberationStatus: 'WAITLISTED', isDraft: false, archivedAt: null },
+        include: { formats: true, waitlistPositions: true },
+        orderBy: { submittedAt: 'asc' },
+      }),
+    ]);
+
+    const groups = [
+      ...formats.map((format) => ({
+        id: format.id as string | null,
+        name: format.name as string | null,
+        proposals: sortByPosition(
+          proposals.filter((proposal) => proposal.formats.some(({ id }) => id === format.id)),
+          format.id,
+        ),
+      })),
+      {
+        id: null,
+        name: null,
+        proposals: sortByPosition(
+          proposals.filter((proposal) => proposal.formats.length === 0),
+          null,
+        ),
+      },
+    ];
+
+    return {
+      autoPromotion: event.waitlistAutoPromotion,
+      formats: groups
+        .filter((group) => group.proposals.length > 0)
+        .map((group) => ({
+          ...group,
+          proposals: group.proposals.map((proposal) => ({
+            id: proposal.id,
+            routeId: proposal.routeId,
+            title: proposal.title,
+          })),
+        })),
+    };
+  }
+
+  // Swaps the proposal with its neighbour in the waitlist of the format, the waitlists of its other formats are kept as is
+  async move({ proposalId, formatId, direction }: WaitlistMove) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canChangeProposalStatus) throw new ForbiddenOperationError();
+
+    const proposals = await ProposalWaitlist.findWaitlisted(event.id, formatId);
+    const index = proposals.findIndex((proposal) => proposal.id === proposalId);
+    if (index === -1) throw new ProposalNotFoundError();
+
+    const neighbourIndex = direction === 'up' ? index - 1 : index + 1;
+    if (!proposals[neighbourIndex]) return;
+
+    const ids = proposals.map(({ id }) => id);
+    [ids[index], ids[neighbourIndex]] = [ids[neighbourIndex], ids[index]];
+
+    // the whole waitlist of the format is renumbered so proposals without position get one
+    await db.$transaction([
+      db.proposalWaitlistPosition.deleteMany({ where: { formatId, proposalId: { in: ids } } }),
+      db.proposalWaitlistPosition.createMany({
+        data: ids.map((id, position) => ({ proposalId: id, formatId, position: position + 1 })),
+      }),
+    ]);
+  }
+
+  async setAutoPromotion(enabled: boolean) {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canPublishEventResults) throw new ForbiddenOperationError();
+
+    await db.event.update({ where: { id: event.id }, data: { waitlistAutoPromotion: enabled } });
+  }
+
+  // Waitlisted proposals of a format ordered by position, proposals without format have their own waitlist
+  static async findWaitlisted(eventId: string, formatId: string | null) {
+    const proposals = await db.proposal.findMany({
+      where: {
+        eventId,
+        deliberationStatus: 'WAITLISTED',
+        isDraft: false,
+        archivedAt: null,
+        formats: formatId ? { some: { id: formatId } } : { none: {} },
+      },
+      include: { waitlistPositions: { where: { formatId } } },
+      orderBy: { submittedAt: 'asc' },
+    });
+    return sortByPosition(proposals, formatId);
+  }
+}
+
+// Proposals without position in the waitlist come last, in submission order
+function sortByPosition<T extends { waitlistPositions: Array<{ formatId: string | null; position: number }> }>(
+  proposals: Array<T>,
+  formatId: string | null,
+) {
+  const positionOf = (proposal: T) =>
+    proposal.waitlistPositions.find((entry) => entry.formatId === formatId)?.position ?? Number.MAX_SAFE_INTEGER;
+  return proposals.toSorted((a, b) => positionOf(a) - positionOf(b));
+}
@@ -63,12 +63,13 @@ describe('Publication', () => {
 
   describe('#statistics', () => {
     it('returns results statistics for the event', async () => {
+      await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker1] }), traits: ['waitlisted'] });
       const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
       const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
 
       const count = await Publication.for(authorizedEvent).statistics();
       expect(count).toEqual({
-        deliberation: { total: 7, pending: 1, accepted: 5, rejected: 1 },
+        deliberation: { total: 8, pending: 1, accepted: 5, rejected: 1, waitlisted: 1 },
         accepted: { published: 3, notPublished: 2 },
         rejected: { published: 0, notPublished: 1 },
         confirmations: { pending: 1, confirmed: 1, declined: 1 },
@@ -95,7 +96,7 @@ describe('Publication', () => {
       const count = await Publication.for(authorizedEvent).statistics();
 
       expect(count).toEqual({
-        deliberation: { total: 7, pending: 1, accepted: 5, rejected: 1 },
+        deliberation: { total: 7, pending: 1, accepted: 5, rejected: 1, waitlisted: 0 },
         accepted: { published: 3, notPublished: 2 },
         rejected: { published: 0, notPublished: 1 },
         confirmations: { pending: 1, confirmed: 1, declined: 1 },
@@ -168,6 +169,23 @@ describe('Publication', () => {
       );
     });
 
+    it('records the publication in the proposal audit trail', async () => {
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      await Publication.for(authorizedEvent).publishAll('REJECTED', false);
+
+      const logs = await db.proposalAuditLog.findMany({ where: { proposalId: rejectedProposal.id } });
+      expect(logs).toEqual([
+        expect.objectContaining({
+          userId: owner.id,
+          action: 'PUBLICATION_STATUS_CHANGED',
+          before: 'NOT_PUBLISHED',
+          after: 'PUBLISHED',
+        }),
+      ]);
+    });
+
     it('does not publish archived proposals when publishing all accepted', async () => {
       const uniqueSpeaker = await userFactory({ attributes: { email: 'unique-speaker@example.com' } });
       const archivedProposal = await proposalFactory({
@@ -1,4 +1,5 @@
 import z from 'zod';
+import { ProposalAuditLogs } from '~/features/event-management/proposals/services/proposal-audit-logs.server.ts';
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { sendEmail } from '~/shared/emails/send-email.job.ts';
 import ProposalAcceptedEmail from '~/shared/emails/templates/speakers/proposal-accepted.email.tsx';
@@ -19,7 +20,7 @@ export class Publication {
   }
 
   async publishAll(status: 'ACCEPTED' | 'REJECTED', withEmails: boolean) {
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (event.type === 'MEETUP') throw new ForbiddenOperationError();
     if (!permissions.canPublishEventResults) throw new ForbiddenOperationError();
 
@@ -29,10 +30,13 @@ export class Publication {
     });
     if (!proposals.length) throw new ForbiddenOperationError();
 
-    await db.proposal.updateMany({
-      where: { id: { in: proposals.map(({ id }) => id) } },
-      data: { publicationStatus: 'PUBLISHED', confirmationStatus: status === 'ACCEPTED' ? 'PENDING' : null },
-    });
+    const proposalIds = proposals.map(({ id }) => id);
+    await ProposalAuditLogs.track(event.id, userId, proposalIds, () =>
+      db.proposal.updateMany({
+        where: { id: { in: proposalIds } },
+        data: { publicationStatus: 'PUBLISHED', confirmationStatus: status === 'ACCEPTED' ? 'PENDING' : null },
+      }),
+    );
 
     if (withEmails && status === 'ACCEPTED') {
       await Promise.all(
@@ -48,7 +52,7 @@ export class Publication {
   }
 
   async publish(proposalId: string, withEmails: boolean) {
-    const { event, permissions } = this.authorizedEvent;
+    const { event, userId, permissions } = this.authorizedEvent;
     if (!permissions.canPublishEventResults) throw new ForbiddenOperationError();
 
     const proposal = await db.proposal.findUnique({
@@ -63,13 +67,15 @@ export class Publication {
     });
     if (!proposal) throw new ProposalNotFoundError();
 
-    await db.proposal.update({
-      where: { id: proposal.id },
-      data: {
-        publicationStatus: 'PUBLISHED',
-        confirmationStatus: proposal.deliberationStatus === 'ACCEPTED' ? 'PENDING' : null,
-      },
-    });
+    await ProposalAuditLogs.track(event.id, userId, [proposal.id], () =>
+      db.proposal.update({
+        where: { id: proposal.id },
+        data: {
+          publicationStatus: 'PUBLISHED',
+          confirmationStatus: proposal.deliberationStatus === 'ACCEPTED' ? 'PENDING' : null,
+        },
+      }),
+    );
 
     if (withEmails && proposal.deliberationStatus === 'ACCEPTED') {
       await sendEmail.trigger(ProposalAcceptedEmail.buildPayload({ event, proposal }));
@@ -96,6 +102,7 @@ export class Publication {
       pending: sum(results.filter((p) => p.deliberationStatus === 'PENDING')),
       accepted: sum(results.filter((p) => p.deliberationStatus === 'ACCEPTED')),
       rejected: sum(results.filter((p) => p.deliberationStatus === 'REJECTED')),
+      waitlisted: sum(results.filter((p) => p.deliberationStatus === 'WAITLISTED')),
     };
 
     const accepted = {
@@ -0,0 +1,20 @@
+import {
+  AuthorizedApiEventContext,
+  requireAuthorizedApiEvent,
+} from '~/shared/authorization/authorization.middleware.ts';
+import { NotFoundError } from '~/shared/errors.server.ts';
+import type { Route } from './+types/api-ics.ts';
+import { parseUrlScheduleFeed } from './services/schedule-export.schema.server.ts';
+import { EventScheduleExport } from './services/schedule-export.server.ts';
+
+export const middleware = [requireAuthorizedApiEvent];
+
+export const loader = async ({ context, url }: Route.LoaderArgs) => {
+  const authorizedApiEvent = context.get(AuthorizedApiEventContext);
+  const feed = parseUrlScheduleFeed(url);
+
+  const calendar = await EventScheduleExport.forApi(authorizedApiEvent).toICalendar(feed);
+  if (!calendar) throw new NotFoundError(`No schedule found for event "${authorizedApiEvent.event.slug}"`);
+
+  return new Response(calendar, { headers: { 'Content-Type': 'text/calendar; charset=utf-8' } });
+};
@@ -0,0 +1,20 @@
+import { redirect } from 'react-router';
+import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
+import type { Route } from './+types/ics.ts';
+import { parseUrlScheduleFeed } from './services/schedule-export.schema.server.ts';
+import { EventScheduleExport } from './services/schedule-export.server.ts';
+
+export const loader = async ({ params, context, url }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const feed = parseUrlScheduleFeed(url);
+
+  const calendar = await EventScheduleExport.forUser(authorizedEvent).toICalendar(feed);
+  if (!calendar) return redirect(`/team/${params.team}/${params.event}/schedule`);
+
+  return new Response(calendar, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${params.event}-schedule.ics"`,
+    },
+  });
+};
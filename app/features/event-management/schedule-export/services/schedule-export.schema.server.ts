@@ -0,0 +1,14 @@
+import { parseWithZod } from '@conform-to/zod/v4';
+import { z } from 'zod';
+
+const ScheduleFeedSchema = z.object({
+  track: z.string().trim().optional(),
+  speaker: z.string().trim().optional(),
+});
+
+export type ScheduleFeed = z.infer<typeof ScheduleFeedSchema>;
+
+export function parseUrlScheduleFeed(url: URL): ScheduleFeed {
+  const result = parseWithZod(url.searchParams, { schema: ScheduleFeedSchema });
+  return result.status === 'success' ? result.value : {};
+}
@@ -6,8 +6,10 @@ import { talkFactory } from 'tests/factories/talks.ts';
 import { teamFactory } from 'tests/factories/team.ts';
 import { userFactory } from 'tests/factories/users.ts';
 import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
-import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
 import type { Event, Schedule, ScheduleTrack, Team, User } from '../../../../../prisma/generated/client.ts';
+import { EventSchedulePublication } from '../../schedule/services/schedule-publication.server.ts';
 import { EventSchedule } from '../../schedule/services/schedule.server.ts';
 import { EventScheduleExport } from './schedule-export.server.ts';
 
@@ -67,6 +69,18 @@ describe('EventScheduleExport', () => {
     });
   });
 
+  describe('EventScheduleExport.forPublicPage', () => {
+    it('returns a EventScheduleExport instance when public schedule is enabled', async () => {
+      const event = await eventFactory({ team, traits: ['conference'], attributes: { publicScheduleEnabled: true } });
+      const eventScheduleExport = EventScheduleExport.forPublicPage(event);
+      expect(eventScheduleExport).toBeInstanceOf(EventScheduleExport);
+    });
+
+    it('throws not found error when public schedule is disabled', async () => {
+      expect(() => EventScheduleExport.forPublicPage(event)).toThrow(NotFoundError);
+    });
+  });
+
   describe('toJson', () => {
     it('exports schedule as JSON', async () => {
       const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
@@ -88,6 +102,7 @@ describe('EventScheduleExport', () => {
         end: new Date(schedule.start),
         proposalId: proposal.id,
       });
+      await EventSchedulePublication.for(authorizedEvent).publish();
 
       const json = await EventScheduleExport.forUser(authorizedEvent).toJson();
 
@@ -125,5 +140,127 @@ describe('EventScheduleExport', () => {
         ],
       });
     });
+
+    it('exports only the published version of the schedule', async () => {
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      await EventSchedule.for(authorizedEvent).addSession({
+        trackId: track.id,
+        start: schedule.start,
+        end: schedule.end,
+      });
+      expect(await EventScheduleExport.forApi({ event }).toJson()).toBe(null);
+
+      await EventSchedulePublication.for(authorizedEvent).publish();
+      await EventSchedule.for(authorizedEvent).addSession({
+        trackId: track.id,
+        start: schedule.start,
+        end: schedule.end,
+      });
+
+      const json = await EventScheduleExport.forApi({ event }).toJson();
+      expect(json?.sessions).toHaveLength(1);
+    });
+  });
+
+  describe('toICalendar', () => {
+    let room2: ScheduleTrack;
+    let speaker: User;
+
+    beforeEach(async () => {
+      room2 = await db.scheduleTrack.findFirstOrThrow({ where: { scheduleId: schedule.id, name: 'Room 2' } });
+      speaker = await userFactory();
+    });
+
+    const publish = async () => {
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      await EventSchedulePublication.for(authorizedEvent).publish();
+    };
+
+    const addSession = async (
+      trackId: string,
+      start: string,
+      end: string,
+      data: { name?: string; proposalId?: string },
+    ) => {
+      return db.scheduleSession.create({
+        data: { scheduleId: schedule.id, trackId, color: 'gray', start: new Date(start), end: new Date(end), ...data },
+      });
+    };
+
+    it('exports the full schedule as iCalendar with timezone-correct times', async () => {
+      const talk = await talkFactory({ speakers: [speaker], attributes: { title: 'Talk title' } });
+      const proposal = await proposalFactory({ event, talk });
+      const session = await addSession(track.id, '2024-10-05T08:00:00.000Z', '2024-10-05T08:45:00.000Z', {
+        proposalId: proposal.id,
+      });
+      await addSession(room2.id, '2024-10-05T10:00:00.000Z', '2024-10-05T11:00:00.000Z', { name: 'Lunch' });
+      await addSession(room2.id, '2024-10-05T12:00:00.000Z', '2024-10-05T13:00:00.000Z', {});
+      await publish();
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const ics = await EventScheduleExport.forUser(authorizedEvent).toICalendar();
+      const lines = ics?.split('\r\n');
+
+      expect(lines).toContain(`X-WR-CALNAME:${schedule.name}`);
+      expect(lines).toContain('TZID:Europe/Paris');
+      expect(lines).toContain(`UID:${session.id}@conference-hall`);
+      expect(lines).toContain('DTSTART;TZID=Europe/Paris:20241005T100000');
+      expect(lines).toContain('DTEND;TZID=Europe/Paris:20241005T104500');
+      expect(lines).toContain('SUMMARY:Talk title');
+      expect(lines).toContain('LOCATION:Room 1');
+      expect(lines).toContain('SUMMARY:Lunch');
+      expect(lines?.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+    });
+
+    it('exports the sessions of a track', async () => {
+      await addSession(track.id, '2024-10-05T08:00:00.000Z', '2024-10-05T09:00:00.000Z', { name: 'Keynote' });
+      await addSession(room2.id, '2024-10-05T10:00:00.000Z', '2024-10-05T11:00:00.000Z', { name: 'Workshop' });
+      await publish();
+
+      const ics = await EventScheduleExport.forApi({ event }).toICalendar({ track: room2.id });
+
+      expect(ics).toContain(`X-WR-CALNAME:${schedule.name} - Room 2`);
+      expect(ics).toContain('SUMMARY:Workshop');
+      expect(ics).not.toContain('SUMMARY:Keynote');
+    });
+
+    it('exports the personal sessions of a speaker', async () => {
+      const talk = await talkFactory({ speakers: [speaker], attributes: { title: 'Speaker talk' } });
+      const proposal = await proposalFactory({ event, talk });
+      const otherTalk = await talkFactory({ speakers: [owner], attributes: { title: 'Other talk' } });
+      const otherProposal = await proposalFactory({ event, talk: otherTalk });
+      await addSession(track.id, '2024-10-05T08:00:00.000Z', '2024-10-05T09:00:00.000Z', { proposalId: proposal.id });
+      await addSession(room2.id, '2024-10-05T08:00:00.000Z', '2024-10-05T09:00:00.000Z', {
+        proposalId: otherProposal.id,
+      });
+      await addSession(room2.id, '2024-10-05T10:00:00.000Z', '2024-10-05T11:00:00.000Z', { name: 'Lunch' });
+      await publish();
+      const eventSpeaker = proposal.speakers[0];
+
+      const ics = await EventScheduleExport.forApi({ event }).toICalendar({ speaker: eventSpeaker.id });
+
+      expect(ics).toContain(`X-WR-CALNAME:${schedule.name} - ${eventSpeaker.name}`);
+      expect(ics).toContain('SUMMARY:Speaker talk');
+      expect(ics).not.toContain('SUMMARY:Other talk');
+      expect(ics).not.toContain('SUMMARY:Lunch');
+    });
+
+    it('throws an error when the track or the speaker is not found', async () => {
+      await publish();
+      const scheduleExport = EventScheduleExport.forApi({ event });
+
+      await expect(scheduleExport.toICalendar({ track: 'unknown' })).rejects.toThrowError(NotFoundError);
+      await expect(scheduleExport.toICalendar({ speaker: 'unknown' })).rejects.toThrowError(NotFoundError);
+    });
+
+    it('returns null when the event has no published schedule', async () => {
+      const otherEvent = await eventFactory({ team, traits: ['conference'] });
+
+      expect(await EventScheduleExport.forApi({ event: otherEvent }).toICalendar()).toBe(null);
+    });
   });
 });
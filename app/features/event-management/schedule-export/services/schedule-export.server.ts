@@ -1,10 +1,14 @@
 import type { AuthorizedApiEvent, AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { getDatesRange } from '~/shared/datetimes/datetimes.ts';
+import { toICalendar } from '~/shared/datetimes/icalendar.ts';
 import { utcToTimezone } from '~/shared/datetimes/timezone.ts';
-import { ForbiddenOperationError } from '~/shared/errors.server.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import type { Event } from '../../../../../prisma/generated/client.ts';
+import { EventSchedulePublication } from '../../schedule/services/schedule-publication.server.ts';
+import type { ScheduleFeed } from './schedule-export.schema.server.ts';
 
+// Exports only serve the published version of the schedule, never the working version
 export class EventScheduleExport {
   private constructor(private event: Event) {}
 
@@ -21,47 +25,80 @@ export class EventScheduleExport {
     return new EventScheduleExport(event);
   }
 
+  // Public event page, only when organizers enabled it
+  static forPublicPage(event: Event) {
+    if (event.type === 'MEETUP' || !event.publicScheduleEnabled) throw new NotFoundError('Schedule not found');
+    return new EventScheduleExport(event);
+  }
+
   async toJson() {
-    const schedule = await db.schedule.findFirst({ where: { eventId: this.event.id }, include: { sessions: true } });
+    const schedule = await EventSchedulePublication.getPublishedSnapshot(this.event.id);
     if (!schedule) return null;
 
-    const sessions = await db.scheduleSession.findMany({
-      where: { scheduleId: schedule.id },
-      include: { proposal: { include: { speakers: true, formats: true, categories: true } }, track: true },
-    });
-
-    const days = getDatesRange(schedule.start, schedule.end);
+    const days = getDatesRange(new Date(schedule.start), new Date(schedule.end));
 
     return {
       name: schedule.name,
       days: days.map((day) => utcToTimezone(day, schedule.timezone).toISOString()),
       timeZone: schedule.timezone,
-      sessions: sessions.map(({ proposal, track, ...session }) => ({
+      sessions: schedule.sessions.map(({ proposal, ...session }) => ({
         id: session.id,
         start: utcToTimezone(session.start, schedule.timezone).toISOString(),
         end: utcToTimezone(session.end, schedule.timezone).toISOString(),
-        track: track.name,
+        track: schedule.tracks.find((track) => track.id === session.trackId)?.name,
         title: proposal ? proposal.title : session.name,
-        language: session.language || null,
+        language: session.language,
         proposal: proposal
           ? {
               id: proposal.id,
               proposalNumber: proposal.proposalNumber,
               abstract: proposal.abstract,
-              level: proposal.level || null,
-              formats: proposal.formats.map(({ name }) => name),
-              categories: proposal.categories.map(({ name }) => name),
-              speakers: proposal.speakers.map((speaker) => ({
-                id: speaker.id,
-                name: speaker.name,
-                bio: speaker.bio || null,
-                company: speaker.company || null,
-                picture: speaker.picture || null,
-                socialLinks: speaker.socialLinks,
-              })),
+              level: proposal.level,
+              formats: proposal.formats,
+              categories: proposal.categories,
+              speakers: proposal.speakers,
             }
           : null,
       })),
     };
   }
+
+  // Full-event feed by default, a track feed or a speaker personal feed when filtered
+  async toICalendar(feed: ScheduleFeed = {}) {
+    const schedule = await EventSchedulePublication.getPublishedSnapshot(this.event.id);
+    if (!schedule) return null;
+
+    const track = feed.track ? schedule.tracks.find(({ id }) => id === feed.track) : null;
+    if (feed.track && !track) throw new NotFoundError('Schedule track not found');
+
+    const speaker = feed.speaker
+      ? await db.eventSpeaker.findFirst({ where: { id: feed.speaker, eventId: this.event.id } })
+      : null;
+    if (feed.speaker && !speaker) throw new NotFoundError('Speaker not found');
+
+    const sessions = schedule.sessions
+      .filter((session) => !track || session.trackId === track.id)
+      .filter((session) => !speaker || session.proposal?.speakers.some(({ id }) => id === speaker.id))
+      .toSorted((a, b) => a.start.localeCompare(b.start));
+
+    return toICalendar({
+      name: [schedule.name, track?.name, speaker?.name].filter(Boolean).join(' - '),
+      timezone: schedule.timezone,
+      period: { start: new Date(schedule.start), end: new Date(schedule.end) },
+      events: sessions
+        .filter(({ proposal, name }) => proposal || name)
+        .map(({ proposal, ...session }) => ({
+          uid: `${session.id}@conference-hall`,
+          start: new Date(session.start),
+          end: new Date(session.end),
+          updatedAt: new Date(session.updatedAt),
+          summary: proposal ? proposal.title : (session.name ?? ''),
+          description: proposal
+            ? [proposal.speakers.map(({ name }) => name).join(', '), proposal.abstract].filter(Boolean).join('\n\n')
+            : null,
+          location: schedule.tracks.find(({ id }) => id === session.trackId)?.name,
+          categories: proposal?.categories,
+        })),
+    });
+  }
 }
@@ -0,0 +1,80 @@
+import { Popover, PopoverButton, PopoverPanel } from '@headlessui/react';
+import { ExclamationTriangleIcon } from '@heroicons/react/20/solid';
+import { useTranslation } from 'react-i18next';
+import { Text } from '~/design-system/typography.tsx';
+import { formatDate, formatTime } from '~/shared/datetimes/datetimes.ts';
+import type { ScheduleConflict } from '../../models/schedule-conflicts.ts';
+import type { ScheduleSession } from '../schedule.types.ts';
+
+type Props = {
+  conflicts: Array<ScheduleConflict>;
+  sessions: Array<ScheduleSession>;
+  onJumpToSession: (session: ScheduleSession) => void;
+};
+
+export function ConflictsPanel({ conflicts, sessions, onJumpToSession }: Props) {
+  const { t, i18n } = useTranslation();
+  const locale = i18n.language;
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Popover>
+      <PopoverButton className="flex h-9 cursor-pointer items-center gap-1.5 rounded-md bg-red-50 px-3 text-sm font-semibold text-red-700 ring-1 ring-red-200 ring-inset hover:bg-red-100">
+        <ExclamationTriangleIcon className="size-4 shrink-0" aria-hidden="true" />
+        {t('event-management.schedule.conflicts.button', { count: conflicts.length })}
+      </PopoverButton>
+
+      <PopoverPanel
+        anchor={{ to: 'bottom end', gap: '4px' }}
+        className="z-30 w-96 rounded-md bg-white shadow-lg ring-1 ring-black/5 focus:outline-hidden"
+      >
+        {({ close }) => (
+          <>
+            <div className="rounded-t-md border-b border-b-gray-200 bg-gray-50 px-4 py-2">
+              <Text variant="secondary" weight="semibold">
+                {t('event-management.schedule.conflicts.heading')}
+              </Text>
+            </div>
+
+            <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+              {conflicts.map((conflict) => (
+                <li key={`${conflict.type}-${conflict.sessionIds.join('-')}`} className="space-y-1 px-4 py-3">
+                  <Text weight="semibold">
+                    {t(`event-management.schedule.conflicts.types.${conflict.type}`, {
+                      speakers: conflict.speakers?.join(', '),
+                    })}
+                  </Text>
+
+                  {conflict.sessionIds.map((sessionId) => {
+                    const session = sessions.find(({ id }) => id === sessionId);
+                    if (!session) return null;
+
+                    return (
+                      <button
+                        key={sessionId}
+                        type="button"
+                        onClick={() => {
+                          onJumpToSession(session);
+                          close();
+                        }}
+                        className="flex w-full cursor-pointer items-baseline gap-2 rounded-sm text-left text-sm text-gray-700 hover:underline"
+                      >
+                        <span className="shrink-0 text-xs text-gray-500">
+                          {`${formatDate(session.timeslot.start, { format: 'short', locale })} ${formatTime(session.timeslot.start, { format: 'short', locale })}`}
+                        </span>
+                        <span className="truncate">
+                          {session.proposal?.title || session.name || t('event-management.schedule.conflicts.untitled')}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </PopoverPanel>
+    </Popover>
+  );
+}
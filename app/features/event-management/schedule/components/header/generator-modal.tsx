@@ -0,0 +1,141 @@
+import { ExclamationTriangleIcon } from '@heroicons/react/20/solid';
+import { useId, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useFetcher, useSubmit } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Callout } from '~/design-system/callout.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+import { formatDate, formatTime } from '~/shared/datetimes/datetimes.ts';
+import type { action } from '../../schedule.tsx';
+
+const DEFAULT_DURATION = 45; // minutes
+
+type GeneratorModalProps = { timezone: string; open: boolean; onClose: VoidFunction };
+
+export function GeneratorModal({ timezone, open, onClose }: GeneratorModalProps) {
+  const { t, i18n } = useTranslation();
+  const { event } = useCurrentEventTeam();
+  const formId = useId();
+  const formRef = useRef<HTMLFormElement>(null);
+  const fetcher = useFetcher<typeof action>();
+  const submit = useSubmit();
+  const [outdated, setOutdated] = useState(false);
+
+  // The preview is hidden once options are changed, so the applied placement is the one displayed
+  const preview = fetcher.data && 'generation' in fetcher.data && !outdated ? fetcher.data.generation : null;
+  const isGenerating = fetcher.state !== 'idle';
+  const locale = i18n.language;
+
+  const handleApply = async () => {
+    const formData = new FormData(formRef.current ?? undefined);
+    formData.set('intent', 'generate-schedule-apply');
+    onClose();
+    await submit(formData, { method: 'POST' });
+  };
+
+  return (
+    <Modal title={t('event-management.schedule.generator.heading')} size="l" open={open} onClose={onClose}>
+      <Modal.Content className="space-y-6">
+        <Text>{t('event-management.schedule.generator.description')}</Text>
+
+        <fetcher.Form
+          ref={formRef}
+          id={formId}
+          method="POST"
+          onChange={() => setOutdated(true)}
+          onSubmit={() => setOutdated(false)}
+          className="grid grid-cols-1 gap-4 sm:grid-cols-2"
+        >
+          <Input
+            type="number"
+            name="defaultDuration"
+            label={t('event-management.schedule.generator.default-duration')}
+            addon={t('event-management.schedule.generator.minutes')}
+            defaultValue={DEFAULT_DURATION}
+            min={5}
+            step={5}
+            required
+          />
+          <Input
+            type="number"
+            name="speakerBreak"
+            label={t('event-management.schedule.generator.speaker-break')}
+            addon={t('event-management.schedule.generator.minutes')}
+            defaultValue={0}
+            min={0}
+            step={5}
+          />
+          {event.formats.map((format, index) => (
+            <div key={format.id}>
+              <input type="hidden" name={`formats[${index}].id`} value={format.id} />
+              <Input
+                type="number"
+                name={`formats[${index}].duration`}
+                label={format.name}
+                addon={t('event-management.schedule.generator.minutes')}
+                placeholder={String(DEFAULT_DURATION)}
+                min={5}
+                step={5}
+              />
+            </div>
+          ))}
+        </fetcher.Form>
+
+        {preview ? (
+          <div className="space-y-4">
+            <Text weight="semibold">
+              {t('event-management.schedule.generator.preview', { count: preview.sessions.length })}
+            </Text>
+
+            {preview.unplacedProposals.length > 0 ? (
+              <Callout variant="warning" icon={ExclamationTriangleIcon}>
+                {t('event-management.schedule.generator.unplaced', {
+                  count: preview.unplacedProposals.length,
+                  titles: preview.unplacedProposals.map(({ title }) => title).join(', '),
+                })}
+              </Callout>
+            ) : null}
+
+            {preview.sessions.length > 0 ? (
+              <ul className="max-h-80 divide-y divide-gray-100 overflow-y-auto rounded-md border border-gray-200">
+                {preview.sessions.map((session) => (
+                  <li key={session.proposalId} className="flex items-baseline gap-3 px-3 py-2 text-sm">
+                    <span className="shrink-0 text-xs text-gray-500">
+                      {`${formatDate(session.start, { format: 'short', locale, timezone })} ${formatTime(session.start, { format: 'short', locale, timezone })}-${formatTime(session.end, { format: 'short', locale, timezone })}`}
+                    </span>
+                    <span className="shrink-0 font-semibold text-gray-700">{session.track}</span>
+                    <span className="truncate text-gray-900">{session.title}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+      </Modal.Content>
+
+      <Modal.Actions>
+        <Button type="button" variant="secondary" onClick={onClose}>
+          {preview ? t('event-management.schedule.generator.discard') : t('common.cancel')}
+        </Button>
+        <Button
+          type="submit"
+          name="intent"
+          value="generate-schedule-preview"
+          form={formId}
+          variant={preview ? 'secondary' : 'primary'}
+          loading={isGenerating}
+        >
+          {t('event-management.schedule.generator.preview-button')}
+        </Button>
+        {preview ? (
+          <Button type="button" onClick={handleApply} disabled={isGenerating || preview.sessions.length === 0}>
+            {t('event-management.schedule.generator.apply')}
+          </Button>
+        ) : null}
+      </Modal.Actions>
+    </Modal>
+  );
+}
@@ -3,10 +3,12 @@ import {
   ArrowDownTrayIcon,
   ArrowsPointingInIcon,
   ArrowsPointingOutIcon,
+  CalendarDaysIcon,
   Cog6ToothIcon,
   MagnifyingGlassMinusIcon,
   MagnifyingGlassPlusIcon,
   TrashIcon,
+  SparklesIcon,
   ViewColumnsIcon,
 } from '@heroicons/react/16/solid';
 import { useTranslation } from 'react-i18next';
@@ -17,9 +19,9 @@ import { MenuTransition } from '~/design-system/transitions.tsx';
 import { useScheduleFullscreen } from './use-schedule-fullscreen.tsx';
 import type { ZoomHandlers } from './use-zoom-handlers.tsx';
 
-type Props = { openTracksModal: VoidFunction; zoomHandlers: ZoomHandlers };
+type Props = { openTracksModal: VoidFunction; openGeneratorModal: VoidFunction; zoomHandlers: ZoomHandlers };
 
-export function OptionsMenu({ openTracksModal, zoomHandlers }: Props) {
+export function OptionsMenu({ openTracksModal, openGeneratorModal, zoomHandlers }: Props) {
   const { t } = useTranslation();
   const submit = useSubmit();
   const params = useParams();
@@ -74,10 +76,18 @@ export function OptionsMenu({ openTracksModal, zoomHandlers }: Props) {
               <ViewColumnsIcon className={menuItemIcon()} aria-hidden="true" />
               {t('event-management.schedule.actions.tracks')}
             </MenuItem>
+            <MenuItem as="button" onClick={openGeneratorModal} className={menuItem()}>
+              <SparklesIcon className={menuItemIcon()} aria-hidden="true" />
+              {t('event-management.schedule.actions.generate')}
+            </MenuItem>
             <MenuItem as="a" href={`/team/${params.team}/${params.event}/schedule/export/json`} className={menuItem()}>
               <ArrowDownTrayIcon className={menuItemIcon()} aria-hidden="true" />
               {t('event-management.schedule.actions.export.json')}
             </MenuItem>
+            <MenuItem as="a" href={`/team/${params.team}/${params.event}/schedule/export/ics`} className={menuItem()}>
+              <CalendarDaysIcon className={menuItemIcon()} aria-hidden="true" />
+              {t('event-management.schedule.actions.export.ics')}
+            </MenuItem>
           </MenuSection>
 
           <MenuSeparator className={menuSeparator()} />
@@ -0,0 +1,139 @@
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Badge } from '~/design-system/badges.tsx';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { Text } from '~/design-system/typography.tsx';
+import { formatDatetime } from '~/shared/datetimes/datetimes.ts';
+import {
+  hasScheduleChanges,
+  type ScheduleSessionDiff,
+  type ScheduleSnapshotDiff,
+} from '../../models/schedule-snapshot.ts';
+
+const DIFF_COLORS = { added: 'green', removed: 'red', updated: 'blue' } as const;
+
+export type SchedulePublicationStatus = {
+  versions: Array<{ version: number; publishedAt: Date; publishedBy: string | null; sessionsCount: number }>;
+  diff: ScheduleSnapshotDiff;
+};
+
+type PublicationModalProps = {
+  publication: SchedulePublicationStatus;
+  timezone: string;
+  open: boolean;
+  onClose: VoidFunction;
+};
+
+export function PublicationModal({ publication, timezone, open, onClose }: PublicationModalProps) {
+  const { t, i18n } = useTranslation();
+  const { versions, diff } = publication;
+  const [current] = versions;
+  const hasChanges = hasScheduleChanges(diff);
+
+  return (
+    <Modal title={t('event-management.schedule.publication.heading')} size="l" open={open} onClose={onClose}>
+      <Modal.Content className="space-y-6">
+        <Text>{t('event-management.schedule.publication.description')}</Text>
+
+        <section className="space-y-2">
+          <Text weight="semibold">
+            {current
+              ? t('event-management.schedule.publication.changes-since', { version: current.version })
+              : t('event-management.schedule.publication.changes-unpublished')}
+          </Text>
+
+          {hasChanges ? (
+            <ul className="max-h-64 divide-y divide-gray-100 overflow-y-auto rounded-md border border-gray-200">
+              {diff.settings.map((change) => (
+                <li key={change} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <Badge color="blue" compact>
+                    {t('event-management.schedule.publication.diff.updated')}
+                  </Badge>
+                  <span className="text-gray-900">{t(`event-management.schedule.publication.settings.${change}`)}</span>
+                </li>
+              ))}
+              {diff.sessions.map((session) => (
+                <SessionDiffItem key={session.sessionId} session={session} timezone={timezone} />
+              ))}
+            </ul>
+          ) : (
+            <Text variant="secondary">{t('event-management.schedule.publication.no-changes')}</Text>
+          )}
+        </section>
+
+        {versions.length > 0 ? (
+          <section className="space-y-2">
+            <Text weight="semibold">{t('event-management.schedule.publication.versions')}</Text>
+            <ul className="max-h-64 divide-y divide-gray-100 overflow-y-auto rounded-md border border-gray-200">
+              {versions.map((version) => (
+                <li key={version.version} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-2 font-semibold text-gray-900">
+                      {t('event-management.schedule.publication.version', { version: version.version })}
+                      {version === current ? (
+                        <Badge color="green" compact>
+                          {t('event-management.schedule.publication.live')}
+                        </Badge>
+                      ) : null}
+                    </p>
+                    <p className="truncate text-xs text-gray-500">
+                      {t('event-management.schedule.publication.published-by', {
+                        date: formatDatetime(version.publishedAt, { format: 'medium', locale: i18n.language }),
+                        name: version.publishedBy ?? '-',
+                        count: version.sessionsCount,
+                      })}
+                    </p>
+                  </div>
+                  {version !== current ? (
+                    <Form method="POST" onSubmit={onClose}>
+                      <input type="hidden" name="version" value={version.version} />
+                      <Button type="submit" name="intent" value="rollback-schedule" variant="secondary" size="sm">
+                        {t('event-management.schedule.publication.rollback')}
+                      </Button>
+                    </Form>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+      </Modal.Content>
+
+      <Modal.Actions>
+        <Button type="button" variant="secondary" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Form method="POST" onSubmit={onClose}>
+          <Button type="submit" name="intent" value="publish-schedule" disabled={Boolean(current) && !hasChanges}>
+            {t('event-management.schedule.publication.publish')}
+          </Button>
+        </Form>
+      </Modal.Actions>
+    </Modal>
+  );
+}
+
+function SessionDiffItem({ session, timezone }: { session: ScheduleSessionDiff; timezone: string }) {
+  const { t, i18n } = useTranslation();
+
+  return (
+    <li className="flex items-baseline gap-2 px-3 py-2 text-sm">
+      <Badge color={DIFF_COLORS[session.type]} compact>
+        {t(`event-management.schedule.publication.diff.${session.type}`)}
+      </Badge>
+      <div className="min-w-0">
+        <p className="truncate text-gray-900">{session.title || t('event-management.schedule.publication.untitled')}</p>
+        <p className="truncate text-xs text-gray-500">
+          {[
+            formatDatetime(new Date(session.start), { format: 'short', locale: i18n.language, timezone }),
+            session.track,
+            ...session.changes.map((change) => t(`event-management.schedule.publication.changes.${change}`)),
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </p>
+      </div>
+    </li>
+  );
+}
@@ -3,9 +3,15 @@ import { cx } from 'class-variance-authority';
 import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Button } from '~/design-system/button.tsx';
+import type { ScheduleConflict } from '../../models/schedule-conflicts.ts';
+import { hasScheduleChanges } from '../../models/schedule-snapshot.ts';
+import type { ScheduleSession } from '../schedule.types.ts';
+import { ConflictsPanel } from './conflicts-panel.tsx';
 import { DisplayDays } from './display-days.tsx';
 import { DisplayTimes } from './display-times.tsx';
+import { GeneratorModal } from './generator-modal.tsx';
 import { OptionsMenu } from './options-menu.tsx';
+import { PublicationModal, type SchedulePublicationStatus } from './publication-modal.tsx';
 import { TracksModal } from './tracks-modal.tsx';
 import { useScheduleFullscreen } from './use-schedule-fullscreen.tsx';
 import type { ZoomHandlers } from './use-zoom-handlers.tsx';
@@ -14,25 +20,38 @@ type Props = {
   scheduleDays: Array<Date>;
   displayedDays: Array<Date>;
   displayedTimes: { start: number; end: number };
+  timezone: string;
   tracks: Array<{ id: string; name: string }>;
+  sessions: Array<ScheduleSession>;
+  conflicts: Array<ScheduleConflict>;
+  publication: SchedulePublicationStatus;
   zoomHandlers: ZoomHandlers;
   onChangeDisplayDays: (start: Date, end: Date) => void;
   onChangeDisplayTime: (start: number, end: number) => void;
   onNewSession: VoidFunction;
+  onJumpToSession: (session: ScheduleSession) => void;
 };
 
 export function ScheduleHeader({
   scheduleDays,
   displayedDays,
   displayedTimes,
+  timezone,
   tracks,
+  sessions,
+  conflicts,
+  publication,
   zoomHandlers,
   onChangeDisplayDays,
   onChangeDisplayTime,
   onNewSession,
+  onJumpToSession,
 }: Props) {
   const { t } = useTranslation();
   const [tracksModalOpen, setTracksModalOpen] = useState(false);
+  const [generatorModalOpen, setGeneratorModalOpen] = useState(false);
+  const [publicationModalOpen, setPublicationModalOpen] = useState(false);
+  const currentVersion = publication.versions.at(0)?.version;
   const scheduleFullscreen = useScheduleFullscreen();
 
   return (
@@ -52,10 +71,20 @@ export function ScheduleHeader({
       </div>
 
       <div className="flex shrink items-center gap-3">
+        <ConflictsPanel conflicts={conflicts} sessions={sessions} onJumpToSession={onJumpToSession} />
         <Button iconLeft={PlusIcon} onClick={onNewSession} disabled={tracks.length === 0}>
           {t('event-management.schedule.actions.new-session')}
         </Button>
-        <OptionsMenu openTracksModal={() => setTracksModalOpen(true)} zoomHandlers={zoomHandlers} />
+        <Button variant="secondary" onClick={() => setPublicationModalOpen(true)}>
+          {currentVersion && !hasScheduleChanges(publication.diff)
+            ? t('event-management.schedule.publication.published', { version: currentVersion })
+            : t('event-management.schedule.publication.unpublished')}
+        </Button>
+        <OptionsMenu
+          openTracksModal={() => setTracksModalOpen(true)}
+          openGeneratorModal={() => setGeneratorModalOpen(true)}
+          zoomHandlers={zoomHandlers}
+        />
       </div>
 
       <TracksModal
@@ -64,6 +93,20 @@ export function ScheduleHeader({
         open={tracksModalOpen}
         onClose={() => setTracksModalOpen(false)}
       />
+
+      <PublicationModal
+        publication={publication}
+        timezone={timezone}
+        open={publicationModalOpen}
+        onClose={() => setPublicationModalOpen(false)}
+      />
+
+      <GeneratorModal
+        key={`generator-${generatorModalOpen}`}
+        timezone={timezone}
+        open={generatorModalOpen}
+        onClose={() => setGeneratorModalOpen(false)}
+      />
     </header>
   );
 }
@@ -1,5 +1,5 @@
 import type { TimeSlot } from '~/shared/datetimes/timeslots.ts';
-import type { Language } from '~/shared/types/proposals.types.ts';
+import type { ConfirmationStatus, Language } from '~/shared/types/proposals.types.ts';
 
 export type Track = { id: string; name: string };
 
@@ -33,7 +33,9 @@ export type ScheduleProposalData = {
   routeId: string;
   title: string;
   speakers: Array<{
+    id?: string;
     name: string | null;
     picture: string | null;
   }>;
+  confirmationStatus?: ConfirmationStatus | null;
 };
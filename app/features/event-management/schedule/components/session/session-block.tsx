@@ -16,6 +16,7 @@ type SessionBlockProps = {
   displayedTimes: { start: number; end: number };
   tracks: Array<Track>;
   scheduleDays: Array<Date>;
+  hasConflict?: boolean;
   onUpdateSession: (updated: ScheduleSession) => Promise<boolean>;
   onDeleteSession: (session: ScheduleSession) => Promise<void>;
 };
@@ -26,6 +27,7 @@ export function SessionBlock({
   displayedTimes,
   tracks,
   scheduleDays,
+  hasConflict,
   onUpdateSession,
   onDeleteSession,
 }: SessionBlockProps) {
@@ -37,10 +39,13 @@ export function SessionBlock({
   const size = getSize(height);
   const title = proposal ? proposal.title : session.name;
 
-  if (size === 'xs') return <div className={cx('h-full', block)} />;
+  if (size === 'xs') {
+    return <div id={`session-${session.id}`} className={cx('h-full', block, { 'ring-2 ring-red-500': hasConflict })} />;
+  }
 
   return (
     <div
+      id={`session-${session.id}`}
       role="button"
       tabIndex={0}
       onClick={() => setEdit(true)}
@@ -52,6 +57,7 @@ export function SessionBlock({
           'flex-row items-baseline gap-1 text-[10px] leading-3': size === 'md',
           'justify-between text-xs leading-3.5': size === 'lg' || size === 'xl',
           'border-dotted': session.isCreating,
+          'ring-2 ring-red-500 ring-inset': hasConflict,
         },
         block,
       )}
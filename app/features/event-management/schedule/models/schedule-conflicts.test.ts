@@ -0,0 +1,97 @@
+import { type ConflictSession, getScheduleConflicts } from './schedule-conflicts.ts';
+
+describe('getScheduleConflicts', () => {
+  const period = { start: new Date('2024-10-05T00:00:00.000Z'), end: new Date('2024-10-05T23:59:59.999Z') };
+
+  const session = (
+    id: string,
+    trackId: string,
+    start: string,
+    end: string,
+    proposal: ConflictSession['proposal'] = null,
+  ): ConflictSession => ({
+    id,
+    trackId,
+    timeslot: { start: new Date(`2024-10-05T${start}:00.000Z`), end: new Date(`2024-10-05T${end}:00.000Z`) },
+    proposal,
+  });
+
+  const proposal = (id: string, speakerIds: Array<string>, confirmationStatus: string | null = 'CONFIRMED') => ({
+    id,
+    speakers: speakerIds.map((speakerId) => ({ id: speakerId, name: `Speaker ${speakerId}` })),
+    confirmationStatus,
+  });
+
+  it('returns no conflict for a valid schedule', () => {
+    const conflicts = getScheduleConflicts(
+      [
+        session('s1', 't1', '09:00', '10:00', proposal('p1', ['a'])),
+        session('s2', 't1', '10:00', '11:00', proposal('p2', ['a'])),
+        session('s3', 't2', '09:00', '10:00', proposal('p3', ['b'])),
+        session('s4', 't2', '10:00', '11:00'),
+      ],
+      period,
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('flags overlapping sessions in the same track', () => {
+    const conflicts = getScheduleConflicts(
+      [session('s1', 't1', '09:00', '10:00'), session('s2', 't1', '09:30', '10:30')],
+      period,
+    );
+
+    expect(conflicts).toEqual([{ type: 'track-overlap', sessionIds: ['s1', 's2'] }]);
+  });
+
+  it('flags a speaker booked in two overlapping sessions', () => {
+    const conflicts = getScheduleConflicts(
+      [
+        session('s1', 't1', '09:00', '10:00', proposal('p1', ['a', 'b'])),
+        session('s2', 't2', '09:30', '10:30', proposal('p2', ['b'])),
+      ],
+      period,
+    );
+
+    expect(conflicts).toEqual([{ type: 'speaker-overlap', sessionIds: ['s1', 's2'], speakers: ['Speaker b'] }]);
+  });
+
+  it('flags a proposal scheduled twice', () => {
+    const conflicts = getScheduleConflicts(
+      [
+        session('s1', 't1', '09:00', '10:00', proposal('p1', ['a'])),
+        session('s2', 't1', '14:00', '15:00', proposal('p1', ['a'])),
+      ],
+      period,
+    );
+
+    expect(conflicts).toEqual([{ type: 'proposal-duplicated', sessionIds: ['s1', 's2'] }]);
+  });
+
+  it('flags sessions outside the schedule period', () => {
+    const conflicts = getScheduleConflicts([session('s1', 't1', '09:00', '10:00')], {
+      start: new Date('2024-10-05T09:30:00.000Z'),
+      end: period.end,
+    });
+
+    expect(conflicts).toEqual([{ type: 'out-of-schedule', sessionIds: ['s1'] }]);
+  });
+
+  it('flags declined and not confirmed proposals', () => {
+    const conflicts = getScheduleConflicts(
+      [
+        session('s1', 't1', '09:00', '10:00', proposal('p1', ['a'], 'DECLINED')),
+        session('s2', 't1', '10:00', '11:00', proposal('p2', ['b'], 'PENDING')),
+        session('s3', 't1', '11:00', '12:00', proposal('p3', ['c'], null)),
+      ],
+      period,
+    );
+
+    expect(conflicts).toEqual([
+      { type: 'proposal-declined', sessionIds: ['s1'] },
+      { type: 'proposal-not-confirmed', sessionIds: ['s2'] },
+      { type: 'proposal-not-confirmed', sessionIds: ['s3'] },
+    ]);
+  });
+});
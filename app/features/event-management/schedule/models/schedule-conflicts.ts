@@ -0,0 +1,79 @@
+import { areTimeSlotsOverlapping, type TimeSlot } from '~/shared/datetimes/timeslots.ts';
+
+const SCHEDULE_CONFLICT_TYPES = [
+  'speaker-overlap',
+  'track-overlap',
+  'proposal-duplicated',
+  'out-of-schedule',
+  'proposal-declined',
+  'proposal-not-confirmed',
+] as const;
+
+export type ScheduleConflictType = (typeof SCHEDULE_CONFLICT_TYPES)[number];
+
+export type ScheduleConflict = {
+  type: ScheduleConflictType;
+  sessionIds: Array<string>;
+  speakers?: Array<string>;
+};
+
+export type ConflictSession = {
+  id: string;
+  trackId: string;
+  timeslot: TimeSlot;
+  // Proposals picked in the editor are only known by id until the schedule is reloaded,
+  // their speakers and status are checked once loaded
+  proposal?: {
+    id: string;
+    speakers: Array<{ id?: string; name: string | null }>;
+    confirmationStatus?: string | null;
+  } | null;
+};
+
+// Shared by the schedule loader and the editor, so conflicts are flagged live while sessions are moved
+export function getScheduleConflicts(sessions: Array<ConflictSession>, period: TimeSlot): Array<ScheduleConflict> {
+  const conflicts: Array<ScheduleConflict> = [];
+  const sorted = sessions.toSorted((a, b) => a.timeslot.start.getTime() - b.timeslot.start.getTime());
+
+  for (const [index, session] of sorted.entries()) {
+    for (const other of sorted.slice(index + 1)) {
+      if (other.timeslot.start >= session.timeslot.end) break;
+      if (!areTimeSlotsOverlapping(session.timeslot, other.timeslot)) continue;
+
+      const sessionIds = [session.id, other.id];
+      if (session.trackId === other.trackId) conflicts.push({ type: 'track-overlap', sessionIds });
+
+      if (!session.proposal || !other.proposal || session.proposal.id === other.proposal.id) continue;
+      const otherSpeakerIds = other.proposal.speakers.map(({ id }) => id).filter(Boolean);
+      const speakers = session.proposal.speakers.filter(({ id }) => id && otherSpeakerIds.includes(id));
+      if (speakers.length > 0) {
+        conflicts.push({ type: 'speaker-overlap', sessionIds, speakers: speakers.map(({ name }) => name ?? '') });
+      }
+    }
+  }
+
+  const sessionIdsByProposal = new Map<string, Array<string>>();
+  for (const session of sorted) {
+    if (!session.proposal) continue;
+    const sessionIds = sessionIdsByProposal.get(session.proposal.id) ?? [];
+    sessionIdsByProposal.set(session.proposal.id, [...sessionIds, session.id]);
+  }
+  for (const sessionIds of sessionIdsByProposal.values()) {
+    if (sessionIds.length > 1) conflicts.push({ type: 'proposal-duplicated', sessionIds });
+  }
+
+  for (const session of sorted) {
+    if (session.timeslot.start < period.start || session.timeslot.end > period.end) {
+      conflicts.push({ type: 'out-of-schedule', sessionIds: [session.id] });
+    }
+
+    const status = session.proposal?.confirmationStatus;
+    if (!session.proposal || status === undefined || status === 'CONFIRMED') continue;
+    conflicts.push({
+      type: status === 'DECLINED' ? 'proposal-declined' : 'proposal-not-confirmed',
+      sessionIds: [session.id],
+    });
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,127 @@
+import { type GeneratorInput, type GeneratorProposal, generateSchedule } from './schedule-generator.ts';
+
+describe('generateSchedule', () => {
+  const at = (time: string, day = '05') => new Date(`2024-10-${day}T${time}:00.000Z`);
+
+  const proposal = (id: string, speakerIds: Array<string>, categoryId: string | null = null): GeneratorProposal => ({
+    id,
+    speakerIds,
+    formatIds: [],
+    categoryId,
+  });
+
+  const input = (values: Partial<GeneratorInput>): GeneratorInput => ({
+    days: [{ start: at('09:00'), end: at('12:00') }],
+    trackIds: ['t1'],
+    fixedSessions: [],
+    proposals: [],
+    formatDurations: {},
+    defaultDuration: 60,
+    speakerBreak: 0,
+    ...values,
+  });
+
+  const placements = (result: ReturnType<typeof generateSchedule>) =>
+    result.sessions.map(({ proposalId, trackId, timeslot }) => ({
+      proposalId,
+      trackId,
+      start: timeslot.start.toISOString().slice(11, 16),
+      end: timeslot.end.toISOString().slice(11, 16),
+    }));
+
+  it('places proposals one after the other in the earliest slots', () => {
+    const result = generateSchedule(input({ proposals: [proposal('p1', ['a']), proposal('p2', ['b'])] }));
+
+    expect(placements(result)).toEqual([
+      { proposalId: 'p1', trackId: 't1', start: '09:00', end: '10:00' },
+      { proposalId: 'p2', trackId: 't1', start: '10:00', end: '11:00' },
+    ]);
+    expect(result.unplacedProposalIds).toEqual([]);
+  });
+
+  it('uses the longest format duration of proposals', () => {
+    const result = generateSchedule(
+      input({
+        proposals: [{ ...proposal('p1', ['a']), formatIds: ['quickie', 'talk'] }],
+        formatDurations: { quickie: 15, talk: 45 },
+      }),
+    );
+
+    expect(placements(result)).toEqual([{ proposalId: 'p1', trackId: 't1', start: '09:00', end: '09:45' }]);
+  });
+
+  it('keeps fixed sessions and avoids them', () => {
+    const result = generateSchedule(
+      input({
+        fixedSessions: [{ trackId: 't1', timeslot: { start: at('09:30'), end: at('10:00') }, speakerIds: [] }],
+        proposals: [proposal('p1', ['a']), proposal('p2', ['b'])],
+      }),
+    );
+
+    expect(placements(result)).toEqual([
+      { proposalId: 'p1', trackId: 't1', start: '10:00', end: '11:00' },
+      { proposalId: 'p2', trackId: 't1', start: '11:00', end: '12:00' },
+    ]);
+  });
+
+  it('groups proposals by category per track', () => {
+    const result = generateSchedule(
+      input({
+        trackIds: ['t1', 't2'],
+        proposals: [
+          proposal('web1', ['a'], 'web'),
+          proposal('cloud1', ['b'], 'cloud'),
+          proposal('web2', ['c'], 'web'),
+          proposal('cloud2', ['d'], 'cloud'),
+        ],
+      }),
+    );
+
+    expect(placements(result)).toEqual([
+      { proposalId: 'web1', trackId: 't1', start: '09:00', end: '10:00' },
+      { proposalId: 'web2', trackId: 't1', start: '10:00', end: '11:00' },
+      { proposalId: 'cloud1', trackId: 't2', start: '09:00', end: '10:00' },
+      { proposalId: 'cloud2', trackId: 't2', start: '10:00', end: '11:00' },
+    ]);
+  });
+
+  it('avoids speaker clashes with the requested break', () => {
+    const result = generateSchedule(
+      input({
+        trackIds: ['t1', 't2'],
+        fixedSessions: [{ trackId: 't2', timeslot: { start: at('09:00'), end: at('10:00') }, speakerIds: ['a'] }],
+        proposals: [proposal('p1', ['a'])],
+        speakerBreak: 15,
+      }),
+    );
+
+    expect(placements(result)).toEqual([{ proposalId: 'p1', trackId: 't1', start: '10:15', end: '11:15' }]);
+  });
+
+  it('overflows to other tracks and days, then reports unplaced proposals', () => {
+    const result = generateSchedule(
+      input({
+        days: [
+          { start: at('09:00'), end: at('10:00') },
+          { start: at('09:00', '06'), end: at('10:00', '06') },
+        ],
+        trackIds: ['t1', 't2'],
+        proposals: [
+          proposal('p1', ['a'], 'web'),
+          proposal('p2', ['b'], 'web'),
+          proposal('p3', ['c'], 'web'),
+          proposal('p4', ['a'], 'web'),
+          proposal('p5', ['d'], 'web'),
+        ],
+      }),
+    );
+
+    expect(result.sessions.map(({ proposalId, trackId, timeslot }) => [proposalId, trackId, timeslot.start])).toEqual([
+      ['p1', 't1', at('09:00')],
+      ['p2', 't1', at('09:00', '06')],
+      ['p3', 't2', at('09:00')],
+      ['p4', 't2', at('09:00', '06')],
+    ]);
+    expect(result.unplacedProposalIds).toEqual(['p5']);
+  });
+});
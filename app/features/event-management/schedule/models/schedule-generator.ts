@@ -0,0 +1,145 @@
+import { addMinutes } from 'date-fns';
+import { areTimeSlotsOverlapping, type TimeSlot } from '~/shared/datetimes/timeslots.ts';
+
+const SLOT_STEP = 5; // minutes
+
+export type GeneratorProposal = {
+  id: string;
+  speakerIds: Array<string>;
+  formatIds: Array<string>;
+  categoryId: string | null;
+};
+
+type GeneratorFixedSession = {
+  trackId: string;
+  timeslot: TimeSlot;
+  speakerIds: Array<string>;
+};
+
+export type GeneratorInput = {
+  days: Array<TimeSlot>;
+  trackIds: Array<string>;
+  fixedSessions: Array<GeneratorFixedSession>;
+  proposals: Array<GeneratorProposal>;
+  formatDurations: Record<string, number>;
+  defaultDuration: number;
+  speakerBreak: number;
+};
+
+type GeneratedSession = {
+  proposalId: string;
+  trackId: string;
+  timeslot: TimeSlot;
+};
+
+/**
+ * Generate a placement of proposals in the schedule grid, without moving sessions already placed.
+ * Proposals of a same category are grouped on a track, the largest categories being balanced first,
+ * then each proposal takes the earliest free slot of its track where none of its speakers is busy.
+ * A proposal overflows to the other tracks when its track is full.
+ */
+export function generateSchedule(input: GeneratorInput) {
+  const { days, trackIds, fixedSessions, proposals, speakerBreak } = input;
+  if (trackIds.length === 0) return { sessions: [], unplacedProposalIds: proposals.map(({ id }) => id) };
+
+  const trackSessions = new Map(trackIds.map((trackId) => [trackId, [] as Array<TimeSlot>]));
+  const speakerSessions = new Map<string, Array<TimeSlot>>();
+
+  const book = (trackId: string, timeslot: TimeSlot, speakerIds: Array<string>) => {
+    trackSessions.get(trackId)?.push(timeslot);
+    for (const speakerId of speakerIds) {
+      speakerSessions.set(speakerId, [...(speakerSessions.get(speakerId) ?? []), timeslot]);
+    }
+  };
+
+  for (const session of fixedSessions) {
+    book(session.trackId, session.timeslot, session.speakerIds);
+  }
+
+  const isFree = (trackId: string, timeslot: TimeSlot, speakerIds: Array<string>) => {
+    const busyTrack = trackSessions.get(trackId)?.some((booked) => areTimeSlotsOverlapping(booked, timeslot));
+    if (busyTrack) return false;
+
+    const withBreak = { start: addMinutes(timeslot.start, -speakerBreak), end: addMinutes(timeslot.end, speakerBreak) };
+    return speakerIds.every(
+      (speakerId) => !speakerSessions.get(speakerId)?.some((booked) => areTimeSlotsOverlapping(booked, withBreak)),
+    );
+  };
+
+  const findSlot = (trackId: string, duration: number, speakerIds: Array<string>) => {
+    for (const day of days) {
+      for (let start = day.start; addMinutes(start, duration) <= day.end; start = addMinutes(start, SLOT_STEP)) {
+        const timeslot = { start, end: addMinutes(start, duration) };
+        if (isFree(trackId, timeslot, speakerIds)) return timeslot;
+      }
+    }
+    return null;
+  };
+
+  const groups = groupByCategory(proposals, (proposal) => getDuration(proposal, input));
+  const assignedTracks = assignTracks(groups, trackIds);
+
+  const sessions: Array<GeneratedSession> = [];
+  const unplacedProposalIds: Array<string> = [];
+
+  for (const [index, group] of groups.entries()) {
+    const assignedTrack = assignedTracks[index];
+    const trackCandidates = [assignedTrack, ...trackIds.filter((trackId) => trackId !== assignedTrack)];
+
+    for (const proposal of group.proposals) {
+      const duration = getDuration(proposal, input);
+
+      let placed = false;
+      for (const trackId of trackCandidates) {
+        const timeslot = findSlot(trackId, duration, proposal.speakerIds);
+        if (!timeslot) continue;
+
+        book(trackId, timeslot, proposal.speakerIds);
+        sessions.push({ proposalId: proposal.id, trackId, timeslot });
+        placed = true;
+        break;
+      }
+
+      if (!placed) unplacedProposalIds.push(proposal.id);
+    }
+  }
+
+  return { sessions, unplacedProposalIds };
+}
+
+// The longest format of a proposal gives its duration
+function getDuration(proposal: GeneratorProposal, { formatDurations, defaultDuration }: GeneratorInput) {
+  const durations = proposal.formatIds.map((formatId) => formatDurations[formatId]).filter(Boolean);
+  return durations.length > 0 ? Math.max(...durations) : defaultDuration;
+}
+
+type ProposalGroup = { proposals: Array<GeneratorProposal>; totalDuration: number };
+
+function groupByCategory(proposals: Array<GeneratorProposal>, getDuration: (proposal: GeneratorProposal) => number) {
+  const groups = new Map<string | null, ProposalGroup>();
+
+  for (const proposal of proposals) {
+    const group = groups.get(proposal.categoryId) ?? { proposals: [], totalDuration: 0 };
+    group.proposals.push(proposal);
+    group.totalDuration += getDuration(proposal);
+    groups.set(proposal.categoryId, group);
+  }
+
+  // Longest sessions are placed first, they are the hardest to fit
+  for (const group of groups.values()) {
+    group.proposals.sort((a, b) => getDuration(b) - getDuration(a));
+  }
+
+  return Array.from(groups.values()).toSorted((a, b) => b.totalDuration - a.totalDuration);
+}
+
+// Each category goes to the least loaded track, groups being sorted from the largest
+function assignTracks(groups: Array<ProposalGroup>, trackIds: Array<string>) {
+  const loads = new Map(trackIds.map((trackId) => [trackId, 0]));
+
+  return groups.map((group) => {
+    const [trackId] = trackIds.toSorted((a, b) => (loads.get(a) ?? 0) - (loads.get(b) ?? 0));
+    loads.set(trackId, (loads.get(trackId) ?? 0) + group.totalDuration);
+    return trackId;
+  });
+}
@@ -0,0 +1,95 @@
+import { diffScheduleSnapshots, type ScheduleSnapshot, type ScheduleSnapshotSession } from './schedule-snapshot.ts';
+
+describe('diffScheduleSnapshots', () => {
+  const session = (id: string, values: Partial<ScheduleSnapshotSession> = {}): ScheduleSnapshotSession => ({
+    id,
+    trackId: 't1',
+    start: '2024-10-05T08:00:00.000Z',
+    end: '2024-10-05T09:00:00.000Z',
+    name: `Session ${id}`,
+    language: null,
+    updatedAt: '2024-09-01T00:00:00.000Z',
+    proposal: null,
+    ...values,
+  });
+
+  const snapshot = (sessions: Array<ScheduleSnapshotSession>, values: Partial<ScheduleSnapshot> = {}) => ({
+    name: 'Devfest',
+    timezone: 'Europe/Paris',
+    start: '2024-10-05T00:00:00.000Z',
+    end: '2024-10-06T00:00:00.000Z',
+    tracks: [
+      { id: 't1', name: 'Room 1' },
+      { id: 't2', name: 'Room 2' },
+    ],
+    sessions,
+    ...values,
+  });
+
+  it('returns all sessions as added when nothing is published', () => {
+    const diff = diffScheduleSnapshots(null, snapshot([session('s1')]));
+
+    expect(diff).toEqual({
+      settings: [],
+      sessions: [
+        {
+          type: 'added',
+          sessionId: 's1',
+          title: 'Session s1',
+          track: 'Room 1',
+          start: '2024-10-05T08:00:00.000Z',
+          changes: [],
+        },
+      ],
+    });
+  });
+
+  it('returns no changes for identical snapshots', () => {
+    const published = snapshot([session('s1')]);
+    const working = snapshot([session('s1', { updatedAt: '2024-09-02T00:00:00.000Z' })]);
+
+    expect(diffScheduleSnapshots(published, working)).toEqual({ settings: [], sessions: [] });
+  });
+
+  it('returns added, removed and updated sessions', () => {
+    const published = snapshot([session('s1'), session('s2')]);
+    const working = snapshot([
+      session('s1', { trackId: 't2', start: '2024-10-05T10:00:00.000Z', end: '2024-10-05T11:00:00.000Z' }),
+      session('s3', { start: '2024-10-05T12:00:00.000Z' }),
+    ]);
+
+    expect(diffScheduleSnapshots(published, working).sessions).toEqual([
+      expect.objectContaining({ type: 'removed', sessionId: 's2', track: 'Room 1' }),
+      expect.objectContaining({ type: 'updated', sessionId: 's1', track: 'Room 2', changes: ['time', 'track'] }),
+      expect.objectContaining({ type: 'added', sessionId: 's3' }),
+    ]);
+  });
+
+  it('returns proposal changes of a session', () => {
+    const proposal = {
+      id: 'p1',
+      proposalNumber: 1,
+      title: 'Talk',
+      abstract: 'Abstract',
+      level: null,
+      formats: [],
+      categories: [],
+      speakers: ['sp1'],
+    };
+    const published = snapshot([session('s1', { proposal })]);
+    const working = snapshot([
+      session('s1', { proposal: { ...proposal, title: 'New talk', abstract: 'New abstract', speakers: [] } }),
+    ]);
+
+    expect(diffScheduleSnapshots(published, working).sessions).toEqual([
+      expect.objectContaining({ type: 'updated', title: 'New talk', changes: ['title', 'speakers', 'details'] }),
+    ]);
+  });
+
+  it('returns schedule settings changes', () => {
+    const published = snapshot([]);
+    const working = snapshot([], { name: 'Devfest 2024', tracks: [{ id: 't1', name: 'Main stage' }] });
+
+    expect(diffScheduleSnapshots(published, working).settings).toEqual(['name', 'tracks']);
+  });
+});
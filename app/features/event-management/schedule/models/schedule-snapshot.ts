@@ -0,0 +1,120 @@
+export type ScheduleSnapshot = {
+  name: string;
+  timezone: string;
+  start: string;
+  end: string;
+  tracks: Array<{ id: string; name: string }>;
+  sessions: Array<ScheduleSnapshotSession>;
+};
+
+export type ScheduleSnapshotSession = {
+  id: string;
+  trackId: string;
+  start: string;
+  end: string;
+  name: string | null;
+  language: string | null;
+  updatedAt: string;
+  proposal: {
+    id: string;
+    proposalNumber: number | null;
+    title: string;
+    abstract: string;
+    level: string | null;
+    formats: Array<string>;
+    categories: Array<string>;
+    // Event speaker ids only, profiles are resolved when read so they follow account deletion
+    speakers: Array<string>;
+  } | null;
+};
+
+const SCHEDULE_SETTINGS_CHANGES = ['name', 'timezone', 'dates', 'tracks'] as const;
+const SCHEDULE_SESSION_CHANGES = ['time', 'track', 'title', 'language', 'speakers', 'details'] as const;
+
+type ScheduleSettingsChange = (typeof SCHEDULE_SETTINGS_CHANGES)[number];
+type ScheduleSessionChange = (typeof SCHEDULE_SESSION_CHANGES)[number];
+
+export type ScheduleSessionDiff = {
+  type: 'added' | 'removed' | 'updated';
+  sessionId: string;
+  title: string | null;
+  track: string | null;
+  start: string;
+  changes: Array<ScheduleSessionChange>;
+};
+
+export type ScheduleSnapshotDiff = {
+  settings: Array<ScheduleSettingsChange>;
+  sessions: Array<ScheduleSessionDiff>;
+};
+
+/** Compare a published snapshot to the working version of the schedule, everything is new when nothing is published */
+export function diffScheduleSnapshots(
+  published: ScheduleSnapshot | null,
+  working: ScheduleSnapshot,
+): ScheduleSnapshotDiff {
+  const base = published ?? { ...working, tracks: [], sessions: [] };
+
+  const settings: Array<ScheduleSettingsChange> = [];
+  if (published && base.name !== working.name) settings.push('name');
+  if (published && base.timezone !== working.timezone) settings.push('timezone');
+  if (published && (base.start !== working.start || base.end !== working.end)) settings.push('dates');
+  if (published && !isEqual(base.tracks, working.tracks)) settings.push('tracks');
+
+  const baseTrackName = (trackId: string) => base.tracks.find(({ id }) => id === trackId)?.name ?? null;
+  const workingTrackName = (trackId: string) => working.tracks.find(({ id }) => id === trackId)?.name ?? null;
+
+  const sessions: Array<ScheduleSessionDiff> = [];
+
+  for (const session of working.sessions) {
+    const previous = base.sessions.find(({ id }) => id === session.id);
+    const diff = { sessionId: session.id, title: getTitle(session), track: workingTrackName(session.trackId) };
+
+    if (!previous) {
+      sessions.push({ ...diff, type: 'added', start: session.start, changes: [] });
+      continue;
+    }
+
+    const changes: Array<ScheduleSessionChange> = [];
+    if (previous.start !== session.start || previous.end !== session.end) changes.push('time');
+    if (baseTrackName(previous.trackId) !== workingTrackName(session.trackId)) changes.push('track');
+    if (getTitle(previous) !== getTitle(session)) changes.push('title');
+    if (previous.language !== session.language) changes.push('language');
+    if (!isEqual(previous.proposal?.speakers, session.proposal?.speakers)) changes.push('speakers');
+    if (!isEqual(getDetails(previous), getDetails(session))) changes.push('details');
+
+    if (changes.length > 0) sessions.push({ ...diff, type: 'updated', start: session.start, changes });
+  }
+
+  for (const session of base.sessions) {
+    if (working.sessions.some(({ id }) => id === session.id)) continue;
+    sessions.push({
+      type: 'removed',
+      sessionId: session.id,
+      title: getTitle(session),
+      track: baseTrackName(session.trackId),
+      start: session.start,
+      changes: [],
+    });
+  }
+
+  return { settings, sessions: sessions.toSorted((a, b) => a.start.localeCompare(b.start)) };
+}
+
+export function hasScheduleChanges(diff: ScheduleSnapshotDiff) {
+  return diff.settings.length > 0 || diff.sessions.length > 0;
+}
+
+function getTitle(session: ScheduleSnapshotSession) {
+  return session.proposal ? session.proposal.title : session.name;
+}
+
+function getDetails({ proposal }: ScheduleSnapshotSession) {
+  if (!proposal) return null;
+  const { abstract, level, formats, categories, proposalNumber } = proposal;
+  return { abstract, level, formats, categories, proposalNumber };
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
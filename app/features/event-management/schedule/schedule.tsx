@@ -1,13 +1,16 @@
 import { parseWithZod } from '@conform-to/zod/v4';
 import { CalendarDaysIcon } from '@heroicons/react/24/outline';
 import { cx } from 'class-variance-authority';
-import { useState } from 'react';
+import { isSameDay } from 'date-fns';
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { redirect } from 'react-router';
 import { Button } from '~/design-system/button.tsx';
 import { EmptyState } from '~/design-system/layouts/empty-state.tsx';
 import {
   ScheduleDisplayTimesUpdateSchema,
+  ScheduleGenerateSchema,
+  SchedulePublicationVersionSchema,
   ScheduleSessionCreateSchema,
   ScheduleSessionUpdateSchema,
   ScheduleTracksSaveSchema,
@@ -27,17 +30,30 @@ import { SessionBlock } from './components/session/session-block.tsx';
 import { SessionModal } from './components/session/session-modal.tsx';
 import { useDisplaySettings } from './components/use-display-settings.tsx';
 import { useSessions } from './components/use-sessions.ts';
+import { getScheduleConflicts, type ScheduleConflictType } from './models/schedule-conflicts.ts';
+import { ScheduleGenerator } from './services/schedule-generator.server.ts';
+import { EventSchedulePublication } from './services/schedule-publication.server.ts';
 import { EventSchedule } from './services/schedule.server.ts';
 
 const NEW_SESSION_DURATION = 30; // minutes
 
+// Track overlaps are transient while switching sessions, and unconfirmed proposals are expected until speakers answer
+const SAVE_WARNING_CONFLICTS: Array<ScheduleConflictType> = [
+  'speaker-overlap',
+  'proposal-duplicated',
+  'out-of-schedule',
+  'proposal-declined',
+];
+
 export const loader = async ({ params, context }: Route.LoaderArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
 
   const schedule = await EventSchedule.for(authorizedEvent).getScheduleSessions();
   if (!schedule) return redirect(`/team/${params.team}/${params.event}/schedule`);
 
-  return schedule;
+  const publication = await EventSchedulePublication.for(authorizedEvent).getStatus();
+
+  return { ...schedule, publication };
 };
 
 export const action = async ({ request, context }: Route.ActionArgs) => {
@@ -51,13 +67,21 @@ export const action = async ({ request, context }: Route.ActionArgs) => {
     case 'add-session': {
       const result = parseWithZod(form, { schema: ScheduleSessionCreateSchema });
       if (result.status !== 'success') return toast('error', i18n.t('error.global'));
-      await eventSchedule.addSession(result.value);
+      const session = await eventSchedule.addSession(result.value);
+      const conflicts = await eventSchedule.getSessionConflicts(session.id);
+      if (conflicts.some(({ type }) => SAVE_WARNING_CONFLICTS.includes(type))) {
+        return toast('error', i18n.t('event-management.schedule.conflicts.feedbacks.detected'));
+      }
       break;
     }
     case 'update-session': {
       const result = parseWithZod(form, { schema: ScheduleSessionUpdateSchema });
       if (result.status !== 'success') return toast('error', i18n.t('error.global'));
-      await eventSchedule.updateSession(result.value);
+      const session = await eventSchedule.updateSession(result.value);
+      const conflicts = await eventSchedule.getSessionConflicts(session.id);
+      if (conflicts.some(({ type }) => SAVE_WARNING_CONFLICTS.includes(type))) {
+        return toast('error', i18n.t('event-management.schedule.conflicts.feedbacks.detected'));
+      }
       break;
     }
     case 'delete-session': {
@@ -78,6 +102,34 @@ export const action = async ({ request, context }: Route.ActionArgs) => {
       await eventSchedule.saveTracks(result.value.tracks);
       break;
     }
+    case 'generate-schedule-preview': {
+      const result = parseWithZod(form, { schema: ScheduleGenerateSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      const generation = await ScheduleGenerator.for(authorizedEvent).preview(result.value);
+      return { generation };
+    }
+    case 'generate-schedule-apply': {
+      const result = parseWithZod(form, { schema: ScheduleGenerateSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      const count = await ScheduleGenerator.for(authorizedEvent).apply(result.value);
+      return toast('success', i18n.t('event-management.schedule.generator.feedbacks.applied', { count }));
+    }
+    case 'publish-schedule': {
+      const publication = await EventSchedulePublication.for(authorizedEvent).publish();
+      return toast(
+        'success',
+        i18n.t('event-management.schedule.publication.feedbacks.published', { version: publication.version }),
+      );
+    }
+    case 'rollback-schedule': {
+      const result = SchedulePublicationVersionSchema.safeParse(form.get('version'));
+      if (!result.success) return toast('error', i18n.t('error.global'));
+      const publication = await EventSchedulePublication.for(authorizedEvent).rollback(result.data);
+      return toast(
+        'success',
+        i18n.t('event-management.schedule.publication.feedbacks.rolled-back', { version: publication.version }),
+      );
+    }
     case 'delete-schedule': {
       await eventSchedule.delete();
       break;
@@ -93,6 +145,27 @@ export default function ScheduleRoute({ loaderData: schedule }: Route.ComponentP
   const { isFullscreen } = useScheduleFullscreen();
   const zoomHandlers = useZoomHandlers();
   const [newSession, setNewSession] = useState<ScheduleSession | null>(null);
+  const [focusedSessionId, setFocusedSessionId] = useState<string | null>(null);
+
+  // Conflicts are computed from the local sessions to be flagged while sessions are moved
+  const conflicts = getScheduleConflicts(sessions.data, { start: schedule.start, end: schedule.end });
+  const conflictingSessionIds = new Set(conflicts.flatMap(({ sessionIds }) => sessionIds));
+
+  useEffect(() => {
+    if (!focusedSessionId) return;
+    const element = document.getElementById(`session-${focusedSessionId}`);
+    if (!element) return;
+    element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    setFocusedSessionId(null);
+  }, [focusedSessionId, settings.displayedDays]);
+
+  const jumpToSession = (session: ScheduleSession) => {
+    const day = settings.scheduleDays.find((day) => isSameDay(day, session.timeslot.start));
+    if (day && !settings.displayedDays.some((displayed) => isSameDay(displayed, day))) {
+      settings.updateDisplayDays(day, day);
+    }
+    setFocusedSessionId(session.id);
+  };
 
   const openNewSession = () => {
     const day = settings.displayedDays.at(0);
@@ -136,11 +209,16 @@ export default function ScheduleRoute({ loaderData: schedule }: Route.ComponentP
           scheduleDays={settings.scheduleDays}
           displayedDays={settings.displayedDays}
           displayedTimes={settings.displayedTimes}
+          timezone={schedule.timezone}
           tracks={schedule.tracks}
+          sessions={sessions.data}
+          conflicts={conflicts}
+          publication={schedule.publication}
           zoomHandlers={zoomHandlers}
           onChangeDisplayDays={settings.updateDisplayDays}
           onChangeDisplayTime={settings.updateDisplayTimes}
           onNewSession={openNewSession}
+          onJumpToSession={jumpToSession}
         />
 
         <Schedule
@@ -160,6 +238,7 @@ export default function ScheduleRoute({ loaderData: schedule }: Route.ComponentP
               displayedTimes={settings.displayedTimes}
               tracks={schedule.tracks}
               scheduleDays={settings.scheduleDays}
+              hasConflict={conflictingSessionIds.has(session.id)}
               onUpdateSession={sessions.update}
               onDeleteSession={sessions.delete}
             />
@@ -0,0 +1,146 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { scheduleTrackFactory } from 'tests/factories/schedule-track.ts';
+import { scheduleFactory } from 'tests/factories/schedule.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Schedule, ScheduleTrack, Team, User } from '../../../../../prisma/generated/client.ts';
+import { ScheduleGenerator } from './schedule-generator.server.ts';
+
+describe('ScheduleGenerator', () => {
+  let owner: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+  let schedule: Schedule;
+  let track: ScheduleTrack;
+
+  beforeEach(async () => {
+    owner = await userFactory();
+    reviewer = await userFactory();
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team, traits: ['conference'] });
+    schedule = await scheduleFactory({ event });
+    track = await scheduleTrackFactory({ name: 'Room 1', schedule });
+  });
+
+  describe('#preview', () => {
+    it('places confirmed proposals not yet scheduled', async () => {
+      const format = await eventFormatFactory({ event });
+      const talk1 = await talkFactory({ speakers: [await userFactory()] });
+      const proposal1 = await proposalFactory({ event, talk: talk1, formats: [format], traits: ['confirmed'] });
+      const talk2 = await talkFactory({ speakers: [await userFactory()] });
+      const proposal2 = await proposalFactory({ event, talk: talk2, traits: ['confirmed'] });
+      const talk3 = await talkFactory({ speakers: [await userFactory()] });
+      await proposalFactory({ event, talk: talk3, traits: ['accepted-published'] });
+      const talk4 = await talkFactory({ speakers: [await userFactory()] });
+      await proposalFactory({ event, talk: talk4, traits: ['confirmed', 'archived'] });
+      const talk5 = await talkFactory({ speakers: [await userFactory()] });
+      const scheduled = await proposalFactory({ event, talk: talk5, traits: ['confirmed'] });
+      await db.scheduleSession.create({
+        data: {
+          scheduleId: schedule.id,
+          trackId: track.id,
+          proposalId: scheduled.id,
+          color: 'gray',
+          start: new Date('2024-10-05T07:00:00.000Z'),
+          end: new Date('2024-10-05T07:30:00.000Z'),
+        },
+      });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const preview = await ScheduleGenerator.for(authorizedEvent).preview({
+        defaultDuration: 45,
+        speakerBreak: 0,
+        formats: [{ id: format.id, duration: 20 }],
+      });
+
+      expect(preview).toEqual({
+        sessions: [
+          {
+            proposalId: proposal2.id,
+            title: proposal2.title,
+            track: 'Room 1',
+            start: new Date('2024-10-05T07:30:00.000Z'),
+            end: new Date('2024-10-05T08:15:00.000Z'),
+          },
+          {
+            proposalId: proposal1.id,
+            title: proposal1.title,
+            track: 'Room 1',
+            start: new Date('2024-10-05T08:15:00.000Z'),
+            end: new Date('2024-10-05T08:35:00.000Z'),
+          },
+        ],
+        unplacedProposals: [],
+      });
+    });
+
+    it('reports proposals not fitting in the schedule', async () => {
+      const talk = await talkFactory({ speakers: [owner] });
+      const proposal = await proposalFactory({ event, talk, traits: ['confirmed'] });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const preview = await ScheduleGenerator.for(authorizedEvent).preview({
+        defaultDuration: 10 * 60,
+        speakerBreak: 0,
+        formats: [],
+      });
+
+      expect(preview).toEqual({ sessions: [], unplacedProposals: [{ id: proposal.id, title: proposal.title }] });
+    });
+
+    it('throws an error when schedule does not exist', async () => {
+      const event = await eventFactory({ team, traits: ['conference'] });
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      await expect(
+        ScheduleGenerator.for(authorizedEvent).preview({ defaultDuration: 45, speakerBreak: 0, formats: [] }),
+      ).rejects.toThrowError(NotFoundError);
+    });
+
+    it('throws an error when user cannot edit the schedule', async () => {
+      const authorizedTeam = await getAuthorizedTeam(reviewer.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      await expect(
+        ScheduleGenerator.for(authorizedEvent).preview({ defaultDuration: 45, speakerBreak: 0, formats: [] }),
+      ).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+
+  describe('#apply', () => {
+    it('creates the generated sessions', async () => {
+      const talk = await talkFactory({ speakers: [owner], attributes: { languages: ['fr'] } });
+      const proposal = await proposalFactory({ event, talk, traits: ['confirmed'] });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const count = await ScheduleGenerator.for(authorizedEvent).apply({
+        defaultDuration: 30,
+        speakerBreak: 0,
+        formats: [],
+      });
+
+      expect(count).toBe(1);
+      const sessions = await db.scheduleSession.findMany({ where: { scheduleId: schedule.id } });
+      expect(sessions).toEqual([
+        expect.objectContaining({
+          trackId: track.id,
+          proposalId: proposal.id,
+          language: 'fr',
+          start: new Date('2024-10-05T07:00:00.000Z'),
+          end: new Date('2024-10-05T07:30:00.000Z'),
+        }),
+      ]);
+    });
+  });
+});
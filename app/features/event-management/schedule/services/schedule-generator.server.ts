@@ -0,0 +1,119 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { getDatesRange, setMinutesFromStartOfDay } from '~/shared/datetimes/datetimes.ts';
+import { utcToTimezone } from '~/shared/datetimes/timezone.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import type { Languages } from '~/shared/types/proposals.types.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { generateSchedule } from '../models/schedule-generator.ts';
+import type { ScheduleGenerateData } from './schedule.schema.server.ts';
+
+export class ScheduleGenerator {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new ScheduleGenerator(authorizedEvent);
+  }
+
+  async preview(options: ScheduleGenerateData) {
+    const { schedule, proposals, result } = await this.generate(options);
+
+    const findProposal = (proposalId: string) => proposals.find((proposal) => proposal.id === proposalId);
+
+    return {
+      sessions: result.sessions
+        .toSorted((a, b) => a.timeslot.start.getTime() - b.timeslot.start.getTime())
+        .map(({ proposalId, trackId, timeslot }) => ({
+          proposalId,
+          title: findProposal(proposalId)?.title ?? '',
+          track: schedule.tracks.find((track) => track.id === trackId)?.name ?? '',
+          start: timeslot.start,
+          end: timeslot.end,
+        })),
+      unplacedProposals: result.unplacedProposalIds.map((proposalId) => ({
+        id: proposalId,
+        title: findProposal(proposalId)?.title ?? '',
+      })),
+    };
+  }
+
+  // Generation is deterministic, applying it places the sessions shown in the preview
+  async apply(options: ScheduleGenerateData) {
+    const { schedule, proposals, result } = await this.generate(options);
+
+    await db.scheduleSession.createMany({
+      data: result.sessions.map(({ proposalId, trackId, timeslot }) => {
+        const proposal = proposals.find(({ id }) => id === proposalId);
+        return {
+          scheduleId: schedule.id,
+          trackId,
+          proposalId,
+          start: timeslot.start,
+          end: timeslot.end,
+          color: 'gray',
+          language: (proposal?.languages as Languages | undefined)?.at(0) ?? null,
+        };
+      }),
+    });
+
+    return result.sessions.length;
+  }
+
+  private async generate(options: ScheduleGenerateData) {
+    const { event, permissions } = this.authorizedEvent;
+    if (event.type === 'MEETUP') throw new ForbiddenOperationError();
+    if (!permissions.canEditEventSchedule) throw new ForbiddenOperationError();
+
+    const schedule = await db.schedule.findFirst({
+      where: { eventId: event.id },
+      include: {
+        tracks: { orderBy: { createdAt: 'asc' } },
+        sessions: { include: { proposal: { include: { speakers: true } } } },
+      },
+    });
+    if (!schedule) throw new NotFoundError('Schedule not found');
+
+    const proposals = await db.proposal.findMany({
+      where: {
+        eventId: event.id,
+        confirmationStatus: 'CONFIRMED',
+        archivedAt: null,
+        ScheduleSession: { none: { scheduleId: schedule.id } },
+      },
+      include: { speakers: true, formats: true, categories: { orderBy: { order: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const { timezone, displayStartMinutes, displayEndMinutes } = schedule;
+    const days = getDatesRange(utcToTimezone(schedule.start, timezone), utcToTimezone(schedule.end, timezone)).map(
+      (day) => ({
+        start: new Date(
+          Math.max(setMinutesFromStartOfDay(day, displayStartMinutes).getTime(), schedule.start.getTime()),
+        ),
+        end: new Date(Math.min(setMinutesFromStartOfDay(day, displayEndMinutes).getTime(), schedule.end.getTime())),
+      }),
+    );
+
+    const result = generateSchedule({
+      days,
+      trackIds: schedule.tracks.map((track) => track.id),
+      fixedSessions: schedule.sessions.map((session) => ({
+        trackId: session.trackId,
+        timeslot: { start: session.start, end: session.end },
+        speakerIds: session.proposal?.speakers.map((speaker) => speaker.id) ?? [],
+      })),
+      proposals: proposals.map((proposal) => ({
+        id: proposal.id,
+        speakerIds: proposal.speakers.map((speaker) => speaker.id),
+        formatIds: proposal.formats.map((format) => format.id),
+        categoryId: proposal.categories.at(0)?.id ?? null,
+      })),
+      formatDurations: Object.fromEntries(
+        options.formats.flatMap(({ id, duration }) => (duration ? [[id, duration] as const] : [])),
+      ),
+      defaultDuration: options.defaultDuration,
+      speakerBreak: options.speakerBreak,
+    });
+
+    return { schedule, proposals, result };
+  }
+}
@@ -0,0 +1,194 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { scheduleTrackFactory } from 'tests/factories/schedule-track.ts';
+import { scheduleFactory } from 'tests/factories/schedule.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Schedule, ScheduleTrack, Team, User } from '../../../../../prisma/generated/client.ts';
+import type { ScheduleSnapshot } from '../models/schedule-snapshot.ts';
+import { EventSchedulePublication } from './schedule-publication.server.ts';
+
+describe('EventSchedulePublication', () => {
+  let owner: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+  let schedule: Schedule;
+  let track: ScheduleTrack;
+  let authorizedEvent: AuthorizedEvent;
+
+  beforeEach(async () => {
+    owner = await userFactory({ attributes: { name: 'Ada' } });
+    reviewer = await userFactory();
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team, traits: ['conference'] });
+    schedule = await scheduleFactory({ event });
+    track = await scheduleTrackFactory({ name: 'Room 1', schedule });
+    const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+    authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+  });
+
+  const addSession = (name: string, start = '2024-10-05T08:00:00.000Z', end = '2024-10-05T09:00:00.000Z') =>
+    db.scheduleSession.create({
+      data: {
+        scheduleId: schedule.id,
+        trackId: track.id,
+        color: 'gray',
+        name,
+        start: new Date(start),
+        end: new Date(end),
+      },
+    });
+
+  describe('#publish', () => {
+    it('publishes a snapshot of the working schedule with an incremented version', async () => {
+      const session = await addSession('Keynote');
+
+      const first = await EventSchedulePublication.for(authorizedEvent).publish();
+      const second = await EventSchedulePublication.for(authorizedEvent).publish();
+
+      expect(first.version).toBe(1);
+      expect(second.version).toBe(2);
+      expect(first.publishedById).toBe(owner.id);
+      expect(first.snapshot).toEqual({
+        name: schedule.name,
+        timezone: 'Europe/Paris',
+        start: '2024-10-05T00:00:00.000Z',
+        end: '2024-10-06T00:00:00.000Z',
+        tracks: [{ id: track.id, name: 'Room 1' }],
+        sessions: [
+          {
+            id: session.id,
+            trackId: track.id,
+            start: '2024-10-05T08:00:00.000Z',
+            end: '2024-10-05T09:00:00.000Z',
+            name: 'Keynote',
+            language: null,
+            updatedAt: session.updatedAt.toISOString(),
+            proposal: null,
+          },
+        ],
+      });
+    });
+
+    it('allocates distinct versions to concurrent publications', async () => {
+      await addSession('Keynote');
+
+      const publications = await Promise.all(
+        Array.from({ length: 5 }, () => EventSchedulePublication.for(authorizedEvent).publish()),
+      );
+
+      expect(publications.map(({ version }) => version).sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('throws an error when user cannot edit the schedule', async () => {
+      const authorizedTeam = await getAuthorizedTeam(reviewer.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      await expect(EventSchedulePublication.for(authorizedEvent).publish()).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+
+    it('throws an error when schedule does not exist', async () => {
+      const event = await eventFactory({ team, traits: ['conference'] });
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      await expect(EventSchedulePublication.for(authorizedEvent).publish()).rejects.toThrowError(NotFoundError);
+    });
+  });
+
+  describe('#getStatus', () => {
+    it('returns published versions and the changes of the working schedule', async () => {
+      const keynote = await addSession('Keynote');
+      await EventSchedulePublication.for(authorizedEvent).publish();
+      const lunch = await addSession('Lunch', '2024-10-05T10:00:00.000Z', '2024-10-05T11:00:00.000Z');
+
+      const status = await EventSchedulePublication.for(authorizedEvent).getStatus();
+
+      expect(status.versions).toEqual([
+        { version: 1, publishedAt: expect.any(Date), publishedBy: 'Ada', sessionsCount: 1 },
+      ]);
+      expect(status.diff).toEqual({
+        settings: [],
+        sessions: [
+          {
+            type: 'added',
+            sessionId: lunch.id,
+            title: 'Lunch',
+            track: 'Room 1',
+            start: '2024-10-05T10:00:00.000Z',
+            changes: [],
+          },
+        ],
+      });
+      expect(status.diff.sessions.some(({ sessionId }) => sessionId === keynote.id)).toBe(false);
+    });
+  });
+
+  describe('#rollback', () => {
+    it('publishes again an earlier snapshot', async () => {
+      await addSession('Keynote');
+      await EventSchedulePublication.for(authorizedEvent).publish();
+      await addSession('Lunch', '2024-10-05T10:00:00.000Z', '2024-10-05T11:00:00.000Z');
+      await EventSchedulePublication.for(authorizedEvent).publish();
+
+      const publication = await EventSchedulePublication.for(authorizedEvent).rollback(1);
+
+      expect(publication.version).toBe(3);
+      const snapshot = await EventSchedulePublication.getPublishedSnapshot(event.id);
+      expect(snapshot?.sessions.map(({ name }) => name)).toEqual(['Keynote']);
+      const sessionsCount = await db.scheduleSession.count({ where: { scheduleId: schedule.id } });
+      expect(sessionsCount).toBe(2);
+    });
+
+    it('throws an error when the version does not exist', async () => {
+      await expect(EventSchedulePublication.for(authorizedEvent).rollback(1)).rejects.toThrowError(NotFoundError);
+    });
+  });
+
+  describe('#getPublishedSnapshot', () => {
+    it('returns null when the schedule is not published', async () => {
+      await addSession('Keynote');
+
+      expect(await EventSchedulePublication.getPublishedSnapshot(event.id)).toBe(null);
+    });
+
+    it('returns the current profile of the published speakers', async () => {
+      const speaker = await userFactory({ attributes: { name: 'Grace', bio: 'Compiler author' } });
+      const talk = await talkFactory({ speakers: [speaker] });
+      const proposal = await proposalFactory({ event, talk, traits: ['confirmed'] });
+      await db.scheduleSession.create({
+        data: {
+          scheduleId: schedule.id,
+          trackId: track.id,
+          proposalId: proposal.id,
+          color: 'gray',
+          start: new Date('2024-10-05T08:00:00.000Z'),
+          end: new Date('2024-10-05T09:00:00.000Z'),
+        },
+      });
+      await EventSchedulePublication.for(authorizedEvent).publish();
+
+      const publication = await db.schedulePublication.findFirstOrThrow({ where: { scheduleId: schedule.id } });
+      const [eventSpeaker] = await db.eventSpeaker.findMany({ where: { proposals: { some: { id: proposal.id } } } });
+      expect((publication.snapshot as ScheduleSnapshot).sessions[0].proposal?.speakers).toEqual([eventSpeaker.id]);
+
+      await db.eventSpeaker.update({
+        where: { id: eventSpeaker.id },
+        data: { bio: null, picture: null, company: null, socialLinks: [] },
+      });
+
+      const snapshot = await EventSchedulePublication.getPublishedSnapshot(event.id);
+      expect(snapshot?.sessions[0].proposal?.speakers).toEqual([
+        { id: eventSpeaker.id, name: 'Grace', bio: null, company: null, picture: null, socialLinks: [] },
+      ]);
+    });
+  });
+});
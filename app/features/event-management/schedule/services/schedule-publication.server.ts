@@ -0,0 +1,171 @@
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, NotFoundError } from '~/shared/errors.server.ts';
+import type { SocialLinks } from '~/shared/types/speaker.types.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { diffScheduleSnapshots, type ScheduleSnapshot } from '../models/schedule-snapshot.ts';
+
+export class EventSchedulePublication {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new EventSchedulePublication(authorizedEvent);
+  }
+
+  /** Returns the last published snapshot of the event schedule with current speaker profiles, served by the API, the exports and the public page */
+  static async getPublishedSnapshot(eventId: string) {
+    const publication = await db.schedulePublication.findFirst({
+      where: { schedule: { eventId } },
+      orderBy: { version: 'desc' },
+    });
+    if (!publication) return null;
+
+    const snapshot = publication.snapshot as ScheduleSnapshot;
+    const speakerIds = snapshot.sessions.flatMap(({ proposal }) => proposal?.speakers ?? []);
+    const speakers = await db.eventSpeaker.findMany({ where: { id: { in: speakerIds } } });
+
+    return {
+      ...snapshot,
+      sessions: snapshot.sessions.map(({ proposal, ...session }) => ({
+        ...session,
+        proposal: proposal
+          ? {
+              ...proposal,
+              speakers: proposal.speakers.flatMap((speakerId) => {
+                const speaker = speakers.find(({ id }) => id === speakerId);
+                if (!speaker) return [];
+                return {
+                  id: speaker.id,
+                  name: speaker.name,
+                  bio: speaker.bio || null,
+                  company: speaker.company || null,
+                  picture: speaker.picture || null,
+                  socialLinks: speaker.socialLinks as SocialLinks,
+                };
+              }),
+            }
+          : null,
+      })),
+    };
+  }
+
+  async getStatus() {
+    const schedule = await this.getSchedule();
+
+    const publications = await db.schedulePublication.findMany({
+      where: { scheduleId: schedule.id },
+      include: { publishedBy: true },
+      orderBy: { version: 'desc' },
+    });
+
+    const published = (publications.at(0)?.snapshot as ScheduleSnapshot | undefined) ?? null;
+    const working = await buildSnapshot(schedule.id);
+
+    return {
+      versions: publications.map((publication) => ({
+        version: publication.version,
+        publishedAt: publication.createdAt,
+        publishedBy: publication.publishedBy?.name ?? null,
+        sessionsCount: (publication.snapshot as ScheduleSnapshot).sessions.length,
+      })),
+      diff: diffScheduleSnapshots(published, working),
+    };
+  }
+
+  async publish() {
+    const schedule = await this.getSchedule();
+    const snapshot = await buildSnapshot(schedule.id);
+
+    return this.createVersion(schedule.id, snapshot);
+  }
+
+  // Rolling back publishes again an earlier snapshot, the working version is kept as is
+  async rollback(version: number) {
+    const schedule = await this.getSchedule();
+
+    const publication = await db.schedulePublication.findUnique({
+      where: { scheduleId_version: { scheduleId: schedule.id, version } },
+    });
+    if (!publication) throw new NotFoundError('Schedule version not found');
+
+    return this.createVersion(schedule.id, publication.snapshot as ScheduleSnapshot);
+  }
+
+  private async createVersion(scheduleId: string, snapshot: ScheduleSnapshot) {
+    return db.$transaction(async (trx) => {
+      // Locks the schedule row so concurrent publications get distinct versions
+      await trx.$queryRaw`SELECT "id" FROM "schedules" WHERE "id" = ${scheduleId} FOR UPDATE`;
+
+      const last = await trx.schedulePublication.findFirst({ where: { scheduleId }, orderBy: { version: 'desc' } });
+
+      return trx.schedulePublication.create({
+        data: {
+          scheduleId,
+          version: (last?.version ?? 0) + 1,
+          snapshot,
+          publishedById: this.authorizedEvent.userId,
+        },
+      });
+    });
+  }
+
+  private async getSchedule() {
+    const { event, permissions } = this.authorizedEvent;
+    if (event.type === 'MEETUP') throw new ForbiddenOperationError();
+    if (!permissions.canEditEventSchedule) throw new ForbiddenOperationError();
+
+    const schedule = await db.schedule.findFirst({ where: { eventId: event.id } });
+    if (!schedule) throw new NotFoundError('Schedule not found');
+
+    return schedule;
+  }
+}
+
+async function buildSnapshot(scheduleId: string): Promise<ScheduleSnapshot> {
+  const schedule = await db.schedule.findUniqueOrThrow({
+    where: { id: scheduleId },
+    include: {
+      tracks: { orderBy: { createdAt: 'asc' } },
+      sessions: {
+        include: {
+          proposal: {
+            include: {
+              speakers: { orderBy: { createdAt: 'asc' } },
+              formats: { orderBy: { order: 'asc' } },
+              categories: { orderBy: { order: 'asc' } },
+            },
+          },
+        },
+        orderBy: { start: 'asc' },
+      },
+    },
+  });
+
+  return {
+    name: schedule.name,
+    timezone: schedule.timezone,
+    start: schedule.start.toISOString(),
+    end: schedule.end.toISOString(),
+    tracks: schedule.tracks.map(({ id, name }) => ({ id, name })),
+    sessions: schedule.sessions.map(({ proposal, ...session }) => ({
+      id: session.id,
+      trackId: session.trackId,
+      start: session.start.toISOString(),
+      end: session.end.toISOString(),
+      name: session.name,
+      language: session.language || null,
+      updatedAt: session.updatedAt.toISOString(),
+      proposal: proposal
+        ? {
+            id: proposal.id,
+            proposalNumber: proposal.proposalNumber,
+            title: proposal.title,
+            abstract: proposal.abstract,
+            level: proposal.level || null,
+            formats: proposal.formats.map(({ name }) => name),
+            categories: proposal.categories.map(({ name }) => name),
+            speakers: proposal.speakers.map(({ id }) => id),
+          }
+        : null,
+    })),
+  };
+}
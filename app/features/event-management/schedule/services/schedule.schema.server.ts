@@ -61,7 +61,38 @@ export const ScheduleSessionUpdateSchema = ScheduleSessionCreateSchema.extend({
 
 export const SchedulSessionIdSchema = z.string();
 
+export const SchedulePublicationVersionSchema = z.coerce.number().int().min(1);
+
+export const ScheduleGenerateSchema = z.object({
+  defaultDuration: z
+    .number()
+    .int()
+    .min(5)
+    .max(8 * 60),
+  speakerBreak: z
+    .number()
+    .int()
+    .min(0)
+    .max(4 * 60)
+    .default(0),
+  formats: z
+    .array(
+      z.object({
+        id: z.string(),
+        duration: z
+          .number()
+          .int()
+          .min(5)
+          .max(8 * 60)
+          .nullable()
+          .default(null),
+      }),
+    )
+    .default([]),
+});
+
 export type ScheduleCreateData = z.infer<typeof ScheduleCreateSchema>;
 export type ScheduleTracksSaveData = z.infer<typeof ScheduleTracksSaveSchema>;
 export type ScheduleSessionCreateData = z.infer<typeof ScheduleSessionCreateSchema>;
 export type ScheduleSessionUpdateData = z.infer<typeof ScheduleSessionUpdateSchema>;
+export type ScheduleGenerateData = z.infer<typeof ScheduleGenerateSchema>;
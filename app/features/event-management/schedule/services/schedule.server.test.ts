@@ -507,6 +507,31 @@ describe('EventSchedule', () => {
     });
   });
 
+  describe('#getSessionConflicts', () => {
+    it('returns the conflicts of a session', async () => {
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+      const eventSchedule = EventSchedule.for(authorizedEvent);
+
+      const talk = await talkFactory({ speakers: [owner] });
+      const proposal = await proposalFactory({ event, talk, traits: ['confirmed'] });
+      const start = new Date('2024-10-05T08:00:00.000Z');
+      const end = new Date('2024-10-05T09:00:00.000Z');
+      const session1 = await eventSchedule.addSession({ trackId: track.id, start, end, proposalId: proposal.id });
+      const session2 = await eventSchedule.addSession({ trackId: track2.id, start, end, proposalId: proposal.id });
+      const session3 = await eventSchedule.addSession({
+        trackId: track.id,
+        start: new Date('2024-10-05T10:00:00.000Z'),
+        end: new Date('2024-10-05T11:00:00.000Z'),
+      });
+
+      const conflicts = await eventSchedule.getSessionConflicts(session1.id);
+      expect(conflicts).toEqual([{ type: 'proposal-duplicated', sessionIds: [session1.id, session2.id] }]);
+
+      expect(await eventSchedule.getSessionConflicts(session3.id)).toEqual([]);
+    });
+  });
+
   describe('#getScheduleSessions', () => {
     it('get schedule data and sessions', async () => {
       const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
@@ -557,13 +582,16 @@ describe('EventSchedule', () => {
               title: proposal.title,
               speakers: [
                 {
+                  id: proposal.speakers.at(0)?.id,
                   name: proposal.speakers.at(0)?.name,
                   picture: proposal.speakers.at(0)?.picture,
                 },
               ],
+              confirmationStatus: null,
             },
           },
         ],
+        conflicts: [{ type: 'proposal-not-confirmed', sessionIds: [session.id] }],
       });
     });
 
@@ -3,6 +3,7 @@ import { ForbiddenError, ForbiddenOperationError, NotFoundError } from '~/shared
 import type { Language, Languages } from '~/shared/types/proposals.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
 import type { ScheduleCreateInput } from '../../../../../prisma/generated/models.ts';
+import { getScheduleConflicts } from '../models/schedule-conflicts.ts';
 import type {
   ScheduleCreateData,
   ScheduleSessionCreateData,
@@ -176,6 +177,13 @@ export class EventSchedule {
     }
   }
 
+  async getSessionConflicts(sessionId: string) {
+    const schedule = await this.getScheduleSessions();
+    if (!schedule) throw new NotFoundError('Schedule not found');
+
+    return schedule.conflicts.filter(({ sessionIds }) => sessionIds.includes(sessionId));
+  }
+
   async getScheduleSessions() {
     const { event, permissions } = this.authorizedEvent;
     if (event.type === 'MEETUP') throw new ForbiddenOperationError();
@@ -192,6 +200,11 @@ export class EventSchedule {
       include: { proposal: { include: { speakers: true } } },
     });
 
+    const conflicts = getScheduleConflicts(
+      sessions.map(({ start, end, ...session }) => ({ ...session, timeslot: { start, end } })),
+      { start: schedule.start, end: schedule.end },
+    );
+
     return {
       name: schedule.name,
       start: schedule.start,
@@ -216,10 +229,12 @@ export class EventSchedule {
               id: proposal.id,
               routeId: proposal.routeId,
               title: proposal.title,
-              speakers: proposal.speakers.map((s) => ({ name: s.name, picture: s.picture })),
+              speakers: proposal.speakers.map((s) => ({ id: s.id, name: s.name, picture: s.picture })),
+              confirmationStatus: proposal.confirmationStatus,
             }
           : null,
       })),
+      conflicts,
     };
   }
 }
@@ -43,9 +43,17 @@ describe('EventFetcher', () => {
         logoUrl: resolveStorageUrl(event.logo),
         maxProposals: event.maxProposals,
         reviewEnabled: event.reviewEnabled,
+        reviewStart: null,
+        reviewEnd: null,
+        reviewReminderDays: [],
+        reviewLockAfterEnd: false,
         displayProposalsReviews: event.displayProposalsReviews,
         displayProposalsSpeakers: event.displayProposalsSpeakers,
         speakersConversationEnabled: true,
+        publicScheduleEnabled: false,
+        hasSchedule: false,
+        attachmentMaxSize: 10,
+        attachmentFileTypes: ['pdf', 'slides'],
         formatsRequired: event.formatsRequired,
         formatsAllowMultiple: event.formatsAllowMultiple,
         categoriesRequired: event.categoriesRequired,
@@ -21,6 +21,7 @@ export class EventFetcher {
         proposalTags: true,
         formats: { orderBy: { order: 'asc' } },
         categories: { orderBy: { order: 'asc' } },
+        _count: { select: { schedules: true } },
       },
       where: { id: event.id, teamId },
     });
@@ -44,9 +45,17 @@ export class EventFetcher {
       logoUrl: resolveStorageUrl(fullEvent.logo),
       maxProposals: fullEvent.maxProposals,
       reviewEnabled: fullEvent.reviewEnabled,
+      reviewStart: fullEvent.reviewStart,
+      reviewEnd: fullEvent.reviewEnd,
+      reviewReminderDays: fullEvent.reviewReminderDays,
+      reviewLockAfterEnd: fullEvent.reviewLockAfterEnd,
       displayProposalsReviews: fullEvent.displayProposalsReviews,
       displayProposalsSpeakers: fullEvent.displayProposalsSpeakers,
       speakersConversationEnabled: fullEvent.speakersConversationEnabled,
+      publicScheduleEnabled: fullEvent.publicScheduleEnabled,
+      hasSchedule: fullEvent._count.schedules > 0,
+      attachmentMaxSize: fullEvent.attachmentMaxSize,
+      attachmentFileTypes: fullEvent.attachmentFileTypes,
       formatsRequired: fullEvent.formatsRequired,
       formatsAllowMultiple: fullEvent.formatsAllowMultiple,
       categoriesRequired: fullEvent.categoriesRequired,
@@ -58,8 +67,13 @@ export class EventFetcher {
       cfpStart: fullEvent.cfpStart,
       cfpEnd: fullEvent.cfpEnd,
       cfpState: fullEvent.cfpState,
-      formats: fullEvent.formats.map(({ id, name, description }) => ({ id, name, description })),
-      categories: fullEvent.categories.map(({ id, name, description }) => ({ id, name, description })),
+      formats: fullEvent.formats.map(({ id, name, description, capacity }) => ({ id, name, description, capacity })),
+      categories: fullEvent.categories.map(({ id, name, description, capacity }) => ({
+        id,
+        name,
+        description,
+        capacity,
+      })),
       integrations: fullEvent.integrations.map((integration) => integration.name),
       archived: fullEvent.archived,
       tags: sortBy(
@@ -1,6 +1,7 @@
 import { parseWithZod } from '@conform-to/zod/v4';
 import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
 import {
+  CfpAttachmentsSchema,
   CfpConferenceOpeningSchema,
   CfpMeetupOpeningSchema,
   CfpPreferencesSchema,
@@ -10,6 +11,7 @@ import { AuthorizedEventContext } from '~/shared/authorization/authorization.mid
 import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
 import { toast } from '~/shared/toasts/toast.server.ts';
 import type { Route } from './+types/cfp.ts';
+import { AttachmentsSettingsForm } from './components/attachments-settings-form.tsx';
 import { CommonCfpSetting } from './components/common-cfp-setting.tsx';
 import { ConferenceCfpOpening } from './components/conference-cfp-opening.tsx';
 import { MeetupCfpOpening } from './components/meetup-cfp-opening.tsx';
@@ -34,6 +36,12 @@ export const action = async ({ request, context }: Route.ActionArgs) => {
       await event.update(result.value);
       break;
     }
+    case 'save-cfp-attachments': {
+      const result = parseWithZod(form, { schema: CfpAttachmentsSchema });
+      if (result.status !== 'success') return result.error;
+      await event.update(result.value);
+      break;
+    }
     case 'save-cfp-meetup-opening': {
       const result = parseWithZod(form, { schema: CfpMeetupOpeningSchema });
       if (result.status !== 'success') return result.error;
@@ -62,6 +70,12 @@ export default function EventCfpSettingsRoute({ actionData: errors }: Route.Comp
       )}
 
       <CommonCfpSetting maxProposals={event.maxProposals} codeOfConductUrl={event.codeOfConductUrl} errors={errors} />
+
+      <AttachmentsSettingsForm
+        attachmentMaxSize={event.attachmentMaxSize}
+        attachmentFileTypes={event.attachmentFileTypes}
+        errors={errors}
+      />
     </>
   );
 }
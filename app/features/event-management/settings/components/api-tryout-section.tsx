@@ -5,6 +5,7 @@ import { Input } from '~/design-system/forms/input.tsx';
 import Select from '~/design-system/forms/select.tsx';
 import { Card } from '~/design-system/layouts/card.tsx';
 import { H2, Subtitle } from '~/design-system/typography.tsx';
+import { TALK_LEVELS } from '~/shared/constants.ts';
 
 type Props = { slug: string; apiKey: string; appUrl: string };
 
@@ -12,10 +13,12 @@ export function EventProposalApiTryout({ slug, apiKey, appUrl }: Props) {
   const { t } = useTranslation();
   const [query, setQuery] = useState<string>('');
   const [status, setStatus] = useState<string>('');
+  const [level, setLevel] = useState<string>('');
 
   const url = new URL(`/api/v1/event/${slug}`, appUrl);
   if (query) url.searchParams.set('query', query);
   if (status) url.searchParams.set('status', status);
+  if (level) url.searchParams.set('levels', level);
 
   const curlCommand = `curl -H "X-API-Key: ${apiKey}" "${url.toString()}"`;
 
@@ -41,10 +44,21 @@ export function EventProposalApiTryout({ slug, apiKey, appUrl }: Props) {
             { value: 'pending', name: t('common.proposals.status.pending') },
             { value: 'accepted', name: t('common.proposals.status.accepted') },
             { value: 'rejected', name: t('common.proposals.status.rejected') },
+            { value: 'waitlisted', name: t('common.proposals.status.waitlisted') },
           ]}
           defaultValue={status}
           onChange={(_name, value) => setStatus(value)}
         />
+        <Select
+          name="levels"
+          label={t('event-management.settings.web-api.tryout.proposals.level.label')}
+          options={[
+            { value: '', name: t('common.all') },
+            ...TALK_LEVELS.map((value) => ({ value, name: t(`common.level.${value}`) })),
+          ]}
+          defaultValue={level}
+          onChange={(_name, value) => setLevel(value)}
+        />
         <CodeBlock code={curlCommand} label={t('event-management.settings.web-api.tryout.curl')} />
       </Card.Content>
     </Card>
@@ -57,6 +71,9 @@ export function EventScheduleApiTryout({ slug, apiKey, appUrl }: Props) {
   const url = new URL(`/api/v1/event/${slug}/schedule`, appUrl);
   const curlCommand = `curl -H "X-API-Key: ${apiKey}" "${url.toString()}"`;
 
+  const icsUrl = new URL(`/api/v1/event/${slug}/schedule/ics`, appUrl);
+  const icsCurlCommand = `curl -H "X-API-Key: ${apiKey}" "${icsUrl.toString()}"`;
+
   return (
     <Card as="section">
       <Card.Title>
@@ -66,6 +83,8 @@ export function EventScheduleApiTryout({ slug, apiKey, appUrl }: Props) {
 
       <Card.Content>
         <CodeBlock code={curlCommand} label={t('event-management.settings.web-api.tryout.curl')} />
+        <CodeBlock code={icsCurlCommand} label={t('event-management.settings.web-api.tryout.schedule.ics')} />
+        <Subtitle size="xs">{t('event-management.settings.web-api.tryout.schedule.ics-feeds')}</Subtitle>
       </Card.Content>
     </Card>
   );
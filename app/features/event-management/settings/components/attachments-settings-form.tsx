@@ -0,0 +1,73 @@
+import { useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { FieldsetGroup } from '~/design-system/forms/fieldset-group.tsx';
+import { Checkbox } from '~/design-system/forms/input-checkbox.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { H2, Subtitle } from '~/design-system/typography.tsx';
+import type { SubmissionErrors } from '~/shared/types/errors.types.ts';
+import { ATTACHMENT_FILE_TYPE_KEYS, ATTACHMENT_MAX_SIZE_LIMIT } from '../models/attachment-limits.ts';
+
+type Props = {
+  attachmentMaxSize: number;
+  attachmentFileTypes: Array<string>;
+  errors: SubmissionErrors;
+};
+
+export function AttachmentsSettingsForm({ attachmentMaxSize, attachmentFileTypes, errors }: Props) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  return (
+    <Card as="section">
+      <Card.Title>
+        <H2>{t('event-management.settings.cfp.attachments.heading')}</H2>
+        <Subtitle>{t('event-management.settings.cfp.attachments.description')}</Subtitle>
+      </Card.Title>
+
+      <Card.Content>
+        <Form id={formId} method="POST" className="space-y-6">
+          <FieldsetGroup
+            legend={t('event-management.settings.cfp.attachments.file-types.label')}
+            hint={t('event-management.settings.cfp.attachments.file-types.description')}
+            error={errors?.attachmentFileTypes}
+            inline
+          >
+            {ATTACHMENT_FILE_TYPE_KEYS.map((type) => (
+              <Checkbox
+                key={type}
+                name="attachmentFileTypes"
+                value={type}
+                defaultChecked={attachmentFileTypes.includes(type)}
+              >
+                {t(`common.attachments.types.${type}`)}
+              </Checkbox>
+            ))}
+          </FieldsetGroup>
+
+          <Input
+            name="attachmentMaxSize"
+            label={t('event-management.settings.cfp.attachments.max-size.label')}
+            description={t('event-management.settings.cfp.attachments.max-size.description', {
+              max: ATTACHMENT_MAX_SIZE_LIMIT,
+            })}
+            type="number"
+            defaultValue={attachmentMaxSize}
+            min={1}
+            max={ATTACHMENT_MAX_SIZE_LIMIT}
+            autoComplete="off"
+            error={errors?.attachmentMaxSize}
+          />
+        </Form>
+      </Card.Content>
+
+      <Card.Actions>
+        <Button type="submit" name="intent" value="save-cfp-attachments" form={formId}>
+          {t('event-management.settings.cfp.attachments.submit')}
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
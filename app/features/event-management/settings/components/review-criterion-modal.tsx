@@ -0,0 +1,98 @@
+import { type ReactNode, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { Modal } from '~/design-system/dialogs/modals.tsx';
+import { Input } from '~/design-system/forms/input.tsx';
+import type { ReviewCriterion } from '../models/review-rubric.ts';
+
+type ReviewCriterionModalProps = {
+  initialValues?: ReviewCriterion;
+  children: (props: { onOpen: VoidFunction }) => ReactNode;
+};
+
+export function ReviewCriterionModal({ initialValues, children }: ReviewCriterionModalProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      {children({ onOpen: () => setOpen(true) })}
+
+      <ReviewCriterionModalContent
+        key={String(open)}
+        initialValues={initialValues}
+        open={open}
+        onClose={() => setOpen(false)}
+      />
+    </>
+  );
+}
+
+type ReviewCriterionModalContentProps = {
+  initialValues?: ReviewCriterion;
+  open: boolean;
+  onClose: VoidFunction;
+};
+
+function ReviewCriterionModalContent({ initialValues, open, onClose }: ReviewCriterionModalContentProps) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  const isCreateMode = !initialValues;
+  const modalTitle = isCreateMode
+    ? t('event-management.settings.reviews.rubric.add-criterion')
+    : t('event-management.settings.reviews.rubric.edit-criterion');
+  const submitLabel = isCreateMode
+    ? t('event-management.settings.reviews.rubric.add-criterion')
+    : t('event-management.settings.reviews.rubric.save-criterion');
+  const submitIntent = isCreateMode ? 'add-criterion' : 'update-criterion';
+
+  return (
+    <Modal title={modalTitle} open={open} onClose={onClose}>
+      <Modal.Content>
+        <Form id={formId} method="POST" onSubmit={onClose} className="space-y-4">
+          <Input
+            name="name"
+            label={t('event-management.settings.reviews.rubric.criterion.name')}
+            defaultValue={initialValues?.name}
+            maxLength={255}
+            required
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              type="number"
+              name="weight"
+              label={t('event-management.settings.reviews.rubric.criterion.weight')}
+              description={t('event-management.settings.reviews.rubric.criterion.weight.description')}
+              defaultValue={initialValues?.weight ?? 1}
+              min={1}
+              max={10}
+              required
+            />
+            <Input
+              type="number"
+              name="scale"
+              label={t('event-management.settings.reviews.rubric.criterion.scale')}
+              description={t('event-management.settings.reviews.rubric.criterion.scale.description')}
+              defaultValue={initialValues?.scale ?? 5}
+              min={2}
+              max={10}
+              required
+            />
+          </div>
+
+          <input type="hidden" name="id" value={isCreateMode ? crypto.randomUUID() : initialValues?.id} />
+        </Form>
+      </Modal.Content>
+
+      <Modal.Actions>
+        <Button type="button" variant="secondary" onClick={onClose}>
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" name="intent" value={submitIntent} form={formId}>
+          {submitLabel}
+        </Button>
+      </Modal.Actions>
+    </Modal>
+  );
+}
@@ -0,0 +1,93 @@
+import { useId } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { DateRangeInput } from '~/design-system/forms/date-range-input.tsx';
+import { FieldsetGroup } from '~/design-system/forms/fieldset-group.tsx';
+import { Checkbox } from '~/design-system/forms/input-checkbox.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { H2, Subtitle } from '~/design-system/typography.tsx';
+import { utcToTimezone } from '~/shared/datetimes/timezone.ts';
+import type { SubmissionErrors } from '~/shared/types/errors.types.ts';
+import { REVIEW_REMINDER_DAYS } from '../models/review-period.ts';
+
+type Props = {
+  reviewStart: Date | null;
+  reviewEnd: Date | null;
+  reviewReminderDays: Array<number>;
+  reviewLockAfterEnd: boolean;
+  timezone: string;
+  errors: SubmissionErrors;
+};
+
+export function ReviewPeriodForm({
+  reviewStart,
+  reviewEnd,
+  reviewReminderDays,
+  reviewLockAfterEnd,
+  timezone,
+  errors,
+}: Props) {
+  const { t } = useTranslation();
+  const formId = useId();
+
+  return (
+    <Card as="section">
+      <Card.Title>
+        <H2>{t('event-management.settings.reviews.period.heading')}</H2>
+        <Subtitle>{t('event-management.settings.reviews.period.description')}</Subtitle>
+      </Card.Title>
+
+      <Card.Content>
+        <Form id={formId} method="POST" className="space-y-6">
+          <DateRangeInput
+            start={{
+              name: 'reviewStart',
+              label: t('event-management.settings.reviews.period.start'),
+              value: reviewStart ? utcToTimezone(reviewStart, timezone) : null,
+            }}
+            end={{
+              name: 'reviewEnd',
+              label: t('event-management.settings.reviews.period.end'),
+              value: reviewEnd ? utcToTimezone(reviewEnd, timezone) : null,
+            }}
+            error={errors?.reviewStart || errors?.reviewEnd}
+          />
+
+          <FieldsetGroup
+            legend={t('event-management.settings.reviews.period.reminders.label')}
+            hint={t('event-management.settings.reviews.period.reminders.description')}
+            inline
+          >
+            {REVIEW_REMINDER_DAYS.map((days) => (
+              <Checkbox
+                key={days}
+                name="reviewReminderDays"
+                value={days}
+                defaultChecked={reviewReminderDays.includes(days)}
+              >
+                {t('event-management.settings.reviews.period.reminders.days', { count: days })}
+              </Checkbox>
+            ))}
+          </FieldsetGroup>
+
+          <Checkbox
+            name="reviewLockAfterEnd"
+            defaultChecked={reviewLockAfterEnd}
+            description={t('event-management.settings.reviews.period.lock.description')}
+          >
+            {t('event-management.settings.reviews.period.lock.label')}
+          </Checkbox>
+
+          <input type="hidden" name="timezone" value={timezone} />
+        </Form>
+      </Card.Content>
+
+      <Card.Actions>
+        <Button type="submit" name="intent" value="save-review-period" form={formId}>
+          {t('event-management.settings.reviews.period.submit')}
+        </Button>
+      </Card.Actions>
+    </Card>
+  );
+}
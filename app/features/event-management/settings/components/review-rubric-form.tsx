@@ -0,0 +1,116 @@
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon } from '@heroicons/react/16/solid';
+import { useTranslation } from 'react-i18next';
+import { useFetcher } from 'react-router';
+import { Badge } from '~/design-system/badges.tsx';
+import { Button } from '~/design-system/button.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { List } from '~/design-system/list/list.tsx';
+import { H2, Subtitle, Text } from '~/design-system/typography.tsx';
+import type { ReviewCriterion } from '../models/review-rubric.ts';
+import type { action } from '../review.tsx';
+import { ReviewCriterionModal } from './review-criterion-modal.tsx';
+
+const MAX_CRITERIA = 10;
+
+type ReviewRubricFormProps = { criteria: Array<ReviewCriterion> };
+
+export function ReviewRubricForm({ criteria }: ReviewRubricFormProps) {
+  const { t } = useTranslation();
+
+  const moveCriterionFetcher = useFetcher<typeof action>({ key: 'move-criterion' });
+  const removeCriterionFetcher = useFetcher<typeof action>({ key: 'remove-criterion' });
+
+  const handleMoveCriterion = (id: string, direction: 'up' | 'down') => () => {
+    moveCriterionFetcher.submit({ intent: 'move-criterion', id, direction }, { method: 'POST' });
+  };
+
+  const handleRemoveCriterion = (id: string) => () => {
+    if (!confirm(t('event-management.settings.reviews.rubric.confirm-delete'))) return;
+    removeCriterionFetcher.submit({ intent: 'remove-criterion', id }, { method: 'POST' });
+  };
+
+  return (
+    <Card as="section">
+      <Card.Title>
+        <H2>{t('event-management.settings.reviews.rubric.heading')}</H2>
+        <Subtitle>{t('event-management.settings.reviews.rubric.description')}</Subtitle>
+      </Card.Title>
+
+      <Card.Content>
+        <List>
+          <List.Header className="flex flex-col items-start gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex grow items-baseline gap-2">
+              <Text weight="medium">
+                {t('event-management.settings.reviews.rubric.criteria', { count: criteria.length })}
+              </Text>
+              <Text size="xs" variant="secondary">
+                {t('event-management.settings.reviews.rubric.max-criteria', { max: MAX_CRITERIA })}
+              </Text>
+            </div>
+            <ReviewCriterionModal>
+              {({ onOpen }) => (
+                <Button
+                  onClick={onOpen}
+                  variant="primary"
+                  size="sm"
+                  iconLeft={PlusIcon}
+                  disabled={criteria.length >= MAX_CRITERIA}
+                >
+                  {t('event-management.settings.reviews.rubric.add-criterion')}
+                </Button>
+              )}
+            </ReviewCriterionModal>
+          </List.Header>
+
+          <List.Content aria-label={t('event-management.settings.reviews.rubric.list.label')}>
+            {criteria.map((criterion, index) => (
+              <List.Row
+                key={criterion.id}
+                className="flex flex-col items-start gap-4 p-4 sm:flex-row sm:justify-between"
+              >
+                <div className="flex grow gap-2">
+                  <Text>{criterion.name}</Text>
+                  <Badge color="gray" compact>
+                    {t('event-management.settings.reviews.rubric.criterion.weight.badge', { weight: criterion.weight })}
+                  </Badge>
+                  <Badge color="gray" compact>
+                    {t('event-management.settings.reviews.rubric.criterion.scale.badge', { scale: criterion.scale })}
+                  </Badge>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    label="Move up"
+                    icon={ArrowUpIcon}
+                    onClick={handleMoveCriterion(criterion.id, 'up')}
+                    disabled={index === 0}
+                    variant="secondary"
+                    size="sm"
+                  />
+                  <Button
+                    label="Move down"
+                    icon={ArrowDownIcon}
+                    onClick={handleMoveCriterion(criterion.id, 'down')}
+                    disabled={index === criteria.length - 1}
+                    variant="secondary"
+                    size="sm"
+                  />
+                  <ReviewCriterionModal initialValues={criterion}>
+                    {({ onOpen }) => (
+                      <Button onClick={onOpen} variant="secondary" size="sm">
+                        {t('common.edit')}
+                      </Button>
+                    )}
+                  </ReviewCriterionModal>
+                  <Button variant="important" size="sm" onClick={handleRemoveCriterion(criterion.id)}>
+                    {t('common.delete')}
+                  </Button>
+                </div>
+              </List.Row>
+            ))}
+          </List.Content>
+        </List>
+      </Card.Content>
+    </Card>
+  );
+}
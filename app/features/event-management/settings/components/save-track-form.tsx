@@ -8,7 +8,7 @@ import { Input } from '~/design-system/forms/input.tsx';
 import { TextArea } from '~/design-system/forms/textarea.tsx';
 
 type TrackType = 'formats' | 'categories';
-type TrackData = { id: string; name: string; description?: string | null };
+type TrackData = { id: string; name: string; description?: string | null; capacity?: number | null };
 type NewTrackButtonProps = { type: TrackType };
 
 export function NewTrackButton({ type }: NewTrackButtonProps) {
@@ -72,6 +72,15 @@ function SaveTrackFormModal({ type, initialValues, isOpen, onClose }: SaveTrackF
             required
             rows={4}
           />
+          <Input
+            name="capacity"
+            label={t('event-management.settings.tracks.capacity.label')}
+            description={t('event-management.settings.tracks.capacity.description')}
+            type="number"
+            min={1}
+            defaultValue={initialValues?.capacity || ''}
+            autoComplete="off"
+          />
           <input type="hidden" name="id" value={initialValues?.id} />
         </Form>
       </Modal.Content>
@@ -1,6 +1,7 @@
 import { ArrowDownIcon, ArrowUpIcon } from '@heroicons/react/16/solid';
 import { useTranslation } from 'react-i18next';
 import { useFetcher } from 'react-router';
+import { Badge } from '~/design-system/badges.tsx';
 import { Button } from '~/design-system/button.tsx';
 import { List } from '~/design-system/list/list.tsx';
 import { Subtitle, Text } from '~/design-system/typography.tsx';
@@ -8,7 +9,7 @@ import { EditTrackButton, NewTrackButton } from './save-track-form.tsx';
 
 type TrackListProps = {
   type: 'formats' | 'categories';
-  tracks: Array<{ id: string; name: string; description: string | null }>;
+  tracks: Array<{ id: string; name: string; description: string | null; capacity: number | null }>;
 };
 
 export function TrackList({ type, tracks }: TrackListProps) {
@@ -32,9 +33,16 @@ export function TrackList({ type, tracks }: TrackListProps) {
         {tracks.map((track, index) => (
           <List.Row key={track.id} className="flex items-center justify-between p-4">
             <div className="truncate">
-              <Text weight="medium" truncate>
-                {track.name}
-              </Text>
+              <div className="flex items-center gap-2">
+                <Text weight="medium" truncate>
+                  {track.name}
+                </Text>
+                {track.capacity ? (
+                  <Badge color="gray" compact>
+                    {t('event-management.settings.tracks.capacity.badge', { count: track.capacity })}
+                  </Badge>
+                ) : null}
+              </div>
               <Subtitle truncate>{track.description}</Subtitle>
             </div>
             <div className="ml-4 flex shrink-0 gap-2">
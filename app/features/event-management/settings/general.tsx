@@ -2,10 +2,11 @@ import { parseWithZod } from '@conform-to/zod/v4';
 import { ArchiveBoxArrowDownIcon, ArchiveBoxXMarkIcon } from '@heroicons/react/24/outline';
 import { useId } from 'react';
 import { Trans, useTranslation } from 'react-i18next';
-import { Form, redirect } from 'react-router';
+import { Form, redirect, useFetcher } from 'react-router';
 import { useUserTeamPermissions } from '~/app-platform/components/user-context.tsx';
 import { Button } from '~/design-system/button.tsx';
 import { DeleteModalButton } from '~/design-system/dialogs/delete-modal.tsx';
+import { ToggleGroup } from '~/design-system/forms/toggles.tsx';
 import { Card } from '~/design-system/layouts/card.tsx';
 import { H2, Subtitle, Text } from '~/design-system/typography.tsx';
 import { EventDetailsForm } from '~/features/event-management/creation/components/event-details-form.tsx';
@@ -40,6 +41,10 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
       await event.update(result.value);
       return toast('success', i18n.t('event-management.settings.feedbacks.details-saved'));
     }
+    case 'public-schedule': {
+      await event.update({ publicScheduleEnabled: form.get('publicScheduleEnabled') === 'true' });
+      return toast('success', i18n.t('event-management.settings.public-schedule.feedbacks.saved'));
+    }
     case 'archive-event': {
       const archived = Boolean(form.get('archived'));
       await event.update({ archived });
@@ -66,6 +71,7 @@ export default function EventGeneralSettingsRoute({ actionData: errors }: Route.
 
   const generalFormId = useId();
   const detailsFormId = useId();
+  const publicScheduleFetcher = useFetcher<typeof action>({ key: 'public-schedule-enabled' });
 
   return (
     <>
@@ -115,6 +121,28 @@ export default function EventGeneralSettingsRoute({ actionData: errors }: Route.
         </Card.Actions>
       </Card>
 
+      {event.type === 'CONFERENCE' ? (
+        <Card as="section" p={8} className="space-y-6">
+          <H2>{t('event-management.settings.public-schedule.heading')}</H2>
+
+          {event.hasSchedule ? (
+            <ToggleGroup
+              label={t('event-management.settings.public-schedule.toggle.label')}
+              description={t('event-management.settings.public-schedule.toggle.description')}
+              value={event.publicScheduleEnabled}
+              onChange={(checked) =>
+                publicScheduleFetcher.submit(
+                  { intent: 'public-schedule', publicScheduleEnabled: String(checked) },
+                  { method: 'POST' },
+                )
+              }
+            />
+          ) : (
+            <Subtitle>{t('event-management.settings.public-schedule.no-schedule')}</Subtitle>
+          )}
+        </Card>
+      ) : null}
+
       <Card as="section" className="border-red-300">
         <Card.Title>
           <H2>{t('event-management.settings.danger.heading')}</H2>
@@ -0,0 +1,36 @@
+import { AttachmentLimits, formatFileSize } from './attachment-limits.ts';
+
+describe('AttachmentLimits', () => {
+  const limits = new AttachmentLimits({ attachmentMaxSize: 2, attachmentFileTypes: ['pdf', 'video'] });
+
+  it('returns the content types of the allowed file types', () => {
+    expect(limits.isEnabled).toBe(true);
+    expect(limits.contentTypes).toEqual(['application/pdf', 'video/mp4', 'video/webm', 'video/quicktime']);
+    expect(limits.extensionOf('video/quicktime')).toBe('mov');
+    expect(limits.extensionOf('image/png')).toBeUndefined();
+  });
+
+  it('is disabled when no file type is allowed', () => {
+    const disabled = new AttachmentLimits({ attachmentMaxSize: 2, attachmentFileTypes: [] });
+    expect(disabled.isEnabled).toBe(false);
+  });
+
+  it('caps the max size to the global limit', () => {
+    expect(limits.maxSizeInBytes).toBe(2 * 1024 * 1024);
+    expect(new AttachmentLimits({ attachmentMaxSize: 500, attachmentFileTypes: [] }).maxSizeInBytes).toBe(
+      100 * 1024 * 1024,
+    );
+  });
+
+  it('validates files against the limits', () => {
+    expect(limits.validate({ type: 'application/pdf', size: 1024 })).toBeNull();
+    expect(limits.validate({ type: 'application/pdf', size: 0 })).toBe('empty');
+    expect(limits.validate({ type: 'application/pdf', size: 3 * 1024 * 1024 })).toBe('too-large');
+    expect(limits.validate({ type: 'application/zip', size: 1024 })).toBe('invalid-type');
+  });
+
+  it('formats file sizes in kilobytes or megabytes', () => {
+    expect(formatFileSize(512 * 1024, 'en')).toBe('512 kB');
+    expect(formatFileSize(2.5 * 1024 * 1024, 'en')).toBe('2.5 MB');
+  });
+});
@@ -0,0 +1,77 @@
+const ATTACHMENT_FILE_TYPES = {
+  pdf: { 'application/pdf': 'pdf' },
+  slides: {
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'application/vnd.ms-powerpoint': 'ppt',
+    'application/vnd.oasis.opendocument.presentation': 'odp',
+    'application/vnd.apple.keynote': 'key',
+  },
+  video: { 'video/mp4': 'mp4', 'video/webm': 'webm', 'video/quicktime': 'mov' },
+  image: { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' },
+  archive: { 'application/zip': 'zip' },
+} satisfies Record<string, Record<string, string>>;
+
+export type AttachmentFileType = keyof typeof ATTACHMENT_FILE_TYPES;
+
+export const ATTACHMENT_FILE_TYPE_KEYS = [
+  'pdf',
+  'slides',
+  'video',
+  'image',
+  'archive',
+] as const satisfies ReadonlyArray<AttachmentFileType>;
+
+// Upper bound in megabytes, whatever the event settings
+export const ATTACHMENT_MAX_SIZE_LIMIT = 100;
+
+const ONE_MB = 1024 * 1024;
+
+export const ATTACHMENT_MAX_FILE_SIZE = ATTACHMENT_MAX_SIZE_LIMIT * ONE_MB;
+
+type AttachmentLimitsSettings = {
+  attachmentMaxSize: number;
+  attachmentFileTypes: Array<string>;
+};
+
+export type AttachmentValidationError = 'empty' | 'too-large' | 'invalid-type';
+
+export class AttachmentLimits {
+  constructor(private settings: AttachmentLimitsSettings) {}
+
+  get isEnabled() {
+    return this.contentTypes.length > 0;
+  }
+
+  get maxSizeInBytes() {
+    return Math.min(this.settings.attachmentMaxSize, ATTACHMENT_MAX_SIZE_LIMIT) * ONE_MB;
+  }
+
+  get contentTypes() {
+    return Object.keys(this.allowedTypes());
+  }
+
+  extensionOf(contentType: string): string | undefined {
+    return this.allowedTypes()[contentType];
+  }
+
+  validate(file: { size: number; type: string }): AttachmentValidationError | null {
+    if (!this.extensionOf(file.type)) return 'invalid-type';
+    if (file.size <= 0) return 'empty';
+    if (file.size > this.maxSizeInBytes) return 'too-large';
+    return null;
+  }
+
+  private allowedTypes(): Record<string, string> {
+    return ATTACHMENT_FILE_TYPE_KEYS.filter((type) => this.settings.attachmentFileTypes.includes(type)).reduce(
+      (types, type) => Object.assign(types, ATTACHMENT_FILE_TYPES[type]),
+      {},
+    );
+  }
+}
+
+export function formatFileSize(size: number, locale: string) {
+  const inKb = size < ONE_MB;
+  const value = inKb ? size / 1024 : size / ONE_MB;
+  const unit = inKb ? 'kilobyte' : 'megabyte';
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, maximumFractionDigits: 1 }).format(value);
+}
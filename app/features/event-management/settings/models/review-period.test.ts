@@ -0,0 +1,67 @@
+import { ReviewPeriod } from './review-period.ts';
+
+describe('ReviewPeriod', () => {
+  const settings = {
+    reviewStart: new Date('2024-01-01T00:00:00.000Z'),
+    reviewEnd: new Date('2024-01-15T23:59:59.999Z'),
+    reviewReminderDays: [1, 7],
+    reviewLockAfterEnd: true,
+  };
+
+  describe('#isLocked', () => {
+    it('locks reviews once the deadline has passed', () => {
+      const period = new ReviewPeriod(settings);
+
+      expect(period.isLocked(new Date('2024-01-15T12:00:00.000Z'))).toBe(false);
+      expect(period.isLocked(new Date('2024-01-16T00:00:00.000Z'))).toBe(true);
+    });
+
+    it('locks reviews before the review period starts', () => {
+      const period = new ReviewPeriod({ ...settings, reviewLockAfterEnd: false });
+
+      expect(period.isLocked(new Date('2023-12-31T23:59:59.999Z'))).toBe(true);
+      expect(period.isLocked(new Date('2024-01-01T00:00:00.000Z'))).toBe(false);
+      expect(new ReviewPeriod({ ...settings, reviewStart: null }).isLocked(new Date('2023-12-31'))).toBe(false);
+    });
+
+    it('does not lock reviews when the option is disabled or without deadline', () => {
+      const now = new Date('2024-02-01T00:00:00.000Z');
+
+      expect(new ReviewPeriod({ ...settings, reviewLockAfterEnd: false }).isLocked(now)).toBe(false);
+      expect(new ReviewPeriod({ ...settings, reviewEnd: null }).isLocked(now)).toBe(false);
+    });
+  });
+
+  describe('#daysLeft', () => {
+    it('returns the number of started days before the deadline', () => {
+      const period = new ReviewPeriod(settings);
+
+      expect(period.daysLeft(new Date('2024-01-08T08:00:00.000Z'))).toBe(8);
+      expect(period.daysLeft(new Date('2024-01-15T08:00:00.000Z'))).toBe(1);
+      expect(period.daysLeft(new Date('2024-01-16T08:00:00.000Z'))).toBeNull();
+    });
+  });
+
+  describe('#isReminderDue', () => {
+    it('returns true on the days matching the configured intervals', () => {
+      const period = new ReviewPeriod(settings);
+
+      expect(period.isReminderDue(new Date('2024-01-09T08:00:00.000Z'))).toBe(true);
+      expect(period.isReminderDue(new Date('2024-01-10T08:00:00.000Z'))).toBe(false);
+      expect(period.isReminderDue(new Date('2024-01-15T08:00:00.000Z'))).toBe(true);
+    });
+
+    it('returns false before the review period starts', () => {
+      const period = new ReviewPeriod({ ...settings, reviewStart: new Date('2024-01-12T00:00:00.000Z') });
+
+      expect(period.isReminderDue(new Date('2024-01-09T08:00:00.000Z'))).toBe(false);
+    });
+
+    it('returns false without deadline or intervals', () => {
+      const now = new Date('2024-01-09T08:00:00.000Z');
+
+      expect(new ReviewPeriod({ ...settings, reviewEnd: null }).isReminderDue(now)).toBe(false);
+      expect(new ReviewPeriod({ ...settings, reviewReminderDays: [] }).isReminderDue(now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+export const REVIEW_REMINDER_DAYS = [1, 2, 3, 7, 14];
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+type ReviewPeriodSettings = {
+  reviewStart: Date | null;
+  reviewEnd: Date | null;
+  reviewReminderDays: Array<number>;
+  reviewLockAfterEnd: boolean;
+};
+
+export class ReviewPeriod {
+  constructor(private settings: ReviewPeriodSettings) {}
+
+  isStarted(now = new Date()) {
+    const { reviewStart } = this.settings;
+    return !reviewStart || now >= reviewStart;
+  }
+
+  isFinished(now = new Date()) {
+    const { reviewEnd } = this.settings;
+    return Boolean(reviewEnd && now > reviewEnd);
+  }
+
+  // Reviews are closed before the review period starts, and after its end when the lock option is enabled
+  isLocked(now = new Date()) {
+    if (!this.isStarted(now)) return true;
+    return this.settings.reviewLockAfterEnd && this.isFinished(now);
+  }
+
+  // Number of started days left before the review deadline
+  daysLeft(now = new Date()) {
+    const { reviewEnd } = this.settings;
+    if (!reviewEnd || this.isFinished(now)) return null;
+    return Math.ceil((reviewEnd.getTime() - now.getTime()) / DAY_IN_MS);
+  }
+
+  // Reminders are sent by a daily job, so a reminder is due on the day matching one of the configured intervals
+  isReminderDue(now = new Date()) {
+    if (!this.isStarted(now)) return false;
+    const daysLeft = this.daysLeft(now);
+    if (daysLeft === null) return false;
+    return this.settings.reviewReminderDays.includes(daysLeft);
+  }
+}
@@ -0,0 +1,73 @@
+import type { ReviewCriterion } from './review-rubric.ts';
+import { ReviewRubric } from './review-rubric.ts';
+
+describe('ReviewRubric', () => {
+  const relevance: ReviewCriterion = { id: 'c1', name: 'Relevance', weight: 2, scale: 5 };
+  const originality: ReviewCriterion = { id: 'c2', name: 'Originality', weight: 1, scale: 10 };
+
+  it('initializes without criteria if invalid JSON is provided', () => {
+    const rubric = new ReviewRubric({});
+    expect(rubric.criteria).toHaveLength(0);
+    expect(rubric.isEnabled).toBe(false);
+  });
+
+  it('initializes with provided JSON values', () => {
+    const rubric = new ReviewRubric([relevance, originality]);
+    expect(rubric.criteria).toEqual([relevance, originality]);
+    expect(rubric.isEnabled).toBe(true);
+  });
+
+  it('adds a criterion', () => {
+    const rubric = new ReviewRubric([]);
+    rubric.addCriterion(relevance);
+    expect(rubric.criteria).toEqual([relevance]);
+  });
+
+  it('updates a criterion', () => {
+    const rubric = new ReviewRubric([relevance]);
+    rubric.updateCriterion({ ...relevance, weight: 3 });
+    expect(rubric.criteria[0].weight).toBe(3);
+  });
+
+  it('removes a criterion', () => {
+    const rubric = new ReviewRubric([relevance, originality]);
+    rubric.removeCriterion(relevance.id);
+    expect(rubric.criteria).toEqual([originality]);
+  });
+
+  it('moves a criterion', () => {
+    const rubric = new ReviewRubric([relevance, originality]);
+    rubric.moveCriterion(originality.id, 'up');
+    expect(rubric.criteria).toEqual([originality, relevance]);
+    rubric.moveCriterion(originality.id, 'up');
+    expect(rubric.criteria).toEqual([originality, relevance]);
+  });
+
+  it('sanitizes scores of unknown criteria and out of scale values', () => {
+    const rubric = new ReviewRubric([relevance, originality]);
+    expect(rubric.sanitizeScores({ c1: 8, c2: -1, unknown: 3 })).toEqual({ c1: 5, c2: 0 });
+  });
+
+  describe('#computeNote', () => {
+    it('returns the weighted note on the 0-5 scale', () => {
+      const rubric = new ReviewRubric([relevance, originality]);
+      // (4/5 * 2 + 5/10 * 1) / 3 * 5
+      expect(rubric.computeNote({ c1: 4, c2: 5 })).toBe(3.5);
+    });
+
+    it('returns the maximum note when all criteria have the maximum score', () => {
+      const rubric = new ReviewRubric([relevance, originality]);
+      expect(rubric.computeNote({ c1: 5, c2: 10 })).toBe(5);
+    });
+
+    it('only uses scored criteria', () => {
+      const rubric = new ReviewRubric([relevance, originality]);
+      expect(rubric.computeNote({ c2: 10 })).toBe(5);
+    });
+
+    it('returns null when no criteria is scored', () => {
+      const rubric = new ReviewRubric([relevance, originality]);
+      expect(rubric.computeNote({})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import z from 'zod';
+import type { Prisma } from '../../../../../prisma/generated/client.ts';
+
+export const ReviewCriterionSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1).max(255),
+  weight: z.number().int().min(1).max(10),
+  scale: z.number().int().min(2).max(10),
+});
+
+export type ReviewCriterion = z.infer<typeof ReviewCriterionSchema>;
+
+export type ReviewScores = Record<string, number>;
+
+const ReviewRubricSchema = z.array(ReviewCriterionSchema);
+
+const MAX_NOTE = 5;
+
+export class ReviewRubric {
+  public criteria: Array<ReviewCriterion>;
+
+  constructor(json: Prisma.JsonValue) {
+    const result = ReviewRubricSchema.safeParse(json);
+    this.criteria = result.success ? result.data : [];
+  }
+
+  get isEnabled() {
+    return this.criteria.length > 0;
+  }
+
+  addCriterion(criterion: ReviewCriterion) {
+    this.criteria.push(criterion);
+  }
+
+  updateCriterion(criterion: ReviewCriterion) {
+    const index = this.criteria.findIndex((c) => c.id === criterion.id);
+    if (index === -1) return;
+    this.criteria[index] = criterion;
+  }
+
+  removeCriterion(criterionId: string) {
+    this.criteria = this.criteria.filter((criterion) => criterion.id !== criterionId);
+  }
+
+  moveCriterion(criterionId: string, direction: 'up' | 'down') {
+    const index = this.criteria.findIndex((c) => c.id === criterionId);
+    if (index === -1) return;
+    const newIndex = direction === 'up' ? index - 1 : index + 1;
+    if (newIndex < 0 || newIndex >= this.criteria.length) return;
+    const [criterion] = this.criteria.splice(index, 1);
+    this.criteria.splice(newIndex, 0, criterion);
+  }
+
+  // Keeps only scores of existing criteria, capped to their scale
+  sanitizeScores(scores: ReviewScores): ReviewScores {
+    const sanitized: ReviewScores = {};
+    for (const criterion of this.criteria) {
+      const score = scores[criterion.id];
+      if (score === undefined || Number.isNaN(score)) continue;
+      sanitized[criterion.id] = Math.min(Math.max(Math.round(score), 0), criterion.scale);
+    }
+    return sanitized;
+  }
+
+  // Weighted average of the scored criteria, brought back to the 0-5 scale of review notes
+  computeNote(scores: ReviewScores): number | null {
+    const sanitized = this.sanitizeScores(scores);
+    const scored = this.criteria.filter((criterion) => sanitized[criterion.id] !== undefined);
+    if (scored.length === 0) return null;
+
+    const totalWeight = scored.reduce((acc, criterion) => acc + criterion.weight, 0);
+    const weighted = scored.reduce(
+      (acc, criterion) => acc + (sanitized[criterion.id] / criterion.scale) * criterion.weight,
+      0,
+    );
+
+    return Math.round((weighted / totalWeight) * MAX_NOTE * 100) / 100;
+  }
+
+  toConfig(): Array<ReviewCriterion> {
+    const result = ReviewRubricSchema.safeParse(this.criteria);
+    if (!result.success) return [];
+    return this.criteria;
+  }
+}
@@ -1,27 +1,86 @@
+import { parseWithZod } from '@conform-to/zod/v4';
 import { useTranslation } from 'react-i18next';
-import { useFetcher } from 'react-router';
+import { Form, useFetcher } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
 import { ToggleGroup } from '~/design-system/forms/toggles.tsx';
 import { Card } from '~/design-system/layouts/card.tsx';
-import { H2 } from '~/design-system/typography.tsx';
+import { H2, Subtitle } from '~/design-system/typography.tsx';
 import { useCurrentEventTeam } from '~/features/event-management/event-team-context.tsx';
+import { ProposalDuplicates } from '~/features/event-management/proposals/services/proposal-duplicates.server.ts';
 import { EventSettings } from '~/features/event-management/settings/services/event-settings.server.ts';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
 import { useFlag } from '~/shared/feature-flags/flags-context.tsx';
 import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
 import { toast } from '~/shared/toasts/toast.server.ts';
 import type { Route } from './+types/review.ts';
+import { ReviewPeriodForm } from './components/review-period-form.tsx';
+import { ReviewRubricForm } from './components/review-rubric-form.tsx';
+import { ReviewCriterionSchema } from './models/review-rubric.ts';
+import {
+  EventReviewRubric,
+  ReviewCriterionMoveSchema,
+  ReviewCriterionRemoveSchema,
+} from './services/event-review-rubric.server.ts';
+import { ReviewPeriodSchema } from './services/event-settings.schema.server.ts';
+
+export const loader = async ({ context }: Route.LoaderArgs) => {
+  const authorizedEvent = context.get(AuthorizedEventContext);
+  const criteria = await EventReviewRubric.for(authorizedEvent).getCriteria();
+  return { criteria };
+};
 
 export const action = async ({ request, context }: Route.ActionArgs) => {
   const authorizedEvent = context.get(AuthorizedEventContext);
   const i18n = getI18n(context);
-  const event = EventSettings.for(authorizedEvent);
   const form = await request.formData();
+  const intent = form.get('intent');
+
+  const rubric = EventReviewRubric.for(authorizedEvent);
+  switch (intent) {
+    case 'add-criterion': {
+      const result = parseWithZod(form, { schema: ReviewCriterionSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await rubric.addCriterion(result.value);
+      return toast('success', i18n.t('event-management.settings.reviews.rubric.feedbacks.criterion-added'));
+    }
+    case 'update-criterion': {
+      const result = parseWithZod(form, { schema: ReviewCriterionSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await rubric.updateCriterion(result.value);
+      return toast('success', i18n.t('event-management.settings.reviews.rubric.feedbacks.criterion-updated'));
+    }
+    case 'remove-criterion': {
+      const result = parseWithZod(form, { schema: ReviewCriterionRemoveSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await rubric.removeCriterion(result.value.id);
+      return toast('success', i18n.t('event-management.settings.reviews.rubric.feedbacks.criterion-removed'));
+    }
+    case 'move-criterion': {
+      const result = parseWithZod(form, { schema: ReviewCriterionMoveSchema });
+      if (result.status !== 'success') return toast('error', i18n.t('error.global'));
+      await rubric.moveCriterion(result.value);
+      return null;
+    }
+    case 'detect-duplicates': {
+      await ProposalDuplicates.detectAll(authorizedEvent);
+      return toast('success', i18n.t('event-management.settings.reviews.duplicates.feedbacks.started'));
+    }
+  }
+
+  const event = EventSettings.for(authorizedEvent);
+  if (intent === 'save-review-period') {
+    const result = parseWithZod(form, { schema: ReviewPeriodSchema });
+    if (result.status !== 'success') return result.error;
+    await event.update(result.value);
+    return toast('success', i18n.t('event-management.settings.reviews.period.feedbacks.saved'));
+  }
+
   const settingName = form.get('_setting') as string;
   await event.update({ [settingName]: form.get(settingName) === 'true' });
   return toast('success', i18n.t('event-management.settings.reviews.enable.feedbacks.saved'));
 };
 
-export default function EventReviewSettingsRoute() {
+export default function EventReviewSettingsRoute({ loaderData, actionData: errors }: Route.ComponentProps) {
   const { t } = useTranslation();
   const { event } = useCurrentEventTeam();
   const isSpeakerCommunicationEnabled = useFlag('speakersCommunication');
@@ -49,6 +108,15 @@ export default function EventReviewSettingsRoute() {
         />
       </Card>
 
+      <ReviewPeriodForm
+        reviewStart={event.reviewStart}
+        reviewEnd={event.reviewEnd}
+        reviewReminderDays={event.reviewReminderDays}
+        reviewLockAfterEnd={event.reviewLockAfterEnd}
+        timezone={event.timezone}
+        errors={errors}
+      />
+
       <Card as="section">
         <Card.Title>
           <H2>{t('event-management.settings.reviews.settings.heading')}</H2>
@@ -92,6 +160,23 @@ export default function EventReviewSettingsRoute() {
           ) : null}
         </Card.Content>
       </Card>
+
+      <ReviewRubricForm criteria={loaderData.criteria} />
+
+      <Card as="section">
+        <Card.Title>
+          <H2>{t('event-management.settings.reviews.duplicates.heading')}</H2>
+          <Subtitle>{t('event-management.settings.reviews.duplicates.description')}</Subtitle>
+        </Card.Title>
+
+        <Card.Actions>
+          <Form method="POST">
+            <Button type="submit" name="intent" value="detect-duplicates" variant="secondary">
+              {t('event-management.settings.reviews.duplicates.submit')}
+            </Button>
+          </Form>
+        </Card.Actions>
+      </Card>
     </>
   );
 }
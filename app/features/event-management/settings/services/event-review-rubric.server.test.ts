@@ -0,0 +1,121 @@
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { reviewFactory } from 'tests/factories/reviews.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { ForbiddenOperationError, ReviewRubricInvalidError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Team, User } from '../../../../../prisma/generated/client.ts';
+import type { ReviewCriterion } from '../models/review-rubric.ts';
+import { EventReviewRubric } from './event-review-rubric.server.ts';
+
+describe('EventReviewRubric', () => {
+  let owner: User;
+  let reviewer: User;
+  let team: Team;
+  let event: Event;
+
+  const relevance: ReviewCriterion = { id: 'relevance', name: 'Relevance', weight: 2, scale: 5 };
+  const originality: ReviewCriterion = { id: 'originality', name: 'Originality', weight: 1, scale: 5 };
+
+  beforeEach(async () => {
+    owner = await userFactory();
+    reviewer = await userFactory();
+    team = await teamFactory({ owners: [owner], reviewers: [reviewer] });
+    event = await eventFactory({ team, attributes: { reviewCriteria: [relevance] } });
+  });
+
+  const authorize = async (user: User) => {
+    const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
+    return getAuthorizedEvent(authorizedTeam, event.slug);
+  };
+
+  describe('#getCriteria', () => {
+    it('returns the review criteria of the event', async () => {
+      const authorizedEvent = await authorize(owner);
+      const criteria = await EventReviewRubric.for(authorizedEvent).getCriteria();
+      expect(criteria).toEqual([relevance]);
+    });
+
+    it('throws an error if user cannot edit the event', async () => {
+      const authorizedEvent = await authorize(reviewer);
+      await expect(EventReviewRubric.for(authorizedEvent).getCriteria()).rejects.toThrowError(ForbiddenOperationError);
+    });
+  });
+
+  describe('#addCriterion', () => {
+    it('adds a criterion to the rubric', async () => {
+      const authorizedEvent = await authorize(owner);
+      await EventReviewRubric.for(authorizedEvent).addCriterion(originality);
+
+      const updated = await db.event.findUnique({ where: { id: event.id } });
+      expect(updated?.reviewCriteria).toEqual([relevance, originality]);
+    });
+
+    it('throws an error when the rubric has too many criteria', async () => {
+      const criteria = Array.from({ length: 10 }, (_, index) => ({ ...relevance, id: `c${index}` }));
+      await db.event.update({ where: { id: event.id }, data: { reviewCriteria: criteria } });
+
+      const authorizedEvent = await authorize(owner);
+      await expect(EventReviewRubric.for(authorizedEvent).addCriterion(originality)).rejects.toThrowError(
+        ReviewRubricInvalidError,
+      );
+    });
+
+    it('throws an error if user cannot edit the event', async () => {
+      const authorizedEvent = await authorize(reviewer);
+      await expect(EventReviewRubric.for(authorizedEvent).addCriterion(originality)).rejects.toThrowError(
+        ForbiddenOperationError,
+      );
+    });
+  });
+
+  describe('#updateCriterion', () => {
+    it('updates a criterion and computes notes of scored reviews again', async () => {
+      await db.event.update({ where: { id: event.id }, data: { reviewCriteria: [relevance, originality] } });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [owner] }) });
+      const scored = await reviewFactory({
+        user: owner,
+        proposal,
+        attributes: { note: 3.33, scores: { relevance: 5, originality: 0 } },
+      });
+      const unscored = await reviewFactory({ user: reviewer, proposal, attributes: { note: 2 } });
+
+      const authorizedEvent = await authorize(owner);
+      await EventReviewRubric.for(authorizedEvent).updateCriterion({ ...originality, weight: 2 });
+
+      const updated = await db.event.findUnique({ where: { id: event.id } });
+      expect(updated?.reviewCriteria).toEqual([relevance, { ...originality, weight: 2 }]);
+
+      const scoredReview = await db.review.findUnique({ where: { id: scored.id } });
+      expect(scoredReview?.note).toBe(2.5);
+      expect(scoredReview?.updatedAt).toEqual(scored.updatedAt);
+      const unscoredReview = await db.review.findUnique({ where: { id: unscored.id } });
+      expect(unscoredReview?.note).toBe(2);
+    });
+  });
+
+  describe('#removeCriterion', () => {
+    it('removes a criterion from the rubric', async () => {
+      const authorizedEvent = await authorize(owner);
+      await EventReviewRubric.for(authorizedEvent).removeCriterion(relevance.id);
+
+      const updated = await db.event.findUnique({ where: { id: event.id } });
+      expect(updated?.reviewCriteria).toEqual([]);
+    });
+  });
+
+  describe('#moveCriterion', () => {
+    it('moves a criterion in the rubric', async () => {
+      await db.event.update({ where: { id: event.id }, data: { reviewCriteria: [relevance, originality] } });
+
+      const authorizedEvent = await authorize(owner);
+      await EventReviewRubric.for(authorizedEvent).moveCriterion({ id: originality.id, direction: 'up' });
+
+      const updated = await db.event.findUnique({ where: { id: event.id } });
+      expect(updated?.reviewCriteria).toEqual([originality, relevance]);
+    });
+  });
+});
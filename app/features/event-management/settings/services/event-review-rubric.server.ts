@@ -0,0 +1,82 @@
+import z from 'zod';
+import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
+import { ForbiddenOperationError, ReviewRubricInvalidError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import { Prisma } from '../../../../../prisma/generated/client.ts';
+import type { ReviewCriterion, ReviewScores } from '../models/review-rubric.ts';
+import { ReviewRubric } from '../models/review-rubric.ts';
+
+export const ReviewCriterionRemoveSchema = z.object({ id: z.string() });
+export const ReviewCriterionMoveSchema = z.object({ id: z.string(), direction: z.enum(['up', 'down']) });
+export type ReviewCriterionMove = z.infer<typeof ReviewCriterionMoveSchema>;
+
+const MAX_CRITERIA = 10;
+
+export class EventReviewRubric {
+  constructor(private authorizedEvent: AuthorizedEvent) {}
+
+  static for(authorizedEvent: AuthorizedEvent) {
+    return new EventReviewRubric(authorizedEvent);
+  }
+
+  async getCriteria() {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEvent) throw new ForbiddenOperationError();
+    return new ReviewRubric(event.reviewCriteria).criteria;
+  }
+
+  async addCriterion(criterion: ReviewCriterion) {
+    const rubric = this.rubric();
+    rubric.addCriterion(criterion);
+    if (rubric.criteria.length > MAX_CRITERIA) {
+      throw new ReviewRubricInvalidError(`You can only have up to ${MAX_CRITERIA} criteria in the review rubric`);
+    }
+    await this.save(rubric);
+  }
+
+  async updateCriterion(criterion: ReviewCriterion) {
+    const rubric = this.rubric();
+    rubric.updateCriterion(criterion);
+    await this.save(rubric);
+  }
+
+  async removeCriterion(criterionId: string) {
+    const rubric = this.rubric();
+    rubric.removeCriterion(criterionId);
+    await this.save(rubric);
+  }
+
+  async moveCriterion({ id, direction }: ReviewCriterionMove) {
+    const rubric = this.rubric();
+    rubric.moveCriterion(id, direction);
+    const { event } = this.authorizedEvent;
+    await db.event.update({ data: { reviewCriteria: rubric.toConfig() }, where: { id: event.id } });
+  }
+
+  private rubric() {
+    const { event, permissions } = this.authorizedEvent;
+    if (!permissions.canEditEvent) throw new ForbiddenOperationError();
+    return new ReviewRubric(event.reviewCriteria);
+  }
+
+  // Weights and scales may have changed, so notes of reviews scored with the rubric are computed again.
+  // The review date is kept as the reviewers did not change their review.
+  private async save(rubric: ReviewRubric) {
+    const { event } = this.authorizedEvent;
+
+    const reviews = await db.review.findMany({
+      where: { proposal: { eventId: event.id }, scores: { not: Prisma.DbNull } },
+      select: { id: true, scores: true, updatedAt: true },
+    });
+
+    await db.$transaction([
+      db.event.update({ data: { reviewCriteria: rubric.toConfig() }, where: { id: event.id } }),
+      ...reviews.map((review) =>
+        db.review.update({
+          where: { id: review.id },
+          data: { note: rubric.computeNote((review.scores ?? {}) as ReviewScores), updatedAt: review.updatedAt },
+        }),
+      ),
+    ]);
+  }
+}
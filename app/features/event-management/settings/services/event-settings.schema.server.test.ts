@@ -1,8 +1,10 @@
 import { z } from 'zod';
 import {
+  CfpAttachmentsSchema,
   CfpConferenceOpeningSchema,
   EventDetailsSettingsSchema,
   EventGeneralSettingsSchema,
+  ReviewPeriodSchema,
 } from './event-settings.schema.server.ts';
 
 describe('UserEvent types', () => {
@@ -116,4 +118,65 @@ describe('UserEvent types', () => {
       });
     });
   });
+
+  describe('#CfpAttachmentsSchema', () => {
+    it('validates CfpAttachmentsSchema inputs', async () => {
+      const result = CfpAttachmentsSchema.safeParse({ attachmentMaxSize: 20, attachmentFileTypes: ['pdf', 'video'] });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ attachmentMaxSize: 20, attachmentFileTypes: ['pdf', 'video'] });
+    });
+
+    it('returns errors when limits are invalid', async () => {
+      const result = CfpAttachmentsSchema.safeParse({ attachmentMaxSize: 500, attachmentFileTypes: ['exe'] });
+
+      expect(result.success).toBe(false);
+      expect(Object.keys(z.flattenError(result.error!).fieldErrors)).toEqual([
+        'attachmentMaxSize',
+        'attachmentFileTypes',
+      ]);
+    });
+  });
+
+  describe('#ReviewPeriodSchema', () => {
+    it('validates ReviewPeriodSchema inputs and transform dates with TZ', async () => {
+      const result = ReviewPeriodSchema.safeParse({
+        timezone: 'Europe/Paris',
+        reviewStart: '2024-01-01',
+        reviewEnd: '2024-01-15',
+        reviewReminderDays: [7, 1],
+        reviewLockAfterEnd: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        reviewStart: new Date('2023-12-31T23:00:00.000Z'),
+        reviewEnd: new Date('2024-01-15T22:59:59.999Z'),
+        reviewReminderDays: [7, 1],
+        reviewLockAfterEnd: true,
+      });
+    });
+
+    it('returns an error when the start date is after the end date', async () => {
+      const result = ReviewPeriodSchema.safeParse({
+        timezone: 'Europe/Paris',
+        reviewStart: '2024-01-16',
+        reviewEnd: '2024-01-15',
+      });
+
+      expect(result.success).toBe(false);
+      expect(z.flattenError(result.error!).fieldErrors).toEqual({
+        reviewStart: ['Review start date must be before the review end date.'],
+      });
+    });
+
+    it('returns an error when reminders or locking are set without end date', async () => {
+      const result = ReviewPeriodSchema.safeParse({ timezone: 'Europe/Paris', reviewReminderDays: [1] });
+
+      expect(result.success).toBe(false);
+      expect(z.flattenError(result.error!).fieldErrors).toEqual({
+        reviewEnd: ['A review end date is required for reminders and locking.'],
+      });
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { parseToUtcEndOfDay, parseToUtcStartOfDay } from '~/shared/datetimes/timezone.ts';
 import { SlugSchema } from '~/shared/validators/slug.ts';
+import { ATTACHMENT_FILE_TYPE_KEYS, ATTACHMENT_MAX_SIZE_LIMIT } from '../models/attachment-limits.ts';
 
 export const EventGeneralSettingsSchema = z.object({
   name: z.string().trim().min(3).max(50),
@@ -41,6 +42,11 @@ export const CfpPreferencesSchema = z.object({
   maxProposals: z.number().min(1).nullable().default(null),
 });
 
+export const CfpAttachmentsSchema = z.object({
+  attachmentMaxSize: z.number().int().min(1).max(ATTACHMENT_MAX_SIZE_LIMIT),
+  attachmentFileTypes: z.array(z.enum(ATTACHMENT_FILE_TYPE_KEYS)).default([]),
+});
+
 export const CfpMeetupOpeningSchema = z.object({
   cfpStart: z.coerce.date().nullable().default(null),
 });
@@ -67,6 +73,31 @@ export const CfpConferenceOpeningSchema = z
     { path: ['cfpStart'], error: 'Call for papers start date must be after the end date.' },
   );
 
+export const ReviewPeriodSchema = z
+  .object({
+    timezone: z.string(),
+    reviewStart: z.string().nullable().default(null),
+    reviewEnd: z.string().nullable().default(null),
+    reviewReminderDays: z.array(z.number().int().min(1).max(60)).default([]),
+    reviewLockAfterEnd: z.boolean().default(false),
+  })
+  .transform(({ reviewStart, reviewEnd, timezone, ...rest }) => ({
+    ...rest,
+    reviewStart: reviewStart ? parseToUtcStartOfDay(reviewStart, timezone) : null,
+    reviewEnd: reviewEnd ? parseToUtcEndOfDay(reviewEnd, timezone) : null,
+  }))
+  .refine(({ reviewStart, reviewEnd }) => !reviewStart || !reviewEnd || reviewStart <= reviewEnd, {
+    path: ['reviewStart'],
+    error: 'Review start date must be before the review end date.',
+  })
+  .refine(
+    ({ reviewEnd, reviewReminderDays, reviewLockAfterEnd }) => {
+      if (reviewEnd) return true;
+      return reviewReminderDays.length === 0 && !reviewLockAfterEnd;
+    },
+    { path: ['reviewEnd'], error: 'A review end date is required for reminders and locking.' },
+  );
+
 export const EventEmailNotificationsSettingsSchema = z.object({
   emailOrganizer: z.email().nullable().default(null),
 });
@@ -4,6 +4,7 @@ export const TrackSaveSchema = z.object({
   id: z.string().trim().optional(),
   name: z.string().trim().min(1).max(255),
   description: z.string().trim().min(1).max(255),
+  capacity: z.number().int().min(1).nullable().default(null),
 });
 
 export type TrackSaveData = z.infer<typeof TrackSaveSchema>;
@@ -29,6 +29,7 @@ describe('EventTracksSettings', () => {
       await EventTracksSettings.for(authorizedEvent).saveFormat({
         name: 'Format 1',
         description: 'Format 1',
+        capacity: 40,
       });
 
       const updated = await db.event.findUnique({ where: { slug: event.slug }, include: { formats: true } });
@@ -36,6 +37,7 @@ describe('EventTracksSettings', () => {
       expect(updated?.formats.length).toBe(1);
       expect(updated?.formats[0].name).toBe('Format 1');
       expect(updated?.formats[0].description).toBe('Format 1');
+      expect(updated?.formats[0].capacity).toBe(40);
     });
 
     it('adds a new format with correct order at the end', async () => {
@@ -47,6 +49,7 @@ describe('EventTracksSettings', () => {
       await EventTracksSettings.for(authorizedEvent).saveFormat({
         name: 'Format 3',
         description: 'New format',
+        capacity: null,
       });
 
       const updated = await db.event.findUnique({
@@ -71,6 +74,7 @@ describe('EventTracksSettings', () => {
         id: format.id,
         name: 'Format 1',
         description: 'Format 1',
+        capacity: 12,
       });
 
       const updated = await db.event.findUnique({ where: { slug: event.slug }, include: { formats: true } });
@@ -78,6 +82,7 @@ describe('EventTracksSettings', () => {
       expect(updated?.formats.length).toBe(1);
       expect(updated?.formats[0].name).toBe('Format 1');
       expect(updated?.formats[0].description).toBe('Format 1');
+      expect(updated?.formats[0].capacity).toBe(12);
     });
 
     it('throws an error if user is not owner', async () => {
@@ -87,6 +92,7 @@ describe('EventTracksSettings', () => {
         await EventTracksSettings.for(authorizedEvent).saveFormat({
           name: 'Hello world',
           description: 'Hello world',
+          capacity: null,
         });
       }).rejects.toThrow(ForbiddenOperationError);
     });
@@ -99,6 +105,7 @@ describe('EventTracksSettings', () => {
         await EventTracksSettings.for(authorizedEvent).saveFormat({
           name: 'Hello world',
           description: 'Hello world',
+          capacity: null,
         });
       }).rejects.toThrow(ForbiddenOperationError);
     });
@@ -111,6 +118,7 @@ describe('EventTracksSettings', () => {
       await EventTracksSettings.for(authorizedEvent).saveCategory({
         name: 'Category 1',
         description: 'Category 1',
+        capacity: null,
       });
 
       const updated = await db.event.findUnique({ where: { slug: event.slug }, include: { categories: true } });
@@ -128,6 +136,7 @@ describe('EventTracksSettings', () => {
         id: category.id,
         name: 'Category 1',
         description: 'Category 1',
+        capacity: 8,
       });
 
       const updated = await db.event.findUnique({ where: { slug: event.slug }, include: { categories: true } });
@@ -135,6 +144,7 @@ describe('EventTracksSettings', () => {
       expect(updated?.categories.length).toBe(1);
       expect(updated?.categories[0].name).toBe('Category 1');
       expect(updated?.categories[0].description).toBe('Category 1');
+      expect(updated?.categories[0].capacity).toBe(8);
     });
 
     it('throws an error if user is not owner', async () => {
@@ -142,7 +152,7 @@ describe('EventTracksSettings', () => {
         const authorizedTeam = await getAuthorizedTeam(reviewer.id, team.slug);
         const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
         const settings = EventTracksSettings.for(authorizedEvent);
-        await settings.saveCategory({ name: 'Hello world', description: 'Hello world' });
+        await settings.saveCategory({ name: 'Hello world', description: 'Hello world', capacity: null });
       }).rejects.toThrow(ForbiddenOperationError);
     });
 
@@ -152,7 +162,7 @@ describe('EventTracksSettings', () => {
         const authorizedTeam = await getAuthorizedTeam(user.id, team.slug);
         const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
         const settings = EventTracksSettings.for(authorizedEvent);
-        await settings.saveCategory({ name: 'Hello world', description: 'Hello world' });
+        await settings.saveCategory({ name: 'Hello world', description: 'Hello world', capacity: null });
       }).rejects.toThrow(ForbiddenOperationError);
     });
   });
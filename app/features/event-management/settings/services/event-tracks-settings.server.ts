@@ -17,7 +17,7 @@ export class EventTracksSettings {
     if (data.id) {
       return db.eventFormat.update({
         where: { id: data.id },
-        data: { name: data.name, description: data.description },
+        data: { name: data.name, description: data.description, capacity: data.capacity },
       });
     }
 
@@ -26,6 +26,7 @@ export class EventTracksSettings {
       data: {
         name: data.name,
         description: data.description,
+        capacity: data.capacity,
         order: formatsCount,
         event: { connect: { id: event.id } },
       },
@@ -55,7 +56,7 @@ export class EventTracksSettings {
     if (data.id) {
       return db.eventCategory.update({
         where: { id: data.id },
-        data: { name: data.name, description: data.description },
+        data: { name: data.name, description: data.description, capacity: data.capacity },
       });
     }
 
@@ -64,6 +65,7 @@ export class EventTracksSettings {
       data: {
         name: data.name,
         description: data.description,
+        capacity: data.capacity,
         order: categoriesCount,
         event: { connect: { id: event.id } },
       },
@@ -131,6 +131,34 @@ describe('EventSpeakers', () => {
         expect(result.speakers[0].name).toBe('Bob Wilson');
       });
 
+      it('searches words in speaker companies and bios', async () => {
+        await eventSpeakerFactory({
+          event,
+          attributes: { name: 'Grace Hopper', bio: 'Loves writing compilers for functional languages' },
+        });
+        const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+        const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+        const byBio = await EventSpeakers.for(authorizedEvent).search({ query: 'compiler' });
+        expect(byBio.speakers.map((speaker) => speaker.name)).toEqual(['Grace Hopper']);
+
+        const byCompany = await EventSpeakers.for(authorizedEvent).search({ query: 'tech corp' });
+        expect(byCompany.speakers.map((speaker) => speaker.name)).toEqual(['Alice Johnson']);
+      });
+
+      it('ranks searched speakers by relevance when no sort is given', async () => {
+        await eventSpeakerFactory({ event, attributes: { name: 'Ada Lovelace', bio: 'Inspired by Grace Hopper' } });
+        await eventSpeakerFactory({ event, attributes: { name: 'Grace Hopper', bio: 'Compilers' } });
+        const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+        const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+        const ranked = await EventSpeakers.for(authorizedEvent).search({ query: 'hopper' });
+        expect(ranked.speakers.map((speaker) => speaker.name)).toEqual(['Grace Hopper', 'Ada Lovelace']);
+
+        const sorted = await EventSpeakers.for(authorizedEvent).search({ query: 'hopper', sort: 'name' });
+        expect(sorted.speakers.map((speaker) => speaker.name)).toEqual(['Ada Lovelace', 'Grace Hopper']);
+      });
+
       it('filters speakers by exact email match (case insensitive)', async () => {
         const speakerWithEmail = await eventSpeakerFactory({
           event,
@@ -397,6 +425,31 @@ describe('EventSpeakers', () => {
     });
   });
 
+  describe('#listAll', () => {
+    it('returns every speaker matching the filters without pagination', async () => {
+      const talk = await talkFactory({ speakers: [speaker1, speaker3] });
+      await proposalFactory({ event, talk, traits: ['confirmed'] });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const speakers = await EventSpeakers.for(authorizedEvent).listAll({ proposalStatus: 'confirmed' });
+
+      expect(speakers.map((speaker) => speaker.id)).toEqual([eventSpeaker3.id, eventSpeaker1.id]);
+    });
+
+    it('returns no speaker when displayProposalsSpeakers is false', async () => {
+      await db.event.update({ where: { id: event.id }, data: { displayProposalsSpeakers: false } });
+
+      const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+      const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+
+      const speakers = await EventSpeakers.for(authorizedEvent).listAll({});
+
+      expect(speakers).toEqual([]);
+    });
+  });
+
   describe('#getById', () => {
     describe('when user has access to event', () => {
       it('returns complete speaker details with basic information', async () => {
@@ -5,9 +5,11 @@ import { SpeakerSurvey } from '~/features/event-participation/speaker-survey/ser
 import type { AuthorizedEvent } from '~/shared/authorization/types.ts';
 import { ForbiddenOperationError, NotFoundError, SpeakerEmailAlreadyExistsError } from '~/shared/errors.server.ts';
 import { Pagination } from '~/shared/pagination/pagination.ts';
+import { fullTextQuery, speakerSearchVector } from '~/shared/search/full-text-search.server.ts';
 import type { EventSpeakerSaveData, SocialLinks } from '~/shared/types/speaker.types.ts';
 import type { SurveyDetailedAnswer } from '~/shared/types/survey.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
+import { Prisma } from '../../../../../prisma/generated/client.ts';
 import type { EventSpeakerWhereInput } from '../../../../../prisma/generated/models.ts';
 
 const SpeakerSearchFiltersSchema = z.object({
@@ -17,7 +19,7 @@ const SpeakerSearchFiltersSchema = z.object({
   order: z.enum(['asc', 'desc']).optional(),
 });
 
-type SpeakerSearchFilters = z.infer<typeof SpeakerSearchFiltersSchema>;
+export type SpeakerSearchFilters = z.infer<typeof SpeakerSearchFiltersSchema>;
 
 export class EventSpeakers {
   constructor(private authorizedEvent: AuthorizedEvent) {}
@@ -38,42 +40,26 @@ export class EventSpeakers {
       };
     }
 
-    const { query, proposalStatus, order = 'asc' } = filters;
+    const { query, sort, order = 'asc' } = filters;
 
-    const whereClause: EventSpeakerWhereInput = { eventId: event.id };
-
-    if (query) {
-      whereClause.OR = [
-        { name: { contains: query, mode: 'insensitive' } },
-        { email: { equals: query, mode: 'insensitive' } },
-      ];
-    }
-
-    if (proposalStatus === 'accepted') {
-      whereClause.proposals = {
-        some: { deliberationStatus: 'ACCEPTED', isDraft: false },
-      };
-    } else if (proposalStatus === 'confirmed') {
-      whereClause.proposals = {
-        some: { confirmationStatus: 'CONFIRMED', isDraft: false },
-      };
-    } else if (proposalStatus === 'declined') {
-      whereClause.proposals = {
-        some: { confirmationStatus: 'DECLINED', isDraft: false },
-      };
-    }
+    const rankedIds = query ? await this.searchRankedIds(query) : null;
+    const whereClause = this.buildWhereClause(filters, rankedIds);
 
     const total = await db.eventSpeaker.count({ where: whereClause });
 
     const pagination = new Pagination({ page, total });
 
-    const speakers = await db.eventSpeaker.findMany({
-      where: whereClause,
-      include: { proposals: true },
-      orderBy: { name: order },
-      skip: pagination.pageIndex * pagination.pageSize,
-      take: pagination.pageSize,
-    });
+    // Without explicit sort, searched speakers are ranked by relevance
+    const speakers =
+      rankedIds && !sort
+        ? await this.findRankedSpeakers(whereClause, rankedIds, pagination)
+        : await db.eventSpeaker.findMany({
+            where: whereClause,
+            include: { proposals: true },
+            orderBy: { name: order },
+            skip: pagination.pageIndex * pagination.pageSize,
+            take: pagination.pageSize,
+          });
 
     return {
       speakers: speakers.map((speaker) => ({
@@ -96,6 +82,69 @@ export class EventSpeakers {
     };
   }
 
+  // Every speaker matching the filters, without pagination
+  async listAll(filters: SpeakerSearchFilters) {
+    const { event } = this.authorizedEvent;
+    if (!event.displayProposalsSpeakers) return [];
+
+    const rankedIds = filters.query ? await this.searchRankedIds(filters.query) : null;
+    return db.eventSpeaker.findMany({ where: this.buildWhereClause(filters, rankedIds), orderBy: { name: 'asc' } });
+  }
+
+  private buildWhereClause({ proposalStatus }: SpeakerSearchFilters, rankedIds: Array<string> | null) {
+    const { event } = this.authorizedEvent;
+
+    const whereClause: EventSpeakerWhereInput = { eventId: event.id };
+
+    if (rankedIds) {
+      whereClause.id = { in: rankedIds };
+    }
+
+    if (proposalStatus === 'accepted') {
+      whereClause.proposals = {
+        some: { deliberationStatus: 'ACCEPTED', isDraft: false },
+      };
+    } else if (proposalStatus === 'confirmed') {
+      whereClause.proposals = {
+        some: { confirmationStatus: 'CONFIRMED', isDraft: false },
+      };
+    } else if (proposalStatus === 'declined') {
+      whereClause.proposals = {
+        some: { confirmationStatus: 'DECLINED', isDraft: false },
+      };
+    }
+
+    return whereClause;
+  }
+
+  // Full-text search on speaker names, companies and bios, or exact email match, ordered by relevance
+  private async searchRankedIds(query: string) {
+    const { event } = this.authorizedEvent;
+    const textQuery = fullTextQuery(query) ?? Prisma.sql`''::tsquery`;
+
+    const rows = await db.$queryRaw<Array<{ id: string }>>(
+      Prisma.sql`
+        SELECT es.id
+        FROM event_speakers es
+        WHERE es."eventId" = ${event.id}
+          AND (${speakerSearchVector} @@ ${textQuery} OR LOWER(es.email) = LOWER(${query}))
+        ORDER BY ts_rank(${speakerSearchVector}, ${textQuery}) DESC, es.name ASC
+      `,
+    );
+    return rows.map(({ id }) => id);
+  }
+
+  private async findRankedSpeakers(where: EventSpeakerWhereInput, rankedIds: Array<string>, pagination: Pagination) {
+    const matching = await db.eventSpeaker.findMany({ where, select: { id: true } });
+    const matchingIds = new Set(matching.map(({ id }) => id));
+
+    const start = pagination.pageIndex * pagination.pageSize;
+    const pageIds = rankedIds.filter((id) => matchingIds.has(id)).slice(start, start + pagination.pageSize);
+
+    const speakers = await db.eventSpeaker.findMany({ where: { id: { in: pageIds } }, include: { proposals: true } });
+    return pageIds.flatMap((id) => speakers.filter((speaker) => speaker.id === id));
+  }
+
   async getById(speakerId: string) {
     const { event, userId } = this.authorizedEvent;
 
@@ -154,6 +203,8 @@ export class EventSpeakers {
         },
         commentCount: proposal.commentCount,
         hasNewMessages: proposal.hasNewMessages,
+        assignedToMe: proposal.assignedToMe,
+        changedSinceReview: proposal.changedSinceReview,
       })),
     };
   }
@@ -1,11 +1,13 @@
 import { useTranslation } from 'react-i18next';
 import { useSearchParams } from 'react-router';
+import { useUserTeamPermissions } from '~/app-platform/components/user-context.tsx';
 import { Avatar } from '~/design-system/avatar.tsx';
 import { Page } from '~/design-system/layouts/page.tsx';
 import { List } from '~/design-system/list/list.tsx';
 import { H1, Text } from '~/design-system/typography.tsx';
 import { AuthorizedEventContext } from '~/shared/authorization/authorization.middleware.ts';
 import { parseUrlPage } from '~/shared/pagination/pagination.ts';
+import { ComposeCampaignButton } from '../campaigns/components/compose-campaign-button.tsx';
 import type { Route } from './+types/speakers.ts';
 import { FiltersTags } from './components/filters-tags.tsx';
 import { Filters } from './components/filters.tsx';
@@ -21,6 +23,7 @@ export const loader = async ({ context, url }: Route.LoaderArgs) => {
 
 export default function SpeakersRoute({ loaderData }: Route.ComponentProps) {
   const { t } = useTranslation();
+  const permissions = useUserTeamPermissions();
   const [searchParams] = useSearchParams();
   const search = searchParams.toString();
 
@@ -42,6 +45,7 @@ export default function SpeakersRoute({ loaderData }: Route.ComponentProps) {
           <List>
             <List.Header>
               <Text>{t('event-management.speakers.list.items', { count: statistics.total })}</Text>
+              {permissions.canPublishEventResults ? <ComposeCampaignButton source="speakers" /> : null}
             </List.Header>
 
             <List.Content aria-label={t('event-management.speakers.heading')}>
@@ -1,3 +1,4 @@
+import { MaxFileSizeExceededError, parseFormData } from '@remix-run/form-data-parser';
 import { useId, useState } from 'react';
 import { Trans, useTranslation } from 'react-i18next';
 import { Form, href, redirect } from 'react-router';
@@ -6,12 +7,18 @@ import { Checkbox } from '~/design-system/forms/input-checkbox.tsx';
 import { Card } from '~/design-system/layouts/card.tsx';
 import { Page } from '~/design-system/layouts/page.tsx';
 import { ExternalLink } from '~/design-system/links.tsx';
+import {
+  ATTACHMENT_MAX_FILE_SIZE,
+  formatFileSize,
+} from '~/features/event-management/settings/models/attachment-limits.ts';
 import { TalkSubmission } from '~/features/event-participation/cfp-submission/services/talk-submission.server.ts';
 import { useCurrentEvent } from '~/features/event-participation/event-page-context.tsx';
+import { ProposalAttachments } from '~/features/event-participation/speaker-proposals/services/proposal-attachments.server.ts';
+import { TalkAttachments } from '~/features/speaker/talk-library/components/talk-attachments.tsx';
 import { TalkSection } from '~/features/speaker/talk-library/components/talk-section.tsx';
 import { RequireAuthContext } from '~/shared/authentication/auth.middleware.ts';
 import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
-import { toastHeaders } from '~/shared/toasts/toast.server.ts';
+import { toast, toastHeaders } from '~/shared/toasts/toast.server.ts';
 import type { Route } from './+types/6-submit.ts';
 import { useSubmissionNavigation } from './components/submission-context.tsx';
 
@@ -19,20 +26,56 @@ export const handle = { step: 'submission' };
 
 export const loader = async ({ params, context }: Route.LoaderArgs) => {
   const authUser = context.get(RequireAuthContext);
-  return TalkSubmission.for(authUser.id, params.event).get(params.talk);
+  const proposal = await TalkSubmission.for(authUser.id, params.event).get(params.talk);
+  const attachments = await ProposalAttachments.for(authUser.id, proposal.id).list();
+  return { proposal, attachments };
 };
 
-export const action = async ({ params, context }: Route.ActionArgs) => {
+export const action = async ({ request, params, context }: Route.ActionArgs) => {
   const authUser = context.get(RequireAuthContext);
 
   const i18n = getI18n(context);
-  const proposalId = await TalkSubmission.for(authUser.id, params.event).submit(params.talk);
+  const submission = TalkSubmission.for(authUser.id, params.event);
+
+  let form: FormData;
+  try {
+    form = await parseFormData(request, { maxFiles: 1, maxFileSize: ATTACHMENT_MAX_FILE_SIZE });
+  } catch (error) {
+    if (error instanceof MaxFileSizeExceededError) {
+      const maxSize = formatFileSize(ATTACHMENT_MAX_FILE_SIZE, i18n.language);
+      return toast('error', i18n.t('talk.attachments.errors.too-large', { maxSize }));
+    }
+    return toast('error', i18n.t('error.global'));
+  }
+  const intent = form.get('intent');
+
+  if (intent === 'upload-attachment') {
+    const file = form.get('attachment');
+    if (!(file instanceof File)) return toast('error', i18n.t('error.global'));
+    const { id } = await submission.get(params.talk);
+    const result = await ProposalAttachments.for(authUser.id, id).upload(file);
+    if (result.error) {
+      const maxSize = formatFileSize(result.maxSizeInBytes, i18n.language);
+      return toast('error', i18n.t(`talk.attachments.errors.${result.error}`, { maxSize }));
+    }
+    return toast('success', i18n.t('talk.attachments.feedbacks.uploaded'));
+  }
+
+  if (intent === 'delete-attachment') {
+    const attachmentId = form.get('attachmentId')?.toString() as string;
+    const { id } = await submission.get(params.talk);
+    await ProposalAttachments.for(authUser.id, id).delete(attachmentId);
+    return toast('success', i18n.t('talk.attachments.feedbacks.deleted'));
+  }
+
+  const proposalId = await submission.submit(params.talk);
 
   const headers = await toastHeaders('success', i18n.t('event.submission.submit.feedback.submitted'));
   return redirect(href('/:event/proposals/:proposal', { event: params.event, proposal: proposalId }), { headers });
 };
 
-export default function SubmissionSubmitRoute({ loaderData: proposal }: Route.ComponentProps) {
+export default function SubmissionSubmitRoute({ loaderData }: Route.ComponentProps) {
+  const { proposal, attachments } = loaderData;
   const { t } = useTranslation();
   const currentEvent = useCurrentEvent();
   const formId = useId();
@@ -41,7 +84,9 @@ export default function SubmissionSubmitRoute({ loaderData: proposal }: Route.Co
 
   return (
     <Page className="space-y-4">
-      <TalkSection talk={proposal} showSpeakers showFormats showCategories />
+      <TalkSection talk={proposal} showSpeakers showFormats showCategories>
+        <TalkAttachments attachments={attachments} limits={currentEvent} canEdit />
+      </TalkSection>
 
       <Card>
         <Card.Content>
@@ -4,6 +4,7 @@ import { eventFormatFactory } from 'tests/factories/formats.ts';
 import { proposalFactory } from 'tests/factories/proposals.ts';
 import { talkFactory } from 'tests/factories/talks.ts';
 import { userFactory } from 'tests/factories/users.ts';
+import { detectProposalDuplicates } from '~/features/event-management/proposals/services/jobs/detect-proposal-duplicates.job.ts';
 import { sendTalkToSlack } from '~/features/event-participation/cfp-submission/services/send-talk-to-slack.job.ts';
 import { sendEmail } from '~/shared/emails/send-email.job.ts';
 import {
@@ -286,6 +287,17 @@ describe('TalkSubmission', () => {
       expect(sendTalkToSlack.trigger).toHaveBeenCalledWith({ eventId: event.id, proposalId: proposal.id });
     });
 
+    it('triggers the detection of possible duplicates', async () => {
+      const event = await eventFactory({ traits: ['conference-cfp-open'] });
+      const speaker = await userFactory();
+      const talk = await talkFactory({ speakers: [speaker] });
+      const proposal = await proposalFactory({ event, talk: talk, traits: ['draft'] });
+
+      await TalkSubmission.for(speaker.id, event.slug).submit(talk.id);
+
+      expect(detectProposalDuplicates.trigger).toHaveBeenCalledWith({ proposalId: proposal.id });
+    });
+
     it('throws an error when max proposal submitted reach', async () => {
       const event = await eventFactory({ traits: ['conference-cfp-open'], attributes: { maxProposals: 1 } });
       const speaker = await userFactory();
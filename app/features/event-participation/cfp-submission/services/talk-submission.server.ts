@@ -1,3 +1,5 @@
+import { detectProposalDuplicates } from '~/features/event-management/proposals/services/jobs/detect-proposal-duplicates.job.ts';
+import { ProposalRevisions } from '~/features/event-management/proposals/services/proposal-revisions.server.ts';
 import { sendTalkToSlack } from '~/features/event-participation/cfp-submission/services/send-talk-to-slack.job.ts';
 import { EventSpeakerForProposal } from '~/features/event-participation/speaker-proposals/services/event-speaker-for-proposal.ts';
 import { TalksLibrary } from '~/features/speaker/talk-library/services/talks-library.server.ts';
@@ -125,6 +127,8 @@ export class TalkSubmission {
       await sendTalkToSlack.trigger({ eventId: event.id, proposalId: proposal.id });
     }
 
+    await detectProposalDuplicates.trigger({ proposalId: proposal.id });
+
     return proposal.id;
   }
 
@@ -166,6 +170,8 @@ export class TalkSubmission {
     });
     if (!proposal) throw new ProposalNotFoundError();
 
-    await EventSpeakerForProposal.for(proposal.eventId).removeSpeakerFromProposal(proposal.id, userId);
+    await ProposalRevisions.track(proposal.id, this.userId, () =>
+      EventSpeakerForProposal.for(proposal.eventId).removeSpeakerFromProposal(proposal.id, userId),
+    );
   }
 }
@@ -1,10 +1,12 @@
 import { eventCategoryFactory } from 'tests/factories/categories.ts';
 import { eventFactory } from 'tests/factories/events.ts';
 import { eventFormatFactory } from 'tests/factories/formats.ts';
+import { scheduleFactory } from 'tests/factories/schedule.ts';
 import { teamFactory } from 'tests/factories/team.ts';
 import { z } from 'zod';
 import { EventNotFoundError } from '~/shared/errors.server.ts';
 import { resolveStorageUrl } from '~/shared/storage/storage-utils.ts';
+import { db } from '../../../../../prisma/db.server.ts';
 import { EventPage } from './event-page.server.ts';
 
 describe('EventPage', () => {
@@ -59,9 +61,25 @@ describe('EventPage', () => {
         categoriesRequired: false,
         categoriesAllowMultiple: false,
         speakersConversationEnabled: true,
+        hasPublicSchedule: false,
+        attachmentMaxSize: 10,
+        attachmentFileTypes: ['pdf', 'slides'],
       });
     });
 
+    it('returns if the event has a public schedule', async () => {
+      const event = await eventFactory({ traits: ['conference'], attributes: { publicScheduleEnabled: true } });
+      const schedule = await scheduleFactory({ event });
+
+      expect((await EventPage.of(event.slug).get()).hasPublicSchedule).toBe(false);
+
+      await db.schedulePublication.create({ data: { scheduleId: schedule.id, version: 1, snapshot: {} } });
+      expect((await EventPage.of(event.slug).get()).hasPublicSchedule).toBe(true);
+
+      await db.event.update({ where: { id: event.id }, data: { publicScheduleEnabled: false } });
+      expect((await EventPage.of(event.slug).get()).hasPublicSchedule).toBe(false);
+    });
+
     it('throws an error when event not found', async () => {
       await expect(EventPage.of('XXX').get()).rejects.toThrow(EventNotFoundError);
     });
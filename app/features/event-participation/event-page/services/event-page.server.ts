@@ -4,6 +4,7 @@ import { EventNotFoundError } from '~/shared/errors.server.ts';
 import { resolveStorageUrl } from '~/shared/storage/storage-utils.ts';
 import { TracksMandatorySchema, TracksOptionalSchema } from '~/shared/types/speaker-talk.types.ts';
 import { db } from '../../../../../prisma/db.server.ts';
+import type { Event } from '../../../../../prisma/generated/client.ts';
 
 export class EventPage {
   constructor(private slug: string) {}
@@ -25,6 +26,7 @@ export class EventPage {
     if (!event) throw new EventNotFoundError();
 
     const { isActiveForEvent } = new SurveyConfig(event.surveyConfig);
+    const hasPublicSchedule = await this.hasPublicSchedule(event);
 
     return {
       id: event.id,
@@ -64,6 +66,9 @@ export class EventPage {
       categoriesRequired: event.categoriesRequired,
       categoriesAllowMultiple: event.categoriesAllowMultiple,
       speakersConversationEnabled: event.speakersConversationEnabled,
+      hasPublicSchedule,
+      attachmentMaxSize: event.attachmentMaxSize,
+      attachmentFileTypes: event.attachmentFileTypes,
     };
   }
 
@@ -75,6 +80,12 @@ export class EventPage {
     });
   }
 
+  private async hasPublicSchedule(event: Event) {
+    if (event.type === 'MEETUP' || !event.publicScheduleEnabled) return false;
+    const count = await db.schedulePublication.count({ where: { schedule: { eventId: event.id } } });
+    return count > 0;
+  }
+
   static async getByLegacyId(legacyId: string) {
     const event = await db.event.findFirst({ where: { migrationId: legacyId } });
     if (!event) throw new EventNotFoundError();
@@ -65,13 +65,17 @@ export default function EventRoute({ loaderData: event }: Route.ComponentProps)
         </Container>
       </header>
 
-      {!isSubmissionRoute && isAuthenticated ? (
+      {!isSubmissionRoute && (isAuthenticated || event.hasPublicSchedule) ? (
         <Page.NavHeader className={cx('flex flex-row items-center pb-0', { 'hidden lg:flex': !isEventRoute })}>
           <NavTabs py={4} scrollable className="grow">
             <NavTab to={href('/:event', { event: event.slug })} end className="hidden lg:flex">
               {t(`common.event.type.label.${event.type}`)}
             </NavTab>
 
+            {event.hasPublicSchedule ? (
+              <NavTab to={href('/:event/schedule', { event: event.slug })}>{t('event.nav.schedule')}</NavTab>
+            ) : null}
+
             {isAuthenticated ? (
               <NavTab to={href('/:event/proposals', { event: event.slug })}>{t('event.nav.proposals')}</NavTab>
             ) : null}
@@ -1,3 +1,4 @@
+import { ProposalRevisions } from '~/features/event-management/proposals/services/proposal-revisions.server.ts';
 import { EventSpeakerForProposal } from '~/features/event-participation/speaker-proposals/services/event-speaker-for-proposal.ts';
 import { InvitationInvalidOrAccepted, InvitationNotFoundError } from '~/shared/errors.server.ts';
 import { resolveStorageUrl } from '~/shared/storage/storage-utils.ts';
@@ -42,19 +43,21 @@ export class CoSpeakerProposalInvite {
     const proposal = await this.check();
 
     try {
-      await db.$transaction(async (trx) => {
-        const updated = await EventSpeakerForProposal.for(proposal.event.id, trx).addSpeakerToProposal(
-          proposal.id,
-          userId,
-        );
+      await ProposalRevisions.track(proposal.id, userId, () =>
+        db.$transaction(async (trx) => {
+          const updated = await EventSpeakerForProposal.for(proposal.event.id, trx).addSpeakerToProposal(
+            proposal.id,
+            userId,
+          );
 
-        if (updated.talkId) {
-          await trx.talk.update({
-            where: { id: updated.talkId },
-            data: { speakers: { connect: { id: userId } } },
-          });
-        }
-      });
+          if (updated.talkId) {
+            await trx.talk.update({
+              where: { id: updated.talkId },
+              data: { speakers: { connect: { id: userId } } },
+            });
+          }
+        }),
+      );
     } catch {
       throw new InvitationInvalidOrAccepted();
     }
@@ -0,0 +1,60 @@
+import { useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form } from 'react-router';
+import { SelectNative } from '~/design-system/forms/select-native.tsx';
+import type { Language } from '~/shared/types/proposals.types.ts';
+
+type Props = {
+  filters: { track?: string; category?: string; language?: string };
+  options: { tracks: Array<string>; categories: Array<string>; languages: Array<string> };
+};
+
+export function ScheduleFilters({ filters, options }: Props) {
+  const { t } = useTranslation();
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const submit = () => formRef.current?.submit();
+
+  return (
+    <Form ref={formRef} method="GET" className="flex flex-col gap-4 sm:flex-row sm:items-center">
+      {options.tracks.length > 1 ? (
+        <SelectNative
+          name="track"
+          label={t('event.schedule.filters.track')}
+          placeholder={t('event.schedule.filters.all-tracks')}
+          defaultValue={filters.track || ''}
+          onChange={submit}
+          options={options.tracks.map((track) => ({ value: track, name: track }))}
+          srOnly
+        />
+      ) : null}
+
+      {options.categories.length > 0 ? (
+        <SelectNative
+          name="category"
+          label={t('event.schedule.filters.category')}
+          placeholder={t('event.schedule.filters.all-categories')}
+          defaultValue={filters.category || ''}
+          onChange={submit}
+          options={options.categories.map((category) => ({ value: category, name: category }))}
+          srOnly
+        />
+      ) : null}
+
+      {options.languages.length > 1 ? (
+        <SelectNative
+          name="language"
+          label={t('event.schedule.filters.language')}
+          placeholder={t('event.schedule.filters.all-languages')}
+          defaultValue={filters.language || ''}
+          onChange={submit}
+          options={options.languages.map((language) => ({
+            value: language,
+            name: `${t(`common.languages.${language as Language}.flag`)} ${t(`common.languages.${language as Language}.label`)}`,
+          }))}
+          srOnly
+        />
+      ) : null}
+    </Form>
+  );
+}
@@ -0,0 +1,36 @@
+import { useTranslation } from 'react-i18next';
+import { Badge } from '~/design-system/badges.tsx';
+import type { Language } from '~/shared/types/proposals.types.ts';
+import type { TalkLevel } from '../../../../../prisma/generated/client.ts';
+
+type Props = {
+  level?: string | null;
+  language: string | null;
+  categories?: Array<string>;
+};
+
+export function SessionBadges({ level, language, categories = [] }: Props) {
+  const { t } = useTranslation();
+
+  if (!level && !language && categories.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {level ? (
+        <Badge color="indigo" compact>
+          {t(`common.level.${level as TalkLevel}`)}
+        </Badge>
+      ) : null}
+      {language ? (
+        <Badge compact>
+          {t(`common.languages.${language as Language}.flag`)} {t(`common.languages.${language as Language}.label`)}
+        </Badge>
+      ) : null}
+      {categories.map((category) => (
+        <Badge key={category} color="blue" compact>
+          {category}
+        </Badge>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { ArrowLeftIcon, ClockIcon, MapPinIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { href } from 'react-router';
+import { IconLabel } from '~/design-system/icon-label.tsx';
+import { Card } from '~/design-system/layouts/card.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { Link } from '~/design-system/links.tsx';
+import { Markdown } from '~/design-system/markdown.tsx';
+import { H1, H2, Text } from '~/design-system/typography.tsx';
+import { SpeakerLinks } from '~/features/event-management/speakers/components/speaker-details/speaker-links.tsx';
+import { SpeakerTitle } from '~/features/event-management/speakers/components/speaker-details/speaker-title.tsx';
+import { formatDatetime, formatTime } from '~/shared/datetimes/datetimes.ts';
+import { useCurrentEvent } from '../event-page-context.tsx';
+import type { Route } from './+types/public-schedule-session.ts';
+import { SessionBadges } from './components/session-badges.tsx';
+import { PublicSchedule } from './services/public-schedule.server.ts';
+
+export const loader = async ({ params }: Route.LoaderArgs) => {
+  return PublicSchedule.of(params.event).getSession(params.session);
+};
+
+export default function EventScheduleSessionRoute({ loaderData: session }: Route.ComponentProps) {
+  const { t, i18n } = useTranslation();
+  const event = useCurrentEvent();
+  const { timeZone, proposal } = session;
+  const locale = i18n.language;
+
+  return (
+    <Page className="space-y-6">
+      <Link to={href('/:event/schedule', { event: event.slug })} iconLeft={ArrowLeftIcon} variant="secondary">
+        {t('event.schedule.back')}
+      </Link>
+
+      <Card as="section" p={8} className="space-y-6">
+        <div className="space-y-3">
+          <H1>{session.title}</H1>
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:gap-6">
+            <IconLabel icon={ClockIcon}>
+              {`${formatDatetime(new Date(session.start), { format: 'medium', locale, timezone: timeZone })} - ${formatTime(new Date(session.end), { format: 'medium', locale, timezone: timeZone })}`}
+            </IconLabel>
+            {session.track ? <IconLabel icon={MapPinIcon}>{session.track}</IconLabel> : null}
+          </div>
+
+          <SessionBadges level={proposal?.level} language={session.language} categories={proposal?.categories} />
+        </div>
+
+        {proposal ? (
+          <dl className="space-y-6">
+            <div>
+              <dt className="sr-only">{t('talk.abstract')}</dt>
+              <Markdown as="dd" className="text-gray-700">
+                {proposal.abstract}
+              </Markdown>
+            </div>
+
+            {proposal.formats.length > 0 ? (
+              <div>
+                <Text as="dt" weight="medium">
+                  {t('common.formats')}
+                </Text>
+                <Text as="dd" variant="secondary">
+                  {proposal.formats.join(', ')}
+                </Text>
+              </div>
+            ) : null}
+          </dl>
+        ) : null}
+      </Card>
+
+      {proposal && proposal.speakers.length > 0 ? (
+        <section className="space-y-4">
+          <H2>{t('common.speakers')}</H2>
+
+          <ul className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            {proposal.speakers.map((speaker) => (
+              <Card as="li" key={speaker.id} className="space-y-4 p-6">
+                <SpeakerTitle name={speaker.name} picture={speaker.picture} company={speaker.company} />
+                {speaker.bio ? <Markdown className="text-gray-700">{speaker.bio}</Markdown> : null}
+                <SpeakerLinks socialLinks={speaker.socialLinks} />
+              </Card>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+    </Page>
+  );
+}
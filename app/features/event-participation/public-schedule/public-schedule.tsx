@@ -0,0 +1,82 @@
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { useTranslation } from 'react-i18next';
+import { href } from 'react-router';
+import { EmptyState } from '~/design-system/layouts/empty-state.tsx';
+import { Page } from '~/design-system/layouts/page.tsx';
+import { List } from '~/design-system/list/list.tsx';
+import { H2, Text } from '~/design-system/typography.tsx';
+import { formatDate, formatTime } from '~/shared/datetimes/datetimes.ts';
+import { useCurrentEvent } from '../event-page-context.tsx';
+import type { Route } from './+types/public-schedule.ts';
+import { ScheduleFilters } from './components/schedule-filters.tsx';
+import { SessionBadges } from './components/session-badges.tsx';
+import { parseUrlFilters } from './services/public-schedule.schema.server.ts';
+import { PublicSchedule } from './services/public-schedule.server.ts';
+
+export const loader = async ({ params, url }: Route.LoaderArgs) => {
+  const filters = parseUrlFilters(url);
+  return PublicSchedule.of(params.event).get(filters);
+};
+
+export default function EventScheduleRoute({ loaderData: schedule }: Route.ComponentProps) {
+  const { t, i18n } = useTranslation();
+  const event = useCurrentEvent();
+  const { timeZone } = schedule;
+  const locale = i18n.language;
+
+  const days = schedule.days.filter(({ sessions }) => sessions.length > 0);
+
+  return (
+    <Page className="space-y-6 lg:space-y-8">
+      <Page.Heading title={t('event.schedule.heading')} subtitle={t('event.schedule.timezone', { timeZone })}>
+        <ScheduleFilters filters={schedule.filters} options={schedule.options} />
+      </Page.Heading>
+
+      {days.length === 0 ? <EmptyState icon={CalendarDaysIcon} label={t('event.schedule.empty')} /> : null}
+
+      {days.map(({ day, sessions }) => (
+        <section key={day} className="space-y-4">
+          <H2>{formatDate(new Date(day), { format: 'long', locale, timezone: timeZone })}</H2>
+
+          <List>
+            <List.Content aria-label={formatDate(new Date(day), { format: 'long', locale, timezone: timeZone })}>
+              {sessions.map((session) => (
+                <List.RowLink
+                  key={session.id}
+                  to={href('/:event/schedule/:session', { event: event.slug, session: session.id })}
+                  className="flex flex-col gap-2 sm:flex-row sm:gap-6"
+                >
+                  <Text size="s" weight="semibold" className="shrink-0 sm:w-32">
+                    {`${formatTime(new Date(session.start), { format: 'short', locale, timezone: timeZone })} - ${formatTime(new Date(session.end), { format: 'short', locale, timezone: timeZone })}`}
+                  </Text>
+
+                  <div className="min-w-0 grow space-y-1">
+                    <Text size="s" weight="medium" truncate>
+                      {session.title}
+                    </Text>
+                    {session.proposal ? (
+                      <Text size="xs" variant="secondary">
+                        {t('common.by', { names: session.proposal.speakers.map(({ name }) => name) })}
+                      </Text>
+                    ) : null}
+                    <SessionBadges
+                      level={session.proposal?.level}
+                      language={session.language}
+                      categories={session.proposal?.categories}
+                    />
+                  </div>
+
+                  {session.track ? (
+                    <Text size="xs" variant="secondary" className="shrink-0">
+                      {session.track}
+                    </Text>
+                  ) : null}
+                </List.RowLink>
+              ))}
+            </List.Content>
+          </List>
+        </section>
+      ))}
+    </Page>
+  );
+}
@@ -0,0 +1,17 @@
+import { parseWithZod } from '@conform-to/zod/v4';
+import { z } from 'zod';
+
+const ScheduleFiltersSchema = z.object({
+  track: z.string().trim().optional(),
+  category: z.string().trim().optional(),
+  language: z.string().trim().optional(),
+});
+
+export type ScheduleFilters = z.infer<typeof ScheduleFiltersSchema>;
+
+export function parseUrlFilters(url: URL) {
+  const params = url.searchParams;
+  const result = parseWithZod(params, { schema: ScheduleFiltersSchema });
+  if (result.status !== 'success') return {};
+  return result.value;
+}
@@ -0,0 +1,176 @@
+import { eventCategoryFactory } from 'tests/factories/categories.ts';
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { scheduleTrackFactory } from 'tests/factories/schedule-track.ts';
+import { scheduleFactory } from 'tests/factories/schedule.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { EventSchedulePublication } from '~/features/event-management/schedule/services/schedule-publication.server.ts';
+import { getAuthorizedEvent, getAuthorizedTeam } from '~/shared/authorization/authorization.server.ts';
+import { EventNotFoundError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type {
+  Event,
+  EventCategory,
+  Proposal,
+  Schedule,
+  ScheduleTrack,
+  Team,
+  User,
+} from '../../../../../prisma/generated/client.ts';
+import { PublicSchedule } from './public-schedule.server.ts';
+
+describe('PublicSchedule', () => {
+  let owner: User;
+  let team: Team;
+  let event: Event;
+  let schedule: Schedule;
+  let room1: ScheduleTrack;
+  let room2: ScheduleTrack;
+  let category: EventCategory;
+  let proposal: Proposal;
+
+  beforeEach(async () => {
+    owner = await userFactory({ attributes: { name: 'Ada' } });
+    team = await teamFactory({ owners: [owner] });
+    event = await eventFactory({ team, traits: ['conference'], attributes: { publicScheduleEnabled: true } });
+    schedule = await scheduleFactory({ event });
+    room1 = await scheduleTrackFactory({ name: 'Room 1', schedule });
+    room2 = await scheduleTrackFactory({ name: 'Room 2', schedule });
+    category = await eventCategoryFactory({ event, attributes: { name: 'Web' } });
+    const talk = await talkFactory({ speakers: [owner], attributes: { title: 'Web talk' } });
+    proposal = await proposalFactory({ event, talk, categories: [category], traits: ['confirmed'] });
+  });
+
+  const addSession = (data: { trackId: string; start: string; end: string; name?: string; proposalId?: string }) =>
+    db.scheduleSession.create({
+      data: {
+        ...data,
+        scheduleId: schedule.id,
+        color: 'gray',
+        start: new Date(data.start),
+        end: new Date(data.end),
+        language: data.proposalId ? 'fr' : null,
+      },
+    });
+
+  const publish = async () => {
+    const authorizedTeam = await getAuthorizedTeam(owner.id, team.slug);
+    const authorizedEvent = await getAuthorizedEvent(authorizedTeam, event.slug);
+    await EventSchedulePublication.for(authorizedEvent).publish();
+  };
+
+  describe('#get', () => {
+    it('returns the published sessions by day with the filter options', async () => {
+      const talkSession = await addSession({
+        trackId: room2.id,
+        proposalId: proposal.id,
+        start: '2024-10-05T08:00:00.000Z',
+        end: '2024-10-05T09:00:00.000Z',
+      });
+      const lunch = await addSession({
+        name: 'Lunch',
+        trackId: room1.id,
+        start: '2024-10-05T10:00:00.000Z',
+        end: '2024-10-05T11:00:00.000Z',
+      });
+      await addSession({ trackId: room1.id, start: '2024-10-05T12:00:00.000Z', end: '2024-10-05T13:00:00.000Z' });
+      await publish();
+
+      const result = await PublicSchedule.of(event.slug).get();
+
+      expect(result.name).toBe(schedule.name);
+      expect(result.timeZone).toBe('Europe/Paris');
+      expect(result.options).toEqual({ tracks: ['Room 1', 'Room 2'], categories: ['Web'], languages: ['fr'] });
+      expect(result.days).toHaveLength(2);
+      expect(result.days[0].sessions).toEqual([
+        expect.objectContaining({
+          id: talkSession.id,
+          start: '2024-10-05T10:00:00.000+02:00',
+          track: 'Room 2',
+          title: 'Web talk',
+          language: 'fr',
+          proposal: expect.objectContaining({
+            categories: ['Web'],
+            speakers: [expect.objectContaining({ name: 'Ada' })],
+          }),
+        }),
+        expect.objectContaining({ id: lunch.id, title: 'Lunch', track: 'Room 1', proposal: null }),
+      ]);
+      expect(result.days[1].sessions).toEqual([]);
+    });
+
+    it('filters sessions by track, category and language', async () => {
+      await addSession({
+        trackId: room2.id,
+        proposalId: proposal.id,
+        start: '2024-10-05T08:00:00.000Z',
+        end: '2024-10-05T09:00:00.000Z',
+      });
+      await addSession({
+        name: 'Lunch',
+        trackId: room1.id,
+        start: '2024-10-05T10:00:00.000Z',
+        end: '2024-10-05T11:00:00.000Z',
+      });
+      await publish();
+
+      const schedule = PublicSchedule.of(event.slug);
+      const titles = async (filters: Parameters<typeof schedule.get>[0]) => {
+        const result = await schedule.get(filters);
+        return result.days.flatMap(({ sessions }) => sessions.map(({ title }) => title));
+      };
+
+      expect(await titles({ track: 'Room 1' })).toEqual(['Lunch']);
+      expect(await titles({ category: 'Web' })).toEqual(['Web talk']);
+      expect(await titles({ language: 'fr' })).toEqual(['Web talk']);
+      expect(await titles({ track: 'Room 1', language: 'fr' })).toEqual([]);
+    });
+
+    it('throws an error when the public schedule is disabled', async () => {
+      await publish();
+      await db.event.update({ where: { id: event.id }, data: { publicScheduleEnabled: false } });
+
+      await expect(PublicSchedule.of(event.slug).get()).rejects.toThrowError(NotFoundError);
+    });
+
+    it('throws an error when the schedule is not published', async () => {
+      await expect(PublicSchedule.of(event.slug).get()).rejects.toThrowError(NotFoundError);
+    });
+
+    it('throws an error when the event does not exist', async () => {
+      await expect(PublicSchedule.of('unknown').get()).rejects.toThrowError(EventNotFoundError);
+    });
+  });
+
+  describe('#getSession', () => {
+    it('returns a published session', async () => {
+      const session = await addSession({
+        trackId: room1.id,
+        proposalId: proposal.id,
+        start: '2024-10-05T08:00:00.000Z',
+        end: '2024-10-05T09:00:00.000Z',
+      });
+      await publish();
+
+      const result = await PublicSchedule.of(event.slug).getSession(session.id);
+
+      expect(result).toEqual(
+        expect.objectContaining({ id: session.id, title: 'Web talk', track: 'Room 1', timeZone: 'Europe/Paris' }),
+      );
+    });
+
+    it('throws an error when the session is not published', async () => {
+      await publish();
+      const session = await addSession({
+        name: 'Lunch',
+        trackId: room1.id,
+        start: '2024-10-05T10:00:00.000Z',
+        end: '2024-10-05T11:00:00.000Z',
+      });
+
+      await expect(PublicSchedule.of(event.slug).getSession(session.id)).rejects.toThrowError(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { EventScheduleExport } from '~/features/event-management/schedule-export/services/schedule-export.server.ts';
+import { EventNotFoundError, NotFoundError } from '~/shared/errors.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { ScheduleFilters } from './public-schedule.schema.server.ts';
+
+// Public schedule is rendered from the published version, the same data as the schedule exports
+export class PublicSchedule {
+  constructor(private slug: string) {}
+
+  static of(slug: string) {
+    return new PublicSchedule(slug);
+  }
+
+  async get(filters: ScheduleFilters = {}) {
+    const schedule = await this.getPublishedSchedule();
+
+    const sessions = schedule.sessions
+      .filter((session) => !filters.track || session.track === filters.track)
+      .filter((session) => !filters.category || session.proposal?.categories.includes(filters.category))
+      .filter((session) => !filters.language || session.language === filters.language)
+      .toSorted((a, b) => a.start.localeCompare(b.start) || (a.track ?? '').localeCompare(b.track ?? ''));
+
+    return {
+      name: schedule.name,
+      timeZone: schedule.timeZone,
+      filters,
+      options: {
+        tracks: uniqueValues(schedule.sessions.map(({ track }) => track)),
+        categories: uniqueValues(schedule.sessions.flatMap(({ proposal }) => proposal?.categories ?? [])),
+        languages: uniqueValues(schedule.sessions.map(({ language }) => language)),
+      },
+      days: schedule.days.map((day) => ({
+        day,
+        sessions: sessions.filter((session) => toDateKey(session.start) === toDateKey(day)),
+      })),
+    };
+  }
+
+  async getSession(sessionId: string) {
+    const schedule = await this.getPublishedSchedule();
+
+    const session = schedule.sessions.find(({ id }) => id === sessionId);
+    if (!session) throw new NotFoundError('Schedule session not found');
+
+    return { ...session, timeZone: schedule.timeZone };
+  }
+
+  private async getPublishedSchedule() {
+    const event = await db.event.findUnique({ where: { slug: this.slug } });
+    if (!event) throw new EventNotFoundError();
+
+    const schedule = await EventScheduleExport.forPublicPage(event).toJson();
+    if (!schedule) throw new NotFoundError('Schedule not found');
+
+    return { ...schedule, sessions: schedule.sessions.filter(({ title }) => Boolean(title)) };
+  }
+}
+
+// Dates are ISO strings in the schedule timezone, so the date part is the local day
+function toDateKey(date: string) {
+  return date.slice(0, 10);
+}
+
+function uniqueValues(values: Array<string | null | undefined>) {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value)))).toSorted();
+}
@@ -0,0 +1,33 @@
+import { RequireAuthContext, requireAuth } from '~/shared/authentication/auth.middleware.ts';
+import { logger } from '~/shared/logger/logger.server.ts';
+import { StorageService } from '~/shared/storage/storage.server.ts';
+import type { Route } from './+types/attachment.ts';
+import { ProposalAttachments } from './services/proposal-attachments.server.ts';
+
+export const middleware = [requireAuth];
+
+export const loader = async ({ params, context }: Route.LoaderArgs) => {
+  const authUser = context.get(RequireAuthContext);
+  const attachment = await ProposalAttachments.getForUser(authUser.id, params.attachment);
+
+  try {
+    const storage = StorageService.create();
+    const { body, contentType, contentLength } = await storage.getObject(attachment.storageKey);
+
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    };
+    if (contentLength != null) {
+      headers['Content-Length'] = contentLength.toString();
+    }
+
+    // @ts-expect-error Node Readable is compatible with Response body
+    return new Response(body, { headers });
+  } catch (error) {
+    logger.warn({ storageKey: attachment.storageKey, error }, 'Error getting attachment from storage');
+    throw new Response('File not found', { status: 404 });
+  }
+};
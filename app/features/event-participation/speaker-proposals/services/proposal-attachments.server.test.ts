@@ -0,0 +1,178 @@
+import { Readable } from 'node:stream';
+import { attachmentFactory } from 'tests/factories/attachments.ts';
+import { eventFactory } from 'tests/factories/events.ts';
+import { proposalFactory } from 'tests/factories/proposals.ts';
+import { talkFactory } from 'tests/factories/talks.ts';
+import { teamFactory } from 'tests/factories/team.ts';
+import { userFactory } from 'tests/factories/users.ts';
+import { AttachmentNotFoundError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { StorageService } from '~/shared/storage/storage.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Event, Proposal, User } from '../../../../../prisma/generated/client.ts';
+import { getSharedServerEnv } from '../../../../../servers/environment.server.ts';
+import { ProposalAttachments } from './proposal-attachments.server.ts';
+
+const { APP_URL } = getSharedServerEnv();
+
+vi.mock('~/shared/storage/storage.server.ts', () => ({
+  StorageService: { create: vi.fn() },
+}));
+
+describe('ProposalAttachments', () => {
+  let speaker: User;
+  let event: Event;
+  let proposal: Proposal;
+  const upload = vi.fn();
+  const deleteQuietly = vi.fn();
+
+  beforeEach(async () => {
+    vi.mocked(StorageService.create).mockReturnValue({ upload, deleteQuietly } as never);
+    speaker = await userFactory();
+    event = await eventFactory({ traits: ['conference-cfp-open'], attributes: { attachmentMaxSize: 1 } });
+    proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+  });
+
+  describe('#list', () => {
+    it('returns the attachments of the proposal', async () => {
+      const attachment = await attachmentFactory({ proposal, attributes: { name: 'slides.pdf' } });
+
+      const result = await ProposalAttachments.for(speaker.id, proposal.id).list();
+
+      expect(result).toEqual([
+        {
+          id: attachment.id,
+          name: 'slides.pdf',
+          contentType: 'application/pdf',
+          size: 1024,
+          url: `${APP_URL}/attachments/${attachment.id}`,
+          createdAt: attachment.createdAt,
+        },
+      ]);
+    });
+
+    it('returns nothing when the user is not a speaker of the proposal', async () => {
+      await attachmentFactory({ proposal });
+      const user = await userFactory();
+
+      const result = await ProposalAttachments.for(user.id, proposal.id).list();
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('#getForUser', () => {
+    it('returns the attachment to the speakers of the proposal', async () => {
+      const attachment = await attachmentFactory({ proposal });
+
+      const result = await ProposalAttachments.getForUser(speaker.id, attachment.id);
+
+      expect(result.id).toBe(attachment.id);
+    });
+
+    it('returns the attachment to the event team members', async () => {
+      const reviewer = await userFactory();
+      const team = await teamFactory({ reviewers: [reviewer] });
+      const event = await eventFactory({ team, traits: ['conference-cfp-open'] });
+      const proposal = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const attachment = await attachmentFactory({ proposal });
+
+      const result = await ProposalAttachments.getForUser(reviewer.id, attachment.id);
+
+      expect(result.id).toBe(attachment.id);
+    });
+
+    it('throws an error when the proposal is not submitted yet to the event team members', async () => {
+      const reviewer = await userFactory();
+      const team = await teamFactory({ reviewers: [reviewer] });
+      const event = await eventFactory({ team, traits: ['conference-cfp-open'] });
+      const talk = await talkFactory({ speakers: [speaker] });
+      const proposal = await proposalFactory({ event, talk, traits: ['draft'] });
+      const attachment = await attachmentFactory({ proposal });
+
+      await expect(ProposalAttachments.getForUser(reviewer.id, attachment.id)).rejects.toThrowError(
+        AttachmentNotFoundError,
+      );
+      expect((await ProposalAttachments.getForUser(speaker.id, attachment.id)).id).toBe(attachment.id);
+    });
+
+    it('throws an error when the user is neither a speaker nor a team member', async () => {
+      const attachment = await attachmentFactory({ proposal });
+      const user = await userFactory();
+
+      await expect(ProposalAttachments.getForUser(user.id, attachment.id)).rejects.toThrowError(
+        AttachmentNotFoundError,
+      );
+    });
+  });
+
+  describe('#upload', () => {
+    it('uploads the file to the storage and attaches it to the proposal and its talk', async () => {
+      const file = new File(['slides'], 'slides.pdf', { type: 'application/pdf' });
+
+      const result = await ProposalAttachments.for(speaker.id, proposal.id).upload(file);
+
+      expect(result.error).toBe(null);
+      const attachment = await db.attachment.findUniqueOrThrow({ where: { id: result.attachment?.id } });
+      expect(attachment).toEqual(
+        expect.objectContaining({
+          proposalId: proposal.id,
+          talkId: proposal.talkId,
+          uploadedById: speaker.id,
+          name: 'slides.pdf',
+          contentType: 'application/pdf',
+          size: 6,
+        }),
+      );
+      expect(attachment.storageKey).toMatch(new RegExp(`^private/proposals/${proposal.id}/attachments/.+\\.pdf$`));
+      expect(upload).toHaveBeenCalledWith(attachment.storageKey, expect.any(Readable), 'application/pdf', 6);
+    });
+
+    it('returns the reason when the file type is not allowed by the event', async () => {
+      const file = new File(['archive'], 'archive.zip', { type: 'application/zip' });
+
+      const result = await ProposalAttachments.for(speaker.id, proposal.id).upload(file);
+
+      expect(result).toEqual({ error: 'invalid-type', maxSizeInBytes: 1024 * 1024 });
+      expect(upload).not.toHaveBeenCalled();
+      expect(await db.attachment.count()).toBe(0);
+    });
+
+    it('returns the reason when the file exceeds the event max size', async () => {
+      const file = new File([new Uint8Array(2 * 1024 * 1024)], 'slides.pdf', { type: 'application/pdf' });
+
+      const result = await ProposalAttachments.for(speaker.id, proposal.id).upload(file);
+
+      expect(result).toEqual({ error: 'too-large', maxSizeInBytes: 1024 * 1024 });
+      expect(upload).not.toHaveBeenCalled();
+    });
+
+    it('throws an error when the user is not a speaker of the proposal', async () => {
+      const user = await userFactory();
+      const file = new File(['slides'], 'slides.pdf', { type: 'application/pdf' });
+
+      await expect(ProposalAttachments.for(user.id, proposal.id).upload(file)).rejects.toThrowError(
+        ProposalNotFoundError,
+      );
+    });
+  });
+
+  describe('#delete', () => {
+    it('deletes the attachment and its file', async () => {
+      const attachment = await attachmentFactory({ proposal });
+
+      await ProposalAttachments.for(speaker.id, proposal.id).delete(attachment.id);
+
+      expect(await db.attachment.count()).toBe(0);
+      expect(deleteQuietly).toHaveBeenCalledWith(attachment.storageKey);
+    });
+
+    it('throws an error when the attachment belongs to another proposal', async () => {
+      const other = await proposalFactory({ event, talk: await talkFactory({ speakers: [speaker] }) });
+      const attachment = await attachmentFactory({ proposal: other });
+
+      await expect(ProposalAttachments.for(speaker.id, proposal.id).delete(attachment.id)).rejects.toThrowError(
+        AttachmentNotFoundError,
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+import { AttachmentLimits } from '~/features/event-management/settings/models/attachment-limits.ts';
+import { AttachmentNotFoundError, ProposalNotFoundError } from '~/shared/errors.server.ts';
+import { privateStorageKey, resolveAttachmentUrl } from '~/shared/storage/storage-utils.ts';
+import { StorageService } from '~/shared/storage/storage.server.ts';
+import { db } from '../../../../../prisma/db.server.ts';
+import type { Attachment } from '../../../../../prisma/generated/client.ts';
+
+export class ProposalAttachments {
+  constructor(
+    private userId: string,
+    private proposalId: string,
+  ) {}
+
+  static for(userId: string, proposalId: string) {
+    return new ProposalAttachments(userId, proposalId);
+  }
+
+  static toAttachmentData(attachment: Attachment) {
+    return {
+      id: attachment.id,
+      name: attachment.name,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      url: resolveAttachmentUrl(attachment.id),
+      createdAt: attachment.createdAt,
+    };
+  }
+
+  async list() {
+    const attachments = await db.attachment.findMany({
+      where: { proposalId: this.proposalId, proposal: { speakers: { some: { userId: this.userId } } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    return attachments.map(ProposalAttachments.toAttachmentData);
+  }
+
+  // Attachments are readable by the speakers and, once submitted, by the event team members
+  static async getForUser(userId: string, attachmentId: string) {
+    const attachment = await db.attachment.findFirst({
+      where: {
+        id: attachmentId,
+        OR: [
+          { proposal: { speakers: { some: { userId } } } },
+          { talk: { speakers: { some: { id: userId } } } },
+          { proposal: { isDraft: false, event: { team: { members: { some: { memberId: userId } } } } } },
+        ],
+      },
+    });
+    if (!attachment) throw new AttachmentNotFoundError();
+    return attachment;
+  }
+
+  // Files out of the event limits are not uploaded, the reason is returned to be shown to the speaker
+  async upload(file: File) {
+    const proposal = await this.getProposal();
+
+    const limits = new AttachmentLimits(proposal.event);
+    const error = limits.validate(file);
+    if (error) return { error, maxSizeInBytes: limits.maxSizeInBytes };
+
+    const hash = randomUUID().slice(0, 8);
+    const storageKey = privateStorageKey(
+      `proposals/${proposal.id}/attachments/${hash}.${limits.extensionOf(file.type)}`,
+    );
+
+    const storage = StorageService.create();
+    const body = Readable.fromWeb(file.stream() as ReadableStream);
+    await storage.upload(storageKey, body, file.type, file.size);
+
+    const attachment = await db.attachment.create({
+      data: {
+        proposalId: proposal.id,
+        talkId: proposal.talkId,
+        uploadedById: this.userId,
+        name: file.name,
+        storageKey,
+        contentType: file.type,
+        size: file.size,
+      },
+    });
+    return { error: null, attachment: ProposalAttachments.toAttachmentData(attachment) };
+  }
+
+  async delete(attachmentId: string) {
+    await this.getProposal();
+
+    const attachment = await db.attachment.findFirst({ where: { id: attachmentId, proposalId: this.proposalId } });
+    if (!attachment) throw new AttachmentNotFoundError();
+
+    await db.attachment.delete({ where: { id: attachment.id } });
+
+    const storage = StorageService.create();
+    await storage.deleteQuietly(attachment.storageKey);
+  }
+
+  private async getProposal() {
+    const proposal = await db.proposal.findFirst({
+      where: { id: this.proposalId, speakers: { some: { userId: this.userId } } },
+      include: { event: true },
+    });
+    if (!proposal) throw new ProposalNotFoundError();
+    return proposal;
+  }
+}
@@ -4,6 +4,7 @@ import { eventFormatFactory } from 'tests/factories/formats.ts';
 import { proposalFactory } from 'tests/factories/proposals.ts';
 import { talkFactory } from 'tests/factories/talks.ts';
 import { userFactory } from 'tests/factories/users.ts';
+import { promoteWaitlistedProposal } from '~/features/event-management/publication/services/jobs/promote-waitlisted-proposal.job.ts';
 import { sendEmail } from '~/shared/emails/send-email.job.ts';
 import { CfpNotOpenError, ProposalNotFoundError } from '~/shared/errors.server.ts';
 import { SpeakerProposalStatus } from '~/shared/types/speaker.types.ts';
@@ -103,6 +104,29 @@ describe('SpeakerProposal', () => {
       expect(result.categories[0].id).toEqual(category.id);
     });
 
+    it('records the changes as a proposal revision', async () => {
+      const event = await eventFactory({ traits: ['conference-cfp-open'] });
+      const speaker = await userFactory();
+      const talk = await talkFactory({ speakers: [speaker], attributes: { title: 'Title', abstract: 'Abstract' } });
+      const proposal = await proposalFactory({ event, talk });
+
+      await SpeakerProposal.for(speaker.id, proposal.id).update({
+        title: 'Title changed',
+        abstract: 'Abstract',
+        level: proposal.level,
+        languages: [],
+        references: proposal.references,
+      });
+
+      const revisions = await db.proposalRevision.findMany({ where: { proposalId: proposal.id } });
+      expect(revisions).toEqual([
+        expect.objectContaining({
+          userId: speaker.id,
+          changes: [{ field: 'title', before: 'Title', after: 'Title changed' }],
+        }),
+      ]);
+    });
+
     it('throws an error when CFP is not open', async () => {
       const event = await eventFactory({ traits: ['conference-cfp-past'] });
       const speaker = await userFactory();
@@ -277,6 +301,18 @@ describe('SpeakerProposal', () => {
           to: [event.emailOrganizer],
         }),
       );
+      expect(promoteWaitlistedProposal.trigger).not.toHaveBeenCalled();
+    });
+
+    it('triggers the waitlist promotion when a proposal is declined and automatic promotion is enabled', async () => {
+      const event = await eventFactory({ attributes: { waitlistAutoPromotion: true } });
+      const speaker = await userFactory();
+      const talk = await talkFactory({ speakers: [speaker] });
+      const proposal = await proposalFactory({ event, talk, traits: ['accepted-published'] });
+
+      await SpeakerProposal.for(speaker.id, proposal.id).confirm('DECLINED');
+
+      expect(promoteWaitlistedProposal.trigger).toHaveBeenCalledWith({ declinedProposalId: proposal.id });
     });
 
     it('cannot confirm or declined a not accepted proposal', async () => {
@@ -1,3 +1,6 @@
+import { detectProposalDuplicates } from '~/features/event-management/proposals/services/jobs/detect-proposal-duplicates.job.ts';
+import { ProposalRevisions } from '~/features/event-management/proposals/services/proposal-revisions.server.ts';
+import { promoteWaitlistedProposal } from '~/features/event-management/publication/services/jobs/promote-waitlisted-proposal.job.ts';
 import { EventSpeakerForProposal } from '~/features/event-participation/speaker-proposals/services/event-speaker-for-proposal.ts';
 import { sendEmail } from '~/shared/emails/send-email.job.ts';
 import ProposalConfirmedEmail from '~/shared/emails/templates/organizers/proposal-confirmed.email.tsx';
@@ -66,14 +69,16 @@ export class SpeakerProposal {
     if (!proposal.event.isCfpOpen) throw new CfpNotOpenError();
 
     const { formats, categories, ...talk } = data;
-    await db.proposal.update({
-      where: { id: this.proposalId },
-      data: {
-        ...talk,
-        formats: { set: [], connect: formats?.map((id) => ({ id })) },
-        categories: { set: [], connect: categories?.map((id) => ({ id })) },
-      },
-    });
+    await ProposalRevisions.track(this.proposalId, this.userId, () =>
+      db.proposal.update({
+        where: { id: this.proposalId },
+        data: {
+          ...talk,
+          formats: { set: [], connect: formats?.map((id) => ({ id })) },
+          categories: { set: [], connect: categories?.map((id) => ({ id })) },
+        },
+      }),
+    );
 
     if (proposal.talkId) {
       await db.talk.update({
@@ -81,6 +86,8 @@ export class SpeakerProposal {
         data: talk,
       });
     }
+
+    await detectProposalDuplicates.trigger({ proposalId: this.proposalId });
   }
 
   async removeCoSpeaker(coSpeakerUserId: string) {
@@ -89,7 +96,9 @@ export class SpeakerProposal {
     });
     if (!proposal) throw new ProposalNotFoundError();
 
-    await EventSpeakerForProposal.for(proposal.eventId).removeSpeakerFromProposal(this.proposalId, coSpeakerUserId);
+    await ProposalRevisions.track(this.proposalId, this.userId, () =>
+      EventSpeakerForProposal.for(proposal.eventId).removeSpeakerFromProposal(this.proposalId, coSpeakerUserId),
+    );
   }
 
   async delete() {
@@ -117,6 +126,10 @@ export class SpeakerProposal {
 
     if (result.count <= 0) return;
 
+    if (participation === 'DECLINED' && proposal.event.waitlistAutoPromotion) {
+      await promoteWaitlistedProposal.trigger({ declinedProposalId: this.proposalId });
+    }
+
     if (!proposal.event.emailOrganizer) return;
 
     // send email to organizers
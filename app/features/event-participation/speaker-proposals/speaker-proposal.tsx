@@ -1,4 +1,5 @@
 import { parseWithZod } from '@conform-to/zod/v4';
+import { MaxFileSizeExceededError, parseFormData } from '@remix-run/form-data-parser';
 import { useTranslation } from 'react-i18next';
 import { href, redirect } from 'react-router';
 import z from 'zod';
@@ -15,7 +16,12 @@ import {
   ConversationMessageReactSchema,
   ConversationMessageSaveSchema,
 } from '~/features/conversations/services/conversation.schema.server.ts';
+import {
+  ATTACHMENT_MAX_FILE_SIZE,
+  formatFileSize,
+} from '~/features/event-management/settings/models/attachment-limits.ts';
 import { EventPage } from '~/features/event-participation/event-page/services/event-page.server.ts';
+import { ProposalAttachments } from '~/features/event-participation/speaker-proposals/services/proposal-attachments.server.ts';
 import { SpeakerProposal } from '~/features/event-participation/speaker-proposals/services/speaker-proposal.server.ts';
 import { TalkEditButton } from '~/features/speaker/talk-library/components/talk-forms/talk-form-drawer.tsx';
 import { RequireAuthContext, requireAuth } from '~/shared/authentication/auth.middleware.ts';
@@ -25,6 +31,7 @@ import { toast, toastHeaders } from '~/shared/toasts/toast.server.ts';
 import type { Message } from '~/shared/types/conversation.types.ts';
 import { ProposalParticipationSchema, TalkSaveSchema } from '~/shared/types/speaker-talk.types.ts';
 import { SpeakerProposalStatus } from '~/shared/types/speaker.types.ts';
+import { TalkAttachments } from '../../speaker/talk-library/components/talk-attachments.tsx';
 import { TalkSection } from '../../speaker/talk-library/components/talk-section.tsx';
 import { useCurrentEvent } from '../event-page-context.tsx';
 import type { Route } from './+types/speaker-proposal.ts';
@@ -36,7 +43,8 @@ export const loader = async ({ params, context }: Route.LoaderArgs) => {
   const authUser = context.get(RequireAuthContext);
   const proposal = await SpeakerProposal.for(authUser.id, params.proposal).get();
   const conversation = await ConversationService.forSpeaker(authUser.id, params.proposal).getConversation();
-  return { proposal, conversation };
+  const attachments = await ProposalAttachments.for(authUser.id, params.proposal).list();
+  return { proposal, conversation, attachments };
 };
 
 export const action = async ({ request, params, context }: Route.ActionArgs) => {
@@ -44,7 +52,17 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
 
   const i18n = getI18n(context);
   const proposal = SpeakerProposal.for(authUser.id, params.proposal);
-  const form = await request.formData();
+
+  let form: FormData;
+  try {
+    form = await parseFormData(request, { maxFiles: 1, maxFileSize: ATTACHMENT_MAX_FILE_SIZE });
+  } catch (error) {
+    if (error instanceof MaxFileSizeExceededError) {
+      const maxSize = formatFileSize(ATTACHMENT_MAX_FILE_SIZE, i18n.language);
+      return toast('error', i18n.t('talk.attachments.errors.too-large', { maxSize }));
+    }
+    return toast('error', i18n.t('error.global'));
+  }
   const intent = form.get('intent');
 
   switch (intent) {
@@ -72,6 +90,21 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
       await proposal.update(result.value);
       return toast('success', i18n.t('event.proposal.feedbacks.saved'));
     }
+    case 'upload-attachment': {
+      const file = form.get('attachment');
+      if (!(file instanceof File)) return toast('error', i18n.t('error.global'));
+      const result = await ProposalAttachments.for(authUser.id, params.proposal).upload(file);
+      if (result.error) {
+        const maxSize = formatFileSize(result.maxSizeInBytes, i18n.language);
+        return toast('error', i18n.t(`talk.attachments.errors.${result.error}`, { maxSize }));
+      }
+      return toast('success', i18n.t('talk.attachments.feedbacks.uploaded'));
+    }
+    case 'delete-attachment': {
+      const attachmentId = form.get('attachmentId')?.toString() as string;
+      await ProposalAttachments.for(authUser.id, params.proposal).delete(attachmentId);
+      return toast('success', i18n.t('talk.attachments.feedbacks.deleted'));
+    }
     case 'save-message': {
       const conversation = ConversationService.forSpeaker(authUser.id, params.proposal);
       const result = parseWithZod(form, { schema: ConversationMessageSaveSchema });
@@ -100,7 +133,7 @@ export const action = async ({ request, params, context }: Route.ActionArgs) =>
 
 export default function ProposalRoute({ loaderData, actionData: errors }: Route.ComponentProps) {
   const { t } = useTranslation();
-  const { proposal, conversation } = loaderData;
+  const { proposal, conversation, attachments } = loaderData;
   const currentEvent = useCurrentEvent();
   const canEdit = proposal.status === SpeakerProposalStatus.Submitted;
   const speakerConversationEnabled = useFlag('speakersCommunication') && currentEvent.speakersConversationEnabled;
@@ -118,7 +151,9 @@ export default function ProposalRoute({ loaderData, actionData: errors }: Route.
           showSpeakers
           showFormats
           showCategories
-        />
+        >
+          <TalkAttachments attachments={attachments} limits={currentEvent} canEdit />
+        </TalkSection>
       </div>
 
       {speakerConversationEnabled ? <ProposalConversationFeed messages={conversation} /> : null}
@@ -0,0 +1,126 @@
+import { PaperClipIcon } from '@heroicons/react/20/solid';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { type ChangeEvent, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Form, useSubmit } from 'react-router';
+import { Button } from '~/design-system/button.tsx';
+import { ButtonFileUpload } from '~/design-system/forms/file-upload-button.tsx';
+import { H2, Subtitle, Text } from '~/design-system/typography.tsx';
+import {
+  ATTACHMENT_FILE_TYPE_KEYS,
+  AttachmentLimits,
+  formatFileSize,
+} from '~/features/event-management/settings/models/attachment-limits.ts';
+
+type Attachment = { id: string; name: string; size: number; url: string };
+
+type Props = {
+  attachments: Array<Attachment>;
+  limits?: { attachmentMaxSize: number; attachmentFileTypes: Array<string> };
+  canEdit?: boolean;
+};
+
+export function TalkAttachments({ attachments, limits, canEdit = false }: Props) {
+  const { t, i18n } = useTranslation();
+  const attachmentLimits = limits ? new AttachmentLimits(limits) : null;
+  const canUpload = canEdit && Boolean(attachmentLimits?.isEnabled);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = useSubmit();
+  const handleUpload = (event: ChangeEvent<HTMLFormElement>) => {
+    const file = inputRef.current?.files?.item(0);
+    if (!file || !attachmentLimits) return;
+
+    const validationError = attachmentLimits.validate(file);
+    if (validationError) {
+      const maxSize = formatFileSize(attachmentLimits.maxSizeInBytes, i18n.language);
+      setError(t(`talk.attachments.errors.${validationError}`, { maxSize }));
+      return;
+    }
+
+    submit(new FormData(event.currentTarget), { method: 'post', encType: 'multipart/form-data' });
+    setError(null);
+  };
+
+  if (attachments.length === 0 && !canUpload) return null;
+
+  return (
+    <section className="space-y-3 border-t border-t-gray-200 px-6 py-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <H2 size="s">{t('talk.attachments.heading')}</H2>
+          {canUpload && attachmentLimits ? (
+            <Subtitle size="xs">
+              {t('talk.attachments.limits', {
+                maxSize: formatFileSize(attachmentLimits.maxSizeInBytes, i18n.language),
+                types: ATTACHMENT_FILE_TYPE_KEYS.filter((type) => limits?.attachmentFileTypes.includes(type))
+                  .map((type) => t(`common.attachments.types.${type}`))
+                  .join(', '),
+              })}
+            </Subtitle>
+          ) : null}
+        </div>
+
+        {canUpload && attachmentLimits ? (
+          <Form method="POST" encType="multipart/form-data" onChange={handleUpload}>
+            <input type="hidden" name="intent" value="upload-attachment" />
+            <ButtonFileUpload
+              ref={inputRef}
+              name="attachment"
+              accept={attachmentLimits.contentTypes.join(',')}
+              variant="secondary"
+            >
+              {t('talk.attachments.upload')}
+            </ButtonFileUpload>
+          </Form>
+        ) : null}
+      </div>
+
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+      {attachments.length > 0 ? (
+        <ul
+          aria-label={t('talk.attachments.heading')}
+          className="divide-y divide-gray-100 rounded-md border border-gray-200"
+        >
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-4 py-2 pr-2 pl-4">
+              <div className="flex min-w-0 items-center gap-2">
+                <PaperClipIcon className="h-4 w-4 shrink-0 text-gray-400" aria-hidden />
+                <a
+                  href={attachment.url}
+                  download={attachment.name}
+                  className="truncate text-sm font-medium text-indigo-600 hover:text-indigo-500"
+                >
+                  {attachment.name}
+                </a>
+                <Text variant="secondary" size="xs" className="shrink-0">
+                  {formatFileSize(attachment.size, i18n.language)}
+                </Text>
+              </div>
+
+              {canEdit ? (
+                <Form method="POST">
+                  <input type="hidden" name="attachmentId" value={attachment.id} />
+                  <Button
+                    type="submit"
+                    name="intent"
+                    value="delete-attachment"
+                    icon={TrashIcon}
+                    label={t('talk.attachments.delete', { name: attachment.name })}
+                    variant="important"
+                    size="sm"
+                  />
+                </Form>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <Text variant="secondary">{t('talk.attachments.empty')}</Text>
+      )}
+    </section>
+  );
+}
@@ -47,6 +47,7 @@ describe('SpeakerTalk', () => {
             isCurrentUser: true,
           },
         ],
+        attachments: [],
         submissions: [],
       });
     });
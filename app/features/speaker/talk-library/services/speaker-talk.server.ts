@@ -1,3 +1,4 @@
+import { ProposalAttachments } from '~/features/event-participation/speaker-proposals/services/proposal-attachments.server.ts';
 import { TalkNotFoundError } from '~/shared/errors.server.ts';
 import { resolveStorageUrl } from '~/shared/storage/storage-utils.ts';
 import type { Languages } from '~/shared/types/proposals.types.ts';
@@ -26,6 +27,7 @@ export class SpeakerTalk {
           where: { speakers: { some: { userId: this.userId } } },
           include: { event: true },
         },
+        attachments: { orderBy: { createdAt: 'asc' } },
       },
     });
     if (!talk) throw new TalkNotFoundError();
@@ -51,6 +53,7 @@ export class SpeakerTalk {
           isCurrentUser: user.id === this.userId,
         }))
         .toSorted((a, b) => (a.isOwner ? -1 : 0) - (b.isOwner ? -1 : 0)),
+      attachments: talk.attachments.map(ProposalAttachments.toAttachmentData),
       submissions: talk.proposals
         .map((proposal) => ({
           slug: proposal.event.slug,
@@ -8,6 +8,7 @@ import { getI18n } from '~/shared/i18n/i18n.middleware.ts';
 import { toast } from '~/shared/toasts/toast.server.ts';
 import { TalkSaveSchema } from '~/shared/types/speaker-talk.types.ts';
 import type { Route } from './+types/talk.ts';
+import { TalkAttachments } from './components/talk-attachments.tsx';
 import { TalkArchiveButton } from './components/talk-forms/talk-archive-button.tsx';
 import { TalkEditButton } from './components/talk-forms/talk-form-drawer.tsx';
 import { TalkSubmitButton } from './components/talk-forms/talk-submit-button.tsx';
@@ -73,7 +74,9 @@ export default function SpeakerTalkRoute({ loaderData: talk, actionData: errors
           }
           canEditSpeakers
           showSpeakers
-        />
+        >
+          <TalkAttachments attachments={talk.attachments} />
+        </TalkSection>
 
         {talk.submissions.length > 0 ? <TalkSubmissionsSection submissions={talk.submissions} /> : null}
       </div>
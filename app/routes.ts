@@ -19,6 +19,8 @@ export default [
     route('proposals', './features/event-participation/speaker-proposals/speaker-proposals.tsx'),
     route('proposals/:proposal', './features/event-participation/speaker-proposals/speaker-proposal.tsx'),
     route('survey', './features/event-participation/speaker-survey/speaker-survey.tsx'),
+    route('schedule', './features/event-participation/public-schedule/public-schedule.tsx'),
+    route('schedule/:session', './features/event-participation/public-schedule/public-schedule-session.tsx'),
 
     // Event submission pages
     route('submission', './features/event-participation/cfp-submission/cfp-submission.tsx', [
@@ -89,6 +91,9 @@ export default [
     // Event proposal pages
     route('proposals', './features/event-management/proposals/proposals.tsx'),
     route('proposals/new', './features/event-management/proposals/new-proposal.tsx'),
+    route('proposals/compare', './features/event-management/proposals/proposals-comparison.tsx'),
+    route('proposals/review', './features/event-management/proposals/proposals-review-session.tsx'),
+    route('proposals/history', './features/event-management/proposals/proposals-history.tsx'),
     route('proposals/:proposal', './features/event-management/proposals/proposal.tsx'),
 
     // Event speakers page
@@ -97,6 +102,10 @@ export default [
     route('speakers/:speaker', './features/event-management/speakers/speaker.tsx'),
     route('speakers/:speaker/edit', './features/event-management/speakers/edit-speaker.tsx'),
 
+    // Event email campaigns pages
+    route('campaigns', './features/event-management/campaigns/campaigns.tsx'),
+    route('campaigns/:campaign', './features/event-management/campaigns/campaign.tsx'),
+
     // Event publication pages
     route('publication', './features/event-management/publication/publication.tsx'),
 
@@ -104,6 +113,7 @@ export default [
     route('schedule', './features/event-management/schedule/new.tsx'),
     route('schedule/:day', './features/event-management/schedule/schedule.tsx'),
     route('schedule/export/json', './features/event-management/schedule-export/json.tsx'),
+    route('schedule/export/ics', './features/event-management/schedule-export/ics.tsx'),
 
     // Event settings pages
     route('settings', './features/event-management/settings/settings.tsx', [
@@ -153,6 +163,7 @@ export default [
   // Api pages
   route('api/v1/event/:event', './features/event-management/proposals-export/api.tsx'),
   route('api/v1/event/:event/schedule', './features/event-management/schedule-export/api.tsx'),
+  route('api/v1/event/:event/schedule/ics', './features/event-management/schedule-export/api-ics.tsx'),
 
   // Locales route
   route('locales/:lng/:ns', './app-platform/locales.ts'),
@@ -164,6 +175,9 @@ export default [
   // File storage route
   route('storage/*', './app-platform/storage/storage.ts'),
 
+  // Proposal attachments route
+  route('attachments/:attachment', './features/event-participation/speaker-proposals/attachment.ts'),
+
   // Healthcheck route
   route('healthcheck', './app-platform/healthcheck.ts'),
 
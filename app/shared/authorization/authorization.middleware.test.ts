@@ -150,6 +150,7 @@ describe('requireAuthorizedTeam', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       },
     };
 
@@ -257,6 +258,7 @@ describe('requireAuthorizedEvent', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       },
     };
 
@@ -316,6 +318,7 @@ describe('requireAuthorizedEvent', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       },
     };
 
@@ -356,6 +359,7 @@ describe('requireAuthorizedEvent', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       },
     };
 
@@ -400,6 +404,7 @@ describe('requireAuthorizedEvent', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       },
     };
 
@@ -447,6 +452,7 @@ describe('middleware chain behavior', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       },
     };
 
@@ -26,6 +26,7 @@ describe('UserTeamPermissions', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: true,
+        canAssignReviews: true,
       });
     });
 
@@ -52,6 +53,7 @@ describe('UserTeamPermissions', () => {
         canPublishEventResults: true,
         canEditEventSchedule: true,
         canDismissReviews: false,
+        canAssignReviews: true,
       });
     });
 
@@ -78,6 +80,7 @@ describe('UserTeamPermissions', () => {
         canPublishEventResults: false,
         canEditEventSchedule: false,
         canDismissReviews: false,
+        canAssignReviews: false,
       });
     });
   });
@@ -20,6 +20,7 @@ const TEAM_OWNER_PERMISSIONS: TeamPermissions = {
   canPublishEventResults: true,
   canEditEventSchedule: true,
   canDismissReviews: true,
+  canAssignReviews: true,
 };
 
 const TEAM_MEMBER_PERMISSIONS: TeamPermissions = {
@@ -42,6 +43,7 @@ const TEAM_MEMBER_PERMISSIONS: TeamPermissions = {
   canPublishEventResults: true,
   canEditEventSchedule: true,
   canDismissReviews: false,
+  canAssignReviews: true,
 };
 
 const TEAM_REVIEWER_PERMISSIONS: TeamPermissions = {
@@ -64,6 +66,7 @@ const TEAM_REVIEWER_PERMISSIONS: TeamPermissions = {
   canPublishEventResults: false,
   canEditEventSchedule: false,
   canDismissReviews: false,
+  canAssignReviews: false,
 };
 
 const NO_PERMISSIONS: TeamPermissions = {
@@ -86,6 +89,7 @@ const NO_PERMISSIONS: TeamPermissions = {
   canPublishEventResults: false,
   canEditEventSchedule: false,
   canDismissReviews: false,
+  canAssignReviews: false,
 };
 
 function getPermissions(teamRole?: TeamRole) {
@@ -24,6 +24,7 @@ export type TeamPermissions = {
   readonly canPublishEventResults: boolean;
   readonly canEditEventSchedule: boolean;
   readonly canDismissReviews: boolean;
+  readonly canAssignReviews: boolean;
 };
 
 export type TeamPermission = keyof TeamPermissions;
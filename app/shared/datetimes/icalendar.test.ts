@@ -0,0 +1,107 @@
+import { type ICalendar, toICalendar } from './icalendar.ts';
+
+describe('icalendar', () => {
+  const calendar: ICalendar = {
+    name: 'Devfest 2024',
+    timezone: 'Europe/Paris',
+    period: { start: new Date('2024-10-05T00:00:00.000Z'), end: new Date('2024-10-06T00:00:00.000Z') },
+    events: [
+      {
+        uid: 'session-1@conference-hall',
+        start: new Date('2024-10-05T08:00:00.000Z'),
+        end: new Date('2024-10-05T08:45:00.000Z'),
+        updatedAt: new Date('2024-09-01T10:30:00.000Z'),
+        summary: 'Hello, world; again',
+        description: 'Line 1\nLine 2',
+        location: 'Room 1',
+        categories: ['Web', 'Cloud'],
+      },
+    ],
+  };
+
+  describe('#toICalendar', () => {
+    it('generates a calendar with CRLF line endings', () => {
+      const ics = toICalendar(calendar);
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('X-WR-CALNAME:Devfest 2024');
+      expect(ics).toContain('X-WR-TIMEZONE:Europe/Paris');
+    });
+
+    it('expresses events in the calendar timezone', () => {
+      const lines = toICalendar(calendar).split('\r\n');
+
+      expect(lines).toContain('UID:session-1@conference-hall');
+      expect(lines).toContain('DTSTAMP:20240901T103000Z');
+      expect(lines).toContain('DTSTART;TZID=Europe/Paris:20241005T100000');
+      expect(lines).toContain('DTEND;TZID=Europe/Paris:20241005T104500');
+      expect(lines).toContain('LOCATION:Room 1');
+      expect(lines).toContain('CATEGORIES:Web,Cloud');
+    });
+
+    it('escapes text values', () => {
+      const lines = toICalendar(calendar).split('\r\n');
+
+      expect(lines).toContain('SUMMARY:Hello\\, world\\; again');
+      expect(lines).toContain('DESCRIPTION:Line 1\\nLine 2');
+    });
+
+    it('folds lines longer than 75 octets', () => {
+      const summary = 'é'.repeat(60);
+      const ics = toICalendar({ ...calendar, events: [{ ...calendar.events[0], summary }] });
+
+      const lines = ics.split('\r\n');
+      const index = lines.findIndex((line) => line.startsWith('SUMMARY:'));
+      expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+      expect(lines[index + 1].startsWith(' ')).toBe(true);
+      expect(ics.replaceAll('\r\n ', '')).toContain(`SUMMARY:${summary}\r\n`);
+    });
+
+    it('generates the timezone offset changes of the period', () => {
+      const ics = toICalendar(calendar);
+      const vtimezone = ics.slice(ics.indexOf('BEGIN:VTIMEZONE'), ics.indexOf('END:VTIMEZONE'));
+
+      expect(vtimezone.split('\r\n')).toEqual([
+        'BEGIN:VTIMEZONE',
+        'TZID:Europe/Paris',
+        'X-LIC-LOCATION:Europe/Paris',
+        'BEGIN:STANDARD',
+        'DTSTART:20240101T010000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0100',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:20240331T020000',
+        'TZOFFSETFROM:+0100',
+        'TZOFFSETTO:+0200',
+        'END:DAYLIGHT',
+        'BEGIN:STANDARD',
+        'DTSTART:20241027T030000',
+        'TZOFFSETFROM:+0200',
+        'TZOFFSETTO:+0100',
+        'END:STANDARD',
+        '',
+      ]);
+    });
+
+    it('generates a single observance for timezones without offset changes', () => {
+      const ics = toICalendar({ ...calendar, timezone: 'Asia/Tokyo', events: [] });
+
+      expect(ics).toContain(
+        [
+          'BEGIN:VTIMEZONE',
+          'TZID:Asia/Tokyo',
+          'X-LIC-LOCATION:Asia/Tokyo',
+          'BEGIN:STANDARD',
+          'DTSTART:20240101T090000',
+          'TZOFFSETFROM:+0900',
+          'TZOFFSETTO:+0900',
+          'END:STANDARD',
+          'END:VTIMEZONE',
+        ].join('\r\n'),
+      );
+      expect(ics).not.toContain('BEGIN:VEVENT');
+    });
+  });
+});
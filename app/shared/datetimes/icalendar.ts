@@ -0,0 +1,162 @@
+import { TZDate } from '@date-fns/tz';
+import { format } from 'date-fns';
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+type ICalendarEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  updatedAt: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  categories?: Array<string>;
+};
+
+export type ICalendar = {
+  name: string;
+  timezone: string;
+  period: { start: Date; end: Date };
+  events: Array<ICalendarEvent>;
+};
+
+/** Generate a RFC 5545 iCalendar document, events are expressed in the calendar timezone */
+export function toICalendar({ name, timezone, period, events }: ICalendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Conference Hall//Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timezone}`,
+    ...toVTimezone(timezone, period),
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtcDateTime(event.updatedAt)}`,
+      `DTSTART;TZID=${timezone}:${formatLocalDateTime(event.start, timezone)}`,
+      `DTEND;TZID=${timezone}:${formatLocalDateTime(event.end, timezone)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/** Generate the VTIMEZONE block with the timezone offset changes over the years of the period */
+function toVTimezone(timezone: string, period: { start: Date; end: Date }): Array<string> {
+  const from = new Date(Date.UTC(period.start.getUTCFullYear(), 0, 1));
+  const to = new Date(Date.UTC(period.end.getUTCFullYear() + 1, 0, 1));
+
+  const transitions = getOffsetTransitions(timezone, from, to);
+  const initialOffset = getOffset(from, timezone);
+  const standardOffset = Math.min(initialOffset, ...transitions.map(({ offsetTo }) => offsetTo));
+
+  const components = [{ date: from, offsetFrom: initialOffset, offsetTo: initialOffset }, ...transitions].flatMap(
+    ({ date, offsetFrom, offsetTo }) => {
+      const type = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${type}`,
+        // The onset of an observance is expressed in the local time before the offset change
+        `DTSTART:${formatDateTime(new Date(date.getTime() + offsetFrom * MINUTE))}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        `END:${type}`,
+      ];
+    },
+  );
+
+  return ['BEGIN:VTIMEZONE', `TZID:${timezone}`, `X-LIC-LOCATION:${timezone}`, ...components, 'END:VTIMEZONE'];
+}
+
+function getOffsetTransitions(timezone: string, from: Date, to: Date) {
+  const transitions: Array<{ date: Date; offsetFrom: number; offsetTo: number }> = [];
+
+  let previous = from.getTime();
+  let previousOffset = getOffset(from, timezone);
+
+  for (let time = previous + DAY; time <= to.getTime(); time += DAY) {
+    const offset = getOffset(new Date(time), timezone);
+
+    if (offset !== previousOffset) {
+      // Offsets change at most once a day, the exact minute is found by bisecting the day
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+        if (getOffset(new Date(middle), timezone) === previousOffset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ date: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+    }
+
+    previous = time;
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
+
+function getOffset(date: Date, timezone: string) {
+  return -new TZDate(date, timezone).getTimezoneOffset();
+}
+
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, '0');
+  const remainingMinutes = String(Math.abs(minutes) % 60).padStart(2, '0');
+  return `${sign}${hours}${remainingMinutes}`;
+}
+
+function formatDateTime(date: Date) {
+  return date.toISOString().slice(0, 19).replace(/[-:]/g, '');
+}
+
+function formatUtcDateTime(date: Date) {
+  return `${formatDateTime(date)}Z`;
+}
+
+function formatLocalDateTime(date: Date, timezone: string) {
+  return format(new TZDate(date, timezone), "yyyyMMdd'T'HHmmss");
+}
+
+function escapeText(text: string) {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets are split, continuation lines start with a space
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const chunks: Array<string> = [];
+
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join(`${CRLF} `);
+}
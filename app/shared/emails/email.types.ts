@@ -16,6 +16,7 @@ export const CUSTOM_EMAIL_TEMPLATES = [
   'speakers-proposal-submitted',
   'speakers-proposal-accepted',
   'speakers-proposal-rejected',
+  'speakers-proposal-promoted',
 ] as const;
 
 export type CustomTemplateName = (typeof CUSTOM_EMAIL_TEMPLATES)[number];
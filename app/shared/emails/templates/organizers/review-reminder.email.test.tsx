@@ -0,0 +1,31 @@
+import { render } from 'react-email';
+import type { TemplateData } from './review-reminder.email.tsx';
+import ReviewReminderEmail from './review-reminder.email.tsx';
+
+describe('Review Reminder', () => {
+  describe('Special Characters Handling', () => {
+    const data: TemplateData = {
+      event: { slug: 'bdx-io', name: 'BDX I/O', logo: null, team: { slug: 'bdx-io-team' } },
+      reviewer: { email: 'reviewer@bdxio.com' },
+      unreviewedCount: 3,
+      daysLeft: 2,
+      proposal: { routeId: '456' },
+    };
+
+    it('Payload does not escape special characters', async () => {
+      const payload = ReviewReminderEmail.buildPayload(data, 'fr');
+
+      expect(payload.subject).toContain('BDX I/O');
+      expect(payload.from).toContain('BDX I/O');
+      expect(payload.to).toEqual(['reviewer@bdxio.com']);
+    });
+
+    it('Plain text does not escape special characters', async () => {
+      const result = await render(<ReviewReminderEmail locale="fr" {...data} />, { plainText: true });
+
+      expect(result).not.toContain('&#x2F;');
+      expect(result).toContain('BDX I/O');
+      expect(result).toContain('/team/bdx-io-team/bdx-io/proposals/456');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { Button, Heading, Section, Text } from 'react-email';
+import type { LocaleEmailData } from '~/shared/emails/email.types.ts';
+import type { EmailPayload } from '~/shared/emails/send-email.job.ts';
+import { buildReviewProposalUrl } from '~/shared/emails/utils/urls.ts';
+import { getEmailI18n } from '~/shared/i18n/i18n.emails.ts';
+import { resolveStorageUrl } from '~/shared/storage/storage-utils.ts';
+import BaseEventEmail from '../base-event.email.tsx';
+import { styles } from '../base.email.tsx';
+
+export type TemplateData = {
+  event: { slug: string; name: string; logo: string | null; team: { slug: string } };
+  reviewer: { email: string };
+  unreviewedCount: number;
+  daysLeft: number;
+  proposal: { routeId: string };
+};
+
+type EmailProps = TemplateData & LocaleEmailData;
+
+export default function ReviewReminderEmail({ event, unreviewedCount, daysLeft, proposal, locale }: EmailProps) {
+  const t = getEmailI18n(locale);
+
+  return (
+    <BaseEventEmail locale={locale} logoUrl={resolveStorageUrl(event.logo)}>
+      <Heading className={styles.h1}>
+        {t('organizers.review-reminder.body.title', { count: daysLeft, interpolation: { escapeValue: false } })}
+      </Heading>
+
+      <Text>
+        {t('organizers.review-reminder.body.text', {
+          count: unreviewedCount,
+          event: event.name,
+          interpolation: { escapeValue: false },
+        })}
+      </Text>
+
+      <Section className="my-8 text-center">
+        <Button href={buildReviewProposalUrl(event.team.slug, event.slug, proposal.routeId)} className={styles.button}>
+          {t('organizers.review-reminder.body.cta')}
+        </Button>
+      </Section>
+    </BaseEventEmail>
+  );
+}
+
+ReviewReminderEmail.buildPayload = (data: TemplateData, locale = 'en'): EmailPayload => {
+  const t = getEmailI18n(locale);
+  return {
+    template: 'organizers-review-reminder',
+    subject: t('organizers.review-reminder.subject', {
+      event: data.event.name,
+      count: data.daysLeft,
+      interpolation: { escapeValue: false },
+    }),
+    from: t('common.email.from.event', { event: data.event.name, interpolation: { escapeValue: false } }),
+    to: [data.reviewer.email],
+    data,
+    locale,
+  };
+};
+
+ReviewReminderEmail.PreviewProps = {
+  event: { slug: 'awesome-event', name: 'Awesome event', logo: 'seed/123/128.png', team: { slug: 'awesome-team' } },
+  reviewer: { email: 'reviewer@example.com' },
+  unreviewedCount: 12,
+  daysLeft: 3,
+  proposal: { routeId: '123' },
+} as EmailProps;
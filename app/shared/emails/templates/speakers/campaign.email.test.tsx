@@ -0,0 +1,41 @@
+import { render } from 'react-email';
+import type { TemplateData } from './campaign.email.tsx';
+import SpeakersCampaignEmail from './campaign.email.tsx';
+
+describe('Speakers Campaign', () => {
+  const data: TemplateData = {
+    event: { id: 'bdx-io', slug: 'bdx-io', name: 'BDX I/O', logo: null },
+    subject: 'Slides for {{proposal}} at {{event}}',
+    content: 'Hello {{speaker}},\n\nPlease send the slides of **{{proposal}}**. {{unknown}}',
+    speaker: { name: 'Ada Lovelace', email: 'ada@example.com', locale: 'fr' },
+    proposal: { title: 'Random Proposal w/ special characters ✨' },
+  };
+
+  it('builds the payload for the speaker with merged variables in the subject', () => {
+    const payload = SpeakersCampaignEmail.buildPayload(data);
+
+    expect(payload).toEqual(
+      expect.objectContaining({
+        template: 'speakers-campaign',
+        to: ['ada@example.com'],
+        subject: 'Slides for Random Proposal w/ special characters ✨ at BDX I/O',
+        locale: 'fr',
+      }),
+    );
+    expect(payload.from).toContain('BDX I/O');
+  });
+
+  it('renders the content with merged variables', async () => {
+    const result = await render(<SpeakersCampaignEmail locale="fr" {...data} />, { plainText: true });
+
+    expect(result).toContain('Hello Ada Lovelace,');
+    expect(result).toContain('Please send the slides of Random Proposal w/ special characters ✨.');
+    expect(result).toContain('{{unknown}}');
+  });
+
+  it('replaces the proposal variable with an empty text when there is no proposal', async () => {
+    const result = await render(<SpeakersCampaignEmail locale="en" {...data} proposal={null} />, { plainText: true });
+
+    expect(result).not.toContain('{{proposal}}');
+  });
+});
@@ -0,0 +1,61 @@
+import { Heading } from 'react-email';
+import type { LocaleEmailData } from '~/shared/emails/email.types.ts';
+import type { EmailPayload } from '~/shared/emails/send-email.job.ts';
+import { EmailMarkdown } from '~/shared/emails/utils/email-markdown.tsx';
+import { getEmailI18n } from '~/shared/i18n/i18n.emails.ts';
+import { resolveStorageUrl } from '~/shared/storage/storage-utils.ts';
+import BaseEventEmail from '../base-event.email.tsx';
+import { styles } from '../base.email.tsx';
+
+export type TemplateData = {
+  event: { id: string; slug: string; name: string; logo: string | null };
+  subject: string;
+  content: string;
+  speaker: { name: string; email: string; locale: string };
+  proposal: { title: string } | null;
+};
+
+type EmailProps = TemplateData & LocaleEmailData;
+
+export default function SpeakersCampaignEmail({ event, subject, content, speaker, proposal, locale }: EmailProps) {
+  const variables = getMergeVariables({ event, speaker, proposal });
+
+  return (
+    <BaseEventEmail locale={locale} logoUrl={resolveStorageUrl(event.logo)}>
+      <Heading className={styles.h1}>{interpolateSubject(subject, variables)}</Heading>
+
+      <EmailMarkdown variables={variables}>{content}</EmailMarkdown>
+    </BaseEventEmail>
+  );
+}
+
+SpeakersCampaignEmail.buildPayload = (data: TemplateData, localeOverride?: string): EmailPayload => {
+  const locale = localeOverride || data.speaker.locale || 'en';
+  const t = getEmailI18n(locale);
+
+  return {
+    template: 'speakers-campaign',
+    subject: interpolateSubject(data.subject, getMergeVariables(data)),
+    from: t('common.email.from.event', { event: data.event.name, interpolation: { escapeValue: false } }),
+    to: [data.speaker.email],
+    data,
+    locale,
+  };
+};
+
+SpeakersCampaignEmail.PreviewProps = {
+  event: { slug: 'awesome-event', name: 'Awesome event', logo: 'seed/123/128.png' },
+  subject: 'Please send your slides',
+  content: 'Hello {{speaker}},\n\nPlease send us the slides of **{{proposal}}** before {{event}} starts.',
+  speaker: { name: 'John Doe', email: 'john@email.com', locale: 'en' },
+  proposal: { title: 'My awesome proposal' },
+} as EmailProps;
+
+function getMergeVariables({ event, speaker, proposal }: Pick<TemplateData, 'event' | 'speaker' | 'proposal'>) {
+  return { speaker: speaker.name, proposal: proposal?.title ?? '', event: event.name };
+}
+
+// Subjects are plain text, so variables are replaced without markdown sanitization
+function interpolateSubject(subject: string, variables: Record<string, string>) {
+  return subject.replace(/\{\{(\w+)\}\}/g, (match, key) => variables[key] ?? match);
+}
@@ -0,0 +1,38 @@
+import { render } from 'react-email';
+import type { TemplateData } from './proposal-promoted.email.tsx';
+import ProposalPromotedEmail from './proposal-promoted.email.tsx';
+
+describe('Proposal Promoted', () => {
+  describe('Special Characters Handling', () => {
+    const event: TemplateData['event'] = {
+      id: 'bdx-io',
+      slug: 'bdx-io',
+      name: 'BDX I/O',
+      logo: null,
+    };
+    const proposal: TemplateData['proposal'] = {
+      id: '123',
+      title: 'Random Proposal w/ special characters ✨',
+      formats: [{ name: 'Format 1' }, { name: 'Format 2' }],
+      speakers: [{ email: 'test@test.com', locale: 'fr' }],
+    };
+
+    it('Payload does not escape special characters', async () => {
+      const payload = ProposalPromotedEmail.buildPayload({ event, proposal }, 'fr');
+
+      expect(payload.subject).toContain('BDX I/O');
+      expect(payload.from).toContain('BDX I/O');
+    });
+
+    it('Plain text does not escape special characters', async () => {
+      const result = await render(
+        <ProposalPromotedEmail locale="fr" event={event} proposal={proposal} customization={null} preview={false} />,
+        { plainText: true },
+      );
+
+      expect(result).not.toContain('I&#x2F;O');
+      expect(result).toContain('I/O');
+      expect(result).toContain('Random Proposal w/ special characters ✨');
+    });
+  });
+});
@@ -8,8 +8,11 @@ import BaseEmail from './base.email.tsx';
 import OrganizersProposalConfirmed from './organizers/proposal-confirmed.email.tsx';
 import OrganizersProposalDeclined from './organizers/proposal-declined.email.tsx';
 import OrganizersProposalSubmitted from './organizers/proposal-submitted.email.tsx';
+import OrganizersReviewReminder from './organizers/review-reminder.email.tsx';
 import OrganizersTeamAccessApproved from './organizers/team-access-approved.email.tsx';
+import SpeakersCampaign from './speakers/campaign.email.tsx';
 import SpeakersProposalAccepted from './speakers/proposal-accepted.email.tsx';
+import SpeakersProposalPromoted from './speakers/proposal-promoted.email.tsx';
 import SpeakersProposalRejected from './speakers/proposal-rejected.email.tsx';
 import SpeakersProposalSubmitted from './speakers/proposal-submitted.email.tsx';
 
@@ -23,8 +26,11 @@ const EMAIL_TEMPLATES = {
   'organizers-proposal-confirmed': OrganizersProposalConfirmed,
   'organizers-proposal-declined': OrganizersProposalDeclined,
   'organizers-proposal-submitted': OrganizersProposalSubmitted,
+  'organizers-review-reminder': OrganizersReviewReminder,
   'organizers-team-access-approved': OrganizersTeamAccessApproved,
+  'speakers-campaign': SpeakersCampaign,
   'speakers-proposal-accepted': SpeakersProposalAccepted,
+  'speakers-proposal-promoted': SpeakersProposalPromoted,
   'speakers-proposal-rejected': SpeakersProposalRejected,
   'speakers-proposal-submitted': SpeakersProposalSubmitted,
 } as const;
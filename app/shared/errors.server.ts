@@ -28,6 +28,12 @@ export class ProposalNotFoundError extends NotFoundError {
   }
 }
 
+export class ProposalMergeInvalidError extends BadRequestError {
+  constructor() {
+    super('Proposals cannot be merged');
+  }
+}
+
 export class CfpNotOpenError extends BadRequestError {
   constructor() {
     super('CFP not open');
@@ -40,6 +46,12 @@ export class TalkNotFoundError extends NotFoundError {
   }
 }
 
+export class AttachmentNotFoundError extends NotFoundError {
+  constructor() {
+    super('Attachment not found');
+  }
+}
+
 export class MaxSubmittedProposalsReachedError extends BadRequestError {
   constructor() {
     super('You have reached the maximum number of proposals.');
@@ -82,6 +94,24 @@ export class ReviewDisabledError extends ForbiddenError {
   }
 }
 
+export class ReviewLockedError extends ForbiddenError {
+  constructor() {
+    super('Review period is closed');
+  }
+}
+
+export class ReviewRubricInvalidError extends BadRequestError {
+  constructor(message?: string) {
+    super(message ?? 'Review rubric invalid');
+  }
+}
+
+export class ReviewConflictError extends ForbiddenError {
+  constructor() {
+    super('Review blocked by a conflict of interest');
+  }
+}
+
 export class NotAuthorizedError extends ForbiddenError {
   constructor() {
     super('Not authorized');
@@ -1,46 +1,59 @@
-import { type JobsOptions, Queue } from 'bullmq';
+import { type JobsOptions, Queue, type RepeatOptions } from 'bullmq';
 import { getRedisClient } from '../cache/redis.server.ts';
 import { DEFAULT_QUEUE } from './worker.ts';
 
 type JobConfig<Payload> = {
   name: string;
   queue?: string;
+  repeat?: Omit<RepeatOptions, 'key'>;
   run: (payload: Payload) => Promise<void>;
 };
 
 export type Job<Payload> = {
   config: JobConfig<Payload>;
   trigger: (payload?: Payload, options?: JobsOptions) => Promise<void>;
+  schedule: () => Promise<void>;
 };
 
 const queues = new Map<string, Queue<unknown>>();
 
+function getQueue(queue: string) {
+  if (!queues.has(queue)) {
+    const connection = getRedisClient();
+
+    queues.set(
+      queue,
+      new Queue(queue, {
+        connection,
+        defaultJobOptions: {
+          attempts: 5,
+          backoff: { type: 'exponential', delay: 3000 },
+        },
+      }),
+    );
+  }
+  return queues.get(queue);
+}
+
 export function job<Payload>(config: JobConfig<Payload>): Job<Payload> {
-  const { name, queue = DEFAULT_QUEUE } = config;
+  const { name, queue = DEFAULT_QUEUE, repeat } = config;
 
   return {
     config,
     trigger: async (payload?: Payload, options?: JobsOptions) => {
-      if (!queues.has(queue)) {
-        const connection = getRedisClient();
-
-        queues.set(
-          queue,
-          new Queue(queue, {
-            connection,
-            defaultJobOptions: {
-              attempts: 5,
-              backoff: { type: 'exponential', delay: 3000 },
-            },
-          }),
-        );
-      }
-
-      await queues.get(queue)?.add(name, payload, {
+      await getQueue(queue)?.add(name, payload, {
         ...options,
         removeOnComplete: true,
         removeOnFail: false,
       });
     },
+    // upserted by job name so restarting the jobs server never duplicates a recurring job
+    schedule: async () => {
+      if (!repeat) return;
+      await getQueue(queue)?.upsertJobScheduler(name, repeat, {
+        name,
+        opts: { removeOnComplete: true, removeOnFail: false },
+      });
+    },
   };
 }
@@ -26,6 +26,14 @@ export function createJobWorkers(jobs: Array<Job<any>>): Array<JobWorker> {
   return workers;
 }
 
+export async function scheduleRecurringJobs(jobs: Array<Job<any>>) {
+  for (const job of jobs) {
+    if (!job.config.repeat) continue;
+    await job.schedule();
+    logger.info({ job: job.config.name, repeat: job.config.repeat }, '⏰ Recurring job scheduled');
+  }
+}
+
 function createJobWorker(queue: string, jobs: Array<Job<any>>): JobWorker {
   const connection = getRedisClient();
 
@@ -0,0 +1,59 @@
+import { Prisma } from '../../../prisma/generated/client.ts';
+import type { HighlightedText } from '../types/search.types.ts';
+
+// Control characters delimiting matches in headlines, as they can't be typed in proposals
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+
+// Text search configuration used to index a proposal, from its first language (see full-text search migration)
+export const proposalSearchConfig = Prisma.sql`(CASE p.languages->>0 WHEN 'fr' THEN 'french'::regconfig WHEN 'en' THEN 'english'::regconfig ELSE 'simple'::regconfig END)`;
+
+// Search vectors are computed in queries and backed by expression indexes (see full-text search migration)
+export const proposalSearchVector = Prisma.sql`(
+  setweight(to_tsvector(${proposalSearchConfig}, coalesce(p.title, '')), 'A') ||
+  setweight(to_tsvector(${proposalSearchConfig}, coalesce(p.abstract, '')), 'B') ||
+  setweight(to_tsvector(${proposalSearchConfig}, coalesce(p."references", '')), 'C')
+)`;
+
+// Speaker bios have no known language, so they are searched in both English and French
+export const speakerSearchVector = Prisma.sql`(
+  setweight(to_tsvector('simple'::regconfig, coalesce(es.name, '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(es.company, '')), 'B') ||
+  setweight(to_tsvector('english'::regconfig, coalesce(es.bio, '')), 'C') ||
+  setweight(to_tsvector('french'::regconfig, coalesce(es.bio, '')), 'C')
+)`;
+
+// Prefix search on every word of the text, stemmed with each configuration used in search vectors
+export function fullTextQuery(text: string): Prisma.Sql | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  if (!words) return null;
+
+  const terms = words.map((word) => `${word}:*`).join(' & ');
+  return Prisma.sql`(to_tsquery('english', ${terms}) || to_tsquery('french', ${terms}) || to_tsquery('simple', ${terms}))`;
+}
+
+type HeadlineOptions = { config: Prisma.Sql; document: Prisma.Sql; query: Prisma.Sql; fragments?: boolean };
+
+// Whole document with matches highlighted, or only the best fragments of it
+export function headline({ config, document, query, fragments = false }: HeadlineOptions): Prisma.Sql {
+  const options = fragments
+    ? `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=20, MinWords=10, FragmentDelimiter=" … "`
+    : `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+  return Prisma.sql`ts_headline(${config}, ${document}, ${query}, ${options})`;
+}
+
+export function parseHeadline(headline: string | null): HighlightedText | null {
+  if (!headline?.includes(HIGHLIGHT_START)) return null;
+
+  return headline
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, highlighted: false }];
+      const [match, rest = ''] = part.split(HIGHLIGHT_STOP);
+      return [
+        { text: match, highlighted: true },
+        { text: rest, highlighted: false },
+      ];
+    })
+    .filter((segment) => segment.text.length > 0);
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from 'vitest';
-import { resolveStorageUrl } from './storage-utils.ts';
+import { isPrivateStorageKey, privateStorageKey, resolveStorageUrl } from './storage-utils.ts';
 
 vi.mock('../../../servers/environment.server.ts', () => ({
   getSharedServerEnv: () => ({ APP_URL: 'http://localhost:3000' }),
@@ -21,3 +21,13 @@ describe('resolveStorageUrl', () => {
     );
   });
 });
+
+describe('privateStorageKey', () => {
+  it('prefixes keys of files not served by the public storage route', () => {
+    const key = privateStorageKey('proposals/abc123/attachments/a1b2c3d4.pdf');
+
+    expect(key).toBe('private/proposals/abc123/attachments/a1b2c3d4.pdf');
+    expect(isPrivateStorageKey(key)).toBe(true);
+    expect(isPrivateStorageKey('events/abc123/logo-a1b2c3d4.webp')).toBe(false);
+  });
+});
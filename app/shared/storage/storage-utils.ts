@@ -7,3 +7,18 @@ export function resolveStorageUrl(key: string | null): string | null {
   if (key.startsWith('data:')) return key;
   return `${APP_URL}/storage/${key}`;
 }
+
+// Private files are not served by the public storage route, only through authorized routes
+const PRIVATE_STORAGE_PREFIX = 'private/';
+
+export function privateStorageKey(key: string): string {
+  return `${PRIVATE_STORAGE_PREFIX}${key}`;
+}
+
+export function isPrivateStorageKey(key: string): boolean {
+  return key.startsWith(PRIVATE_STORAGE_PREFIX);
+}
+
+export function resolveAttachmentUrl(attachmentId: string): string {
+  return `${APP_URL}/attachments/${attachmentId}`;
+}
@@ -1,4 +1,4 @@
-import type { Readable } from 'node:stream';
+import { Readable } from 'node:stream';
 import { NoSuchKey } from '@aws-sdk/client-s3';
 import { afterEach, describe, expect, it } from 'vitest';
 import { StorageService } from './storage.server.ts';
@@ -28,6 +28,16 @@ describe('StorageService', () => {
       expect(object.contentType).toBe('image/webp');
       expect(await streamToString(object.body)).toBe('image-data');
     });
+
+    it('uploads a stream with its content length', async () => {
+      const storage = StorageService.create();
+
+      await storage.upload('test/stream.txt', Readable.from(['stream-', 'data']), 'text/plain', 11);
+
+      const object = await storage.getObject('test/stream.txt');
+      expect(object.contentLength).toBe(11);
+      expect(await streamToString(object.body)).toBe('stream-data');
+    });
   });
 
   describe('#getObject', () => {
@@ -50,13 +50,15 @@ export class StorageService {
     } while (continuationToken);
   }
 
-  async upload(key: string, body: Buffer, contentType: string): Promise<string> {
+  // Streamed bodies must be uploaded with their content length
+  async upload(key: string, body: Buffer | Readable, contentType: string, contentLength?: number): Promise<string> {
     await s3Client.send(
       new PutObjectCommand({
         Bucket: this.bucket,
         Key: key,
         Body: body,
         ContentType: contentType,
+        ContentLength: contentLength,
       }),
     );
     return key;
@@ -1,6 +1,6 @@
 import type { LANGUAGES } from '~/shared/constants.ts';
 
-export type DeliberationStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+export type DeliberationStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'WAITLISTED';
 
 export type PublicationStatus = 'NOT_PUBLISHED' | 'PUBLISHED';
 
@@ -0,0 +1 @@
+export type HighlightedText = Array<{ text: string; highlighted: boolean }>;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "review_assignments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_assignments_proposalId_idx" ON "review_assignments"("proposalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_assignments_userId_proposalId_key" ON "review_assignments"("userId", "proposalId");
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_assignments" ADD CONSTRAINT "review_assignments_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
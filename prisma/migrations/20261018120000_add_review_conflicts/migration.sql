@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "review_conflicts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "proposalId" TEXT,
+    "eventSpeakerId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_conflicts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_conflicts_eventId_idx" ON "review_conflicts"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_conflicts_userId_proposalId_key" ON "review_conflicts"("userId", "proposalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_conflicts_userId_eventSpeakerId_key" ON "review_conflicts"("userId", "eventSpeakerId");
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_conflicts" ADD CONSTRAINT "review_conflicts_eventSpeakerId_fkey" FOREIGN KEY ("eventSpeakerId") REFERENCES "event_speakers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "reviewCriteria" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "reviews" ADD COLUMN     "scores" JSONB,
+ALTER COLUMN "note" SET DATA TYPE DOUBLE PRECISION;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "proposal_list_views" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "filters" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proposal_list_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_list_views_eventId_idx" ON "proposal_list_views"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_list_views" ADD CONSTRAINT "proposal_list_views_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_list_views" ADD CONSTRAINT "proposal_list_views_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- Proposals are indexed with the text search configuration of their first language
+-- The expression must stay identical to the proposal search vector built in app/shared/search/full-text-search.server.ts
+CREATE INDEX "proposals_search_idx" ON "proposals" USING GIN ((
+    setweight(to_tsvector(CASE "languages"->>0 WHEN 'fr' THEN 'french'::regconfig WHEN 'en' THEN 'english'::regconfig ELSE 'simple'::regconfig END, coalesce("title", '')), 'A') ||
+    setweight(to_tsvector(CASE "languages"->>0 WHEN 'fr' THEN 'french'::regconfig WHEN 'en' THEN 'english'::regconfig ELSE 'simple'::regconfig END, coalesce("abstract", '')), 'B') ||
+    setweight(to_tsvector(CASE "languages"->>0 WHEN 'fr' THEN 'french'::regconfig WHEN 'en' THEN 'english'::regconfig ELSE 'simple'::regconfig END, coalesce("references", '')), 'C')
+));
+
+-- Speaker bios have no known language, so they are indexed in both English and French
+-- The expression must stay identical to the speaker search vector built in app/shared/search/full-text-search.server.ts
+CREATE INDEX "event_speakers_search_idx" ON "event_speakers" USING GIN ((
+    setweight(to_tsvector('simple'::regconfig, coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple'::regconfig, coalesce("company", '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce("bio", '')), 'C') ||
+    setweight(to_tsvector('french'::regconfig, coalesce("bio", '')), 'C')
+));
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "proposal_duplicates" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "duplicateId" TEXT NOT NULL,
+    "similarity" DOUBLE PRECISION NOT NULL,
+    "dismissedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proposal_duplicates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_duplicates_eventId_idx" ON "proposal_duplicates"("eventId");
+
+-- CreateIndex
+CREATE INDEX "proposal_duplicates_duplicateId_idx" ON "proposal_duplicates"("duplicateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_duplicates_proposalId_duplicateId_key" ON "proposal_duplicates"("proposalId", "duplicateId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_duplicates" ADD CONSTRAINT "proposal_duplicates_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_duplicates" ADD CONSTRAINT "proposal_duplicates_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_duplicates" ADD CONSTRAINT "proposal_duplicates_duplicateId_fkey" FOREIGN KEY ("duplicateId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
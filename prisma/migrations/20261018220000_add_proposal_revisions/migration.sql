@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "proposal_revisions" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "userId" TEXT,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_revisions_proposalId_createdAt_idx" ON "proposal_revisions"("proposalId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "proposal_revisions" ADD CONSTRAINT "proposal_revisions_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_revisions" ADD CONSTRAINT "proposal_revisions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "email_campaigns" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "senderId" TEXT,
+    "subject" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_campaign_recipients" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "speakerId" TEXT,
+    "proposalId" TEXT,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+
+    CONSTRAINT "email_campaign_recipients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_campaigns_eventId_createdAt_idx" ON "email_campaigns"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "email_campaign_recipients_campaignId_idx" ON "email_campaign_recipients"("campaignId");
+
+-- AddForeignKey
+ALTER TABLE "email_campaigns" ADD CONSTRAINT "email_campaigns_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_campaigns" ADD CONSTRAINT "email_campaigns_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_campaign_recipients" ADD CONSTRAINT "email_campaign_recipients_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "email_campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_campaign_recipients" ADD CONSTRAINT "email_campaign_recipients_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "event_speakers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_campaign_recipients" ADD CONSTRAINT "email_campaign_recipients_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
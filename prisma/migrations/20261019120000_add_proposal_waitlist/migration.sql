@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "DeliberationStatus" ADD VALUE 'WAITLISTED';
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "waitlistAutoPromotion" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "promotedFromId" TEXT;
+
+-- CreateTable
+CREATE TABLE "proposal_waitlist_positions" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "formatId" TEXT,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "proposal_waitlist_positions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposals_promotedFromId_key" ON "proposals"("promotedFromId");
+
+-- CreateIndex
+CREATE INDEX "proposal_waitlist_positions_formatId_idx" ON "proposal_waitlist_positions"("formatId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_waitlist_positions_proposalId_formatId_key" ON "proposal_waitlist_positions"("proposalId", "formatId");
+
+-- AddForeignKey
+ALTER TABLE "proposals" ADD CONSTRAINT "proposals_promotedFromId_fkey" FOREIGN KEY ("promotedFromId") REFERENCES "proposals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_waitlist_positions" ADD CONSTRAINT "proposal_waitlist_positions_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_waitlist_positions" ADD CONSTRAINT "proposal_waitlist_positions_formatId_fkey" FOREIGN KEY ("formatId") REFERENCES "event_formats"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "event_categories" ADD COLUMN     "capacity" INTEGER;
+
+-- AlterTable
+ALTER TABLE "event_formats" ADD COLUMN     "capacity" INTEGER;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "comparisonRating" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "proposal_comparisons" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "winnerId" TEXT NOT NULL,
+    "loserId" TEXT NOT NULL,
+    "pair" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_comparisons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposal_comparisons_userId_pair_key" ON "proposal_comparisons"("userId", "pair");
+
+-- CreateIndex
+CREATE INDEX "proposal_comparisons_eventId_userId_idx" ON "proposal_comparisons"("eventId", "userId");
+
+-- CreateIndex
+CREATE INDEX "proposal_comparisons_winnerId_idx" ON "proposal_comparisons"("winnerId");
+
+-- CreateIndex
+CREATE INDEX "proposal_comparisons_loserId_idx" ON "proposal_comparisons"("loserId");
+
+-- AddForeignKey
+ALTER TABLE "proposal_comparisons" ADD CONSTRAINT "proposal_comparisons_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_comparisons" ADD CONSTRAINT "proposal_comparisons_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_comparisons" ADD CONSTRAINT "proposal_comparisons_winnerId_fkey" FOREIGN KEY ("winnerId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_comparisons" ADD CONSTRAINT "proposal_comparisons_loserId_fkey" FOREIGN KEY ("loserId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "reviewEnd" TIMESTAMP(3),
+ADD COLUMN     "reviewLockAfterEnd" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reviewReminderDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "reviewStart" TIMESTAMP(3);
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "ProposalAuditAction" AS ENUM ('DELIBERATION_STATUS_CHANGED', 'CONFIRMATION_STATUS_CHANGED', 'PUBLICATION_STATUS_CHANGED', 'PROPOSAL_ARCHIVED', 'PROPOSAL_RESTORED', 'TAGS_CHANGED', 'FORMATS_CHANGED', 'CATEGORIES_CHANGED', 'SPEAKERS_CHANGED', 'REVIEW_DISMISSED', 'REVIEW_RESTORED');
+
+-- CreateTable
+CREATE TABLE "proposal_audit_logs" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "proposalId" TEXT NOT NULL,
+    "userId" TEXT,
+    "action" "ProposalAuditAction" NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "proposal_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposal_audit_logs_proposalId_createdAt_idx" ON "proposal_audit_logs"("proposalId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "proposal_audit_logs_eventId_createdAt_idx" ON "proposal_audit_logs"("eventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "proposal_audit_logs" ADD CONSTRAINT "proposal_audit_logs_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_audit_logs" ADD CONSTRAINT "proposal_audit_logs_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposal_audit_logs" ADD CONSTRAINT "proposal_audit_logs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "attachmentFileTypes" TEXT[] DEFAULT ARRAY['pdf', 'slides']::TEXT[],
+ADD COLUMN     "attachmentMaxSize" INTEGER NOT NULL DEFAULT 10;
+
+-- CreateTable
+CREATE TABLE "attachments" (
+    "id" TEXT NOT NULL,
+    "proposalId" TEXT,
+    "talkId" TEXT,
+    "uploadedById" TEXT,
+    "name" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attachments_storageKey_key" ON "attachments"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "attachments_proposalId_idx" ON "attachments"("proposalId");
+
+-- CreateIndex
+CREATE INDEX "attachments_talkId_idx" ON "attachments"("talkId");
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_proposalId_fkey" FOREIGN KEY ("proposalId") REFERENCES "proposals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_talkId_fkey" FOREIGN KEY ("talkId") REFERENCES "talks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ProposalAuditAction" ADD VALUE 'PROPOSAL_MERGED';
+
+-- AlterTable
+ALTER TABLE "proposals" ADD COLUMN     "mergedIntoId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "proposals" ADD CONSTRAINT "proposals_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "proposals"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,79 @@
+-- CreateTable
+CREATE TABLE "schedule_publications" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "publishedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_publications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_publications_scheduleId_version_key" ON "schedule_publications"("scheduleId", "version");
+
+-- AddForeignKey
+ALTER TABLE "schedule_publications" ADD CONSTRAINT "schedule_publications_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_publications" ADD CONSTRAINT "schedule_publications_publishedById_fkey" FOREIGN KEY ("publishedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing schedules are published as version 1 so the API and the exports keep serving them
+-- The snapshot must match the one built by EventSchedulePublication
+INSERT INTO "schedule_publications" ("id", "scheduleId", "version", "snapshot")
+SELECT
+    gen_random_uuid()::text,
+    s."id",
+    1,
+    jsonb_build_object(
+        'name', s."name",
+        'timezone', s."timezone",
+        'start', to_char(s."start", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'end', to_char(s."end", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'tracks', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('id', t."id", 'name', t."name") ORDER BY t."createdAt")
+            FROM "schedule_tracks" t
+            WHERE t."scheduleId" = s."id"
+        ), '[]'::jsonb),
+        'sessions', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', ss."id",
+                'trackId', ss."trackId",
+                'start', to_char(ss."start", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+                'end', to_char(ss."end", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+                'name', ss."name",
+                'language', NULLIF(ss."language", ''),
+                'updatedAt', to_char(ss."updatedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+                'proposal', CASE WHEN p."id" IS NULL THEN NULL ELSE jsonb_build_object(
+                    'id', p."id",
+                    'proposalNumber', p."proposalNumber",
+                    'title', p."title",
+                    'abstract', p."abstract",
+                    'level', p."level",
+                    'formats', COALESCE((
+                        SELECT jsonb_agg(f."name" ORDER BY f."order")
+                        FROM "_proposals_formats" pf
+                        JOIN "event_formats" f ON f."id" = pf."A"
+                        WHERE pf."B" = p."id"
+                    ), '[]'::jsonb),
+                    'categories', COALESCE((
+                        SELECT jsonb_agg(c."name" ORDER BY c."order")
+                        FROM "_proposals_categories" pc
+                        JOIN "event_categories" c ON c."id" = pc."A"
+                        WHERE pc."B" = p."id"
+                    ), '[]'::jsonb),
+                    'speakers', COALESCE((
+                        SELECT jsonb_agg(es."id" ORDER BY es."createdAt")
+                        FROM "_proposals_speakers" ps
+                        JOIN "event_speakers" es ON es."id" = ps."A"
+                        WHERE ps."B" = p."id"
+                    ), '[]'::jsonb)
+                ) END
+            ) ORDER BY ss."start")
+            FROM "schedule_sessions" ss
+            LEFT JOIN "proposals" p ON p."id" = ss."proposalId"
+            WHERE ss."scheduleId" = s."id"
+        ), '[]'::jsonb)
+    )
+FROM "schedules" s;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "publicScheduleEnabled" BOOLEAN NOT NULL DEFAULT false;
@@ -1,15 +1,32 @@
 import { exportToOpenPlanner } from '~/features/event-management/proposals-export/services/jobs/export-to-open-planner.job.ts';
+import { detectEventDuplicates } from '~/features/event-management/proposals/services/jobs/detect-event-duplicates.job.ts';
+import { detectProposalDuplicates } from '~/features/event-management/proposals/services/jobs/detect-proposal-duplicates.job.ts';
+import { sendReviewReminders } from '~/features/event-management/proposals/services/jobs/send-review-reminders.job.ts';
+import { promoteWaitlistedProposal } from '~/features/event-management/publication/services/jobs/promote-waitlisted-proposal.job.ts';
 import { sendTalkToSlack } from '~/features/event-participation/cfp-submission/services/send-talk-to-slack.job.ts';
 import { sendEmail } from '~/shared/emails/send-email.job.ts';
-import { createJobWorkers } from '~/shared/jobs/worker.ts';
+import { createJobWorkers, scheduleRecurringJobs } from '~/shared/jobs/worker.ts';
 import { testJob } from '../app/features/admin/debug/services/jobs/test.job.ts';
 import { logger } from '../app/shared/logger/logger.server.ts';
 import { db } from '../prisma/db.server.ts';
 
-const jobs = [sendEmail, exportToOpenPlanner, sendTalkToSlack, testJob];
+const jobs = [
+  sendEmail,
+  exportToOpenPlanner,
+  sendTalkToSlack,
+  detectProposalDuplicates,
+  detectEventDuplicates,
+  promoteWaitlistedProposal,
+  sendReviewReminders,
+  testJob,
+];
 
 const workers = createJobWorkers(jobs);
 
+scheduleRecurringJobs(jobs).catch((error) => {
+  logger.error({ error }, 'Unable to schedule recurring jobs');
+});
+
 process.on('uncaughtException', (error) => {
   logger.error({ error }, 'Uncaught exception');
 });
@@ -17,10 +17,21 @@ export async function resetDB() {
     db.teamAccessRequest.deleteMany(),
     db.survey.deleteMany(),
     db.review.deleteMany(),
+    db.reviewAssignment.deleteMany(),
+    db.reviewConflict.deleteMany(),
+    db.proposalListView.deleteMany(),
+    db.proposalDuplicate.deleteMany(),
+    db.proposalRevision.deleteMany(),
+    db.proposalAuditLog.deleteMany(),
+    db.attachment.deleteMany(),
+    db.proposalComparison.deleteMany(),
+    db.emailCampaignRecipient.deleteMany(),
+    db.emailCampaign.deleteMany(),
     db.conversationReaction.deleteMany(),
     db.conversationParticipant.deleteMany(),
     db.conversationMessage.deleteMany(),
     db.conversation.deleteMany(),
+    db.schedulePublication.deleteMany(),
     db.scheduleSession.deleteMany(),
     db.scheduleTrack.deleteMany(),
     db.schedule.deleteMany(),
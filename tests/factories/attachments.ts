@@ -0,0 +1,26 @@
+import { randFileName, randUuid } from '@ngneat/falso';
+import { db } from '../../prisma/db.server.ts';
+import type { Proposal } from '../../prisma/generated/client.ts';
+import type { AttachmentCreateInput } from '../../prisma/generated/models.ts';
+
+type FactoryOptions = {
+  proposal: Proposal;
+  attributes?: Partial<AttachmentCreateInput>;
+};
+
+export const attachmentFactory = (options: FactoryOptions) => {
+  const { attributes = {}, proposal } = options;
+
+  const defaultAttributes: AttachmentCreateInput = {
+    name: randFileName({ extension: 'pdf' }),
+    storageKey: `private/proposals/${proposal.id}/attachments/${randUuid()}.pdf`,
+    contentType: 'application/pdf',
+    size: 1024,
+    proposal: { connect: { id: proposal.id } },
+    talk: proposal.talkId ? { connect: { id: proposal.talkId } } : undefined,
+  };
+
+  const data = { ...defaultAttributes, ...attributes };
+
+  return db.attachment.create({ data });
+};
@@ -21,6 +21,7 @@ const TRAITS = {
   draft: { isDraft: true },
   accepted: { deliberationStatus: DeliberationStatus.ACCEPTED },
   rejected: { deliberationStatus: DeliberationStatus.REJECTED },
+  waitlisted: { deliberationStatus: DeliberationStatus.WAITLISTED },
   declined: {
     deliberationStatus: DeliberationStatus.ACCEPTED,
     publicationStatus: PublicationStatus.PUBLISHED,
@@ -25,6 +25,7 @@ vi.mock('~/shared/jobs/job.ts', () => {
     job: vi.fn().mockImplementation((config) => ({
       config,
       trigger: vi.fn(),
+      schedule: vi.fn(),
     })),
   };
 });